@@ -0,0 +1,8 @@
+-- AlterTable: Link streak history entries to single bet selections
+ALTER TABLE "streak_history" ADD COLUMN "selection_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "streak_history_selection_id_idx" ON "streak_history"("selection_id");
+
+-- AddForeignKey
+ALTER TABLE "streak_history" ADD CONSTRAINT "streak_history_selection_id_fkey" FOREIGN KEY ("selection_id") REFERENCES "user_bet_selections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
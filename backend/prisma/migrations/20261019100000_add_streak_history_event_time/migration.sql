@@ -0,0 +1,8 @@
+-- AlterTable: Add event time to streak history so streaks can be replayed in event order
+ALTER TABLE "streak_history" ADD COLUMN "event_time" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill existing entries: created_at is the best approximation we have
+UPDATE "streak_history" SET "event_time" = "created_at";
+
+-- CreateIndex
+CREATE INDEX "streak_history_user_id_event_time_idx" ON "streak_history"("user_id", "event_time");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "job_leases" (
+    "job_name" VARCHAR(100) NOT NULL,
+    "owner_id" VARCHAR(255) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_leases_pkey" PRIMARY KEY ("job_name")
+);
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "job_name" VARCHAR(100) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'running',
+    "instance_id" VARCHAR(255) NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "result" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_name_started_at_idx" ON "job_runs"("job_name", "started_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_idx" ON "job_runs"("status");
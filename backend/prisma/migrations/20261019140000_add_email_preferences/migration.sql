@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "email_preferences" (
+    "user_id" TEXT NOT NULL,
+    "parlay_results" BOOLEAN NOT NULL DEFAULT true,
+    "streak_milestones" BOOLEAN NOT NULL DEFAULT true,
+    "insurance_alerts" BOOLEAN NOT NULL DEFAULT true,
+    "daily_digest" BOOLEAN NOT NULL DEFAULT false,
+    "last_digest_sent_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_preferences_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_preferences_daily_digest_idx" ON "email_preferences"("daily_digest");
+
+-- AddForeignKey
+ALTER TABLE "email_preferences" ADD CONSTRAINT "email_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
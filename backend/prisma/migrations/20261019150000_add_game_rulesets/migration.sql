@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "game_rulesets" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "notes" TEXT,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_rulesets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_rulesets_version_key" ON "game_rulesets"("version");
+
+-- Seed version 1 with the rules that were hard-coded until now (DEFAULT_GAME_RULES in shared/constants/game.ts)
+INSERT INTO "game_rulesets" ("id", "version", "rules", "notes")
+VALUES (
+    gen_random_uuid()::text,
+    1,
+    '{
+        "parlayValues": {"1": 1, "2": 2, "3": 4, "4": 8, "5": 16},
+        "maxLegs": 5,
+        "insurance": {
+            "eligibleLegCounts": [4, 5],
+            "tiers": [
+                {"minStreak": 0, "costs": {"4": 3, "5": 5}},
+                {"minStreak": 15, "costs": {"4": 5, "5": 8}},
+                {"minStreak": 25, "costs": {"4": 6, "5": 10}},
+                {"minStreak": 35, "costs": {"4": 8, "5": 13}},
+                {"minStreak": 45, "costs": {"4": 9, "5": 15}}
+            ]
+        },
+        "singleBets": {"winPoints": 1, "lossResetsStreak": true, "dailyOpenCap": 5}
+    }'::jsonb,
+    'Initial rules'
+);
+
+-- AlterTable (existing parlays were created under version 1)
+ALTER TABLE "parlays" ADD COLUMN "ruleset_version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "parlays" ALTER COLUMN "ruleset_version" DROP DEFAULT;
+
+-- AddForeignKey
+ALTER TABLE "game_rulesets" ADD CONSTRAINT "game_rulesets_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "parlays" ADD CONSTRAINT "parlays_ruleset_version_fkey" FOREIGN KEY ("ruleset_version") REFERENCES "game_rulesets"("version") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "roles" TEXT[] DEFAULT ARRAY['player']::TEXT[];
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "admin_audit_logs" (
+    "id" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "action" VARCHAR(50) NOT NULL,
+    "target_type" VARCHAR(20) NOT NULL,
+    "target_id" TEXT,
+    "bet_id" TEXT,
+    "game_id" TEXT,
+    "changes" JSONB NOT NULL,
+    "request_id" VARCHAR(100) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_created_at_idx" ON "admin_audit_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_actor_id_created_at_idx" ON "admin_audit_logs"("actor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_bet_id_idx" ON "admin_audit_logs"("bet_id");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_game_id_idx" ON "admin_audit_logs"("game_id");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_target_type_target_id_idx" ON "admin_audit_logs"("target_type", "target_id");
+
+-- AddForeignKey
+ALTER TABLE "admin_audit_logs" ADD CONSTRAINT "admin_audit_logs_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
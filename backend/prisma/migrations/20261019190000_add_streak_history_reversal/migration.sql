@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "streak_history" ADD COLUMN "reversed_at" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "user_bet_selections" ADD COLUMN "ruleset_version" INTEGER;
+
+-- Existing single bets are scored under the ruleset active now, as they were before this column
+UPDATE "user_bet_selections"
+SET "ruleset_version" = (SELECT MAX("version") FROM "game_rulesets")
+WHERE "parlay_id" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "user_bet_selections" ADD CONSTRAINT "user_bet_selections_ruleset_version_fkey" FOREIGN KEY ("ruleset_version") REFERENCES "game_rulesets"("version") ON DELETE SET NULL ON UPDATE CASCADE;
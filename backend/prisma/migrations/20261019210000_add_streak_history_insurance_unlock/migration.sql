@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "streak_history" ADD COLUMN "insurance_unlocked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "unlocked_insured_parlay_id" TEXT;
@@ -0,0 +1,63 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script to grant a role to users by email
+ * Used to bootstrap the first owner - after that, owners grant roles from /admin/users
+ * Takes a comma-separated list too, so the old ADMIN_EMAILS admins can be made owners in one run
+ *
+ * Run with: npm run grant-role -- <email>[,<email>...] <role>
+ * Or: ts-node backend/scripts/grant-role.ts you@example.com owner
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { USER_ROLES } from '../../shared/constants/permissions';
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const [emailList, role] = process.argv.slice(2);
+  const emails = (emailList || '').split(',').map(email => email.trim()).filter(Boolean);
+
+  if (emails.length === 0 || !role || !USER_ROLES.includes(role as any)) {
+    console.error(`Usage: grant-role <email>[,<email>...] <${USER_ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  let missing = 0;
+
+  for (const email of emails) {
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      console.error(`❌ No user with email ${email}`);
+      missing++;
+      continue;
+    }
+
+    if (user.roles.includes(role)) {
+      console.log(`✅ ${user.username} already has the ${role} role`);
+      continue;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { roles: { push: role } },
+    });
+    console.log(`✅ Granted ${role} to ${user.username}`);
+  }
+
+  if (missing > 0) {
+    process.exit(1);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to grant role:', error.message);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,113 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script to record ESPN payloads for the fixture sports data provider
+ * Saves to SPORTS_DATA_FIXTURES_DIR (default backend/fixtures/sports-data)
+ *
+ * Run with: npm run record-fixtures -- <sport> <league> <YYYY-MM-DD> [gameId...]
+ * Or: ts-node backend/scripts/record-fixtures.ts basketball nba 2026-01-15 401810123
+ *
+ * Records the scoreboard for the date, then for each game (all of the date's games if
+ * none are given) a new game data snapshot plus both teams' rosters. Run it again while
+ * games are live to record more snapshots - the fixture provider replays them in order.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+const BASE_URL = 'https://site.api.espn.com/apis/site/v2/sports';
+const FIXTURES_DIR = path.resolve(
+  path.join(__dirname, '..'),
+  process.env.SPORTS_DATA_FIXTURES_DIR || 'fixtures/sports-data'
+);
+
+async function fetchJson(url: string): Promise<any | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.log(`  ⚠️  ${url} returned HTTP ${response.status}`);
+      return null;
+    }
+    return await response.json();
+  } catch (error: any) {
+    console.error(`  ❌ Error fetching ${url}:`, error.message);
+    return null;
+  }
+}
+
+function saveJson(filePath: string, data: any) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to temp file first, then rename (atomic write)
+  const tempFile = `${filePath}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+  fs.renameSync(tempFile, filePath);
+  console.log(`  ✅ ${path.relative(FIXTURES_DIR, filePath)}`);
+}
+
+async function main() {
+  const [sport, league, date, ...gameIdArgs] = process.argv.slice(2);
+
+  if (!sport || !league || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    console.error('Usage: record-fixtures <sport> <league> <YYYY-MM-DD> [gameId...]');
+    process.exit(1);
+  }
+
+  const sportLower = sport.toLowerCase();
+  const leagueLower = league.toLowerCase();
+  const leagueDir = path.join(FIXTURES_DIR, sportLower, leagueLower);
+  const dateStr = date.replace(/-/g, '');
+
+  console.log(`Recording ${sportLower}/${leagueLower} for ${date} to ${FIXTURES_DIR}\n`);
+
+  const scoreboard = await fetchJson(`${BASE_URL}/${sportLower}/${leagueLower}/scoreboard?dates=${dateStr}`);
+  if (!scoreboard) {
+    console.error('❌ Could not fetch scoreboard');
+    process.exit(1);
+  }
+  saveJson(path.join(leagueDir, 'scoreboard', `${dateStr}.json`), scoreboard);
+
+  const events: any[] = scoreboard.events || scoreboard.leagues?.[0]?.events || [];
+  const gameIds = gameIdArgs.length > 0 ? gameIdArgs : events.map(event => String(event.id));
+  const recordedTeams = new Set<string>();
+
+  for (const gameId of gameIds) {
+    console.log(`\nGame ${gameId}`);
+
+    const gameData = await fetchJson(`${BASE_URL}/${sportLower}/${leagueLower}/summary?event=${gameId}`);
+    if (!gameData) {
+      continue;
+    }
+
+    // Timestamped snapshot names sort in recording order
+    const snapshot = `${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    saveJson(path.join(leagueDir, 'games', gameId, snapshot), gameData);
+
+    const event = events.find(e => String(e.id) === gameId);
+    const competitors: any[] = event?.competitions?.[0]?.competitors || gameData.header?.competitions?.[0]?.competitors || [];
+
+    for (const competitor of competitors) {
+      const teamId = String(competitor.team?.id || competitor.id || '');
+      if (!teamId || recordedTeams.has(teamId)) {
+        continue;
+      }
+      recordedTeams.add(teamId);
+
+      const roster = await fetchJson(`${BASE_URL}/${sportLower}/${leagueLower}/teams/${teamId}/roster`);
+      if (roster) {
+        saveJson(path.join(leagueDir, 'rosters', `${teamId}.json`), roster);
+      }
+    }
+  }
+
+  console.log('\n✅ Done');
+}
+
+main().catch(error => {
+  console.error('❌ Fatal error:', error);
+  process.exit(1);
+});
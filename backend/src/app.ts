@@ -12,12 +12,20 @@ import { swaggerSpec } from './config/swagger';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { checkMaintenanceMode } from './middleware/featureFlags';
+import { assignRequestId } from './middleware/requestId';
+import { RealtimeService, RealtimeServer } from './services/realtime.service';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
 import adminRoutes from './routes/admin.routes';
 import betsRoutes from './routes/bets.routes';
 import parlayRoutes from './routes/parlay.routes';
+import leaderboardsRoutes from './routes/leaderboards.routes';
+import leaguesRoutes from './routes/leagues.routes';
+import notificationsRoutes from './routes/notifications.routes';
+import emailsRoutes from './routes/emails.routes';
+import streaksRoutes from './routes/streaks.routes';
+import rulesRoutes from './routes/rules.routes';
 // import gameRoutes from './routes/game.routes';
 
 const app = express();
@@ -34,7 +42,7 @@ const corsOrigins = process.env.CORS_ORIGIN
   : ['http://localhost:5173'];
 
 // Initialize Socket.io
-const io = new SocketIOServer(httpServer, {
+const io: RealtimeServer = new SocketIOServer(httpServer, {
   cors: {
     origin: corsOrigins,
     credentials: true,
@@ -45,6 +53,7 @@ const io = new SocketIOServer(httpServer, {
 app.set('io', io);
 
 // Middleware
+app.use(assignRequestId);
 app.use(helmet({
   crossOriginEmbedderPolicy: false, // Allow cross-origin cookies
   crossOriginResourcePolicy: { policy: "cross-origin" }, // Allow cross-origin resources
@@ -65,13 +74,14 @@ app.use(cors({
     }
   },
   credentials: true,
-  exposedHeaders: ['Set-Cookie'], // Explicitly expose Set-Cookie header
+  exposedHeaders: ['Set-Cookie', 'X-Request-Id'], // Explicitly expose Set-Cookie header, and the request id for bug reports
 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Session middleware
-app.use(session(sessionConfig));
+// Session middleware (shared with Socket.io so sockets authenticate off the same cookie)
+const sessionMiddleware = session(sessionConfig);
+app.use(sessionMiddleware);
 
 // Debug middleware to log session info
 app.use((req, res, next) => {
@@ -91,7 +101,7 @@ app.use(checkMaintenanceMode);
 
 // Request logging
 app.use((req, res, next) => {
-  logger.info(`${req.method} ${req.path}`);
+  logger.info(`${req.method} ${req.path}`, { requestId: req.requestId });
   next();
 });
 
@@ -116,6 +126,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/bets', betsRoutes);
 app.use('/api/parlays', parlayRoutes);
+app.use('/api/leaderboards', leaderboardsRoutes);
+app.use('/api/leagues', leaguesRoutes);
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/emails', emailsRoutes);
+app.use('/api/streaks', streaksRoutes);
+app.use('/api/rules', rulesRoutes);
 // app.use('/api/games', gameRoutes);
 
 // Error handling
@@ -129,17 +145,8 @@ app.use((req, res) => {
   });
 });
 
-// Socket.io connection handling
-io.on('connection', (socket) => {
-  logger.info(`Socket connected: ${socket.id}`);
-
-  // Authentication check (implement later)
-  // const sessionId = socket.handshake.auth.sessionId;
-  
-  socket.on('disconnect', () => {
-    logger.info(`Socket disconnected: ${socket.id}`);
-  });
-});
+// Socket.io authentication and rooms
+RealtimeService.attach(io, sessionMiddleware);
 
 export default httpServer;
 
@@ -7,6 +7,11 @@ import { ValidationError, AuthenticationError } from '../middleware/errorHandler
 import { AUTH_VALIDATION } from '@shared/validation/auth';
 import { sendMagicLinkEmail, sendVerificationEmail, sendPasswordResetEmail } from '../utils/email';
 import { logger } from '../utils/logger';
+import { LeaderboardService } from '../services/leaderboard.service';
+import { getPermissionsForRoles, isUserRole } from '@shared/utils/permissions';
+
+// Account used by the dev admin login when DEV_ADMIN_EMAIL isn't set
+const DEFAULT_DEV_ADMIN_EMAIL = 'admin@example.com';
 
 // Validation schemas using shared constants
 const registerSchema = Joi.object({
@@ -237,7 +242,7 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
  * Development-only admin login helper
  * 
  * - Enabled only when NODE_ENV !== 'production'
- * - Finds (or creates) a user whose email is in ADMIN_EMAILS
+ * - Finds (or creates) the DEV_ADMIN_EMAIL user (default admin@example.com) and makes it an owner
  * - Logs the user in by setting the session, without requiring a password
  *
  * This is intended for local development and should NEVER be exposed in production.
@@ -251,14 +256,7 @@ export const devLoginAdmin = async (req: Request, res: Response, next: NextFunct
       });
     }
 
-    const adminEmails =
-      process.env.ADMIN_EMAILS?.split(',').map((email) => email.trim()).filter(Boolean) || [];
-
-    if (adminEmails.length === 0) {
-      throw new ValidationError('ADMIN_EMAILS env variable is not configured');
-    }
-
-    const targetEmail = adminEmails[0];
+    const targetEmail = process.env.DEV_ADMIN_EMAIL?.trim() || DEFAULT_DEV_ADMIN_EMAIL;
 
     // Try to find existing admin user
     let user = await prisma.user.findUnique({
@@ -279,8 +277,14 @@ export const devLoginAdmin = async (req: Request, res: Response, next: NextFunct
           email: targetEmail,
           passwordHash: null,
           emailVerified: true,
+          roles: ['player', 'owner'],
         },
       });
+    } else if (!user.roles.includes('owner')) {
+      user = await prisma.user.update({
+        where: { id: user.id },
+        data: { roles: { push: 'owner' } },
+      });
     }
 
     // Set session
@@ -354,6 +358,7 @@ export const getCurrentUser = async (req: Request, res: Response, next: NextFunc
         longestStreak: true,
         totalPointsEarned: true,
         insuranceLocked: true,
+        roles: true,
         createdAt: true,
       },
     });
@@ -362,27 +367,27 @@ export const getCurrentUser = async (req: Request, res: Response, next: NextFunc
       throw new AuthenticationError('User not found');
     }
 
-    // Calculate leaderboard rank (1-based position by total points)
-    const usersAhead = await prisma.user.count({
-      where: {
-        totalPointsEarned: {
-          gt: user.totalPointsEarned,
-        },
-      },
+    // Leaderboard rank on the all-time points board (undefined until the user has earned points)
+    const pointsBoard = await LeaderboardService.getLeaderboard({
+      board: 'points',
+      window: 'all_time',
+      page: 1,
+      pageSize: 1,
+      userId: user.id,
     });
-    const leaderboardRank = usersAhead + 1;
+    const leaderboardRank = pointsBoard.me?.rank;
 
-    // Check if user is admin
-    const adminEmails = process.env.ADMIN_EMAILS?.split(',').map(email => email.trim()) || [];
-    const isAdmin = adminEmails.includes(user.email);
+    // Clients use permissions to decide which admin controls to show
+    const { roles, ...profile } = user;
 
     res.json({
       success: true,
       data: { 
         user: {
-          ...user,
+          ...profile,
           leaderboardRank,
-          isAdmin,
+          roles: roles.filter(isUserRole),
+          permissions: getPermissionsForRoles(roles),
         },
       },
     });
@@ -3,6 +3,8 @@ dotenv.config();
 
 import httpServer from './app';
 import { logger } from './utils/logger';
+import { startBackgroundJobs, jobScheduler } from './jobs';
+import { RoleService } from './services/roles.service';
 
 const PORT = process.env.PORT || 3001;
 
@@ -10,5 +12,18 @@ httpServer.listen(PORT, () => {
   logger.info(`🚀 Server running on port ${PORT}`);
   logger.info(`📚 API Docs: http://localhost:${PORT}/api-docs`);
   logger.info(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  // Carry the old ADMIN_EMAILS admins over as owners until someone owns the app
+  RoleService.bootstrapOwnersFromEnv().catch((error) => {
+    logger.error('Error granting owners from ADMIN_EMAILS', { error: error.message });
+  });
+
+  startBackgroundJobs();
+});
+
+// Release job leases on shutdown so another instance can pick the jobs up right away
+process.on('SIGTERM', async () => {
+  await jobScheduler.stop();
+  process.exit(0);
 });
 
@@ -3,6 +3,8 @@
  * ESPN API response types
  */
 
+import type { GameOdds } from '@shared/types';
+
 export interface EspnEvent {
   id: string;
   uid: string;
@@ -113,6 +115,7 @@ export interface EspnEvent {
     startDate: string;
     geoBroadcasts: any[];
     headlines?: any[];
+    odds?: EspnOdds[];
   }>;
   links: Array<{
     language: string;
@@ -126,6 +129,28 @@ export interface EspnEvent {
   weather?: any;
 }
 
+export interface EspnTeamOdds {
+  favorite?: boolean;
+  underdog?: boolean;
+  moneyLine?: number;
+}
+
+// One provider's lines for a competition - scoreboards usually list a single provider
+export interface EspnOdds {
+  provider?: {
+    id: string;
+    name: string;
+  };
+  details?: string;
+  overUnder?: number;
+  spread?: number;
+  homeTeamOdds?: EspnTeamOdds;
+  awayTeamOdds?: EspnTeamOdds;
+  drawOdds?: {
+    moneyLine?: number;
+  };
+}
+
 export interface EspnLeague {
   id: string;
   uid: string;
@@ -170,6 +195,7 @@ export interface ApiSportsGame {
     home: number | null;
     away: number | null;
   };
+  odds: GameOdds | null;
   metadata: any;
 }
 
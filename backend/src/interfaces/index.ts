@@ -4,4 +4,6 @@
 
 export * from './apiSports';
 export * from './betResolution';
+export * from './pushNotifications';
 
+export * from './sportsData';
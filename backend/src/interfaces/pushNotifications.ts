@@ -0,0 +1,29 @@
+/**
+ * Push notification interfaces for the backend
+ * A transport delivers messages to device tokens; Expo's push service is the live implementation
+ */
+
+export interface PushMessage {
+  to: string; // Expo push token
+  title: string;
+  body: string;
+  data?: Record<string, unknown>; // Passed through to the app when the notification is opened
+}
+
+export interface PushResult {
+  to: string;
+  ok: boolean;
+  error?: string;
+  // The token is no longer valid (app uninstalled, permissions revoked) and should be forgotten
+  deviceNotRegistered?: boolean;
+}
+
+/**
+ * Delivers push messages
+ * send() returns one result per message, in the same order
+ */
+export interface PushTransport {
+  readonly name: string;
+
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
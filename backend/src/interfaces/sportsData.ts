@@ -0,0 +1,35 @@
+/**
+ * Sports data provider interfaces for the backend
+ * A provider supplies games, game data and rosters; ESPN is the live implementation
+ */
+
+import type { ApiSportsGame } from './apiSports';
+
+export interface SupportedSport {
+  sport: string;
+  leagues: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Source of game and roster data
+ * getGameData must return ESPN summary-shaped JSON - sport configs read stats,
+ * plays and statuses from that shape when locking and resolving bets
+ */
+export interface SportsDataProvider {
+  readonly name: string;
+
+  /** Games for a date (YYYY-MM-DD) in a sport/league */
+  listGames(sport: string, league: string, date: string): Promise<ApiSportsGame[]>;
+
+  /** Full game data (boxscore, plays, status) for a game */
+  getGameData(sport: string, league: string, gameId: string): Promise<any>;
+
+  /** Roster for a team, or null if there isn't one */
+  getRoster(sport: string, league: string, teamId: string, useCache?: boolean): Promise<any | null>;
+
+  /** Team ID from a team's display name, name or abbreviation */
+  getTeamId(sport: string, league: string, teamNameOrAbbr: string): Promise<string | null>;
+
+  /** Sports and leagues the admin can fetch games for */
+  getSupportedSports(): SupportedSport[];
+}
@@ -0,0 +1,65 @@
+/**
+ * Background job registration
+ * Jobs run in-process on every instance; the scheduler's lease makes sure only one
+ * instance actually runs each job per interval
+ */
+import { jobScheduler } from '../services/jobScheduler.service';
+import { ParlayLockingService } from '../services/parlayLocking.service';
+import { GamePollingService } from '../services/gamePolling.service';
+import { NotificationService } from '../services/notification.service';
+import { EmailNotificationService } from '../services/emailNotification.service';
+import { StreakSettlementService } from '../services/streakSettlement.service';
+import { logger } from '../utils/logger';
+
+const ONE_MINUTE_MS = 60 * 1000;
+
+// Poll interval for live games (ESPN data only changes every few seconds, no need to go faster)
+const GAME_POLL_INTERVAL_MS = parseInt(process.env.GAME_POLL_INTERVAL_MS || '', 10) || ONE_MINUTE_MS;
+
+export function registerBackgroundJobs(): void {
+  jobScheduler.register({
+    name: 'lock-parlays',
+    intervalMs: ONE_MINUTE_MS,
+    handler: () => ParlayLockingService.checkAndLockParlays()
+  });
+
+  jobScheduler.register({
+    name: 'poll-live-games',
+    intervalMs: GAME_POLL_INTERVAL_MS,
+    handler: async () => ({ ...(await GamePollingService.pollLiveGames()) })
+  });
+
+  // Retries streak settlements that failed when their bet resolved
+  jobScheduler.register({
+    name: 'settle-resolved-bets',
+    intervalMs: 5 * ONE_MINUTE_MS,
+    handler: async () => ({ ...(await StreakSettlementService.settleUnsettled()) })
+  });
+
+  jobScheduler.register({
+    name: 'notify-games-starting-soon',
+    intervalMs: 5 * ONE_MINUTE_MS,
+    handler: () => NotificationService.notifyGamesStartingSoon()
+  });
+
+  jobScheduler.register({
+    name: 'send-daily-digest',
+    intervalMs: 60 * ONE_MINUTE_MS,
+    handler: () => EmailNotificationService.sendDailyDigests()
+  });
+}
+
+/**
+ * Start background jobs unless disabled with ENABLE_BACKGROUND_JOBS=false
+ */
+export function startBackgroundJobs(): void {
+  if (process.env.ENABLE_BACKGROUND_JOBS === 'false') {
+    logger.info('Background jobs disabled (ENABLE_BACKGROUND_JOBS=false)');
+    return;
+  }
+
+  registerBackgroundJobs();
+  jobScheduler.start();
+}
+
+export { jobScheduler };
@@ -1,59 +1,51 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthenticationError } from './errorHandler';
 import { PrismaClient } from '@prisma/client';
+import { getPermissionsForRoles, hasAnyPermission } from '@shared/utils/permissions';
+import type { Permission } from '@shared/types';
 
 const prisma = new PrismaClient();
 
-// Extend session type to include user data
-declare module 'express-session' {
-  interface SessionData {
-    userId: string;
-    userEmail?: string;
-  }
-}
-
 /**
- * Middleware to require admin access
- * Checks if the logged-in user's email is in the ADMIN_EMAILS env variable
+ * Permissions that give access to the admin bet board (games, sports and rosters)
+ * Bet authors and resolvers both need to see the games they work on
  */
-export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    // First check if user is authenticated
-    if (!req.session.userId) {
-      throw new AuthenticationError('Authentication required');
-    }
+export const BET_BOARD_PERMISSIONS: Permission[] = ['create_bets', 'resolve_bets', 'manage_games'];
 
-    // Get user from database
-    const user = await prisma.user.findUnique({
-      where: { id: req.session.userId },
-      select: { email: true }
-    });
-
-    if (!user) {
-      throw new AuthenticationError('User not found');
-    }
-
-    // Check if user email is in admin list
-    const adminEmails = process.env.ADMIN_EMAILS?.split(',').map(email => email.trim()) || [];
-    
-    if (!adminEmails.includes(user.email)) {
-      return res.status(403).json({ 
-        success: false,
-        error: { 
-          message: 'Admin access required', 
-          code: 'FORBIDDEN' 
-        } 
+/**
+ * Middleware to require a permission
+ * Passes if the logged-in user's roles grant any of the listed permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // First check if user is authenticated
+      if (!req.session.userId) {
+        throw new AuthenticationError('Authentication required');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.session.userId },
+        select: { roles: true }
       });
-    }
-
-    // Store email in session for future requests
-    req.session.userEmail = user.email;
 
-    next();
-  } catch (error) {
-    next(error);
-  }
+      if (!user) {
+        throw new AuthenticationError('User not found');
+      }
+
+      if (!hasAnyPermission(getPermissionsForRoles(user.roles), ...permissions)) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            message: 'You do not have permission to do this',
+            code: 'FORBIDDEN'
+          }
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
 };
-
-
-
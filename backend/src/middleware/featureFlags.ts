@@ -18,6 +18,8 @@ export const FeatureFlags = {
   // User features
   USER_PARLAYS: process.env.FEATURE_USER_PARLAYS !== 'false', // Default: enabled
   USER_PROFILE: process.env.FEATURE_USER_PROFILE !== 'false', // Default: enabled
+  USER_LEAGUES: process.env.FEATURE_USER_LEAGUES !== 'false', // Default: enabled
+  USER_NOTIFICATIONS: process.env.FEATURE_USER_NOTIFICATIONS !== 'false', // Default: enabled
   
   // Admin features
   ADMIN_BET_MANAGEMENT: process.env.FEATURE_ADMIN_BET_MANAGEMENT !== 'false', // Default: enabled
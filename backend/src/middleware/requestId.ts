@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+// Extend Express Request type with the id used to correlate logs and audit entries
+declare module 'express-serve-static-core' {
+  interface Request {
+    requestId: string;
+  }
+}
+
+// Ids from a proxy or client are kept only if they look like ids
+const INCOMING_REQUEST_ID = /^[\w.-]{1,100}$/;
+
+/**
+ * Gives every request an id, reusing an incoming X-Request-Id header if there is one,
+ * and echoes it back in the response's X-Request-Id header
+ */
+export function assignRequestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('X-Request-Id');
+  req.requestId = incoming && INCOMING_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+}
@@ -1,22 +1,31 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth';
-import { requireAdmin } from '../middleware/admin';
+import { requirePermission, BET_BOARD_PERMISSIONS } from '../middleware/admin';
 import { requireFeature } from '../middleware/featureFlags';
-import { ApiSportsService } from '../services/apiSports.service';
+import { sportsDataProvider } from '../services/sportsData.service';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
 import gamesRoutes from './admin/games.routes';
 import betsRoutes from './admin/bets.routes';
 import featureFlagsRoutes from './admin/featureFlags.routes';
+import jobsRoutes from './admin/jobs.routes';
+import rulesRoutes from './admin/rules.routes';
+import usersRoutes from './admin/users.routes';
+import auditLogRoutes from './admin/auditLog.routes';
+import betTemplatesRoutes from './admin/betTemplates.routes';
 
 const router = Router();
 const prisma = new PrismaClient();
-const apiSportsService = new ApiSportsService();
 
 // Mount sub-routes
 router.use('/games', gamesRoutes);
 router.use('/bets', betsRoutes);
 router.use('/feature-flags', featureFlagsRoutes);
+router.use('/jobs', jobsRoutes);
+router.use('/rules', rulesRoutes);
+router.use('/users', usersRoutes);
+router.use('/audit-log', auditLogRoutes);
+router.use('/bet-templates', betTemplatesRoutes);
 
 /**
  * @swagger
@@ -30,9 +39,9 @@ router.use('/feature-flags', featureFlagsRoutes);
  *       200:
  *         description: Supported sports retrieved successfully
  */
-router.get('/sports', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANAGEMENT'), async (req: Request, res: Response) => {
+router.get('/sports', requireAuth, requirePermission(...BET_BOARD_PERMISSIONS), requireFeature('ADMIN_GAME_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
-    const sportsConfig = apiSportsService.getSupportedSports();
+    const sportsConfig = sportsDataProvider.getSupportedSports();
     res.json({
       success: true,
       data: { sports: sportsConfig }
@@ -64,7 +73,7 @@ router.get('/sports', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
  *       200:
  *         description: Roster data retrieved successfully
  */
-router.get('/teams/:gameId/roster', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+router.get('/teams/:gameId/roster', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { gameId } = req.params;
 
@@ -119,8 +128,8 @@ router.get('/teams/:gameId/roster', requireAuth, requireAdmin, requireFeature('A
 
     // Fetch rosters for both teams
     const [homeRoster, awayRoster] = await Promise.all([
-      apiSportsService.getTeamRoster(sport, leagueSlug, homeTeamId),
-      apiSportsService.getTeamRoster(sport, leagueSlug, awayTeamId),
+      sportsDataProvider.getRoster(sport, leagueSlug, homeTeamId),
+      sportsDataProvider.getRoster(sport, leagueSlug, awayTeamId),
     ]);
 
     res.json({
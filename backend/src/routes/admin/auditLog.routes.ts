@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/admin';
+import { logger } from '../../utils/logger';
+import { parseAuditLogQuery } from '../../utils/auditValidation';
+import { AuditLogService } from '../../services/auditLog.service';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/audit-log:
+ *   get:
+ *     summary: List admin audit log entries, newest first (requires view_audit_log)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: betId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: gameId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         description: Entries made by this user, or made to them (role changes, streak recalculations)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: First day to include (YYYY-MM-DD, UTC)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         description: Last day to include (YYYY-MM-DD, UTC)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 25
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: A page of audit log entries with each change's before/after values
+ *       400:
+ *         description: Invalid filter or page
+ */
+router.get('/', requireAuth, requirePermission('view_audit_log'), async (req: Request, res: Response) => {
+  try {
+    const { filters, page, pageSize } = parseAuditLogQuery(req.query);
+    const auditLog = await AuditLogService.list(filters, page, pageSize);
+    res.json({ success: true, data: auditLog });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error fetching admin audit log', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to fetch audit log', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
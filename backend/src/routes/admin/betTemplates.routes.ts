@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/admin';
+import { requireFeature } from '../../middleware/featureFlags';
+import { logger } from '../../utils/logger';
+import { validateBetTemplate } from '../../utils/betTemplateValidation';
+import { BetTemplateService } from '../../services/betTemplate.service';
+import { AuditLogService } from '../../services/auditLog.service';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/bet-templates:
+ *   get:
+ *     summary: List saved bet templates (requires create_bets)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     responses:
+ *       200:
+ *         description: Bet templates, by name
+ */
+router.get('/', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const templates = await BetTemplateService.listTemplates();
+    res.json({ success: true, data: { templates } });
+  } catch (error: any) {
+    logger.error('Error listing bet templates', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to list bet templates', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/bet-templates:
+ *   post:
+ *     summary: Save a bet template (requires create_bets)
+ *     description: |
+ *       The config is a bet config whose participants name a placeholder instead of a team or player:
+ *       HOME_TEAM, AWAY_TEAM, or HOME_LEADER / AWAY_LEADER with a leader_category (e.g. points),
+ *       bound to each game the template is applied to
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - bet_type
+ *               - config
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               bet_type:
+ *                 type: string
+ *                 enum: [COMPARISON, THRESHOLD, EVENT]
+ *               config:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Template saved
+ *       400:
+ *         description: Invalid template
+ */
+router.post('/', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const input = validateBetTemplate(req.body);
+    const template = await BetTemplateService.createTemplate(input, req.session.userId!);
+
+    await AuditLogService.record(req, {
+      action: 'bet_template.create',
+      targetType: 'bet_template',
+      targetId: template.id,
+      after: template
+    });
+    res.status(201).json({ success: true, data: { template } });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error creating bet template', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to create bet template', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/bet-templates/{templateId}:
+ *   delete:
+ *     summary: Delete a bet template - bets created from it are kept (requires create_bets)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       404:
+ *         description: Template not found
+ */
+router.delete('/:templateId', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const template = await BetTemplateService.deleteTemplate(req.params.templateId);
+
+    await AuditLogService.record(req, {
+      action: 'bet_template.delete',
+      targetType: 'bet_template',
+      targetId: template.id,
+      before: template
+    });
+    res.json({ success: true, data: { template } });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error deleting bet template', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to delete bet template', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
@@ -1,17 +1,145 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../../middleware/auth';
-import { requireAdmin } from '../../middleware/admin';
+import { requirePermission } from '../../middleware/admin';
 import { requireFeature } from '../../middleware/featureFlags';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../../utils/logger';
-import { resolveBet, getSportConfig } from '../../services/betResolution.service';
-import { ApiSportsService } from '../../services/apiSports.service';
+import {
+  resolveBet,
+  getSportConfig,
+  findSportConfig,
+  getUnsupportedTimePeriods,
+  persistBetResolution,
+  persistManualResolution,
+  reopenBet
+} from '../../services/betResolution.service';
+import { sportsDataProvider } from '../../services/sportsData.service';
+import { AuditLogService } from '../../services/auditLog.service';
 import { generateDisplayText } from './utils/betDisplayText';
+import { buildStandardBets } from './utils/standardBets';
+import { bindTemplate } from './utils/betTemplates';
+import { parseBulkBetRequest, BulkBetRequest } from '../../utils/betTemplateValidation';
+import { parseManualResolution, parseResolutionNote } from '../../utils/betResolutionValidation';
+import { getUTCDateRange } from '../../utils/dateUtils';
+import { BetTemplateService } from '../../services/betTemplate.service';
+import { MAX_TOTAL_PARTICIPANTS } from '@shared/utils/betTotals';
 import type { BetConfig } from '../../interfaces';
+import type { StandardBetsResult } from '@shared/types';
+import type { BulkBetPreview, BulkBetResult } from '@shared/types/bets';
 
 const router = Router();
 const prisma = new PrismaClient();
-const apiSportsService = new ApiSportsService();
+
+// Upper bound on games per standard bets request - a full slate is well under this
+const MAX_STANDARD_BET_GAMES = 50;
+
+/**
+ * Validate a three-way (draw) comparison config
+ * Returns an error message, or null if the config is fine
+ */
+function validateThreeWayConfig(betType: string, config: any): string | null {
+  if (!config?.allow_draw) {
+    return null;
+  }
+  if (betType !== 'COMPARISON' || config.operator !== 'GREATER_THAN') {
+    return 'allow_draw is only supported for COMPARISON bets with the GREATER_THAN operator';
+  }
+  if (config.spread) {
+    return 'allow_draw cannot be combined with a spread';
+  }
+  return null;
+}
+
+/**
+ * Validate a totals (summed threshold) config
+ * Returns an error message, or null if the config is fine
+ */
+function validateTotalsConfig(betType: string, config: any): string | null {
+  if (config?.total_with === undefined) {
+    return null;
+  }
+  if (betType !== 'THRESHOLD') {
+    return 'total_with is only supported for THRESHOLD bets';
+  }
+  if (!Array.isArray(config.total_with) || config.total_with.length === 0) {
+    return 'total_with must be a non-empty list of participants';
+  }
+  if (config.total_with.length + 1 > MAX_TOTAL_PARTICIPANTS) {
+    return `A total can combine at most ${MAX_TOTAL_PARTICIPANTS} participants`;
+  }
+
+  const { participant } = config;
+  const seen = new Set<string>([`${participant?.subject_type}:${participant?.subject_id}`]);
+  for (const other of config.total_with) {
+    if (!other?.subject_type || !other.subject_id || !other.subject_name) {
+      return 'Each total_with participant needs a subject_type, subject_id and subject_name';
+    }
+    // Summing different stats or periods isn't a meaningful line
+    if (other.metric !== participant?.metric || other.time_period !== participant?.time_period) {
+      return 'Every participant in a total must use the same metric and time period';
+    }
+    const key = `${other.subject_type}:${other.subject_id}`;
+    if (seen.has(key)) {
+      return `${other.subject_name} is included in the total more than once`;
+    }
+    seen.add(key);
+  }
+  return null;
+}
+
+/**
+ * Create a bet at the bottom of its game's list and record it in the audit log
+ */
+async function createBet(
+  req: Request,
+  gameId: string,
+  betType: string,
+  config: any,
+  displayText: string,
+  displayTextOverride?: string
+) {
+  // Get current max priority for this game
+  const maxPriorityResult = await prisma.bet.aggregate({
+    where: { gameId },
+    _max: { priority: true }
+  });
+
+  const priority = (maxPriorityResult._max.priority || 0) + 1;
+
+  const bet = await prisma.bet.create({
+    data: {
+      gameId,
+      betType,
+      displayText: displayText as any,
+      displayTextOverride: (displayTextOverride || null) as any,
+      config: config as any,
+      priority,
+      outcome: 'pending',
+      description: displayText, // Keep for backward compatibility
+      betValue: '', // Keep for backward compatibility
+      metadata: {}
+    } as any
+  });
+
+  logger.info('Bet created', { 
+    betId: bet.id, 
+    gameId, 
+    betType,
+    config: JSON.stringify(config),
+    displayText
+  });
+
+  await AuditLogService.record(req, {
+    action: 'bet.create',
+    targetType: 'bet',
+    targetId: bet.id,
+    betId: bet.id,
+    gameId,
+    after: bet
+  });
+
+  return bet;
+}
 
 /**
  * @swagger
@@ -45,7 +173,7 @@ const apiSportsService = new ApiSportsService();
  *       200:
  *         description: Bet created successfully
  */
-router.post('/', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+router.post('/', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { game_id, bet_type, config, display_text_override } = req.body;
 
@@ -76,50 +204,356 @@ router.post('/', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT
       });
     }
 
+    const configError = validateThreeWayConfig(bet_type, config) || validateTotalsConfig(bet_type, config);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        error: { message: configError, code: 'VALIDATION_ERROR' }
+      });
+    }
+
+    // Time periods are declared per sport (innings for baseball, periods for hockey)
+    const sportConfig = findSportConfig(game.sport);
+    const unsupportedPeriods = sportConfig ? getUnsupportedTimePeriods(config, sportConfig) : [];
+    if (unsupportedPeriods.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `Time period not available for ${game.sport}: ${unsupportedPeriods.join(', ')}`, code: 'VALIDATION_ERROR' }
+      });
+    }
+
     // Generate display text
-    const displayText = display_text_override || generateDisplayText(bet_type, config);
+    const displayText = display_text_override || generateDisplayText(bet_type, config, sportConfig);
 
-    // Get current max priority for this game
-    const maxPriorityResult = await prisma.bet.aggregate({
-      where: { gameId: game_id },
-      _max: { priority: true }
+    const bet = await createBet(req, game_id, bet_type, config, displayText, display_text_override);
+
+    res.json({
+      success: true,
+      data: { bet }
+    });
+  } catch (error: any) {
+    logger.error('Error creating bet', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to create bet', code: 'SERVER_ERROR' }
     });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/bets/standard:
+ *   post:
+ *     summary: Generate the standard bets (moneyline, spread, total) for games from their ESPN odds
+ *     description: |
+ *       Spreads are snapped to X.5 and totals combine both teams' scores. Bets already on a game
+ *       are returned as existing, and lines ESPN didn't provide as skipped
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - game_ids
+ *             properties:
+ *               game_ids:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: The bets created, the ones already there, and the ones skipped with the reason
+ */
+router.post('/standard', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const { game_ids } = req.body;
 
-    const priority = (maxPriorityResult._max.priority || 0) + 1;
+    if (!Array.isArray(game_ids) || game_ids.length === 0 || game_ids.length > MAX_STANDARD_BET_GAMES ||
+        !game_ids.every(id => typeof id === 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `game_ids must be a list of 1 to ${MAX_STANDARD_BET_GAMES} game ids`, code: 'VALIDATION_ERROR' }
+      });
+    }
 
-    // Create bet
-    const bet = await prisma.bet.create({
-      data: {
-        gameId: game_id,
-        betType: bet_type,
-        displayText: displayText as any,
-        displayTextOverride: (display_text_override || null) as any,
-        config: config as any,
-        priority,
-        outcome: 'pending',
-        description: displayText, // Keep for backward compatibility
-        betValue: '', // Keep for backward compatibility
-        metadata: {}
-      } as any
+    const games = await prisma.game.findMany({
+      where: { id: { in: game_ids } },
+      include: { bets: { select: { displayText: true } } }
     });
 
-    logger.info('Bet created', { 
-      betId: bet.id, 
-      gameId: game_id, 
-      betType: bet_type,
-      config: JSON.stringify(config),
-      displayText
+    if (games.length !== new Set(game_ids).size) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Game not found', code: 'NOT_FOUND' }
+      });
+    }
+
+    const result: StandardBetsResult = { created: [], existing: [], skipped: [] };
+
+    for (const game of games) {
+      const sportConfig = findSportConfig(game.sport);
+      const { drafts, skipped } = buildStandardBets(game, sportConfig);
+      result.skipped.push(...skipped.map(skip => ({ gameId: game.id, ...skip })));
+
+      // Generating again only fills in what's missing
+      const existingTexts = new Set(game.bets.map(bet => bet.displayText));
+      for (const draft of drafts) {
+        const displayText = generateDisplayText(draft.betType, draft.config, sportConfig);
+        if (existingTexts.has(displayText)) {
+          result.existing.push({ gameId: game.id, kind: draft.kind, displayText });
+          continue;
+        }
+        const bet = await createBet(req, game.id, draft.betType, draft.config, displayText);
+        result.created.push({ gameId: game.id, kind: draft.kind, betId: bet.id, displayText });
+      }
+    }
+
+    logger.info('Standard bets generated', {
+      games: games.length,
+      created: result.created.length,
+      existing: result.existing.length,
+      skipped: result.skipped.length
     });
 
     res.json({
       success: true,
-      data: { bet }
+      data: result
     });
   } catch (error: any) {
-    logger.error('Error creating bet', { error });
+    logger.error('Error generating standard bets', { error });
     res.status(500).json({
       success: false,
-      error: { message: error.message || 'Failed to create bet', code: 'SERVER_ERROR' }
+      error: { message: error.message || 'Failed to generate standard bets', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * Bind the requested templates to every game in the date's slate for the league
+ * Bets already on a game (or generated twice by different templates) are listed as existing,
+ * and templates a game can't fill in, or that fail the usual bet checks, as skipped
+ */
+async function planBulkBets(request: BulkBetRequest): Promise<BulkBetPreview> {
+  const templates = await BetTemplateService.getTemplates(request.templateIds);
+
+  const { start, end } = getUTCDateRange(request.date, request.timezoneOffset);
+  const gamesForDate = await prisma.game.findMany({
+    where: {
+      startTime: { gte: start, lt: end },
+      sport: request.sport.toUpperCase()
+    },
+    include: { bets: { select: { displayText: true } } },
+    orderBy: { startTime: 'asc' }
+  });
+
+  // League lives in metadata, matched the same way as when the games were fetched
+  const league = request.league.toLowerCase();
+  const games = gamesForDate.filter(game => {
+    const metadata = game.metadata as any;
+    const leagueData = metadata?.league || metadata?.apiData?.league;
+    return leagueData?.id === request.league ||
+           leagueData?.abbreviation?.toLowerCase() === league ||
+           leagueData?.slug?.toLowerCase() === league;
+  });
+
+  const plan: BulkBetPreview = { items: [], existing: [], skipped: [] };
+
+  for (const game of games) {
+    const sportConfig = findSportConfig(game.sport);
+    const existingTexts = new Set(game.bets.map(bet => bet.displayText));
+
+    for (const template of templates) {
+      const ids = { gameId: game.id, templateId: template.id };
+      const bound = bindTemplate(template, game);
+      if ('reason' in bound) {
+        plan.skipped.push({ ...ids, reason: bound.reason });
+        continue;
+      }
+
+      const configError = validateThreeWayConfig(template.betType, bound.config) ||
+        validateTotalsConfig(template.betType, bound.config);
+      const unsupportedPeriods = sportConfig ? getUnsupportedTimePeriods(bound.config, sportConfig) : [];
+      if (configError || unsupportedPeriods.length > 0) {
+        plan.skipped.push({
+          ...ids,
+          reason: configError || `Time period not available for ${game.sport}: ${unsupportedPeriods.join(', ')}`
+        });
+        continue;
+      }
+
+      const displayText = generateDisplayText(template.betType, bound.config, sportConfig);
+      if (existingTexts.has(displayText)) {
+        plan.existing.push({ ...ids, displayText });
+        continue;
+      }
+      existingTexts.add(displayText);
+      plan.items.push({ ...ids, betType: template.betType, config: bound.config, displayText });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * @swagger
+ * /api/admin/bets/bulk/preview:
+ *   post:
+ *     summary: Preview the bets bet templates would create across a date's games in a league
+ *     description: |
+ *       Each template's placeholders are bound to each game's teams and leaders. Nothing is created;
+ *       apply with POST /api/admin/bets/bulk
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - template_ids
+ *               - date
+ *               - sport
+ *               - league
+ *             properties:
+ *               template_ids:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               sport:
+ *                 type: string
+ *               league:
+ *                 type: string
+ *               timezoneOffset:
+ *                 type: number
+ *                 description: The admin's offset from UTC in hours, so date is their local day
+ *     responses:
+ *       200:
+ *         description: The bets that would be created with their display text, the ones already there, and the ones skipped with the reason
+ *       404:
+ *         description: Template not found
+ */
+router.post('/bulk/preview', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const plan = await planBulkBets(parseBulkBetRequest(req.body));
+    res.json({ success: true, data: plan });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error previewing bulk bets', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to preview bulk bets', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/bets/bulk:
+ *   post:
+ *     summary: Create the bets bet templates generate across a date's games in a league
+ *     description: |
+ *       Takes the same body as the preview. The bets are generated again rather than taken from the
+ *       preview, so games and bets changed in between are accounted for. Pass selections to create
+ *       only some of the previewed bets
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - template_ids
+ *               - date
+ *               - sport
+ *               - league
+ *             properties:
+ *               template_ids:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               sport:
+ *                 type: string
+ *               league:
+ *                 type: string
+ *               timezoneOffset:
+ *                 type: number
+ *               selections:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     game_id:
+ *                       type: string
+ *                     template_id:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: The bets created, the ones already there, and the ones skipped with the reason
+ *       404:
+ *         description: Template not found
+ */
+router.post('/bulk', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const request = parseBulkBetRequest(req.body);
+    const plan = await planBulkBets(request);
+
+    const selected = request.selections &&
+      new Set(request.selections.map(({ gameId, templateId }) => `${gameId}:${templateId}`));
+
+    const result: BulkBetResult = { created: [], existing: plan.existing, skipped: plan.skipped };
+    for (const item of plan.items) {
+      if (selected && !selected.has(`${item.gameId}:${item.templateId}`)) {
+        continue;
+      }
+      const bet = await createBet(req, item.gameId, item.betType, item.config, item.displayText);
+      result.created.push({ gameId: item.gameId, templateId: item.templateId, betId: bet.id, displayText: item.displayText });
+    }
+
+    logger.info('Bulk bets created from templates', {
+      date: request.date,
+      sport: request.sport,
+      league: request.league,
+      templates: request.templateIds.length,
+      created: result.created.length,
+      existing: result.existing.length,
+      skipped: result.skipped.length
+    });
+
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error creating bulk bets', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to create bulk bets', code: 'SERVER_ERROR' }
     });
   }
 });
@@ -131,13 +565,14 @@ router.post('/', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT
  *     summary: Update a bet
  *     tags: [Admin]
  */
-router.patch('/:betId', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+router.patch('/:betId', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { betId } = req.params;
     const { bet_type, config, display_text_override, priority } = req.body;
 
     const bet = await prisma.bet.findUnique({
-      where: { id: betId }
+      where: { id: betId },
+      include: { game: true }
     });
 
     if (!bet) {
@@ -150,9 +585,26 @@ router.patch('/:betId', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MAN
     const updateData: any = {};
 
     if (bet_type && config) {
+      const configError = validateThreeWayConfig(bet_type, config) || validateTotalsConfig(bet_type, config);
+      if (configError) {
+        return res.status(400).json({
+          success: false,
+          error: { message: configError, code: 'VALIDATION_ERROR' }
+        });
+      }
+
+      const sportConfig = findSportConfig(bet.game.sport);
+      const unsupportedPeriods = sportConfig ? getUnsupportedTimePeriods(config, sportConfig) : [];
+      if (unsupportedPeriods.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: { message: `Time period not available for ${bet.game.sport}: ${unsupportedPeriods.join(', ')}`, code: 'VALIDATION_ERROR' }
+        });
+      }
+
       updateData.betType = bet_type;
       updateData.config = config as any;
-      updateData.displayText = display_text_override || generateDisplayText(bet_type, config);
+      updateData.displayText = display_text_override || generateDisplayText(bet_type, config, sportConfig);
       if (display_text_override !== undefined) {
         updateData.displayTextOverride = display_text_override || null;
       }
@@ -169,6 +621,16 @@ router.patch('/:betId', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MAN
 
     logger.info('Bet updated', { betId, updates: Object.keys(updateData) });
 
+    await AuditLogService.record(req, {
+      action: 'bet.update',
+      targetType: 'bet',
+      targetId: betId,
+      betId,
+      gameId: bet.gameId,
+      before: { ...bet, game: undefined },
+      after: updated
+    });
+
     res.json({
       success: true,
       data: { bet: updated }
@@ -189,16 +651,25 @@ router.patch('/:betId', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MAN
  *     summary: Delete a bet
  *     tags: [Admin]
  */
-router.delete('/:betId', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+router.delete('/:betId', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { betId } = req.params;
 
-    await prisma.bet.delete({
+    const deleted = await prisma.bet.delete({
       where: { id: betId }
     });
 
     logger.info('Bet deleted', { betId });
 
+    await AuditLogService.record(req, {
+      action: 'bet.delete',
+      targetType: 'bet',
+      targetId: betId,
+      betId,
+      gameId: deleted.gameId,
+      before: deleted
+    });
+
     res.json({
       success: true,
       data: { message: 'Bet deleted successfully' }
@@ -237,7 +708,7 @@ router.delete('/:betId', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MA
  *       500:
  *         description: Server error
  */
-router.post('/:betId/resolve', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+router.post('/:betId/resolve', requireAuth, requirePermission('resolve_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { betId } = req.params;
 
@@ -340,21 +811,21 @@ router.post('/:betId/resolve', requireAuth, requireAdmin, requireFeature('ADMIN_
       });
     }
 
-    // Fetch fresh game data from ESPN API
-    logger.info(`Fetching game data from ESPN API for bet resolution: betId=${betId}, sport=${sport}, league=${leagueId}, gameId=${externalGameId}, gameExternalId=${bet.game.externalId}`);
+    // Fetch fresh game data from the sports data provider (ESPN, or recorded fixtures offline)
+    logger.info(`Fetching game data from ${sportsDataProvider.name} for bet resolution: betId=${betId}, sport=${sport}, league=${leagueId}, gameId=${externalGameId}, gameExternalId=${bet.game.externalId}`);
     let gameData;
     try {
-      gameData = await apiSportsService.getGameData(sport, leagueId, externalGameId);
+      gameData = await sportsDataProvider.getGameData(sport, leagueId, externalGameId);
       
       // Verify we got valid game data
       if (!gameData) {
-        logger.error('Empty response from ESPN API', { sport, league: leagueId, gameId: externalGameId });
+        logger.error('Empty game data response', { provider: sportsDataProvider.name, sport, league: leagueId, gameId: externalGameId });
         return res.status(500).json({
           success: false,
           error: { 
-            message: 'Failed to fetch game data from ESPN API (empty response)',
+            message: `Failed to fetch game data from ${sportsDataProvider.name} (empty response)`,
             code: 'GAME_DATA_FETCH_FAILED',
-            url: `ESPN API: /${sport}/${leagueId}/scoreboard/${externalGameId}`
+            url: `${sportsDataProvider.name}: /${sport}/${leagueId}/scoreboard/${externalGameId}`
           }
         });
       }
@@ -372,7 +843,7 @@ router.post('/:betId/resolve', requireAuth, requireAdmin, requireFeature('ADMIN_
         return res.status(400).json({
           success: false,
           error: { 
-            message: 'Game has not started yet according to ESPN API',
+            message: `Game has not started yet according to ${sportsDataProvider.name}`,
             code: 'GAME_NOT_STARTED',
             apiGameStatus: gameStatusFromApi
           }
@@ -380,15 +851,15 @@ router.post('/:betId/resolve', requireAuth, requireAdmin, requireFeature('ADMIN_
       }
 
     } catch (error: any) {
-      const errorUrl = `ESPN API: /${sport}/${leagueId}/scoreboard/${externalGameId}`;
-      logger.error(`Error fetching game data from ESPN API in bet resolution: ${error.message || error.name || 'Unknown error'}`);
+      const errorUrl = `${sportsDataProvider.name}: /${sport}/${leagueId}/scoreboard/${externalGameId}`;
+      logger.error(`Error fetching game data from ${sportsDataProvider.name} in bet resolution: ${error.message || error.name || 'Unknown error'}`);
       logger.error(`URL: ${errorUrl}`);
       logger.error(`Parameters: betId=${betId}, sport=${sport}, league=${leagueId}, gameId=${externalGameId}, gameExternalId=${bet.game.externalId}`);
       logger.error(`Error name: ${error.name}, Error message: ${error.message}`);
       return res.status(500).json({
         success: false,
         error: { 
-          message: `Failed to fetch game data from ESPN API: ${error.message || 'Unknown error'}`,
+          message: `Failed to fetch game data from ${sportsDataProvider.name}: ${error.message || 'Unknown error'}`,
           code: 'GAME_DATA_FETCH_FAILED',
           details: error.message,
           url: errorUrl
@@ -441,107 +912,165 @@ router.post('/:betId/resolve', requireAuth, requireAdmin, requireFeature('ADMIN_
       });
     }
 
-    // Update bet in database
-    const updatedBet = await prisma.bet.update({
-      where: { id: betId },
+    // Save the outcome, update user selections and settle streaks
+    const persisted = await persistBetResolution(bet, resolutionResult);
+    if (!persisted) {
+      return res.status(409).json({
+        success: false,
+        error: { message: 'Bet was resolved by another request', code: 'ALREADY_RESOLVED' }
+      });
+    }
+
+    const { bet: updatedBet, updatedSelections, settlement } = persisted;
+
+    await AuditLogService.record(req, {
+      action: 'bet.resolve',
+      targetType: 'bet',
+      targetId: betId,
+      betId,
+      gameId: bet.gameId,
+      before: { ...bet, game: undefined },
+      after: updatedBet
+    });
+
+    res.json({
+      success: true,
       data: {
-        outcome: resolutionResult.outcome || 'pending',
-        resolvedAt: resolutionResult.resolutionUTCTime || new Date(),
-        lastFetchedAt: new Date(),
-        metadata: {
-          ...((bet.metadata as any) || {}),
-          resolution: {
-            resolutionEventTime: resolutionResult.resolutionEventTime,
-            resolutionUTCTime: resolutionResult.resolutionUTCTime,
-            resolutionQuarter: resolutionResult.resolutionQuarter,
-            resolutionStatSnapshot: resolutionResult.resolutionStatSnapshot
-          }
-        }
+        bet: updatedBet,
+        resolution: resolutionResult,
+        updatedSelections,
+        settlement
       }
     });
+  } catch (error: any) {
+    logger.error('Error resolving bet', { error, betId: req.params.betId });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to resolve bet', code: 'SERVER_ERROR' }
+    });
+  }
+});
 
-    // Update all user bet selections for this bet
-    // Determine the winning side based on the actual stat values
-    let winningSide: string | null = null;
-    const statSnapshot = resolutionResult.resolutionStatSnapshot as any;
-    
-    if (betConfig.type === 'COMPARISON') {
-      // For COMPARISON bets, determine which participant won
-      if (statSnapshot?.participant_1?.adjustedStat > statSnapshot?.participant_2?.adjustedStat) {
-        winningSide = 'participant_1';
-      } else if (statSnapshot?.participant_1?.adjustedStat < statSnapshot?.participant_2?.adjustedStat) {
-        winningSide = 'participant_2';
-      }
-      // If equal, it's a push (winningSide stays null)
-    } else if (betConfig.type === 'THRESHOLD') {
-      // For threshold bets, determine if over or under won based on actual stat
-      const participantStat = statSnapshot?.participant?.stat;
-      const threshold = statSnapshot?.threshold;
-      
-      if (participantStat > threshold) {
-        winningSide = 'over';
-      } else if (participantStat < threshold) {
-        winningSide = 'under';
-      }
-      // If equal, it's a push (winningSide stays null)
-    }
+/**
+ * @swagger
+ * /api/admin/bets/{betId}/manual-resolve:
+ *   post:
+ *     summary: Set a bet's result by hand, or correct the result of a resolved bet (requires resolve_bets)
+ *     description: |
+ *       Outcomes are from participant_1's side for comparisons, the bet's operator for thresholds
+ *       and the "yes" side for events. A resolved bet is reopened first, reversing the parlay and
+ *       single bet settlements its old result went into, then settled again with the new one
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: betId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *               - note
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [win, loss, push, void]
+ *               note:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Why the result was set by hand, kept in adminResolutionNotes
+ *               draw:
+ *                 type: boolean
+ *                 description: Three-way comparisons only, with outcome loss - the participants tied
+ *     responses:
+ *       200:
+ *         description: Bet resolved (or its result corrected) and streaks settled
+ *       400:
+ *         description: Invalid outcome or note, or the bet already has this result (NO_CHANGE)
+ *       404:
+ *         description: Bet not found
+ *       409:
+ *         description: The bet's result was changed by another request
+ */
+router.post('/:betId/manual-resolve', requireAuth, requirePermission('resolve_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const { betId } = req.params;
 
-    // Update user bet selections
-    const userSelections = await prisma.userBetSelection.findMany({
-      where: { betId: betId }
-    });
+    const bet = await prisma.bet.findUnique({ where: { id: betId } });
+    if (!bet) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Bet not found', code: 'NOT_FOUND' }
+      });
+    }
 
-    let updatedSelections = 0;
-    for (const selection of userSelections) {
-      let selectionOutcome: 'win' | 'loss' | 'push' = 'loss';
-      
-      if (resolutionResult.outcome === 'push' || winningSide === null) {
-        // Push: stat equals threshold or participants tied
-        selectionOutcome = 'push';
-      } else if (selection.selectedSide === winningSide) {
-        // User selected the winning side
-        selectionOutcome = 'win';
-      } else {
-        // User selected the losing side
-        selectionOutcome = 'loss';
-      }
+    const betConfig = bet.config as unknown as BetConfig;
+    const { outcome, note, draw } = parseManualResolution(req.body, betConfig);
 
-      // Update selection status to resolved and store the outcome
-      await prisma.userBetSelection.update({
-        where: { id: selection.id },
-        data: {
-          status: 'resolved',
-          outcome: selectionOutcome
-        }
+    // Three-way comparisons can go from a participant_2 loss to a draw and back
+    const isThreeWay = betConfig.type === 'COMPARISON' && !!betConfig.allow_draw;
+    if (bet.outcome === outcome && !isThreeWay) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `Bet is already resolved with outcome: ${bet.outcome}`, code: 'NO_CHANGE' }
       });
-      
-      logger.info('Updated user bet selection', {
-        selectionId: selection.id,
-        userId: selection.userId,
-        selectedSide: selection.selectedSide,
-        outcome: selectionOutcome,
-        winningSide
+    }
+
+    // A resolved bet is reopened first, reversing what its old result settled, in the same
+    // transaction as the new result
+    const isCorrection = bet.outcome !== 'pending';
+    const persisted = await persistManualResolution(bet, {
+      outcome,
+      note,
+      draw,
+      resolvedBy: req.session.userId!
+    });
+    if (!persisted) {
+      return res.status(409).json({
+        success: false,
+        error: isCorrection
+          ? { message: 'Bet result was changed by another request', code: 'CONFLICT' }
+          : { message: 'Bet was resolved by another request', code: 'ALREADY_RESOLVED' }
       });
-      
-      updatedSelections++;
     }
 
-    logger.info('Bet resolved successfully', {
+    const { bet: updatedBet, winningSide, updatedSelections, reversal, settlement } = persisted;
+
+    await AuditLogService.record(req, {
+      action: isCorrection ? 'bet.correct' : 'bet.resolve',
+      targetType: 'bet',
+      targetId: betId,
       betId,
-      outcome: resolutionResult.outcome,
-      updatedSelections
+      gameId: bet.gameId,
+      before: bet,
+      after: updatedBet
     });
 
     res.json({
       success: true,
       data: {
         bet: updatedBet,
-        resolution: resolutionResult,
-        updatedSelections
+        winningSide,
+        updatedSelections,
+        reversal,
+        settlement
       }
     });
   } catch (error: any) {
-    logger.error('Error resolving bet', { error, betId: req.params.betId });
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error manually resolving bet', { error, betId: req.params.betId });
     res.status(500).json({
       success: false,
       error: { message: error.message || 'Failed to resolve bet', code: 'SERVER_ERROR' }
@@ -549,5 +1078,98 @@ router.post('/:betId/resolve', requireAuth, requireAdmin, requireFeature('ADMIN_
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/bets/{betId}/reopen:
+ *   post:
+ *     summary: Put a resolved bet back to pending (requires resolve_bets)
+ *     description: |
+ *       Reverses the parlay and single bet settlements its result went into and flags the bet
+ *       for admin resolution, so automatic resolution leaves it for an admin to re-resolve
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: betId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - note
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Bet reopened and settlements reversed
+ *       400:
+ *         description: Missing note, or the bet isn't resolved (NOT_RESOLVED)
+ *       404:
+ *         description: Bet not found
+ *       409:
+ *         description: The bet's result was changed by another request
+ */
+router.post('/:betId/reopen', requireAuth, requirePermission('resolve_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+  try {
+    const { betId } = req.params;
+    const note = parseResolutionNote(req.body?.note);
+
+    const bet = await prisma.bet.findUnique({ where: { id: betId } });
+    if (!bet) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Bet not found', code: 'NOT_FOUND' }
+      });
+    }
+
+    if (bet.outcome === 'pending') {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Bet is not resolved', code: 'NOT_RESOLVED' }
+      });
+    }
+
+    const reopened = await reopenBet(bet, { note, reopenedBy: req.session.userId! });
+    if (!reopened) {
+      return res.status(409).json({
+        success: false,
+        error: { message: 'Bet result was changed by another request', code: 'CONFLICT' }
+      });
+    }
+
+    await AuditLogService.record(req, {
+      action: 'bet.reopen',
+      targetType: 'bet',
+      targetId: betId,
+      betId,
+      gameId: bet.gameId,
+      before: bet,
+      after: reopened.bet
+    });
+
+    res.json({ success: true, data: reopened });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error reopening bet', { error, betId: req.params.betId });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to reopen bet', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
 export default router;
 
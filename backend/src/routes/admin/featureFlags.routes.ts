@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../../middleware/auth';
-import { requireAdmin } from '../../middleware/admin';
+import { requirePermission } from '../../middleware/admin';
 import { logger } from '../../utils/logger';
 
 const router = Router();
@@ -9,7 +9,7 @@ const router = Router();
  * @swagger
  * /api/admin/feature-flags:
  *   get:
- *     summary: Get current feature flag status (admin only)
+ *     summary: Get current feature flag status (requires manage_flags)
  *     tags: [Admin]
  *     security:
  *       - sessionAuth: []
@@ -17,7 +17,7 @@ const router = Router();
  *       200:
  *         description: Feature flags status
  */
-router.get('/', requireAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get('/', requireAuth, requirePermission('manage_flags'), async (req: Request, res: Response) => {
   try {
     const { getFeatureFlags } = require('../../middleware/featureFlags');
     const flags = getFeatureFlags();
@@ -1,15 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth } from '../../middleware/auth';
-import { requireAdmin } from '../../middleware/admin';
+import { requirePermission, BET_BOARD_PERMISSIONS } from '../../middleware/admin';
 import { requireFeature } from '../../middleware/featureFlags';
-import { ApiSportsService } from '../../services/apiSports.service';
+import { sportsDataProvider } from '../../services/sportsData.service';
+import { AuditLogService } from '../../services/auditLog.service';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../../utils/logger';
 import { getUTCDateRange } from '../../utils/dateUtils';
 
 const router = Router();
 const prisma = new PrismaClient();
-const apiSportsService = new ApiSportsService();
 
 /**
  * @swagger
@@ -44,7 +44,7 @@ const apiSportsService = new ApiSportsService();
  *       200:
  *         description: Games fetched from ESPN, stored in DB, and returned
  */
-router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANAGEMENT'), async (req: Request, res: Response) => {
+router.post('/fetch', requireAuth, requirePermission(...BET_BOARD_PERMISSIONS), requireFeature('ADMIN_GAME_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { date, sport, league, force, timezoneOffset } = req.body;
 
@@ -155,7 +155,7 @@ router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
 
     if (shouldFetchFromAPI) {
       logger.info('Fetching games from ESPN API', { date, sport, league });
-      apiGames = await apiSportsService.getGames(sport, league, date);
+      apiGames = await sportsDataProvider.listGames(sport, league, date);
       
       if (!apiGames || apiGames.length === 0) {
         logger.warn('No games returned from ESPN API', { date, sport, league });
@@ -211,6 +211,10 @@ router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
       
       for (const apiGame of apiGames) {
         try {
+          // ESPN drops the odds once a game is underway, so keep the last lines we saw
+          const existingGame = existingGames.find(g => g.externalId === apiGame.externalId);
+          const odds = apiGame.odds ?? (existingGame?.metadata as any)?.odds ?? null;
+
           const game = await prisma.game.upsert({
             where: {
               externalId: apiGame.externalId
@@ -226,6 +230,7 @@ router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
               metadata: {
                 apiData: apiGame,
                 league: apiGame.league,
+                odds,
               } as any,
               updatedAt: new Date()
             },
@@ -241,6 +246,7 @@ router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
               metadata: {
                 apiData: apiGame,
                 league: apiGame.league,
+                odds,
               } as any
             }
           });
@@ -251,6 +257,15 @@ router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
         }
       }
 
+      // Deleted games take their bets with them, so those are recorded as well
+      const deletedBetIds = gamesToDelete.flatMap(game => game.bets.map(bet => bet.id));
+      await AuditLogService.record(req, {
+        action: 'game.fetch',
+        targetType: 'game',
+        before: { gameIds: existingGames.map(game => game.id), ...(deletedBetIds.length > 0 && { deletedBetIds }) },
+        after: { date, sport, league, gameIds: storedGameIds }
+      });
+
       // Step 5: Fetch updated games from database
       if (storedGameIds.length > 0) {
         const updatedGames = await prisma.game.findMany({
@@ -343,7 +358,7 @@ router.post('/fetch', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANA
  *       200:
  *         description: Games retrieved successfully
  */
-router.get('/', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANAGEMENT'), async (req: Request, res: Response) => {
+router.get('/', requireAuth, requirePermission(...BET_BOARD_PERMISSIONS), requireFeature('ADMIN_GAME_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { date, sport } = req.query;
 
@@ -405,7 +420,7 @@ router.get('/', requireAuth, requireAdmin, requireFeature('ADMIN_GAME_MANAGEMENT
  *     summary: Reorder bet priorities
  *     tags: [Admin]
  */
-router.put('/:gameId/bets/reorder', requireAuth, requireAdmin, requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
+router.put('/:gameId/bets/reorder', requireAuth, requirePermission('create_bets'), requireFeature('ADMIN_BET_MANAGEMENT'), async (req: Request, res: Response) => {
   try {
     const { gameId } = req.params;
     const { bet_ids } = req.body; // Array of bet IDs in new order
@@ -417,6 +432,12 @@ router.put('/:gameId/bets/reorder', requireAuth, requireAdmin, requireFeature('A
       });
     }
 
+    const previousOrder = await prisma.bet.findMany({
+      where: { gameId },
+      orderBy: { priority: 'asc' },
+      select: { id: true }
+    });
+
     // Update priorities
     for (let i = 0; i < bet_ids.length; i++) {
       await prisma.bet.update({
@@ -433,6 +454,15 @@ router.put('/:gameId/bets/reorder', requireAuth, requireAdmin, requireFeature('A
 
     logger.info('Bets reordered', { gameId, count: bet_ids.length });
 
+    await AuditLogService.record(req, {
+      action: 'game.reorder_bets',
+      targetType: 'game',
+      targetId: gameId,
+      gameId,
+      before: { betIds: previousOrder.map(bet => bet.id) },
+      after: { betIds: bets.map(bet => bet.id) }
+    });
+
     res.json({
       success: true,
       data: { bets }
@@ -0,0 +1,203 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/admin';
+import { jobScheduler } from '../../services/jobScheduler.service';
+import { AuditLogService } from '../../services/auditLog.service';
+import { logger } from '../../utils/logger';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed'];
+
+/**
+ * @swagger
+ * /api/admin/jobs:
+ *   get:
+ *     summary: Get background jobs with their current lease and most recent run (requires manage_games)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     responses:
+ *       200:
+ *         description: Background jobs retrieved successfully
+ */
+router.get('/', requireAuth, requirePermission('manage_games'), async (req: Request, res: Response) => {
+  try {
+    const jobs = jobScheduler.getJobs();
+    const jobNames = jobs.map(job => job.name);
+
+    const leases = await prisma.jobLease.findMany({
+      where: { jobName: { in: jobNames } }
+    });
+
+    const lastRuns = await Promise.all(
+      jobNames.map(jobName => prisma.jobRun.findFirst({
+        where: { jobName },
+        orderBy: { startedAt: 'desc' }
+      }))
+    );
+
+    const lastFailures = await Promise.all(
+      jobNames.map(jobName => prisma.jobRun.findFirst({
+        where: { jobName, status: 'failed' },
+        orderBy: { startedAt: 'desc' }
+      }))
+    );
+
+    res.json({
+      success: true,
+      data: {
+        instanceId: jobScheduler.instanceId,
+        jobs: jobs.map((job, index) => ({
+          name: job.name,
+          intervalMs: job.intervalMs,
+          lease: leases.find(lease => lease.jobName === job.name) || null,
+          lastRun: lastRuns[index],
+          lastFailure: lastFailures[index]
+        }))
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error fetching background jobs', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to fetch background jobs', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/jobs/runs:
+ *   get:
+ *     summary: Get recent background job runs (requires manage_games)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: jobName
+ *         required: false
+ *         schema:
+ *           type: string
+ *         example: "lock-parlays"
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [running, succeeded, failed]
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Job runs retrieved successfully
+ */
+router.get('/runs', requireAuth, requirePermission('manage_games'), async (req: Request, res: Response) => {
+  try {
+    const { jobName, status } = req.query;
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+
+    if (status && (typeof status !== 'string' || !JOB_RUN_STATUSES.includes(status))) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `Status must be one of: ${JOB_RUN_STATUSES.join(', ')}`, code: 'VALIDATION_ERROR' }
+      });
+    }
+
+    const where: any = {};
+    if (jobName && typeof jobName === 'string') {
+      where.jobName = jobName;
+    }
+    if (status) {
+      where.status = status;
+    }
+
+    const runs = await prisma.jobRun.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
+
+    res.json({
+      success: true,
+      data: {
+        runs,
+        count: runs.length
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error fetching job runs', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to fetch job runs', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/jobs/{jobName}/run:
+ *   post:
+ *     summary: Run a background job now (requires manage_games)
+ *     description: Runs the job on this instance if it can take the job's lease. Skipped if another instance holds the lease or a run is already in progress.
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobName
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job ran (or was skipped)
+ *       404:
+ *         description: Job not found
+ */
+router.post('/:jobName/run', requireAuth, requirePermission('manage_games'), async (req: Request, res: Response) => {
+  try {
+    const { jobName } = req.params;
+
+    if (!jobScheduler.getJobs().some(job => job.name === jobName)) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Job not found', code: 'NOT_FOUND' }
+      });
+    }
+
+    const run = await jobScheduler.runJob(jobName);
+
+    logger.info('Background job run requested by admin', { jobName, userId: req.session.userId, ran: !!run });
+
+    await AuditLogService.record(req, {
+      action: 'job.run',
+      targetType: 'job',
+      targetId: jobName,
+      after: { ran: !!run }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        run,
+        skipped: !run
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error running background job', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to run background job', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
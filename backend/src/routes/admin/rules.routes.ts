@@ -0,0 +1,101 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/admin';
+import { logger } from '../../utils/logger';
+import { validateGameRules, validateRulesetNotes } from '../../utils/rulesValidation';
+import { RulesService } from '../../services/rules.service';
+import { AuditLogService } from '../../services/auditLog.service';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/rules:
+ *   get:
+ *     summary: List all game ruleset versions, newest first (requires manage_rules)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     responses:
+ *       200:
+ *         description: Ruleset versions with who published them and how many parlays use each
+ */
+router.get('/', requireAuth, requirePermission('manage_rules'), async (req: Request, res: Response) => {
+  try {
+    const rulesets = await RulesService.listRulesets();
+    res.json({ success: true, data: { rulesets } });
+  } catch (error: any) {
+    logger.error('Error listing game rulesets', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to list game rulesets', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/rules:
+ *   post:
+ *     summary: Publish a new game ruleset version (requires manage_rules)
+ *     description: |
+ *       The new version is used for parlays created from now on. Existing parlays keep
+ *       the version they were created under.
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rules
+ *             properties:
+ *               rules:
+ *                 type: object
+ *                 description: Complete GameRules (parlayValues, maxLegs, insurance, singleBets)
+ *               notes:
+ *                 type: string
+ *                 description: What changed
+ *     responses:
+ *       201:
+ *         description: Ruleset published
+ *       400:
+ *         description: Invalid rules
+ *       409:
+ *         description: Another version was published at the same time
+ */
+router.post('/', requireAuth, requirePermission('manage_rules'), async (req: Request, res: Response) => {
+  try {
+    const rules = validateGameRules(req.body?.rules);
+    const notes = validateRulesetNotes(req.body?.notes);
+
+    const previous = await RulesService.getActiveRuleset();
+    const ruleset = await RulesService.publishRuleset(rules, notes, req.session.userId!);
+
+    await AuditLogService.record(req, {
+      action: 'ruleset.publish',
+      targetType: 'ruleset',
+      targetId: String(ruleset.version),
+      before: previous,
+      after: ruleset
+    });
+    res.status(201).json({ success: true, data: { ruleset } });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error publishing game ruleset', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to publish game ruleset', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
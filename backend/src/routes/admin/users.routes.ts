@@ -0,0 +1,223 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../../middleware/auth';
+import { requirePermission } from '../../middleware/admin';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { parseUserSearch, validateRole } from '../../utils/roleValidation';
+import { RoleService } from '../../services/roles.service';
+import { AuditLogService } from '../../services/auditLog.service';
+import { StreakRecalculationService } from '../../services/streakRecalculation.service';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+router.use(requireAuth, requirePermission('manage_users'));
+
+function sendRoleError(res: Response, error: any, action: string) {
+  if (error.status) {
+    return res.status(error.status).json({
+      success: false,
+      error: { message: error.message, code: error.code }
+    });
+  }
+  logger.error(`Error ${action}`, { error: error.message, stack: error.stack });
+  return res.status(500).json({
+    success: false,
+    error: { message: error.message || `Failed ${action}`, code: 'SERVER_ERROR' }
+  });
+}
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     summary: Search users and their roles (requires manage_users)
+ *     description: Without a search, lists every user with a role beyond player.
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         description: Part of a username or email
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Up to 20 users with their roles and permissions
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const search = parseUserSearch(req.query);
+    const users = await RoleService.listUsers(search);
+    res.json({ success: true, data: { users } });
+  } catch (error: any) {
+    sendRoleError(res, error, 'listing users');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/roles:
+ *   post:
+ *     summary: Grant a role to a user (requires manage_users)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [player, bet_author, resolver, admin, owner]
+ *     responses:
+ *       200:
+ *         description: The user's updated roles
+ *       400:
+ *         description: Unknown role
+ *       404:
+ *         description: User not found
+ */
+router.post('/:userId/roles', async (req: Request, res: Response) => {
+  try {
+    const role = validateRole(req.body?.role);
+    const { user, previousRoles } = await RoleService.grantRole(req.params.userId, role, req.session.userId!);
+
+    await AuditLogService.record(req, {
+      action: 'user.grant_role',
+      targetType: 'user',
+      targetId: user.id,
+      before: { roles: previousRoles },
+      after: { roles: user.roles }
+    });
+
+    res.json({ success: true, data: { user } });
+  } catch (error: any) {
+    sendRoleError(res, error, 'granting role');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/roles/{role}:
+ *   delete:
+ *     summary: Revoke a role from a user (requires manage_users)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: role
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The user's updated roles
+ *       400:
+ *         description: Unknown role, the player role, or the last owner (LAST_OWNER)
+ *       404:
+ *         description: User not found
+ */
+router.delete('/:userId/roles/:role', async (req: Request, res: Response) => {
+  try {
+    const role = validateRole(req.params.role);
+    const { user, previousRoles } = await RoleService.revokeRole(req.params.userId, role, req.session.userId!);
+
+    await AuditLogService.record(req, {
+      action: 'user.revoke_role',
+      targetType: 'user',
+      targetId: user.id,
+      before: { roles: previousRoles },
+      after: { roles: user.roles }
+    });
+
+    res.json({ success: true, data: { user } });
+  } catch (error: any) {
+    sendRoleError(res, error, 'revoking role');
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/recalculate-streak:
+ *   post:
+ *     summary: Replay a user's streak history in event order and correct their streak (requires manage_users)
+ *     tags: [Admin]
+ *     security:
+ *       - sessionAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Streak recalculated successfully
+ *       404:
+ *         description: User not found
+ */
+router.post('/:userId/recalculate-streak', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, currentStreak: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'User not found', code: 'NOT_FOUND' }
+      });
+    }
+
+    const currentStreak = await StreakRecalculationService.recalculateUser(userId);
+
+    logger.info('User streak recalculated', { userId, previousStreak: user.currentStreak, currentStreak });
+
+    await AuditLogService.record(req, {
+      action: 'user.recalculate_streak',
+      targetType: 'user',
+      targetId: userId,
+      before: { currentStreak: user.currentStreak },
+      after: { currentStreak }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        userId,
+        previousStreak: user.currentStreak,
+        currentStreak
+      }
+    });
+  } catch (error: any) {
+    logger.error('Error recalculating user streak', { error, userId: req.params.userId });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to recalculate streak', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
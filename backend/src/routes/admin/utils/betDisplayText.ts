@@ -2,6 +2,12 @@
  * Utility functions for generating bet display text from bet configurations
  */
 
+import { formatTimePeriodLabel } from '@shared/utils/timePeriods';
+import { isTotalsBet, isGameTotal, getThresholdParticipants } from '@shared/utils/betTotals';
+import type { SportConfig } from '@shared/types/sports';
+
+export { formatTimePeriodLabel };
+
 /**
  * Format metric label from snake_case to Title Case
  */
@@ -9,48 +15,45 @@ export function formatMetricLabel(metric: string): string {
   return metric.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 }
 
-/**
- * Format time period label to user-friendly format
- */
-export function formatTimePeriodLabel(period: string): string {
-  const periodMap: Record<string, string> = {
-    'FULL_GAME': 'Full Game',
-    'Q1': 'Q1',
-    'Q2': 'Q2',
-    'Q3': 'Q3',
-    'Q4': 'Q4',
-    'H1': '1H',
-    'H2': '2H',
-    'OT': 'OT'
-  };
-  return periodMap[period] || period;
-}
-
 /**
  * Generate display text from bet configuration
+ * The sport config supplies period labels (e.g. "F5") and the score metric for moneylines/spreads
  */
-export function generateDisplayText(betType: string, config: any): string {
+export function generateDisplayText(betType: string, config: any, sportConfig?: SportConfig): string {
+  const scoreMetric = sportConfig?.score_metric || 'points';
+
   if (betType === 'COMPARISON') {
-    const { participant_1, participant_2, spread } = config;
+    const { participant_1, participant_2, spread, allow_draw } = config;
     
-    // Moneyline (simple comparison, no spread, both teams, points, full game)
+    // Three-way moneyline (soccer) - either team or the draw
+    if (allow_draw &&
+        participant_1.metric === scoreMetric &&
+        participant_1.time_period === 'FULL_GAME' &&
+        participant_1.subject_type === 'TEAM' &&
+        participant_2.subject_type === 'TEAM' &&
+        participant_2.metric === scoreMetric &&
+        participant_2.time_period === 'FULL_GAME') {
+      return `${participant_1.subject_name} / Draw / ${participant_2.subject_name}`;
+    }
+    
+    // Moneyline (simple comparison, no spread, both teams, score metric, full game)
     if (!spread && 
-        participant_1.metric === 'points' && 
+        participant_1.metric === scoreMetric && 
         participant_1.time_period === 'FULL_GAME' &&
         participant_1.subject_type === 'TEAM' &&
         participant_2.subject_type === 'TEAM' &&
-        participant_2.metric === 'points' &&
+        participant_2.metric === scoreMetric &&
         participant_2.time_period === 'FULL_GAME') {
       return `${participant_1.subject_name} ML`;
     }
     
-    // Spread (both teams, points, full game)
+    // Spread (both teams, score metric, full game)
     if (spread && 
-        participant_1.metric === 'points' && 
+        participant_1.metric === scoreMetric && 
         participant_1.time_period === 'FULL_GAME' &&
         participant_1.subject_type === 'TEAM' &&
         participant_2.subject_type === 'TEAM' &&
-        participant_2.metric === 'points' &&
+        participant_2.metric === scoreMetric &&
         participant_2.time_period === 'FULL_GAME') {
       return `${participant_1.subject_name} ${spread.direction}${spread.value}`;
     }
@@ -59,15 +62,17 @@ export function generateDisplayText(betType: string, config: any): string {
     const metric1Label = formatMetricLabel(participant_1.metric);
     const metric2Label = formatMetricLabel(participant_2.metric);
     const period1 = participant_1.time_period !== 'FULL_GAME'
-      ? ` (${formatTimePeriodLabel(participant_1.time_period)})`
+      ? ` (${formatTimePeriodLabel(participant_1.time_period, sportConfig)})`
       : '';
     const period2 = participant_2.time_period !== 'FULL_GAME'
-      ? ` (${formatTimePeriodLabel(participant_2.time_period)})`
+      ? ` (${formatTimePeriodLabel(participant_2.time_period, sportConfig)})`
       : '';
     
     // Always show both metrics and periods explicitly
     if (spread) {
       return `${participant_1.subject_name} ${metric1Label}${period1} ${spread.direction}${spread.value} > ${participant_2.subject_name} ${metric2Label}${period2}`;
+    } else if (allow_draw) {
+      return `${participant_1.subject_name} ${metric1Label}${period1} vs ${participant_2.subject_name} ${metric2Label}${period2} (3-way)`;
     } else {
       return `${participant_1.subject_name} ${metric1Label}${period1} > ${participant_2.subject_name} ${metric2Label}${period2}`;
     }
@@ -77,9 +82,20 @@ export function generateDisplayText(betType: string, config: any): string {
     const { participant, operator, threshold } = config;
     const metricLabel = formatMetricLabel(participant.metric);
     const period = participant.time_period !== 'FULL_GAME'
-      ? ` (${formatTimePeriodLabel(participant.time_period)})`
+      ? ` (${formatTimePeriodLabel(participant.time_period, sportConfig)})`
       : '';
     
+    if (isTotalsBet(betType, config)) {
+      const subjects = getThresholdParticipants(config).map(p => p.subject_name);
+      
+      // Game total (both teams, score metric) - "Lakers / Celtics OVER 224.5"
+      if (isGameTotal(config, scoreMetric)) {
+        return `${subjects.join(' / ')} ${operator} ${threshold}${period}`;
+      }
+      
+      return `${subjects.join(' + ')} ${operator} ${threshold} ${metricLabel}${period}`;
+    }
+    
     return `${participant.subject_name} ${operator} ${threshold} ${metricLabel}${period}`;
   }
   
@@ -87,7 +103,7 @@ export function generateDisplayText(betType: string, config: any): string {
     const { participant, event_type, time_period } = config;
     const eventLabel = event_type.replace(/_/g, ' ').toLowerCase();
     const period = time_period !== 'FULL_GAME'
-      ? ` (${formatTimePeriodLabel(time_period)})`
+      ? ` (${formatTimePeriodLabel(time_period, sportConfig)})`
       : '';
     
     return `${participant.subject_name} ${eventLabel}${period}`;
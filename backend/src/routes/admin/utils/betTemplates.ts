@@ -0,0 +1,88 @@
+/**
+ * Utility functions for binding bet templates to a game's teams and players
+ */
+
+import type { BetConfig, BetTemplate, Participant, TemplateParticipant } from '@shared/types/bets';
+
+export type BoundTemplate = { config: BetConfig } | { reason: string };
+
+/**
+ * The player ESPN lists as a team's leader in a category on the game's scoreboard
+ * (season leaders before tip-off, game leaders once it's underway)
+ */
+function findLeader(metadata: any, side: 'home' | 'away', category: string): { id: string; name: string } | null {
+  const competitors: any[] = metadata?.apiData?.metadata?.competition?.competitors || [];
+  const competitor = competitors.find(c => c.homeAway === side);
+  const leaderCategory = (competitor?.leaders || []).find(
+    (leader: any) => leader.name?.toLowerCase() === category.toLowerCase()
+  );
+  const athlete = leaderCategory?.leaders?.[0]?.athlete;
+
+  if (!athlete?.id) {
+    return null;
+  }
+  return { id: String(athlete.id), name: athlete.displayName || athlete.fullName || 'Unknown' };
+}
+
+/**
+ * Bind a template to a game, replacing each placeholder with the team or player it stands for
+ * Returns the reason instead if the game doesn't have what the template needs
+ */
+export function bindTemplate(
+  template: Pick<BetTemplate, 'config'>,
+  game: { homeTeam: string; awayTeam: string; metadata: unknown }
+): BoundTemplate {
+  const metadata = game.metadata as any;
+  const teams = {
+    home: { id: metadata?.apiData?.teams?.home?.id, name: game.homeTeam },
+    away: { id: metadata?.apiData?.teams?.away?.id, name: game.awayTeam }
+  };
+
+  if (!teams.home.id || !teams.away.id) {
+    return { reason: 'Game is missing team IDs - refresh the game data first' };
+  }
+
+  const bind = (participant: TemplateParticipant): Participant | string => {
+    const { subject, leader_category, metric, time_period } = participant;
+    const side = subject.startsWith('HOME') ? 'home' : 'away';
+
+    if (subject === 'HOME_TEAM' || subject === 'AWAY_TEAM') {
+      return { subject_type: 'TEAM', subject_id: teams[side].id, subject_name: teams[side].name, metric, time_period };
+    }
+
+    const leader = leader_category ? findLeader(metadata, side, leader_category) : null;
+    if (!leader) {
+      return `No ${leader_category} leader listed for ${teams[side].name}`;
+    }
+    return { subject_type: 'PLAYER', subject_id: leader.id, subject_name: leader.name, metric, time_period };
+  };
+
+  const config = template.config;
+  const placeholders = config.type === 'COMPARISON'
+    ? [config.participant_1, config.participant_2]
+    : config.type === 'THRESHOLD'
+      ? [config.participant, ...(config.total_with || [])]
+      : [config.participant];
+
+  const participants: Participant[] = [];
+  for (const placeholder of placeholders) {
+    const bound = bind(placeholder);
+    if (typeof bound === 'string') {
+      return { reason: bound };
+    }
+    participants.push(bound);
+  }
+
+  switch (config.type) {
+    case 'COMPARISON':
+      return { config: { ...config, participant_1: participants[0], participant_2: participants[1] } };
+    case 'THRESHOLD': {
+      const [participant, ...totalWith] = participants;
+      return {
+        config: { ...config, participant, ...(config.total_with && { total_with: totalWith }) }
+      };
+    }
+    case 'EVENT':
+      return { config: { ...config, participant: participants[0] } };
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Utility functions for building a game's standard bets (moneyline, spread and total)
+ * from the ESPN odds stored on its metadata
+ */
+
+import type { ComparisonConfig, ThresholdConfig, Participant } from '@shared/types/bets';
+import type { SportConfig } from '@shared/types/sports';
+import type { GameOdds, StandardBetKind } from '@shared/types';
+
+export interface StandardBetDraft {
+  kind: StandardBetKind;
+  betType: 'COMPARISON' | 'THRESHOLD';
+  config: ComparisonConfig | ThresholdConfig;
+}
+
+export interface StandardBetPlan {
+  drafts: StandardBetDraft[];
+  skipped: Array<{ kind: StandardBetKind; reason: string }>;
+}
+
+/**
+ * Snap a spread to the X.5 value spread bets require
+ * Whole-number lines move half a point up (7 -> 7.5), so the bet can't push
+ */
+export function snapToHalfPoint(value: number): number {
+  return Math.floor(Math.abs(value)) + 0.5;
+}
+
+/**
+ * Build the standard bets for a game
+ * Bets whose line is missing from the odds are listed in skipped with the reason
+ */
+export function buildStandardBets(
+  game: { homeTeam: string; awayTeam: string; metadata: unknown },
+  sportConfig?: SportConfig
+): StandardBetPlan {
+  const metadata = game.metadata as any;
+  const homeTeamId = metadata?.apiData?.teams?.home?.id;
+  const awayTeamId = metadata?.apiData?.teams?.away?.id;
+  const odds: GameOdds | null = metadata?.odds ?? null;
+
+  if (!homeTeamId || !awayTeamId) {
+    const reason = 'Game is missing team IDs - refresh the game data first';
+    return {
+      drafts: [],
+      skipped: (['moneyline', 'spread', 'total'] as const).map(kind => ({ kind, reason }))
+    };
+  }
+
+  const scoreMetric = sportConfig?.score_metric || 'points';
+  const team = (which: 'home' | 'away'): Participant => ({
+    subject_type: 'TEAM',
+    subject_id: which === 'home' ? homeTeamId : awayTeamId,
+    subject_name: which === 'home' ? game.homeTeam : game.awayTeam,
+    metric: scoreMetric,
+    time_period: 'FULL_GAME'
+  });
+
+  const drafts: StandardBetDraft[] = [];
+  const skipped: StandardBetPlan['skipped'] = [];
+
+  // Moneyline - three-way when the book prices the draw (soccer)
+  const allowDraw = odds?.drawMoneyline !== null && odds?.drawMoneyline !== undefined;
+  drafts.push({
+    kind: 'moneyline',
+    betType: 'COMPARISON',
+    config: {
+      type: 'COMPARISON',
+      participant_1: team('home'),
+      participant_2: team('away'),
+      operator: 'GREATER_THAN',
+      ...(allowDraw && { allow_draw: true })
+    }
+  });
+
+  // Spread - the favorite gives the points
+  if (odds?.spread === null || odds?.spread === undefined) {
+    skipped.push({ kind: 'spread', reason: 'No spread in the ESPN odds' });
+  } else if (odds.spread === 0) {
+    skipped.push({ kind: 'spread', reason: "Line is a pick'em - the moneyline covers it" });
+  } else {
+    const homeFavored = odds.spread < 0;
+    drafts.push({
+      kind: 'spread',
+      betType: 'COMPARISON',
+      config: {
+        type: 'COMPARISON',
+        participant_1: team(homeFavored ? 'home' : 'away'),
+        participant_2: team(homeFavored ? 'away' : 'home'),
+        operator: 'GREATER_THAN',
+        spread: { direction: '-', value: snapToHalfPoint(odds.spread) }
+      }
+    });
+  }
+
+  // Total - both teams' scores combined
+  if (odds?.overUnder === null || odds?.overUnder === undefined) {
+    skipped.push({ kind: 'total', reason: 'No over/under in the ESPN odds' });
+  } else {
+    drafts.push({
+      kind: 'total',
+      betType: 'THRESHOLD',
+      config: {
+        type: 'THRESHOLD',
+        participant: team('away'),
+        operator: 'OVER',
+        threshold: odds.overUnder,
+        total_with: [team('home')]
+      }
+    });
+  }
+
+  return { drafts, skipped };
+}
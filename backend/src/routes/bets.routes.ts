@@ -4,6 +4,10 @@ import { logger } from '../utils/logger';
 import { requireFeature } from '../middleware/featureFlags';
 import { requireAuth } from '../middleware/auth';
 import { parseDateAndTimezone, getLocalDateString, getUTCDateRange } from '../utils/dateUtils';
+import { getValidSides, isThreeWayBet } from '@shared/utils/betSides';
+import { SingleBetService } from '../services/singleBet.service';
+import { RulesService } from '../services/rules.service';
+import { StreakRecalculationService } from '../services/streakRecalculation.service';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -111,12 +115,15 @@ router.get('/today', requireFeature('PUBLIC_BETS_VIEW'), async (req: Request, re
  *             properties:
  *               selectedSide:
  *                 type: string
- *                 enum: [participant_1, participant_2, over, under, yes, no]
+ *                 enum: [participant_1, participant_2, draw, over, under, yes, no]
+ *               timezoneOffset:
+ *                 type: integer
+ *                 description: User's timezone offset in hours, used to work out the game day for the single bet cap (default UTC)
  *     responses:
  *       200:
  *         description: Bet selection created successfully
  *       400:
- *         description: Invalid request
+ *         description: Invalid request, or SINGLE_BET_LIMIT if the daily cap on open single bets is reached
  *       401:
  *         description: Not authenticated
  *       404:
@@ -143,7 +150,7 @@ router.post('/:betId/select', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), a
       });
     }
 
-    const validSides = ['participant_1', 'participant_2', 'over', 'under', 'yes', 'no'];
+    const validSides = ['participant_1', 'participant_2', 'draw', 'over', 'under', 'yes', 'no'];
     if (!validSides.includes(selectedSide)) {
       return res.status(400).json({
         success: false,
@@ -198,11 +205,14 @@ router.post('/:betId/select', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), a
     const config = bet.config as any;
 
     if (betType === 'COMPARISON') {
-      if (selectedSide !== 'participant_1' && selectedSide !== 'participant_2') {
+      if (!getValidSides(betType, config).includes(selectedSide)) {
+        const message = isThreeWayBet(betType, config)
+          ? 'For three-way COMPARISON bets, selectedSide must be "participant_1", "draw" or "participant_2"'
+          : 'For COMPARISON bets, selectedSide must be "participant_1" or "participant_2"';
         return res.status(400).json({
           success: false,
           error: { 
-            message: 'For COMPARISON bets, selectedSide must be "participant_1" or "participant_2"', 
+            message, 
             code: 'VALIDATION_ERROR' 
           }
         });
@@ -229,24 +239,38 @@ router.post('/:betId/select', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), a
       }
     }
 
-    // Create UserBetSelection
-    const selection = await prisma.userBetSelection.create({
-      data: {
-        userId,
-        betId,
-        selectedSide,
-        parlayId: null, // Single bet, not in a parlay
-        status: 'selected'
-      },
-      include: {
-        bet: {
-          select: {
-            id: true,
-            displayText: true,
-            betType: true
+    const timezoneOffset = typeof req.body.timezoneOffset === 'number' ? req.body.timezoneOffset : undefined;
+
+    // Scored under the ruleset live now, even if it's republished before the game ends
+    const { version: rulesetVersion } = await RulesService.getActiveRuleset(true);
+
+    const selection = await prisma.$transaction(async (tx) => {
+      // Single bets are capped per game day (in the user's timezone when the client sends it)
+      // The user's row stays locked until the single is created, so concurrent picks are
+      // counted one after another instead of all fitting under the cap
+      await StreakRecalculationService.lockUser(tx, userId);
+      await SingleBetService.assertUnderDailyCap(tx, userId, bet.game.startTime, timezoneOffset);
+
+      // Create UserBetSelection
+      return tx.userBetSelection.create({
+        data: {
+          userId,
+          betId,
+          selectedSide,
+          parlayId: null, // Single bet, not in a parlay
+          rulesetVersion,
+          status: 'selected'
+        },
+        include: {
+          bet: {
+            select: {
+              id: true,
+              displayText: true,
+              betType: true
+            }
           }
         }
-      }
+      });
     });
 
     logger.info('User bet selection created', {
@@ -269,6 +293,12 @@ router.post('/:betId/select', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), a
       }
     });
   } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
     logger.error('Error creating bet selection', { error, betId: req.params.betId });
     res.status(500).json({
       success: false,
@@ -282,9 +312,20 @@ router.post('/:betId/select', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), a
  * /api/bets/my-selections:
  *   get:
  *     summary: Get all bet selections for the current user
+ *     description: Also returns singleBets - the single bet scoring rules and how many open singles the user has on the requested day
  *     tags: [Bets]
  *     security:
  *       - sessionAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           example: 2026-10-19
+ *       - in: query
+ *         name: timezoneOffset
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
  *         description: Bet selections retrieved successfully
@@ -398,6 +439,13 @@ router.get('/my-selections', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), as
       count: selections.length
     });
 
+    // Scoring rules and the daily cap, for the requested day (today if no date given)
+    const singleBets = await SingleBetService.getSummary(
+      userId,
+      getLocalDateString(date, timezoneOffset),
+      timezoneOffset
+    );
+
     res.json({
       success: true,
       data: {
@@ -426,7 +474,8 @@ router.get('/my-selections', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), as
               metadata: sel.bet.game.metadata
             }
           }
-        }))
+        })),
+        singleBets
       }
     });
   } catch (error: any) {
@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { requireAuth } from '../middleware/auth';
+import { validateEmailPreferenceUpdates } from '../utils/emailValidation';
+import { EmailNotificationService } from '../services/emailNotification.service';
+
+const router = Router();
+
+/**
+ * Send a validation error thrown by the email helpers, or a 500
+ */
+function sendEmailError(res: Response, error: any, action: string) {
+  if (error.status) {
+    return res.status(error.status).json({
+      success: false,
+      error: { message: error.message, code: error.code }
+    });
+  }
+  logger.error(`Error ${action}`, { error: error.message, stack: error.stack });
+  res.status(500).json({
+    success: false,
+    error: { message: error.message || `Failed ${action}`, code: 'SERVER_ERROR' }
+  });
+}
+
+/**
+ * @swagger
+ * /api/emails/unsubscribe:
+ *   post:
+ *     summary: Turn off one type of email using the signed token from an unsubscribe link
+ *     description: No login needed - the token identifies the user and the email type.
+ *     tags: [Emails]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Unsubscribed; returns the email type that was turned off
+ *       400:
+ *         description: Invalid unsubscribe link
+ *       404:
+ *         description: User no longer exists
+ */
+router.post('/unsubscribe', async (req: Request, res: Response) => {
+  try {
+    const type = await EmailNotificationService.unsubscribe(req.body?.token);
+    res.json({ success: true, data: { type } });
+  } catch (error: any) {
+    sendEmailError(res, error, 'unsubscribing');
+  }
+});
+
+/**
+ * @swagger
+ * /api/emails/preferences:
+ *   get:
+ *     summary: Get the current user's email preferences
+ *     tags: [Emails]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Preferences retrieved successfully
+ */
+router.get('/preferences', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const preferences = await EmailNotificationService.getPreferences(req.session.userId!);
+    res.json({ success: true, data: { preferences } });
+  } catch (error: any) {
+    sendEmailError(res, error, 'fetching email preferences');
+  }
+});
+
+/**
+ * @swagger
+ * /api/emails/preferences:
+ *   patch:
+ *     summary: Turn optional emails on or off
+ *     tags: [Emails]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               parlayResults:
+ *                 type: boolean
+ *               streakMilestones:
+ *                 type: boolean
+ *               insuranceAlerts:
+ *                 type: boolean
+ *               dailyDigest:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         description: Unknown preference or non-boolean value
+ */
+router.patch('/preferences', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const updates = validateEmailPreferenceUpdates(req.body);
+
+    const preferences = await EmailNotificationService.updatePreferences(req.session.userId!, updates);
+    res.json({ success: true, data: { preferences } });
+  } catch (error: any) {
+    sendEmailError(res, error, 'updating email preferences');
+  }
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { requireFeature } from '../middleware/featureFlags';
+import { parseDateAndTimezone } from '../utils/dateUtils';
+import { LeaderboardService } from '../services/leaderboard.service';
+import { parseLeaderboardQuery } from '../utils/leaderboardValidation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/leaderboards:
+ *   get:
+ *     summary: Get a leaderboard page and the caller's own rank
+ *     tags: [Leaderboards]
+ *     parameters:
+ *       - in: query
+ *         name: board
+ *         schema:
+ *           type: string
+ *           enum: [current_streak, longest_streak, points]
+ *           default: current_streak
+ *       - in: query
+ *         name: window
+ *         schema:
+ *           type: string
+ *           enum: [daily, weekly, monthly, all_time]
+ *           default: all_time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 25
+ *           maximum: 100
+ *       - in: query
+ *         name: timezoneOffset
+ *         schema:
+ *           type: integer
+ *         description: Caller's timezone offset in hours, used for where days, weeks and months start
+ *     responses:
+ *       200:
+ *         description: Leaderboard retrieved successfully
+ *       400:
+ *         description: Invalid board, window or pagination
+ */
+router.get('/', requireFeature('PUBLIC_LEADERBOARDS'), async (req: Request, res: Response) => {
+  try {
+    const params = parseLeaderboardQuery(req.query);
+    const { timezoneOffset } = parseDateAndTimezone(req);
+
+    // Signed in callers also get their own rank; the board itself is public
+    const leaderboard = await LeaderboardService.getLeaderboard({
+      ...params,
+      userId: req.session?.userId,
+      timezoneOffset
+    });
+
+    res.json({
+      success: true,
+      data: leaderboard
+    });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error fetching leaderboard', { error });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to fetch leaderboard', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,417 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { requireAuth } from '../middleware/auth';
+import { requireFeature } from '../middleware/featureFlags';
+import { parseDateAndTimezone } from '../utils/dateUtils';
+import { validateLeagueNameInput } from '../utils/leagueValidation';
+import { parseLeaderboardQuery } from '../utils/leaderboardValidation';
+import { LeagueService } from '../services/league.service';
+
+const router = Router();
+
+const DEFAULT_ACTIVITY_LIMIT = 20;
+const MAX_ACTIVITY_LIMIT = 100;
+
+// Every league endpoint is for signed in users
+router.use(requireAuth, requireFeature('USER_LEAGUES'));
+
+/**
+ * Send a validation/ownership error thrown by the league helpers, or a 500
+ */
+function sendLeagueError(res: Response, error: any, action: string) {
+  if (error.status) {
+    return res.status(error.status).json({
+      success: false,
+      error: { message: error.message, code: error.code }
+    });
+  }
+  logger.error(`Error ${action}`, { error: error.message, stack: error.stack });
+  res.status(500).json({
+    success: false,
+    error: { message: error.message || `Failed ${action}`, code: 'SERVER_ERROR' }
+  });
+}
+
+/**
+ * @swagger
+ * /api/leagues:
+ *   get:
+ *     summary: Get the leagues the current user belongs to
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Leagues retrieved successfully
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const leagues = await LeagueService.listLeagues(req.session.userId!);
+    res.json({ success: true, data: { leagues } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'fetching leagues');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues:
+ *   post:
+ *     summary: Create a league (the creator owns it and is its first member)
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: League created
+ *       400:
+ *         description: Invalid name
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const name = validateLeagueNameInput(req.body.name);
+    const league = await LeagueService.createLeague(req.session.userId!, name);
+    res.status(201).json({ success: true, data: { league } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'creating league');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/join:
+ *   post:
+ *     summary: Join a league with its invite code
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [inviteCode]
+ *             properties:
+ *               inviteCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Joined (or already a member)
+ *       404:
+ *         description: No league for that invite code
+ */
+router.post('/join', async (req: Request, res: Response) => {
+  try {
+    const { inviteCode } = req.body;
+    if (!inviteCode || typeof inviteCode !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'inviteCode is required', code: 'VALIDATION_ERROR' }
+      });
+    }
+
+    const league = await LeagueService.joinLeague(req.session.userId!, inviteCode);
+    res.json({ success: true, data: { league } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'joining league');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}:
+ *   get:
+ *     summary: Get a league and its members
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: League retrieved successfully
+ *       404:
+ *         description: League not found or not a member
+ */
+router.get('/:leagueId', async (req: Request, res: Response) => {
+  try {
+    const league = await LeagueService.getLeague(req.params.leagueId, req.session.userId!);
+    res.json({ success: true, data: { league } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'fetching league');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}:
+ *   patch:
+ *     summary: Rename a league (owner only)
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: League renamed
+ *       403:
+ *         description: Not the league owner
+ */
+router.patch('/:leagueId', async (req: Request, res: Response) => {
+  try {
+    const name = validateLeagueNameInput(req.body.name);
+    const league = await LeagueService.renameLeague(req.params.leagueId, req.session.userId!, name);
+    res.json({ success: true, data: { league } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'renaming league');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}/invite-code:
+ *   post:
+ *     summary: Replace the league's invite code (owner only)
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: New invite code issued; the old one stops working
+ *       403:
+ *         description: Not the league owner
+ */
+router.post('/:leagueId/invite-code', async (req: Request, res: Response) => {
+  try {
+    const league = await LeagueService.regenerateInviteCode(req.params.leagueId, req.session.userId!);
+    res.json({ success: true, data: { league } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'regenerating invite code');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}/leave:
+ *   post:
+ *     summary: Leave a league
+ *     description: An owner leaving hands the league to the longest-standing member. The last member leaving deletes the league.
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Left the league
+ */
+router.post('/:leagueId/leave', async (req: Request, res: Response) => {
+  try {
+    const result = await LeagueService.leaveLeague(req.params.leagueId, req.session.userId!);
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        message: result.deleted ? 'Left league (no members remaining, league deleted)' : 'Left league'
+      }
+    });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'leaving league');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from a league (owner only)
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       403:
+ *         description: Not the league owner
+ *       404:
+ *         description: Member not found
+ */
+router.delete('/:leagueId/members/:userId', async (req: Request, res: Response) => {
+  try {
+    const league = await LeagueService.removeMember(req.params.leagueId, req.session.userId!, req.params.userId);
+    res.json({ success: true, data: { league } });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'removing league member');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}/leaderboard:
+ *   get:
+ *     summary: Get a leaderboard of the league's members
+ *     description: Same boards, windows and pagination as /api/leaderboards
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: board
+ *         schema:
+ *           type: string
+ *           enum: [current_streak, longest_streak, points]
+ *       - in: query
+ *         name: window
+ *         schema:
+ *           type: string
+ *           enum: [daily, weekly, monthly, all_time]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: timezoneOffset
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Leaderboard retrieved successfully
+ */
+router.get('/:leagueId/leaderboard', async (req: Request, res: Response) => {
+  try {
+    const params = parseLeaderboardQuery(req.query);
+    const { timezoneOffset } = parseDateAndTimezone(req);
+
+    const leaderboard = await LeagueService.getLeaderboard(req.params.leagueId, req.session.userId!, {
+      ...params,
+      timezoneOffset
+    });
+    res.json({ success: true, data: leaderboard });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'fetching league leaderboard');
+  }
+});
+
+/**
+ * @swagger
+ * /api/leagues/{leagueId}/activity:
+ *   get:
+ *     summary: Get the league's activity feed (members' streak changes, newest first)
+ *     tags: [Leagues]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leagueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return activity before this time (the last item's eventTime, for the next page)
+ *     responses:
+ *       200:
+ *         description: Activity retrieved successfully
+ */
+router.get('/:leagueId/activity', async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_ACTIVITY_LIMIT;
+    const before = req.query.before ? new Date(req.query.before as string) : undefined;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_ACTIVITY_LIMIT) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `limit must be between 1 and ${MAX_ACTIVITY_LIMIT}`, code: 'VALIDATION_ERROR' }
+      });
+    }
+
+    if (before && isNaN(before.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'before must be a valid date', code: 'VALIDATION_ERROR' }
+      });
+    }
+
+    const activity = await LeagueService.getActivity(req.params.leagueId, req.session.userId!, limit, before);
+    res.json({
+      success: true,
+      data: {
+        activity,
+        nextBefore: activity.length === limit ? activity[activity.length - 1].eventTime : null
+      }
+    });
+  } catch (error: any) {
+    sendLeagueError(res, error, 'fetching league activity');
+  }
+});
+
+export default router;
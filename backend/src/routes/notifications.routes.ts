@@ -0,0 +1,169 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { requireAuth } from '../middleware/auth';
+import { requireFeature } from '../middleware/featureFlags';
+import {
+  validateDevicePlatform,
+  validateDeviceTokenInput,
+  validatePreferenceUpdates
+} from '../utils/notificationValidation';
+import { NotificationService } from '../services/notification.service';
+
+const router = Router();
+
+router.use(requireAuth, requireFeature('USER_NOTIFICATIONS'));
+
+/**
+ * Send a validation error thrown by the notification helpers, or a 500
+ */
+function sendNotificationError(res: Response, error: any, action: string) {
+  if (error.status) {
+    return res.status(error.status).json({
+      success: false,
+      error: { message: error.message, code: error.code }
+    });
+  }
+  logger.error(`Error ${action}`, { error: error.message, stack: error.stack });
+  res.status(500).json({
+    success: false,
+    error: { message: error.message || `Failed ${action}`, code: 'SERVER_ERROR' }
+  });
+}
+
+/**
+ * @swagger
+ * /api/notifications/devices:
+ *   post:
+ *     summary: Register this device's Expo push token for the current user
+ *     tags: [Notifications]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, platform]
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]
+ *               platform:
+ *                 type: string
+ *                 enum: [ios, android]
+ *     responses:
+ *       200:
+ *         description: Device registered
+ *       400:
+ *         description: Invalid token or platform
+ */
+router.post('/devices', async (req: Request, res: Response) => {
+  try {
+    const token = validateDeviceTokenInput(req.body?.token);
+    const platform = validateDevicePlatform(req.body?.platform);
+
+    await NotificationService.registerDevice(req.session.userId!, token, platform);
+    res.json({ success: true, data: { registered: true } });
+  } catch (error: any) {
+    sendNotificationError(res, error, 'registering device');
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/devices:
+ *   delete:
+ *     summary: Stop sending push notifications to a device (call before logging out)
+ *     tags: [Notifications]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Device unregistered
+ *       400:
+ *         description: Invalid token
+ */
+router.delete('/devices', async (req: Request, res: Response) => {
+  try {
+    const token = validateDeviceTokenInput(req.body?.token);
+
+    await NotificationService.unregisterDevice(req.session.userId!, token);
+    res.json({ success: true, data: { registered: false } });
+  } catch (error: any) {
+    sendNotificationError(res, error, 'unregistering device');
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   get:
+ *     summary: Get the current user's notification preferences
+ *     tags: [Notifications]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Preferences retrieved successfully
+ */
+router.get('/preferences', async (req: Request, res: Response) => {
+  try {
+    const preferences = await NotificationService.getPreferences(req.session.userId!);
+    res.json({ success: true, data: { preferences } });
+  } catch (error: any) {
+    sendNotificationError(res, error, 'fetching notification preferences');
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   patch:
+ *     summary: Turn notification types on or off
+ *     tags: [Notifications]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               parlayLocked:
+ *                 type: boolean
+ *               legResolved:
+ *                 type: boolean
+ *               parlaySettled:
+ *                 type: boolean
+ *               gamesStartingSoon:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         description: Unknown preference or non-boolean value
+ */
+router.patch('/preferences', async (req: Request, res: Response) => {
+  try {
+    const updates = validatePreferenceUpdates(req.body);
+
+    const preferences = await NotificationService.updatePreferences(req.session.userId!, updates);
+    res.json({ success: true, data: { preferences } });
+  } catch (error: any) {
+    sendNotificationError(res, error, 'updating notification preferences');
+  }
+});
+
+export default router;
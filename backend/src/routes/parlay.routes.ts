@@ -4,6 +4,9 @@ import { logger } from '../utils/logger';
 import { requireAuth } from '../middleware/auth';
 import { requireFeature } from '../middleware/featureFlags';
 import { parseDateAndTimezone, getUTCDateRange } from '../utils/dateUtils';
+import { getValidSides } from '@shared/utils/betSides';
+import { calculateParlayValue } from '@shared/utils/parlay';
+import { RulesService } from '../services/rules.service';
 import {
   validateUserAuthenticated,
   validateParlayOwnership,
@@ -23,53 +26,12 @@ import {
 const router = Router();
 const prisma = new PrismaClient();
 
-// Insurance cost lookup table
-const INSURANCE_COSTS = {
-  '0-14': { parlay8: 3, parlay16: 5 },
-  '15-24': { parlay8: 5, parlay16: 8 },
-  '25-34': { parlay8: 6, parlay16: 10 },
-  '35-44': { parlay8: 8, parlay16: 13 },
-  '45+': { parlay8: 9, parlay16: 15 },
-};
-
-/**
- * Calculate insurance cost based on parlay value and current streak
- */
-function getInsuranceCost(parlayValue: number, currentStreak: number): number {
-  let range: keyof typeof INSURANCE_COSTS;
-  if (currentStreak <= 14) range = '0-14';
-  else if (currentStreak <= 24) range = '15-24';
-  else if (currentStreak <= 34) range = '25-34';
-  else if (currentStreak <= 44) range = '35-44';
-  else range = '45+';
-  
-  const costs = INSURANCE_COSTS[range];
-  return parlayValue === 8 ? costs.parlay8 : costs.parlay16;
-}
-
-/**
- * Calculate parlay value based on bet count
- */
-function calculateParlayValue(betCount: number): number {
-  if (betCount === 2) return 2;
-  if (betCount === 3) return 4;
-  if (betCount === 4) return 8;
-  if (betCount === 5) return 16;
-  return 0; // Invalid
-}
-
 /**
  * Validate selectedSide matches bet type
+ * Three-way comparisons also accept 'draw'
  */
-function validateSelectedSide(betType: string, selectedSide: string): boolean {
-  if (betType === 'COMPARISON') {
-    return selectedSide === 'participant_1' || selectedSide === 'participant_2';
-  } else if (betType === 'THRESHOLD') {
-    return selectedSide === 'over' || selectedSide === 'under';
-  } else if (betType === 'EVENT') {
-    return selectedSide === 'yes' || selectedSide === 'no';
-  }
-  return false;
+function validateSelectedSide(betType: string, selectedSide: string, config?: any): boolean {
+  return getValidSides(betType, config).includes(selectedSide);
 }
 
 /**
@@ -146,7 +108,8 @@ router.post('/start', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), async (re
       });
     }
 
-    // Create new Parlay
+    // Create new Parlay under the active ruleset
+    const { version: rulesetVersion } = await RulesService.getActiveRuleset(true);
     const parlay = await prisma.parlay.create({
       data: {
         userId: userId!,
@@ -154,7 +117,8 @@ router.post('/start', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), async (re
         parlayValue: 0, // Invalid until 2+ bets
         insured: false,
         insuranceCost: 0,
-        status: 'building'
+        status: 'building',
+        rulesetVersion
       }
     });
 
@@ -222,7 +186,9 @@ router.post('/:parlayId/add-selection', requireAuth, requireFeature('PUBLIC_BETS
 
     validateParlayOwnership(parlay, userId!);
     validateParlayNotLocked(parlay);
-    validateParlayNotFull(parlay);
+
+    const rules = await RulesService.getRules(parlay.rulesetVersion);
+    validateParlayNotFull(parlay, rules.maxLegs);
 
     let selection;
 
@@ -289,7 +255,7 @@ router.post('/:parlayId/add-selection', requireAuth, requireFeature('PUBLIC_BETS
 
     // Update parlay betCount and parlayValue
     const newBetCount = parlay.selections.length + 1;
-    const newParlayValue = calculateParlayValue(newBetCount);
+    const newParlayValue = calculateParlayValue(newBetCount, rules);
 
     await prisma.parlay.update({
       where: { id: parlayId },
@@ -381,7 +347,7 @@ router.delete('/:parlayId/selections/:selectionId', requireAuth, requireFeature(
 
     // Update parlay betCount and parlayValue
     const newBetCount = parlay.selections.length - 1;
-    const newParlayValue = calculateParlayValue(newBetCount);
+    const newParlayValue = calculateParlayValue(newBetCount, await RulesService.getRules(parlay.rulesetVersion));
 
     if (newBetCount === 0) {
       // Delete parlay if no bets left
@@ -415,6 +381,7 @@ router.delete('/:parlayId/selections/:selectionId', requireAuth, requireFeature(
         await prisma.userBetSelection.updateMany({
           where: { parlayId: null, id: { in: remainingSelections.map(s => s.id) } },
           data: {
+            rulesetVersion: parlay.rulesetVersion,
             status: 'selected'
           }
         });
@@ -643,7 +610,8 @@ router.patch('/:parlayId', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), asyn
 
     // Handle insurance toggle
     if (insured && !parlay.insured) {
-      await addInsuranceToParlay(prisma, parlay, user, parlayId, getInsuranceCost);
+      const rules = await RulesService.getRules(parlay.rulesetVersion);
+      await addInsuranceToParlay(prisma, parlay, user, parlayId, rules);
       logger.info('Insurance added to parlay', {
         userId,
         parlayId,
@@ -720,6 +688,7 @@ router.delete('/:parlayId', requireAuth, requireFeature('PUBLIC_BETS_VIEW'), asy
         where: { parlayId },
         data: {
           parlayId: null,
+          rulesetVersion: parlay.rulesetVersion,
           status: 'selected'
         }
       });
@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { validateRulesetVersion } from '../utils/rulesValidation';
+import { RulesService } from '../services/rules.service';
+
+const router = Router();
+
+function sendRulesError(res: Response, error: any, action: string) {
+  if (error.status) {
+    return res.status(error.status).json({
+      success: false,
+      error: { message: error.message, code: error.code }
+    });
+  }
+  logger.error(`Error ${action}`, { error: error.message, stack: error.stack });
+  return res.status(500).json({
+    success: false,
+    error: { message: error.message || 'Failed to fetch game rules', code: 'SERVER_ERROR' }
+  });
+}
+
+/**
+ * @swagger
+ * /api/rules:
+ *   get:
+ *     summary: Get the active game ruleset
+ *     description: |
+ *       Parlay values by leg count, max legs, insurance eligibility and cost tiers, and single
+ *       bet rules. New parlays are created under this version. Public so clients can show the
+ *       rules before login.
+ *     tags: [Rules]
+ *     responses:
+ *       200:
+ *         description: Active ruleset retrieved successfully
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const ruleset = await RulesService.getActiveRuleset();
+    res.json({ success: true, data: { ruleset } });
+  } catch (error: any) {
+    sendRulesError(res, error, 'fetching game rules');
+  }
+});
+
+/**
+ * @swagger
+ * /api/rules/versions/{version}:
+ *   get:
+ *     summary: Get a specific game ruleset version
+ *     description: For showing the rules an older parlay (see its rulesetVersion) is scored under
+ *     tags: [Rules]
+ *     parameters:
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Ruleset retrieved successfully
+ *       400:
+ *         description: Invalid version
+ *       404:
+ *         description: Version not found
+ */
+router.get('/versions/:version', async (req: Request, res: Response) => {
+  try {
+    const version = validateRulesetVersion(req.params.version);
+    const ruleset = await RulesService.getRuleset(version);
+    res.json({ success: true, data: { ruleset } });
+  } catch (error: any) {
+    sendRulesError(res, error, 'fetching game ruleset version');
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { requireAuth } from '../middleware/auth';
+import { parseStreakHistoryQuery } from '../utils/streakValidation';
+import { StreakHistoryService } from '../services/streakHistory.service';
+
+const router = Router();
+
+router.use(requireAuth);
+
+/**
+ * @swagger
+ * /api/streaks/history:
+ *   get:
+ *     summary: Get the current user's streak history grouped into streak runs
+ *     description: |
+ *       Each run goes from the change that took the streak above 0 to the one that reset it
+ *       (or is still active). Runs and their events are newest first; each event links the
+ *       parlay or single bet that caused it.
+ *     tags: [Streaks]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         description: Runs per page
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Streak runs retrieved successfully
+ *       400:
+ *         description: Invalid page or pageSize
+ */
+router.get('/history', async (req: Request, res: Response) => {
+  try {
+    const { page, pageSize } = parseStreakHistoryQuery(req.query);
+
+    const history = await StreakHistoryService.getStreakHistory(req.session.userId!, page, pageSize);
+    res.json({ success: true, data: history });
+  } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json({
+        success: false,
+        error: { message: error.message, code: error.code }
+      });
+    }
+    logger.error('Error fetching streak history', { error: error.message, stack: error.stack });
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to fetch streak history', code: 'SERVER_ERROR' }
+    });
+  }
+});
+
+export default router;
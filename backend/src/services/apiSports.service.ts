@@ -1,5 +1,6 @@
 import { logger } from '../utils/logger';
-import type { EspnEvent, EspnLeague, EspnApiResponse, ApiSportsGame } from '../interfaces';
+import type { EspnEvent, EspnLeague, EspnApiResponse, EspnOdds, ApiSportsGame, SportsDataProvider, SupportedSport } from '../interfaces';
+import type { GameOdds } from '@shared/types';
 
 // Re-export interfaces for backward compatibility
 export type { EspnEvent, EspnLeague, EspnApiResponse, ApiSportsGame } from '../interfaces';
@@ -20,11 +21,287 @@ const espnLogger = (url: string, date: string, dateStr: string, sport: string, s
       console.log('═══════════════════════════════════════════════════════════\n');
 }
 
+/**
+ * Map ESPN status to our status format
+ * Exported so game polling and bet resolution map statuses the same way
+ */
+export function mapEspnStatusToOurStatus(espnState: string): string {
+  const statusMap: Record<string, string> = {
+    'pre': 'scheduled',
+    'in': 'in_progress',
+    'post': 'completed',
+    'final': 'completed',
+    'stat_final': 'completed',
+  };
+
+  return statusMap[espnState.toLowerCase()] || 'scheduled';
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Read the betting lines from a scoreboard competition's odds, if ESPN has any
+ * The spread is normalised to the home team's line using the favorite flags, since those
+ * are clearer than the sign of ESPN's own spread field
+ */
+function parseEspnOdds(odds: EspnOdds[] | undefined): GameOdds | null {
+  const line = odds?.[0];
+  if (!line) {
+    return null;
+  }
+
+  const rawSpread = toNumberOrNull(line.spread);
+  let spread: number | null = null;
+  if (rawSpread !== null) {
+    const size = Math.abs(rawSpread);
+    if (line.homeTeamOdds?.favorite) {
+      spread = -size;
+    } else if (line.awayTeamOdds?.favorite) {
+      spread = size;
+    } else {
+      spread = rawSpread;
+    }
+  }
+
+  const parsed: GameOdds = {
+    provider: line.provider?.name || null,
+    details: line.details || null,
+    spread,
+    overUnder: toNumberOrNull(line.overUnder),
+    homeMoneyline: toNumberOrNull(line.homeTeamOdds?.moneyLine),
+    awayMoneyline: toNumberOrNull(line.awayTeamOdds?.moneyLine),
+    drawMoneyline: toNumberOrNull(line.drawOdds?.moneyLine)
+  };
+
+  // Providers sometimes list an entry with no lines at all
+  const hasLines = [parsed.spread, parsed.overUnder, parsed.homeMoneyline, parsed.awayMoneyline].some(value => value !== null);
+  return hasLines ? parsed : null;
+}
+
+/**
+ * Transform ESPN API response to our game format
+ */
+function transformEspnResponse(data: EspnApiResponse, sport: string, league: string): ApiSportsGame[] {
+  const games: ApiSportsGame[] = [];
+
+  if (!data || !data.leagues || !Array.isArray(data.leagues)) {
+    logger.warn('Invalid ESPN API response structure', { hasData: !!data, hasLeagues: !!(data?.leagues) });
+    return games;
+  }
+
+  // Map sport/league to our sport name
+  const sportName = mapEspnSportToOurSport(sport, league);
+
+  for (const leagueData of data.leagues) {
+    if (!leagueData.events || !Array.isArray(leagueData.events)) {
+      continue;
+    }
+    
+    if (leagueData.events.length === 0) {
+      continue;
+    }
+
+    for (const event of leagueData.events) {
+      try {
+        // ESPN API structure: event.competitions is an array
+        // But sometimes the event itself might have the competition data directly
+        let competition = event.competitions?.[0];
+        
+        // If no competitions array, check if event has competition data directly
+        if (!competition && (event as any).competitors) {
+          competition = event as any;
+        }
+        
+        if (!competition) {
+          continue;
+        }
+
+        // Find home and away teams
+        // Note: ESPN API returns competitors with team data directly (not nested in .team)
+        const homeTeam = competition.competitors?.find((c: any) => c.homeAway === 'home') as any;
+        const awayTeam = competition.competitors?.find((c: any) => c.homeAway === 'away') as any;
+
+        if (!homeTeam || !awayTeam) {
+          continue;
+        }
+
+        // Parse status - check both competition and event for status
+        const statusState = competition.status?.type?.state || event.status?.type?.state || 'pre';
+        const status = mapEspnStatusToOurStatus(statusState);
+
+        // Parse scores
+        const homeScore = homeTeam.score ? parseInt(homeTeam.score) : null;
+        const awayScore = awayTeam.score ? parseInt(awayTeam.score) : null;
+
+        // Parse date/timestamp - check both competition and event for date
+        const dateStr = competition.startDate || event.date || (event as any).startDate;
+        if (!dateStr) {
+          continue;
+        }
+        const eventDate = new Date(dateStr);
+        const timestamp = eventDate.getTime();
+
+        if (isNaN(timestamp)) {
+          continue;
+        }
+
+        // Extract team data - competitors have team nested under .team property
+        const homeTeamData = homeTeam.team || homeTeam;
+        const awayTeamData = awayTeam.team || awayTeam;
+
+        const game: ApiSportsGame = {
+          id: event.id,
+          externalId: event.id,
+          date: eventDate.toISOString(),
+          timestamp: Math.floor(timestamp / 1000),
+          status,
+          sport: sportName,
+          league: {
+            id: leagueData.id,
+            name: leagueData.name,
+            abbreviation: leagueData.abbreviation,
+          },
+          teams: {
+            home: {
+              id: homeTeamData.id || homeTeam.id,
+              name: homeTeamData.name || homeTeamData.location || 'Unknown',
+              abbreviation: homeTeamData.abbreviation || '',
+              displayName: homeTeamData.displayName || homeTeamData.name || 'Unknown',
+            },
+            away: {
+              id: awayTeamData.id || awayTeam.id,
+              name: awayTeamData.name || awayTeamData.location || 'Unknown',
+              abbreviation: awayTeamData.abbreviation || '',
+              displayName: awayTeamData.displayName || awayTeamData.name || 'Unknown',
+            },
+          },
+          scores: {
+            home: homeScore,
+            away: awayScore,
+          },
+          odds: parseEspnOdds(competition.odds),
+          metadata: {
+            espnEvent: event,
+            competition,
+          },
+        };
+
+        games.push(game);
+      } catch (error: any) {
+        logger.error(`Error transforming event ${event.id}`, { 
+          eventId: event.id,
+          error: error?.message || String(error)
+        });
+      }
+    }
+  }
+
+  return games;
+}
+
+/**
+ * Map ESPN sport/league to our sport names
+ */
+function mapEspnSportToOurSport(sport: string, league: string): string {
+  // Map sport names to our format
+  const sportMap: Record<string, string> = {
+    'basketball': 'BASKETBALL',
+    'football': 'FOOTBALL',
+    'baseball': 'BASEBALL',
+    'hockey': 'HOCKEY',
+    'soccer': 'SOCCER',
+  };
+
+  return sportMap[sport.toLowerCase()] || sport.toUpperCase();
+}
+
+/**
+ * Transform a raw ESPN scoreboard payload to our game format
+ * Some ESPN endpoints return events at the root instead of under leagues
+ * Exported so the fixture provider replays recorded scoreboards the same way
+ */
+export function transformEspnScoreboard(rawData: any, sport: string, league: string): ApiSportsGame[] {
+  if (rawData?.events && Array.isArray(rawData.events)) {
+    // Wrap events in a league structure for transformation
+    const wrappedData: EspnApiResponse = {
+      leagues: [{
+        id: league,
+        uid: '',
+        name: league.toUpperCase(),
+        abbreviation: league.toUpperCase(),
+        shortName: league,
+        slug: league,
+        events: rawData.events
+      }]
+    };
+    return transformEspnResponse(wrappedData, sport, league);
+  }
+
+  const data = rawData as EspnApiResponse;
+
+  if (!data?.leagues || !Array.isArray(data.leagues) || data.leagues.length === 0) {
+    logger.warn('ESPN API response has no leagues array', { sport, league });
+    return [];
+  }
+
+  return transformEspnResponse(data, sport, league);
+}
+
+/**
+ * Sports and leagues the admin can fetch games for
+ * The fixture provider offers the same list so the admin screens behave identically offline
+ */
+export const SUPPORTED_SPORTS: SupportedSport[] = [
+  {
+    sport: 'basketball',
+    leagues: [
+      { id: 'nba', name: 'NBA' },
+      { id: 'wnba', name: 'WNBA' },
+      { id: 'mens-college-basketball', name: "Men's College Basketball" },
+      { id: 'womens-college-basketball', name: "Women's College Basketball" },
+    ],
+  },
+  {
+    sport: 'football',
+    leagues: [
+      { id: 'nfl', name: 'NFL' },
+      { id: 'college-football', name: 'College Football' },
+    ],
+  },
+  {
+    sport: 'baseball',
+    leagues: [
+      { id: 'mlb', name: 'MLB' },
+      { id: 'college-baseball', name: 'College Baseball' },
+    ],
+  },
+  {
+    sport: 'hockey',
+    leagues: [
+      { id: 'nhl', name: 'NHL' },
+    ],
+  },
+  {
+    sport: 'soccer',
+    leagues: [
+      { id: 'all', name: 'All Leagues' },
+      { id: 'eng.1', name: 'Premier League' },
+      { id: 'usa.1', name: 'MLS' },
+      { id: 'uefa.champions', name: 'Champions League' },
+    ],
+  },
+];
+
 /**
  * Service for interacting with ESPN API
  * Fetches games from ESPN's scoreboard API
+ * The live SportsDataProvider - see sportsData.service.ts for how the provider is chosen
  */
-export class ApiSportsService {
+export class ApiSportsService implements SportsDataProvider {
+  readonly name = 'espn';
   private baseUrl = 'https://site.api.espn.com/apis/site/v2/sports';
 
   constructor() {
@@ -38,7 +315,7 @@ export class ApiSportsService {
    * @param date - Date in YYYY-MM-DD format (required)
    * @returns Array of transformed games
    */
-  async getGames(sport: string, league: string, date: string): Promise<ApiSportsGame[]> {
+  async listGames(sport: string, league: string, date: string): Promise<ApiSportsGame[]> {
     // ESPN API uses dates in YYYYMMDD format
     const dateStr = date.replace(/-/g, '');
     
@@ -88,37 +365,8 @@ export class ApiSportsService {
 
         const rawData: any = await response.json();
 
-        // Check if response has events directly (some ESPN endpoints return events at root)
-        if (rawData?.events && Array.isArray(rawData.events)) {
-          // Wrap events in a league structure for transformation
-          const wrappedData: EspnApiResponse = {
-            leagues: [{
-              id: league,
-              uid: '',
-              name: league.toUpperCase(),
-              abbreviation: league.toUpperCase(),
-              shortName: league,
-              slug: league,
-              events: rawData.events
-            }]
-          };
-          const games = this.transformEspnResponse(wrappedData, sport, league);
-          logger.info('Successfully fetched games from ESPN', { 
-            gameCount: games.length,
-            date 
-          });
-          return games;
-        }
-
-        const data = rawData as EspnApiResponse;
-        
-        if (!data?.leagues || !Array.isArray(data.leagues) || data.leagues.length === 0) {
-          logger.warn('ESPN API response has no leagues array', { date, sport, league });
-          return [];
-        }
-
         // Transform ESPN response to our format
-        const games = this.transformEspnResponse(data, sport, league);
+        const games = transformEspnScoreboard(rawData, sport, league);
         
         logger.info('Successfully fetched games from ESPN', { 
           gameCount: games.length,
@@ -232,157 +480,6 @@ export class ApiSportsService {
     throw lastError || new Error('Failed to fetch game data after retries');
   }
 
-  /**
-   * Transform ESPN API response to our game format
-   */
-  private transformEspnResponse(data: EspnApiResponse, sport: string, league: string): ApiSportsGame[] {
-    const games: ApiSportsGame[] = [];
-
-    if (!data || !data.leagues || !Array.isArray(data.leagues)) {
-      logger.warn('Invalid ESPN API response structure', { hasData: !!data, hasLeagues: !!(data?.leagues) });
-      return games;
-    }
-
-    // Map sport/league to our sport name
-    const sportName = this.mapEspnSportToOurSport(sport, league);
-
-    for (const leagueData of data.leagues) {
-      if (!leagueData.events || !Array.isArray(leagueData.events)) {
-        continue;
-      }
-      
-      if (leagueData.events.length === 0) {
-        continue;
-      }
-
-      for (const event of leagueData.events) {
-        try {
-          // ESPN API structure: event.competitions is an array
-          // But sometimes the event itself might have the competition data directly
-          let competition = event.competitions?.[0];
-          
-          // If no competitions array, check if event has competition data directly
-          if (!competition && (event as any).competitors) {
-            competition = event as any;
-          }
-          
-          if (!competition) {
-            continue;
-          }
-
-          // Find home and away teams
-          // Note: ESPN API returns competitors with team data directly (not nested in .team)
-          const homeTeam = competition.competitors?.find((c: any) => c.homeAway === 'home') as any;
-          const awayTeam = competition.competitors?.find((c: any) => c.homeAway === 'away') as any;
-
-          if (!homeTeam || !awayTeam) {
-            continue;
-          }
-
-          // Parse status - check both competition and event for status
-          const statusState = competition.status?.type?.state || event.status?.type?.state || 'pre';
-          const status = this.mapEspnStatusToOurStatus(statusState);
-
-          // Parse scores
-          const homeScore = homeTeam.score ? parseInt(homeTeam.score) : null;
-          const awayScore = awayTeam.score ? parseInt(awayTeam.score) : null;
-
-          // Parse date/timestamp - check both competition and event for date
-          const dateStr = competition.startDate || event.date || (event as any).startDate;
-          if (!dateStr) {
-            continue;
-          }
-          const eventDate = new Date(dateStr);
-          const timestamp = eventDate.getTime();
-
-          if (isNaN(timestamp)) {
-            continue;
-          }
-
-          // Extract team data - competitors have team nested under .team property
-          const homeTeamData = homeTeam.team || homeTeam;
-          const awayTeamData = awayTeam.team || awayTeam;
-
-          const game: ApiSportsGame = {
-            id: event.id,
-            externalId: event.id,
-            date: eventDate.toISOString(),
-            timestamp: Math.floor(timestamp / 1000),
-            status,
-            sport: sportName,
-            league: {
-              id: leagueData.id,
-              name: leagueData.name,
-              abbreviation: leagueData.abbreviation,
-            },
-            teams: {
-              home: {
-                id: homeTeamData.id || homeTeam.id,
-                name: homeTeamData.name || homeTeamData.location || 'Unknown',
-                abbreviation: homeTeamData.abbreviation || '',
-                displayName: homeTeamData.displayName || homeTeamData.name || 'Unknown',
-              },
-              away: {
-                id: awayTeamData.id || awayTeam.id,
-                name: awayTeamData.name || awayTeamData.location || 'Unknown',
-                abbreviation: awayTeamData.abbreviation || '',
-                displayName: awayTeamData.displayName || awayTeamData.name || 'Unknown',
-              },
-            },
-            scores: {
-              home: homeScore,
-              away: awayScore,
-            },
-            metadata: {
-              espnEvent: event,
-              competition,
-            },
-          };
-
-          games.push(game);
-        } catch (error: any) {
-          logger.error(`Error transforming event ${event.id}`, { 
-            eventId: event.id,
-            error: error?.message || String(error)
-          });
-        }
-      }
-    }
-
-    return games;
-  }
-
-  /**
-   * Map ESPN sport/league to our sport names
-   */
-  private mapEspnSportToOurSport(sport: string, league: string): string {
-    // Map sport names to our format
-    const sportMap: Record<string, string> = {
-      'basketball': 'BASKETBALL',
-      'football': 'FOOTBALL',
-      'baseball': 'BASEBALL',
-      'hockey': 'HOCKEY',
-      'soccer': 'SOCCER',
-    };
-
-    return sportMap[sport.toLowerCase()] || sport.toUpperCase();
-  }
-
-  /**
-   * Map ESPN status to our status format
-   */
-  private mapEspnStatusToOurStatus(espnState: string): string {
-    const statusMap: Record<string, string> = {
-      'pre': 'scheduled',
-      'in': 'in_progress',
-      'post': 'completed',
-      'final': 'completed',
-      'stat_final': 'completed',
-    };
-
-    return statusMap[espnState.toLowerCase()] || 'scheduled';
-  }
-
   /**
    * Sleep utility for retry delays
    */
@@ -393,44 +490,8 @@ export class ApiSportsService {
   /**
    * Get supported sports and their leagues
    */
-  getSupportedSports(): Array<{ sport: string; leagues: Array<{ id: string; name: string }> }> {
-    return [
-      {
-        sport: 'basketball',
-        leagues: [
-          { id: 'nba', name: 'NBA' },
-          { id: 'wnba', name: 'WNBA' },
-          { id: 'mens-college-basketball', name: "Men's College Basketball" },
-          { id: 'womens-college-basketball', name: "Women's College Basketball" },
-        ],
-      },
-      {
-        sport: 'football',
-        leagues: [
-          { id: 'nfl', name: 'NFL' },
-          { id: 'college-football', name: 'College Football' },
-        ],
-      },
-      {
-        sport: 'baseball',
-        leagues: [
-          { id: 'mlb', name: 'MLB' },
-          { id: 'college-baseball', name: 'College Baseball' },
-        ],
-      },
-      {
-        sport: 'hockey',
-        leagues: [
-          { id: 'nhl', name: 'NHL' },
-        ],
-      },
-      {
-        sport: 'soccer',
-        leagues: [
-          { id: 'all', name: 'All Leagues' },
-        ],
-      },
-    ];
+  getSupportedSports(): SupportedSport[] {
+    return SUPPORTED_SPORTS;
   }
 
   /**
@@ -442,7 +503,7 @@ export class ApiSportsService {
    * @param useCache - Whether to use cached data (default: true)
    * @returns Roster data or null if not found
    */
-  async getTeamRoster(sport: string, league: string, teamId: string, useCache: boolean = true): Promise<any | null> {
+  async getRoster(sport: string, league: string, teamId: string, useCache: boolean = true): Promise<any | null> {
     // Try to load from Backblaze first
     if (useCache) {
       try {
@@ -0,0 +1,146 @@
+import { Request } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import type {
+  AuditAction,
+  AuditChanges,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogPage,
+  AuditTargetType
+} from '@shared/types';
+
+const prisma = new PrismaClient();
+
+// Bumped on every write, so they would show up as a change in every diff
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+export interface AuditRecord {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  betId?: string | null;
+  gameId?: string | null;
+  before?: object | null; // Snapshot before the change, null for creations
+  after?: object | null; // Snapshot after the change, null for deletions
+}
+
+// Round-trips through JSON so Dates and Prisma Decimals compare and store as they'll be read back
+function toPlain(snapshot: object | null | undefined): Record<string, unknown> {
+  return snapshot ? JSON.parse(JSON.stringify(snapshot)) : {};
+}
+
+function diffSnapshots(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const plainBefore = toPlain(before);
+  const plainAfter = toPlain(after);
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(plainBefore), ...Object.keys(plainAfter)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = plainBefore[field] ?? null;
+    const next = plainAfter[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+function startOfUtcDay(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+/**
+ * Service for the append-only admin audit log
+ * Entries are only ever created and read - nothing here updates or deletes them.
+ */
+export class AuditLogService {
+  /**
+   * Record a successful admin change, attributed to the request's user and request id
+   * Nothing is recorded if the snapshots don't differ. Never throws: the change has already
+   * happened, so a failed audit write is logged instead
+   */
+  static async record(req: Request, entry: AuditRecord): Promise<void> {
+    const changes = diffSnapshots(entry.before, entry.after);
+    if (Object.keys(changes).length === 0) {
+      // e.g. granting a role the user already has
+      return;
+    }
+
+    try {
+      await prisma.adminAuditLog.create({
+        data: {
+          actorId: req.session.userId ?? null,
+          action: entry.action,
+          targetType: entry.targetType,
+          targetId: entry.targetId ?? null,
+          betId: entry.betId ?? null,
+          gameId: entry.gameId ?? null,
+          changes: changes as Prisma.InputJsonValue,
+          requestId: req.requestId
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to write admin audit log entry', {
+        error,
+        action: entry.action,
+        targetId: entry.targetId,
+        requestId: req.requestId
+      });
+    }
+  }
+
+  static async list(filters: AuditLogFilters, page: number, pageSize: number): Promise<AuditLogPage> {
+    const where: Prisma.AdminAuditLogWhereInput = {
+      ...(filters.betId && { betId: filters.betId }),
+      ...(filters.gameId && { gameId: filters.gameId }),
+      ...(filters.userId && {
+        OR: [
+          { actorId: filters.userId },
+          { targetType: 'user', targetId: filters.userId }
+        ]
+      }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: startOfUtcDay(filters.from) }),
+          // to is inclusive, so the range ends at the start of the following day
+          ...(filters.to && { lt: new Date(startOfUtcDay(filters.to).getTime() + 24 * 60 * 60 * 1000) })
+        }
+      })
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.adminAuditLog.findMany({
+        where,
+        include: { actor: { select: { username: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      }),
+      prisma.adminAuditLog.count({ where })
+    ]);
+
+    const entries: AuditLogEntry[] = rows.map(row => ({
+      id: row.id,
+      actorId: row.actorId,
+      actorUsername: row.actor?.username ?? null,
+      action: row.action as AuditAction,
+      targetType: row.targetType as AuditTargetType,
+      targetId: row.targetId,
+      betId: row.betId,
+      gameId: row.gameId,
+      changes: row.changes as AuditChanges,
+      requestId: row.requestId,
+      createdAt: row.createdAt.toISOString()
+    }));
+
+    return {
+      entries,
+      page,
+      pageSize,
+      total,
+      hasMore: page * pageSize < total
+    };
+  }
+}
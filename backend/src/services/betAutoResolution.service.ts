@@ -0,0 +1,154 @@
+import { PrismaClient, Bet, Game } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { resolveBet, isBetEndPointReached, getSportConfig, persistBetResolution } from './betResolution.service';
+import type { BetConfig } from '@shared/types/bets';
+import type { SportConfig } from '@shared/types/sports';
+import type { ResolutionResult } from '@shared/types/betResolution';
+
+const prisma = new PrismaClient();
+
+// Game statuses where bets can be resolved
+export const RESOLVABLE_GAME_STATUSES = ['in_progress', 'completed'];
+
+// How long after a game completes we keep waiting for ESPN data to reach a bet's end point
+// (play-by-play and boxscores can lag the final status) before handing the bet to an admin
+const COMPLETED_GAME_GRACE_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface GameResolutionSummary {
+  pending: number;
+  resolved: number;
+  waiting: number;
+  flagged: number;
+}
+
+/**
+ * Service that resolves bets automatically from polled game data
+ * Called by the game poller with the data it just fetched, so each game is fetched once per poll.
+ * Bets resolve as soon as their end point is reached (Q1 props at the end of Q1).
+ * Bets that can't be resolved are flagged with needsAdminResolution and the reason
+ * in adminResolutionNotes, and are left for an admin to resolve by hand.
+ */
+export class BetAutoResolutionService {
+  /**
+   * Resolve every pending, unflagged bet on a game from the game's latest data
+   */
+  static async resolveGameBets(game: Game, gameData: any): Promise<GameResolutionSummary> {
+    const summary: GameResolutionSummary = { pending: 0, resolved: 0, waiting: 0, flagged: 0 };
+
+    if (!RESOLVABLE_GAME_STATUSES.includes(game.status)) {
+      return summary;
+    }
+
+    const bets = await prisma.bet.findMany({
+      where: {
+        gameId: game.id,
+        outcome: 'pending',
+        needsAdminResolution: false
+      },
+      orderBy: { priority: 'asc' }
+    });
+
+    summary.pending = bets.length;
+    if (bets.length === 0) {
+      return summary;
+    }
+
+    let sportConfig: SportConfig;
+    try {
+      sportConfig = getSportConfig(game.sport);
+    } catch (error: any) {
+      for (const bet of bets) {
+        await this.flagForAdmin(bet, error.message);
+        summary.flagged++;
+      }
+      return summary;
+    }
+
+    for (const bet of bets) {
+      try {
+        const result = await this.resolveGameBet(game, bet, gameData, sportConfig);
+        summary[result]++;
+      } catch (error: any) {
+        logger.error('Error auto-resolving bet', { betId: bet.id, gameId: game.id, error: error.message, stack: error.stack });
+        await this.flagForAdmin(bet, `Auto-resolution error: ${error.message || 'Unknown error'}`);
+        summary.flagged++;
+      }
+    }
+
+    logger.info('Auto-resolution complete for game', { gameId: game.id, ...summary });
+
+    return summary;
+  }
+
+  /**
+   * Try to resolve one bet
+   * 'waiting' means the bet's period hasn't ended yet - it will be tried again next poll
+   */
+  private static async resolveGameBet(
+    game: Game,
+    bet: Bet,
+    gameData: any,
+    sportConfig: SportConfig
+  ): Promise<'resolved' | 'waiting' | 'flagged'> {
+    const betConfig = bet.config as unknown as BetConfig | null;
+    if (!betConfig?.type) {
+      await this.flagForAdmin(bet, 'Bet has no structured config to resolve from');
+      return 'flagged';
+    }
+
+    if (!isBetEndPointReached(betConfig, gameData, sportConfig)) {
+      if (game.status === 'completed' && this.isPastGracePeriod(game)) {
+        await this.flagForAdmin(bet, 'Game completed but the bet\'s period end point was never reached in game data');
+        return 'flagged';
+      }
+
+      await prisma.bet.update({
+        where: { id: bet.id },
+        data: { lastFetchedAt: new Date() }
+      });
+      return 'waiting';
+    }
+
+    const resolutionResult: ResolutionResult = resolveBet(betConfig, gameData, sportConfig);
+    if (!resolutionResult.resolved) {
+      await this.flagForAdmin(bet, resolutionResult.reason || 'Bet could not be resolved from game data');
+      return 'flagged';
+    }
+
+    const persisted = await persistBetResolution(bet, resolutionResult);
+    if (!persisted) {
+      // Resolved by an admin between our read and write
+      return 'waiting';
+    }
+
+    logger.info('Bet auto-resolved', {
+      betId: bet.id,
+      gameId: game.id,
+      outcome: resolutionResult.outcome,
+      updatedSelections: persisted.updatedSelections
+    });
+
+    return 'resolved';
+  }
+
+  /**
+   * Hand a bet over to admins with the reason automatic resolution failed
+   */
+  private static async flagForAdmin(bet: Bet, reason: string): Promise<void> {
+    logger.warn('Bet flagged for admin resolution', { betId: bet.id, gameId: bet.gameId, reason });
+
+    await prisma.bet.updateMany({
+      where: { id: bet.id, outcome: 'pending' },
+      data: {
+        needsAdminResolution: true,
+        adminResolutionNotes: `Auto-resolution failed: ${reason}`,
+        lastFetchedAt: new Date()
+      }
+    });
+  }
+
+  private static isPastGracePeriod(game: Game): boolean {
+    const completedAt = game.endTime || game.updatedAt;
+    return Date.now() - completedAt.getTime() > COMPLETED_GAME_GRACE_MS;
+  }
+}
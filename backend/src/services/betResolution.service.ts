@@ -5,12 +5,25 @@
 
 // Import from root shared folder (relative path from backend/src/services)
 // The shared folder is at the repo root level
-const { resolveBet } = require('@shared/utils/betResolution');
-const { SPORT_CONFIGS } = require('@shared/config/sports/basketball');
-const { mapEspnStatusToOurStatus } = require('../services/apiSports.service');
+const { resolveBet, isBetEndPointReached, getBetTimePeriods } = require('@shared/utils/betResolution');
+const { SPORT_CONFIGS } = require('@shared/config/sports');
+
+import { PrismaClient, Prisma, Bet } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { mapEspnStatusToOurStatus } from './apiSports.service';
+import { StreakSettlementService, SettlementSummary, ReversalSummary, ReversedSettlements } from './streakSettlement.service';
+import { RealtimeService } from './realtime.service';
+import { NotificationService } from './notification.service';
 
 // Type import for TypeScript (using require for runtime)
-import type { SportConfig } from '@shared/types/sports';
+import type { SportConfig, SportTimePeriod } from '@shared/types/sports';
+import type { BetConfig, ManualBetOutcome } from '@shared/types/bets';
+import type { ResolutionResult } from '@shared/types/betResolution';
+
+const prisma = new PrismaClient();
+
+// Reopening or correcting a popular bet reverses settlements for every user who picked it, in one transaction
+const REOPEN_TRANSACTION_TIMEOUT_MS = 60000; // 60 seconds
 
 /**
  * Get sport config by sport key
@@ -29,14 +42,67 @@ function getSportConfig(sportKey: string): SportConfig {
   return config;
 }
 
+/**
+ * Get sport config by sport key, or undefined for sports without one
+ */
+function findSportConfig(sportKey: string): SportConfig | undefined {
+  return SPORT_CONFIGS[sportKey.toLowerCase()];
+}
+
+/**
+ * Get the time periods a bet uses that its sport doesn't offer (e.g. Q1 on a baseball game)
+ */
+export function getUnsupportedTimePeriods(betConfig: BetConfig, sportConfig: SportConfig): string[] {
+  const declared = sportConfig.time_periods.map(tp => tp.value);
+  return (getBetTimePeriods(betConfig) as string[]).filter(tp => !declared.includes(tp));
+}
+
+/**
+ * Find the time period config for a live ESPN period number
+ * Periods whose end point is tied to that period number (Q1-Q4, P1-P3, innings) match first; past
+ * the last of those it's the sport's declared extra period, overtime, or the shootout when
+ * ESPN's status says so
+ */
+function findLiveTimePeriod(sportConfig: SportConfig, period: number, statusDetail: string): SportTimePeriod | undefined {
+  const numbered = sportConfig.time_periods.filter(tp =>
+    tp.betEndPointKey?.playByPlayCheck || tp.betEndPointKey?.periodCheck
+  );
+  const periodNumberOf = (tp: SportTimePeriod) =>
+    tp.betEndPointKey?.playByPlayCheck?.periodNumber ?? tp.betEndPointKey?.periodCheck?.periodNumber;
+
+  // Single periods (Q2, 5th Inning) are picked over longer ones ending on them (H1, F5)
+  const exact = numbered.find(tp => periodNumberOf(tp) === period && (!tp.period_numbers || tp.period_numbers.length === 1)) ||
+    numbered.find(tp => periodNumberOf(tp) === period);
+  if (exact) {
+    return exact;
+  }
+
+  const extraPeriod = sportConfig.time_periods.find(tp => tp.periods_after !== undefined && period > tp.periods_after);
+  if (extraPeriod) {
+    return extraPeriod;
+  }
+
+  const regulationPeriods = Math.max(0, ...numbered.map(tp => periodNumberOf(tp) || 0));
+  if (regulationPeriods > 0 && period > regulationPeriods) {
+    const shootout = /\bSO\b|shootout/i.test(statusDetail)
+      ? sportConfig.time_periods.find(tp => tp.value === 'SO')
+      : undefined;
+    return shootout || sportConfig.time_periods.find(tp => tp.value === 'OT');
+  }
+
+  // Fallback: check if label contains the period number
+  return sportConfig.time_periods.find(tp => tp.label.toLowerCase().includes(`${period}`));
+}
+
 /**
  * Extract live game information from ESPN API gameData using sport-specific config
  * This is called after bet resolution (even if it failed) to update game status and live info
  * Returns data ready to be saved to the database
+ * sportConfig is optional - without it the period label is left out of periodDisplay
  */
 export function extractLiveGameInfo(
   gameData: any,
-  sportConfig: SportConfig
+  sportConfig?: SportConfig
 ): {
   status: string;
   homeScore: number | null;
@@ -101,38 +167,15 @@ export function extractLiveGameInfo(
   if (status === 'completed') {
     periodDisplay = 'Final';
   } else if (status === 'in_progress' && period) {
-    // Find period config by matching period number to time period value
-    // ESPN period numbers map to our time period values (e.g., 1 = Q1, 2 = Q2)
-    const periodConfig = sportConfig.time_periods.find(tp => {
-      const tpValue = String(tp.value).toUpperCase();
-      // Try to match period number to time period value
-      // Q1, Q2, Q3, Q4 for quarters
-      // H1, H2 for halves
-      // OT for overtime
-      if (tpValue === `Q${period}` || tpValue === `QUARTER_${period}`) {
-        return true;
-      }
-      // For halves: period 1-2 might be H1, period 3-4 might be H2
-      if (period <= 2 && (tpValue === 'H1' || tpValue === 'HALF_1')) {
-        return true;
-      }
-      if (period > 2 && period <= 4 && (tpValue === 'H2' || tpValue === 'HALF_2')) {
-        return true;
-      }
-      // Overtime periods (period > 4 for basketball/football)
-      if (period > 4 && (tpValue === 'OT' || tpValue === 'OVERTIME')) {
-        return true;
-      }
-      // Fallback: check if label contains the period number
-      return tp.label.toLowerCase().includes(`${period}`);
-    });
+    const statusDetail = `${statusInfo?.type?.detail || ''} ${statusInfo?.type?.shortDetail || ''}`;
+    const periodConfig = sportConfig ? findLiveTimePeriod(sportConfig, period, statusDetail) : undefined;
     
     const periodLabel = periodConfig?.label;
     
-    if (displayClock) {
+    if (displayClock && periodLabel) {
       periodDisplay = `${displayClock} ${periodLabel}`;
     } else {
-      periodDisplay = periodLabel;
+      periodDisplay = periodLabel || displayClock;
     }
   }
 
@@ -146,5 +189,443 @@ export function extractLiveGameInfo(
   };
 }
 
-export { resolveBet, getSportConfig };
+/**
+ * Determine the winning side from a resolution's stat snapshot
+ * 'participant_1'/'participant_2' for comparisons, 'over'/'under' for thresholds, 'yes'/'no' for events
+ * Returns null for a push (participants tied or stat exactly on the threshold),
+ * except three-way comparisons where a tie is won by the 'draw' side
+ */
+export function determineWinningSide(betConfig: BetConfig, resolutionResult: ResolutionResult): string | null {
+  const statSnapshot = resolutionResult.resolutionStatSnapshot as any;
+
+  if (betConfig.type === 'COMPARISON') {
+    // For COMPARISON bets, determine which participant won
+    if (statSnapshot?.participant_1?.adjustedStat > statSnapshot?.participant_2?.adjustedStat) {
+      return 'participant_1';
+    }
+    if (statSnapshot?.participant_1?.adjustedStat < statSnapshot?.participant_2?.adjustedStat) {
+      return 'participant_2';
+    }
+    return betConfig.allow_draw ? 'draw' : null;
+  }
+
+  if (betConfig.type === 'THRESHOLD') {
+    // For threshold bets, determine if over or under won based on actual stat
+    const participantStat = statSnapshot?.participant?.stat;
+    const threshold = statSnapshot?.threshold;
+
+    if (participantStat > threshold) {
+      return 'over';
+    }
+    if (participantStat < threshold) {
+      return 'under';
+    }
+    return null;
+  }
+
+  if (betConfig.type === 'EVENT') {
+    // Event bet outcomes are from the "yes" side - the event happened or it didn't
+    if (typeof statSnapshot?.occurred === 'boolean') {
+      return statSnapshot.occurred ? 'yes' : 'no';
+    }
+    return resolutionResult.outcome === 'win' ? 'yes' : 'no';
+  }
+
+  return null;
+}
+
+/**
+ * The winning side for an outcome an admin sets by hand
+ * Outcomes are from participant_1's side for comparisons, the bet's operator for thresholds
+ * and the "yes" side for events; draw marks a three-way comparison's loss as a tie
+ * Returns null for a push or void
+ */
+export function getManualWinningSide(
+  betConfig: BetConfig,
+  outcome: ManualBetOutcome,
+  draw: boolean = false
+): string | null {
+  if (outcome === 'push' || outcome === 'void') {
+    return null;
+  }
+
+  switch (betConfig.type) {
+    case 'COMPARISON':
+      if (outcome === 'win') {
+        return 'participant_1';
+      }
+      return draw ? 'draw' : 'participant_2';
+    case 'THRESHOLD':
+      return (betConfig.operator === 'OVER') === (outcome === 'win') ? 'over' : 'under';
+    case 'EVENT':
+      return outcome === 'win' ? 'yes' : 'no';
+  }
+}
+
+/**
+ * Outcome for a user's selection given the winning side
+ */
+export function getSelectionOutcome(
+  selectedSide: string,
+  betOutcome: ResolutionResult['outcome'],
+  winningSide: string | null
+): 'win' | 'loss' | 'push' | 'void' {
+  if (betOutcome === 'void') {
+    return 'void';
+  }
+  if (betOutcome === 'push' || winningSide === null) {
+    return 'push';
+  }
+  return selectedSide === winningSide ? 'win' : 'loss';
+}
+
+// A user's selection on a bet, with the outcome its resolution gave it
+interface ResolvedSelection {
+  id: string;
+  userId: string;
+  parlayId: string | null;
+  selectedSide: string;
+  outcome: ReturnType<typeof getSelectionOutcome>;
+}
+
+/**
+ * Write every user selection's outcome for a bet being resolved
+ * Runs in the transaction that claims the bet, so a resolved bet never has selections left
+ * pending - one update per outcome rather than one per selection
+ */
+async function writeSelectionOutcomes(
+  tx: Prisma.TransactionClient,
+  betId: string,
+  betOutcome: ResolutionResult['outcome'],
+  winningSide: string | null
+): Promise<ResolvedSelection[]> {
+  const userSelections = await tx.userBetSelection.findMany({
+    where: { betId },
+    select: { id: true, userId: true, parlayId: true, selectedSide: true }
+  });
+
+  const resolved = userSelections.map(selection => ({
+    ...selection,
+    outcome: getSelectionOutcome(selection.selectedSide, betOutcome, winningSide)
+  }));
+
+  for (const outcome of new Set(resolved.map(selection => selection.outcome))) {
+    await tx.userBetSelection.updateMany({
+      where: { id: { in: resolved.filter(selection => selection.outcome === outcome).map(selection => selection.id) } },
+      data: { status: 'resolved', outcome }
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Tell users about a committed resolution, then settle the parlays and single bets it completes
+ */
+async function announceAndSettle(
+  bet: Bet,
+  selections: ResolvedSelection[],
+  winningSide: string | null
+): Promise<{ updatedSelections: number; settlement: SettlementSummary | null }> {
+  for (const selection of selections) {
+    logger.info('Updated user bet selection', {
+      selectionId: selection.id,
+      userId: selection.userId,
+      selectedSide: selection.selectedSide,
+      outcome: selection.outcome,
+      winningSide
+    });
+
+    RealtimeService.emitSelectionResolved(selection.userId, {
+      selectionId: selection.id,
+      betId: bet.id,
+      parlayId: selection.parlayId,
+      outcome: selection.outcome
+    });
+    await NotificationService.notifyLegResolved(selection.userId, {
+      parlayId: selection.parlayId,
+      betText: bet.displayTextOverride || bet.displayText,
+      outcome: selection.outcome
+    });
+  }
+
+  logger.info('Bet resolved successfully', {
+    betId: bet.id,
+    outcome: bet.outcome,
+    updatedSelections: selections.length
+  });
+
+  RealtimeService.emitBetResolved({ betId: bet.id, gameId: bet.gameId, outcome: bet.outcome });
+
+  // Settle parlays and single bets that this resolution completed
+  // A settlement failure shouldn't undo the resolution - the settle-resolved-bets job picks up
+  // whatever is left unsettled
+  let settlement: SettlementSummary | null = null;
+  try {
+    settlement = await StreakSettlementService.settleBet(bet.id);
+  } catch (error: any) {
+    logger.error('Error settling streaks after bet resolution', { betId: bet.id, error: error.message, stack: error.stack });
+  }
+
+  return { updatedSelections: selections.length, settlement };
+}
+
+export interface PersistedResolution {
+  bet: Bet;
+  winningSide: string | null;
+  updatedSelections: number;
+  settlement: SettlementSummary | null;
+}
+
+/**
+ * Save a successful resolution: the bet outcome, every user selection's outcome,
+ * and the streak settlement for parlays/single bets it completes
+ * Used by both the admin resolve route and automatic resolution
+ * Returns null if the bet was already resolved (e.g. by a concurrent resolution)
+ */
+export async function persistBetResolution(
+  bet: Bet,
+  resolutionResult: ResolutionResult
+): Promise<PersistedResolution | null> {
+  const betConfig = bet.config as unknown as BetConfig;
+
+  const winningSide = determineWinningSide(betConfig, resolutionResult);
+
+  // The bet and its selections' outcomes are written together
+  const resolved = await prisma.$transaction(async (tx) => {
+    // Only the first resolution of a pending bet wins
+    const claimed = await tx.bet.updateMany({
+      where: { id: bet.id, outcome: 'pending' },
+      data: {
+        outcome: resolutionResult.outcome || 'pending',
+        resolvedAt: resolutionResult.resolutionUTCTime || new Date(),
+        lastFetchedAt: new Date(),
+        needsAdminResolution: false,
+        metadata: {
+          ...((bet.metadata as any) || {}),
+          resolution: {
+            resolutionEventTime: resolutionResult.resolutionEventTime,
+            resolutionUTCTime: resolutionResult.resolutionUTCTime,
+            resolutionQuarter: resolutionResult.resolutionQuarter,
+            resolutionStatSnapshot: resolutionResult.resolutionStatSnapshot
+          }
+        } as any
+      }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const updatedBet = await tx.bet.findUniqueOrThrow({ where: { id: bet.id } });
+    const selections = await writeSelectionOutcomes(tx, bet.id, resolutionResult.outcome, winningSide);
+    return { bet: updatedBet, selections };
+  });
+
+  if (!resolved) {
+    return null;
+  }
+
+  const { updatedSelections, settlement } = await announceAndSettle(resolved.bet, resolved.selections, winningSide);
+
+  return {
+    bet: resolved.bet,
+    winningSide,
+    updatedSelections,
+    settlement
+  };
+}
+
+export interface ManualResolution extends PersistedResolution {
+  // Set when the bet was already resolved and this corrected it
+  reversal: ReversalSummary | null;
+}
+
+// A bet put back to pending, before its transaction commits
+interface ReopenedBet {
+  bet: Bet;
+  userSelections: Array<{ id: string; userId: string; parlayId: string | null }>;
+  reversed: ReversedSettlements;
+}
+
+/**
+ * Resolve a bet with an outcome an admin set by hand, or correct the result of a resolved one
+ * A resolved bet is reopened first - reversing what its old result settled - in the same transaction
+ * as the new result, so a correction either lands whole or leaves the old result in place.
+ * The note is kept in adminResolutionNotes; a corrected bet keeps its old result's resolution time
+ * Returns null if the bet's result changed concurrently
+ */
+export async function persistManualResolution(
+  bet: Bet,
+  resolution: { outcome: ManualBetOutcome; note: string; draw?: boolean; resolvedBy: string }
+): Promise<ManualResolution | null> {
+  const betConfig = bet.config as unknown as BetConfig;
+  const winningSide = getManualWinningSide(betConfig, resolution.outcome, resolution.draw);
+
+  const resolved = await prisma.$transaction(async (tx) => {
+    let pendingBet = bet;
+    let reopened: ReopenedBet | null = null;
+    if (bet.outcome !== 'pending') {
+      reopened = await reopenInTransaction(tx, bet, { note: resolution.note, reopenedBy: resolution.resolvedBy });
+      if (!reopened) {
+        return null;
+      }
+      pendingBet = reopened.bet;
+    }
+
+    const metadata = (pendingBet.metadata as any) || {};
+    const resolvedAt = metadata.reopened?.resolvedAt ? new Date(metadata.reopened.resolvedAt) : new Date();
+
+    const claimed = await tx.bet.updateMany({
+      where: { id: bet.id, outcome: 'pending' },
+      data: {
+        outcome: resolution.outcome,
+        resolvedAt,
+        needsAdminResolution: false,
+        adminResolutionNotes: resolution.note,
+        metadata: {
+          ...metadata,
+          resolution: {
+            manual: true,
+            note: resolution.note,
+            resolvedBy: resolution.resolvedBy,
+            winningSide,
+            resolutionUTCTime: resolvedAt.toISOString()
+          }
+        } as any
+      }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const updatedBet = await tx.bet.findUniqueOrThrow({ where: { id: bet.id } });
+    const selections = await writeSelectionOutcomes(tx, bet.id, resolution.outcome, winningSide);
+    return { bet: updatedBet, selections, reversed: reopened?.reversed ?? null };
+  }, { timeout: REOPEN_TRANSACTION_TIMEOUT_MS });
+
+  if (!resolved) {
+    return null;
+  }
+
+  let reversal: ReversalSummary | null = null;
+  if (resolved.reversed) {
+    const { parlays, userIds, ...summary } = resolved.reversed;
+    reversal = summary;
+    logger.info('Bet result corrected', { betId: bet.id, previousOutcome: bet.outcome, outcome: resolution.outcome, ...reversal });
+    await StreakSettlementService.emitReversals(resolved.reversed);
+  }
+
+  const { updatedSelections, settlement } = await announceAndSettle(resolved.bet, resolved.selections, winningSide);
+
+  return {
+    bet: resolved.bet,
+    winningSide,
+    updatedSelections,
+    reversal,
+    settlement
+  };
+}
+
+/**
+ * Put a resolved bet back to pending in the caller's transaction
+ * Returns null if the bet's result changed concurrently
+ */
+async function reopenInTransaction(
+  tx: Prisma.TransactionClient,
+  bet: Bet,
+  reopen: { note: string; reopenedBy: string }
+): Promise<ReopenedBet | null> {
+  const { resolution, ...metadata } = (bet.metadata as any) || {};
+  const claimed = await tx.bet.updateMany({
+    where: { id: bet.id, outcome: bet.outcome },
+    data: {
+      outcome: 'pending',
+      resolvedAt: null,
+      needsAdminResolution: true,
+      adminResolutionNotes: reopen.note,
+      metadata: {
+        ...metadata,
+        reopened: {
+          outcome: bet.outcome,
+          resolvedAt: bet.resolvedAt?.toISOString() ?? null,
+          resolution: resolution ?? null,
+          note: reopen.note,
+          reopenedBy: reopen.reopenedBy,
+          reopenedAt: new Date().toISOString()
+        }
+      } as any
+    }
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const userSelections = await tx.userBetSelection.findMany({
+    where: { betId: bet.id, status: 'resolved' },
+    select: { id: true, userId: true, parlayId: true }
+  });
+
+  await tx.userBetSelection.updateMany({
+    where: { id: { in: userSelections.map(s => s.id) } },
+    data: { status: 'locked', outcome: null }
+  });
+
+  const reversed = await StreakSettlementService.reverseBetSettlements(tx, bet.id);
+  const updatedBet = await tx.bet.findUniqueOrThrow({ where: { id: bet.id } });
+
+  return { bet: updatedBet, userSelections, reversed };
+}
+
+/**
+ * Put a resolved bet back to pending so its result can be changed
+ * Reverses every streak settlement the result went into and flags the bet for an admin,
+ * so automatic resolution leaves it alone. The previous result is kept in metadata.reopened
+ * Returns null if the bet isn't resolved (or its result changed concurrently)
+ */
+export async function reopenBet(
+  bet: Bet,
+  reopen: { note: string; reopenedBy: string }
+): Promise<{ bet: Bet; reversal: ReversalSummary } | null> {
+  if (bet.outcome === 'pending') {
+    return null;
+  }
+
+  // The bet, its selections and every settlement it went into are reopened together or not at all
+  const reopened = await prisma.$transaction(
+    (tx) => reopenInTransaction(tx, bet, reopen),
+    { timeout: REOPEN_TRANSACTION_TIMEOUT_MS }
+  );
+
+  if (!reopened) {
+    return null;
+  }
+
+  const { parlays, userIds, ...reversal } = reopened.reversed;
+
+  logger.info('Bet reopened', {
+    betId: bet.id,
+    previousOutcome: bet.outcome,
+    reopenedSelections: reopened.userSelections.length,
+    ...reversal
+  });
+
+  // Only tell clients once the transaction has committed
+  for (const selection of reopened.userSelections) {
+    RealtimeService.emitSelectionResolved(selection.userId, {
+      selectionId: selection.id,
+      betId: bet.id,
+      parlayId: selection.parlayId,
+      outcome: null
+    });
+  }
+  await StreakSettlementService.emitReversals(reopened.reversed);
+  RealtimeService.emitBetResolved({ betId: bet.id, gameId: bet.gameId, outcome: 'pending' });
+
+  return { bet: reopened.bet, reversal };
+}
+
+export { resolveBet, isBetEndPointReached, getSportConfig, findSportConfig };
 
@@ -0,0 +1,94 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import type { BetTemplate, BetType, TemplateConfig } from '@shared/types/bets';
+
+const prisma = new PrismaClient();
+
+const includeCreatedBy = { createdBy: { select: { username: true } } } as const;
+
+type BetTemplateRow = Prisma.BetTemplateGetPayload<{ include: typeof includeCreatedBy }>;
+
+function toTemplate(row: BetTemplateRow): BetTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    betType: row.betType as BetType,
+    config: row.config as unknown as TemplateConfig,
+    createdBy: row.createdBy?.username ?? null,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+function notFoundError(): Error {
+  const error: any = new Error('Bet template not found');
+  error.status = 404;
+  error.code = 'NOT_FOUND';
+  return error;
+}
+
+/**
+ * Service for saved bet templates
+ * A template's config is only validated in shape; it's bound to a game's teams and leaders when applied
+ */
+export class BetTemplateService {
+  static async listTemplates(): Promise<BetTemplate[]> {
+    const rows = await prisma.betTemplate.findMany({
+      orderBy: { name: 'asc' },
+      include: includeCreatedBy
+    });
+    return rows.map(toTemplate);
+  }
+
+  /**
+   * Templates in the order of ids
+   * @throws Error with 404 status if any of them doesn't exist
+   */
+  static async getTemplates(ids: string[]): Promise<BetTemplate[]> {
+    const rows = await prisma.betTemplate.findMany({
+      where: { id: { in: ids } },
+      include: includeCreatedBy
+    });
+    const byId = new Map(rows.map(row => [row.id, toTemplate(row)]));
+
+    return ids.map(id => {
+      const template = byId.get(id);
+      if (!template) {
+        throw notFoundError();
+      }
+      return template;
+    });
+  }
+
+  static async createTemplate(
+    template: { name: string; betType: BetType; config: TemplateConfig },
+    userId: string
+  ): Promise<BetTemplate> {
+    const row = await prisma.betTemplate.create({
+      data: {
+        name: template.name,
+        betType: template.betType,
+        config: template.config as unknown as Prisma.InputJsonValue,
+        createdById: userId
+      },
+      include: includeCreatedBy
+    });
+
+    logger.info('Bet template created', { templateId: row.id, name: row.name, userId });
+    return toTemplate(row);
+  }
+
+  /**
+   * Delete a template - bets already created from it are unaffected
+   * @throws Error with 404 status if it doesn't exist
+   */
+  static async deleteTemplate(id: string): Promise<BetTemplate> {
+    const row = await prisma.betTemplate.findUnique({ where: { id }, include: includeCreatedBy });
+    if (!row) {
+      throw notFoundError();
+    }
+
+    await prisma.betTemplate.delete({ where: { id } });
+    logger.info('Bet template deleted', { templateId: id, name: row.name });
+    return toTemplate(row);
+  }
+}
@@ -0,0 +1,250 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { getAppUrl, sendEmail } from '../utils/email';
+import { getUnsubscribeUrl, parseUnsubscribeToken } from '../utils/emailUnsubscribe';
+import {
+  RenderedEmail,
+  dailyDigestEmail,
+  insuranceConsumedEmail,
+  parlaySettledEmail,
+  streakMilestoneEmail
+} from '../utils/emailTemplates';
+import type { EmailPreferences, EmailPreferenceType } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+// Users without a preferences row get result emails but not the digest
+const DEFAULT_EMAIL_PREFERENCES: EmailPreferences = {
+  parlayResults: true,
+  streakMilestones: true,
+  insuranceAlerts: true,
+  dailyDigest: false
+};
+
+// Streak lengths worth an email when a user reaches them
+const STREAK_MILESTONES = [5, 10, 25, 50, 75, 100, 150, 200];
+
+// Hour (UTC) after which the daily digest of tomorrow's bets goes out
+const DAILY_DIGEST_HOUR_UTC = parseInt(process.env.DAILY_DIGEST_HOUR_UTC || '', 10) || 18;
+
+const LEG_RESULT_LABELS: Record<string, string> = {
+  win: 'Won',
+  loss: 'Lost',
+  push: 'Push'
+};
+
+/**
+ * Only users with a verified email who haven't turned this email type off
+ */
+function wantsEmail(type: EmailPreferenceType): Prisma.UserWhereInput {
+  const turnedOn: Prisma.UserWhereInput = { emailPreference: { is: { [type]: true } } };
+  return {
+    emailVerified: true,
+    // Types that default to on also go to users who never saved preferences
+    ...(DEFAULT_EMAIL_PREFERENCES[type] ? { OR: [{ emailPreference: { is: null } }, turnedOn] } : turnedOn)
+  };
+}
+
+/**
+ * Service for optional emails: parlay results, streak milestones, insurance and the daily digest
+ * Sending never throws - a failed email is logged and settlement carries on.
+ */
+export class EmailNotificationService {
+  static async getPreferences(userId: string): Promise<EmailPreferences> {
+    const preferences = await prisma.emailPreference.findUnique({ where: { userId } });
+    if (!preferences) {
+      return { ...DEFAULT_EMAIL_PREFERENCES };
+    }
+
+    const { parlayResults, streakMilestones, insuranceAlerts, dailyDigest } = preferences;
+    return { parlayResults, streakMilestones, insuranceAlerts, dailyDigest };
+  }
+
+  static async updatePreferences(userId: string, updates: Partial<EmailPreferences>): Promise<EmailPreferences> {
+    await prisma.emailPreference.upsert({
+      where: { userId },
+      create: { userId, ...DEFAULT_EMAIL_PREFERENCES, ...updates },
+      update: updates
+    });
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Turn off the email type named in an unsubscribe link
+   * @throws Error with 400 status if the link is invalid, 404 if the user no longer exists
+   */
+  static async unsubscribe(token: unknown): Promise<EmailPreferenceType> {
+    const { userId, type } = parseUnsubscribeToken(token);
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      const error: any = new Error('This unsubscribe link is no longer valid');
+      error.status = 404;
+      error.code = 'NOT_FOUND';
+      throw error;
+    }
+
+    await this.updatePreferences(userId, { [type]: false });
+    logger.info('User unsubscribed from email', { userId, type });
+    return type;
+  }
+
+  static async notifyParlaySettled(
+    userId: string,
+    parlayId: string,
+    outcome: 'won' | 'lost' | 'push',
+    newStreak: number
+  ): Promise<void> {
+    await this.sendToUser(userId, 'parlayResults', async (user) => {
+      const selections = await prisma.userBetSelection.findMany({
+        where: { parlayId },
+        include: { bet: { select: { displayText: true, displayTextOverride: true } } },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return parlaySettledEmail({
+        username: user.username,
+        outcome,
+        legs: selections.map(selection => {
+          const text = selection.bet.displayTextOverride || selection.bet.displayText;
+          const result = selection.outcome ? LEG_RESULT_LABELS[selection.outcome] : null;
+          return result ? `${text} - ${result}` : text;
+        }),
+        newStreak,
+        appUrl: getAppUrl(),
+        unsubscribeUrl: getUnsubscribeUrl(userId, 'parlayResults')
+      });
+    });
+  }
+
+  /**
+   * Email the user if their streak just passed a milestone
+   */
+  static async notifyStreakChange(userId: string, oldStreak: number, newStreak: number): Promise<void> {
+    const milestone = [...STREAK_MILESTONES].reverse().find(m => oldStreak < m && newStreak >= m);
+    if (!milestone) {
+      return;
+    }
+
+    await this.sendToUser(userId, 'streakMilestones', async (user) => streakMilestoneEmail({
+      username: user.username,
+      streak: milestone,
+      appUrl: getAppUrl(),
+      unsubscribeUrl: getUnsubscribeUrl(userId, 'streakMilestones')
+    }));
+  }
+
+  /**
+   * Insurance kept the user's streak alive through a lost parlay
+   */
+  static async notifyInsuranceConsumed(userId: string, streak: number): Promise<void> {
+    await this.sendToUser(userId, 'insuranceAlerts', async (user) => insuranceConsumedEmail({
+      username: user.username,
+      streak,
+      appUrl: getAppUrl(),
+      unsubscribeUrl: getUnsubscribeUrl(userId, 'insuranceAlerts')
+    }));
+  }
+
+  /**
+   * Send the opted-in daily digest of tomorrow's (UTC) bets
+   * Runs hourly; once it's past DAILY_DIGEST_HOUR_UTC each subscriber gets at most one digest a day
+   */
+  static async sendDailyDigests(now: Date = new Date()): Promise<{ games: number; sent: number }> {
+    if (now.getUTCHours() < DAILY_DIGEST_HOUR_UTC) {
+      return { games: 0, sent: 0 };
+    }
+
+    const digestTime = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), DAILY_DIGEST_HOUR_UTC));
+    const tomorrowStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    const tomorrowEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 2));
+
+    const games = await prisma.game.findMany({
+      where: {
+        startTime: { gte: tomorrowStart, lt: tomorrowEnd },
+        bets: { some: {} }
+      },
+      include: {
+        bets: {
+          select: { displayText: true, displayTextOverride: true },
+          orderBy: { priority: 'asc' }
+        }
+      },
+      orderBy: { startTime: 'asc' }
+    });
+
+    if (games.length === 0) {
+      return { games: 0, sent: 0 };
+    }
+
+    const digestGames = games.map(game => ({
+      title: `${game.awayTeam} @ ${game.homeTeam} (${game.sport}, ${game.startTime.toISOString().slice(11, 16)} UTC)`,
+      bets: game.bets.map(bet => bet.displayTextOverride || bet.displayText)
+    }));
+    const dateLabel = tomorrowStart.toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC'
+    });
+
+    const notSentToday: Prisma.EmailPreferenceWhereInput = {
+      OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: digestTime } }]
+    };
+
+    const subscribers = await prisma.emailPreference.findMany({
+      where: { dailyDigest: true, user: { emailVerified: true }, ...notSentToday },
+      include: { user: { select: { id: true, username: true, email: true } } }
+    });
+
+    let sent = 0;
+    for (const { user } of subscribers) {
+      // Claim the user's digest for today so a retry or second instance doesn't send it twice
+      const claimed = await prisma.emailPreference.updateMany({
+        where: { userId: user.id, ...notSentToday },
+        data: { lastDigestSentAt: now }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        await sendEmail(user.email, dailyDigestEmail({
+          username: user.username,
+          dateLabel,
+          games: digestGames,
+          appUrl: getAppUrl(),
+          unsubscribeUrl: getUnsubscribeUrl(user.id, 'dailyDigest')
+        }));
+        sent++;
+      } catch (error: any) {
+        logger.error('Error sending daily digest', { userId: user.id, error: error.message });
+      }
+    }
+
+    return { games: games.length, sent };
+  }
+
+  /**
+   * Render and send an email to a user if they want this type
+   */
+  private static async sendToUser(
+    userId: string,
+    type: EmailPreferenceType,
+    render: (user: { username: string }) => Promise<RenderedEmail>
+  ): Promise<void> {
+    try {
+      const user = await prisma.user.findFirst({
+        where: { id: userId, ...wantsEmail(type) },
+        select: { username: true, email: true }
+      });
+      if (!user) {
+        return;
+      }
+
+      await sendEmail(user.email, await render(user));
+    } catch (error: any) {
+      logger.error('Error sending email', { userId, type, error: error.message });
+    }
+  }
+}
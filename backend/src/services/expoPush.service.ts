@@ -0,0 +1,71 @@
+import { logger } from '../utils/logger';
+import type { PushMessage, PushResult, PushTransport } from '../interfaces';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100; // Expo accepts at most 100 messages per request
+const API_TIMEOUT_MS = 10000;
+
+/**
+ * Push transport that sends through Expo's push service
+ * Set EXPO_ACCESS_TOKEN if push security is enabled for the Expo project
+ */
+export class ExpoPushTransport implements PushTransport {
+  readonly name = 'expo';
+
+  constructor(private accessToken?: string) {}
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+      results.push(...(await this.sendBatch(batch)));
+    }
+
+    return results;
+  }
+
+  private async sendBatch(messages: PushMessage[]): Promise<PushResult[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(this.accessToken ? { 'Authorization': `Bearer ${this.accessToken}` } : {})
+        },
+        body: JSON.stringify(messages.map(message => ({ ...message, sound: 'default' })))
+      });
+
+      if (!response.ok) {
+        throw new Error(`Expo push request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // One ticket per message, in order
+      const body: any = await response.json();
+      const tickets: any[] = body.data || [];
+
+      return messages.map((message, index) => {
+        const ticket = tickets[index];
+        if (ticket?.status === 'ok') {
+          return { to: message.to, ok: true };
+        }
+        return {
+          to: message.to,
+          ok: false,
+          error: ticket?.message || 'No ticket returned',
+          deviceNotRegistered: ticket?.details?.error === 'DeviceNotRegistered'
+        };
+      });
+    } catch (error: any) {
+      logger.error('Error sending push notifications through Expo', { count: messages.length, error: error.message });
+      return messages.map(message => ({ to: message.to, ok: false, error: error.message }));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { SUPPORTED_SPORTS, transformEspnScoreboard } from './apiSports.service';
+import type { ApiSportsGame, SportsDataProvider, SupportedSport } from '../interfaces';
+
+/**
+ * Sports data provider that replays recorded ESPN payloads from disk
+ * Lets the whole fetch -> lock -> resolve flow run offline
+ *
+ * Fixture layout (under SPORTS_DATA_FIXTURES_DIR, default ./fixtures/sports-data):
+ *   teams.json                                    same format as teams/teams.json in Backblaze
+ *   {sport}/{league}/scoreboard/{YYYYMMDD}.json   ESPN scoreboard payload for a date
+ *   {sport}/{league}/games/{gameId}.json          ESPN game payload
+ *   {sport}/{league}/games/{gameId}/*.json        or snapshots of a game, replayed in file name order
+ *   {sport}/{league}/rosters/{teamId}.json        ESPN team roster payload
+ *
+ * Snapshot directories step forward one file per getGameData call and then stay on
+ * the last one, so a recorded game goes scheduled -> in progress -> final as it's polled.
+ * `npm run record-fixtures` records payloads in this layout.
+ */
+export class FixtureSportsDataProvider implements SportsDataProvider {
+  readonly name = 'fixtures';
+  private replayPositions = new Map<string, number>();
+
+  constructor(private fixturesDir: string) {}
+
+  async listGames(sport: string, league: string, date: string): Promise<ApiSportsGame[]> {
+    const dateStr = date.replace(/-/g, '');
+    const filePath = this.resolvePath(sport, league, 'scoreboard', `${dateStr}.json`);
+    const rawData = await this.readJson(filePath);
+
+    if (!rawData) {
+      logger.warn('No fixture scoreboard for date', { sport, league, date, filePath });
+      return [];
+    }
+
+    const games = transformEspnScoreboard(rawData, sport, league);
+    logger.info('Loaded games from fixtures', { sport, league, date, gameCount: games.length });
+    return games;
+  }
+
+  async getGameData(sport: string, league: string, gameId: string): Promise<any> {
+    const gameDir = this.resolvePath(sport, league, 'games', gameId);
+    const snapshots = await this.listSnapshots(gameDir);
+
+    if (snapshots.length > 0) {
+      // Step through the recorded snapshots, holding on the last one
+      const position = this.replayPositions.get(gameDir) ?? 0;
+      const snapshot = snapshots[Math.min(position, snapshots.length - 1)];
+      this.replayPositions.set(gameDir, position + 1);
+
+      logger.info('Replaying game data from fixtures', { sport, league, gameId, snapshot, of: snapshots.length });
+      return this.readJson(path.join(gameDir, snapshot));
+    }
+
+    const data = await this.readJson(`${gameDir}.json`);
+    if (!data) {
+      throw new Error(`No fixture game data for ${sport}/${league}/${gameId} in ${this.fixturesDir}`);
+    }
+
+    logger.info('Loaded game data from fixtures', { sport, league, gameId });
+    return data;
+  }
+
+  async getRoster(sport: string, league: string, teamId: string): Promise<any | null> {
+    const data = await this.readJson(this.resolvePath(sport, league, 'rosters', `${teamId}.json`));
+    if (!data) {
+      logger.warn('No fixture roster for team', { sport, league, teamId });
+    }
+    return data;
+  }
+
+  async getTeamId(sport: string, league: string, teamNameOrAbbr: string): Promise<string | null> {
+    const teamsConfig = await this.readJson(path.join(this.fixturesDir, 'teams.json'));
+    const leagueData = teamsConfig?.leagues?.find((l: any) => l.sport === sport && l.league === league);
+    const name = teamNameOrAbbr.toLowerCase();
+    const team = leagueData?.teams?.find((t: any) =>
+      t.displayName?.toLowerCase() === name ||
+      t.abbreviation?.toLowerCase() === name ||
+      t.name?.toLowerCase() === name
+    );
+    return team?.id || null;
+  }
+
+  getSupportedSports(): SupportedSport[] {
+    return SUPPORTED_SPORTS;
+  }
+
+  /**
+   * Start every recorded game over from its first snapshot
+   */
+  resetReplay(): void {
+    this.replayPositions.clear();
+  }
+
+  private resolvePath(sport: string, league: string, ...parts: string[]): string {
+    return path.join(this.fixturesDir, sport.toLowerCase(), league.toLowerCase(), ...parts);
+  }
+
+  private async listSnapshots(dir: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(dir);
+      return files.filter(file => file.endsWith('.json')).sort();
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async readJson(filePath: string): Promise<any | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      logger.error('Error reading sports data fixture', { filePath, error: error.message });
+      throw error;
+    }
+  }
+}
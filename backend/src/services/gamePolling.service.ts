@@ -0,0 +1,164 @@
+import { PrismaClient, Game } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { sportsDataProvider } from './sportsData.service';
+import { extractLiveGameInfo, findSportConfig } from './betResolution.service';
+import { BetAutoResolutionService, GameResolutionSummary } from './betAutoResolution.service';
+import { RealtimeService } from './realtime.service';
+
+const prisma = new PrismaClient();
+
+// Scheduled games that never moved past their start time are given up on after this long
+const STALE_SCHEDULED_GAME_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+export interface GamePollSummary {
+  checked: number;
+  updated: number;
+  completed: number;
+  failed: number;
+  betsResolved: number;
+  betsFlagged: number;
+  errors: Array<{ gameId: string; message: string }>;
+}
+
+/**
+ * Service that keeps in-progress games up to date from ESPN
+ * Runs as the 'poll-live-games' background job. The data fetched for each game is
+ * also used to auto-resolve the game's pending bets (see BetAutoResolutionService)
+ */
+export class GamePollingService {
+  /**
+   * Poll every game that is live (or should have started) and store its status, scores and live info
+   * Completed games are polled too while they still have pending bets to resolve
+   * One failing game doesn't stop the rest - failures are returned in the summary
+   */
+  static async pollLiveGames(): Promise<GamePollSummary> {
+    const now = new Date();
+
+    const games = await prisma.game.findMany({
+      where: {
+        externalId: { not: null },
+        OR: [
+          { status: 'in_progress' },
+          {
+            status: 'scheduled',
+            startTime: {
+              lte: now,
+              gte: new Date(now.getTime() - STALE_SCHEDULED_GAME_MS)
+            }
+          },
+          {
+            status: 'completed',
+            bets: { some: { outcome: 'pending', needsAdminResolution: false } }
+          }
+        ]
+      },
+      orderBy: { startTime: 'asc' }
+    });
+
+    const summary: GamePollSummary = {
+      checked: games.length,
+      updated: 0,
+      completed: 0,
+      failed: 0,
+      betsResolved: 0,
+      betsFlagged: 0,
+      errors: []
+    };
+
+    for (const game of games) {
+      try {
+        const polled = await this.pollGame(game);
+        if (polled) {
+          summary.updated++;
+          if (polled.game.status === 'completed') {
+            summary.completed++;
+          }
+          summary.betsResolved += polled.resolution.resolved;
+          summary.betsFlagged += polled.resolution.flagged;
+        }
+      } catch (error: any) {
+        summary.failed++;
+        summary.errors.push({ gameId: game.id, message: error.message || 'Unknown error' });
+        logger.error('Error polling game', { gameId: game.id, externalId: game.externalId, error: error.message });
+      }
+    }
+
+    logger.info('Live game poll complete', {
+      checked: summary.checked,
+      updated: summary.updated,
+      completed: summary.completed,
+      failed: summary.failed,
+      betsResolved: summary.betsResolved,
+      betsFlagged: summary.betsFlagged
+    });
+
+    return summary;
+  }
+
+  /**
+   * Fetch one game from ESPN, store the result and resolve any bets that are ready
+   * Returns the updated game, or null if ESPN had nothing usable for it
+   */
+  static async pollGame(game: Game): Promise<{ game: Game; resolution: GameResolutionSummary } | null> {
+    const metadata = (game.metadata as any) || {};
+    const league = metadata.league;
+    const leagueId = league?.id || league?.abbreviation || league?.slug;
+
+    if (!leagueId || !game.externalId) {
+      throw new Error('Game metadata missing league information or external ID');
+    }
+
+    const gameData = await sportsDataProvider.getGameData(game.sport, leagueId, game.externalId);
+    if (!gameData) {
+      return null;
+    }
+
+    // Games for sports without a config still get status and scores, just no period label
+    const sportConfig = findSportConfig(game.sport);
+
+    const liveInfo = extractLiveGameInfo(gameData, sportConfig);
+
+    const updatedGame = await prisma.game.update({
+      where: { id: game.id },
+      data: {
+        status: liveInfo.status,
+        homeScore: liveInfo.homeScore ?? game.homeScore,
+        awayScore: liveInfo.awayScore ?? game.awayScore,
+        endTime: liveInfo.status === 'completed' ? (game.endTime || new Date()) : game.endTime,
+        metadata: {
+          ...metadata,
+          liveInfo: {
+            period: liveInfo.period,
+            displayClock: liveInfo.displayClock,
+            periodDisplay: liveInfo.periodDisplay,
+            fetchedAt: new Date().toISOString()
+          }
+        }
+      }
+    });
+
+    // Only push when something a viewer would see has moved
+    const previousLiveInfo = metadata.liveInfo || {};
+    if (
+      updatedGame.status !== game.status ||
+      updatedGame.homeScore !== game.homeScore ||
+      updatedGame.awayScore !== game.awayScore ||
+      liveInfo.period !== previousLiveInfo.period ||
+      liveInfo.displayClock !== previousLiveInfo.displayClock
+    ) {
+      RealtimeService.emitGameUpdate({
+        gameId: updatedGame.id,
+        status: updatedGame.status,
+        homeScore: updatedGame.homeScore,
+        awayScore: updatedGame.awayScore,
+        period: liveInfo.period,
+        displayClock: liveInfo.displayClock,
+        periodDisplay: liveInfo.periodDisplay
+      });
+    }
+
+    const resolution = await BetAutoResolutionService.resolveGameBets(updatedGame, gameData);
+
+    return { game: updatedGame, resolution };
+  }
+}
@@ -0,0 +1,225 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Job run statuses stored in job_runs.status
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  // Whatever the handler returns is stored as the run's result summary
+  handler: () => Promise<Record<string, any> | void>;
+}
+
+/**
+ * In-process background job runner
+ * Each tick takes a Postgres-backed lease on the job before running it, so when several
+ * instances are up only the lease holder runs the job. The holder renews its lease every tick, and
+ * keeps renewing it while a run is in progress, so a slow run isn't joined by another instance;
+ * another instance takes over once the lease expires (i.e. the holder stopped or died).
+ * Every run is recorded in job_runs with its duration, result and error.
+ */
+class JobSchedulerService {
+  readonly instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  private jobs = new Map<string, JobDefinition>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private runningJobs = new Set<string>();
+
+  /**
+   * Register a job. Jobs registered after start() begin on the next start()
+   */
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  getJobs(): JobDefinition[] {
+    return [...this.jobs.values()];
+  }
+
+  /**
+   * Start all registered jobs on their intervals
+   */
+  start(): void {
+    for (const job of this.jobs.values()) {
+      if (this.timers.has(job.name)) {
+        continue;
+      }
+
+      const timer = setInterval(() => {
+        void this.runJob(job.name);
+      }, job.intervalMs);
+      // Don't keep the process alive just for background jobs
+      timer.unref();
+      this.timers.set(job.name, timer);
+    }
+
+    logger.info('Background jobs started', {
+      instanceId: this.instanceId,
+      jobs: [...this.jobs.values()].map(job => ({ name: job.name, intervalMs: job.intervalMs }))
+    });
+  }
+
+  /**
+   * Stop all timers and give up this instance's leases so another instance can take over
+   */
+  async stop(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+
+    try {
+      await prisma.jobLease.deleteMany({
+        where: { ownerId: this.instanceId }
+      });
+    } catch (error: any) {
+      logger.error('Error releasing job leases', { error: error.message });
+    }
+
+    logger.info('Background jobs stopped', { instanceId: this.instanceId });
+  }
+
+  /**
+   * Run a job once if this instance can take its lease
+   * Returns the recorded run, or null if the job was skipped (already running or leased elsewhere)
+   */
+  async runJob(name: string) {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    // Previous tick still going on this instance
+    if (this.runningJobs.has(name)) {
+      logger.debug('Skipping job run, previous run still in progress', { jobName: name });
+      return null;
+    }
+
+    this.runningJobs.add(name);
+    let renewal: NodeJS.Timeout | null = null;
+    try {
+      // Lease covers two intervals so a missed tick doesn't let another instance in
+      const ttlMs = job.intervalMs * 2;
+      const acquired = await this.acquireLease(name, ttlMs);
+      if (!acquired) {
+        return null;
+      }
+      renewal = this.keepLeaseWhileRunning(name, ttlMs);
+
+      const run = await prisma.jobRun.create({
+        data: {
+          jobName: name,
+          status: 'running',
+          instanceId: this.instanceId
+        }
+      });
+
+      const startedAt = Date.now();
+      try {
+        const result = await job.handler();
+        return await prisma.jobRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'succeeded',
+            finishedAt: new Date(),
+            durationMs: Date.now() - startedAt,
+            result: (result ?? undefined) as Prisma.InputJsonValue | undefined
+          }
+        });
+      } catch (error: any) {
+        logger.error('Background job failed', {
+          jobName: name,
+          runId: run.id,
+          error: error.message,
+          stack: error.stack
+        });
+        return await prisma.jobRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'failed',
+            finishedAt: new Date(),
+            durationMs: Date.now() - startedAt,
+            error: error.message || String(error)
+          }
+        });
+      }
+    } catch (error: any) {
+      // Lease or job_runs bookkeeping failed (e.g. database unavailable)
+      logger.error('Error running background job', { jobName: name, error: error.message });
+      return null;
+    } finally {
+      if (renewal) {
+        clearInterval(renewal);
+      }
+      this.runningJobs.delete(name);
+    }
+  }
+
+  /**
+   * Renew the job's lease every third of its TTL until the returned timer is cleared
+   * Stops renewing if the lease is lost (renewal failed long enough for it to expire and be taken)
+   */
+  private keepLeaseWhileRunning(name: string, ttlMs: number): NodeJS.Timeout {
+    const timer = setInterval(async () => {
+      try {
+        const renewed = await prisma.jobLease.updateMany({
+          where: { jobName: name, ownerId: this.instanceId },
+          data: { expiresAt: new Date(Date.now() + ttlMs) }
+        });
+        if (renewed.count === 0) {
+          clearInterval(timer);
+          logger.warn('Lost job lease while the job was running', { jobName: name, instanceId: this.instanceId });
+        }
+      } catch (error: any) {
+        // Try again next time - the lease is only lost once it expires
+        logger.error('Error renewing job lease', { jobName: name, error: error.message });
+      }
+    }, Math.max(1000, Math.floor(ttlMs / 3)));
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Take or renew the lease for a job
+   * The conditional update is a single statement, so only one instance can win an expired lease
+   */
+  private async acquireLease(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    try {
+      await prisma.jobLease.create({
+        data: { jobName: name, ownerId: this.instanceId, expiresAt }
+      });
+      return true;
+    } catch (error: any) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    // Lease row exists - take it if it's ours or has expired
+    const claimed = await prisma.jobLease.updateMany({
+      where: {
+        jobName: name,
+        OR: [
+          { ownerId: this.instanceId },
+          { expiresAt: { lt: now } }
+        ]
+      },
+      data: { ownerId: this.instanceId, expiresAt }
+    });
+
+    return claimed.count > 0;
+  }
+}
+
+export const jobScheduler = new JobSchedulerService();
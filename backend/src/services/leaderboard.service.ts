@@ -0,0 +1,165 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getLocalDateString, getUTCDateRange } from '../utils/dateUtils';
+import type { LeaderboardBoard, LeaderboardEntry, LeaderboardResponse, LeaderboardWindow } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+export const LEADERBOARD_BOARDS: LeaderboardBoard[] = ['current_streak', 'longest_streak', 'points'];
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['daily', 'weekly', 'monthly', 'all_time'];
+
+// Streak history entries that earn points (the streak gained on a win)
+const POINT_CHANGE_TYPES = ['parlay_win', 'bet_win'];
+
+export interface LeaderboardQuery {
+  board: LeaderboardBoard;
+  window: LeaderboardWindow;
+  page: number;
+  pageSize: number;
+  userId?: string;
+  timezoneOffset?: number;
+  userIds?: string[]; // Limit the board to these users (e.g. a league's members)
+}
+
+interface RankedRow {
+  user_id: string;
+  username: string;
+  value: number;
+  rank: number;
+}
+
+/**
+ * Start of a leaderboard window in UTC, in the user's timezone
+ * Daily is today, weekly starts Monday, monthly starts on the 1st; all-time has no start
+ */
+export function getWindowStart(window: LeaderboardWindow, timezoneOffset?: number): Date | null {
+  if (window === 'all_time') {
+    return null;
+  }
+
+  const localDate = getLocalDateString(undefined, timezoneOffset);
+  const [year, month, day] = localDate.split('-').map(Number);
+
+  let startDate = localDate;
+  if (window === 'weekly') {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+    startDate = date.toISOString().split('T')[0];
+  } else if (window === 'monthly') {
+    startDate = `${year}-${String(month).padStart(2, '0')}-01`;
+  }
+
+  return getUTCDateRange(startDate, timezoneOffset).start;
+}
+
+function toEntry(row: RankedRow): LeaderboardEntry {
+  return {
+    userId: row.user_id,
+    username: row.username,
+    value: row.value,
+    rank: row.rank
+  };
+}
+
+/**
+ * Service for leaderboards
+ * Windowed boards are derived from streak history:
+ * - current_streak: users' current streak, limited to users with streak activity in the window
+ * - longest_streak: the highest streak each user reached in the window
+ * - points: the streak gained from wins in the window
+ * All-time current/longest streaks come straight from the user record
+ * Users with nothing to show (0) aren't on the board. Scores are ranked and paged in SQL,
+ * so a page costs the same however many users there are to rank
+ */
+export class LeaderboardService {
+  /**
+   * Query for every user's score on a board (user_id, value), unranked
+   */
+  static getScoresQuery(board: LeaderboardBoard, since: Date | null, userIds?: string[]): Prisma.Sql {
+    const inWindow = (column: string) => (since ? Prisma.sql`AND ${Prisma.raw(column)} >= ${since}` : Prisma.empty);
+    const forUsers = (column: string) =>
+      userIds ? Prisma.sql`AND ${Prisma.raw(column)} = ANY(${userIds}::text[])` : Prisma.empty;
+
+    if (board === 'points') {
+      return Prisma.sql`
+        SELECT user_id, SUM(change_amount)::int AS value
+        FROM streak_history
+        WHERE change_type IN (${Prisma.join(POINT_CHANGE_TYPES)}) AND reversed_at IS NULL
+          ${inWindow('event_time')} ${forUsers('user_id')}
+        GROUP BY user_id`;
+    }
+
+    if (board === 'longest_streak') {
+      if (!since) {
+        return Prisma.sql`
+          SELECT id AS user_id, longest_streak AS value
+          FROM users
+          WHERE longest_streak > 0 ${forUsers('id')}`;
+      }
+
+      return Prisma.sql`
+        SELECT user_id, MAX(new_streak) AS value
+        FROM streak_history
+        WHERE reversed_at IS NULL ${inWindow('event_time')} ${forUsers('user_id')}
+        GROUP BY user_id`;
+    }
+
+    // current_streak
+    const activeInWindow = since
+      ? Prisma.sql`AND EXISTS (SELECT 1 FROM streak_history h WHERE h.user_id = users.id AND h.event_time >= ${since})`
+      : Prisma.empty;
+    return Prisma.sql`
+      SELECT id AS user_id, current_streak AS value
+      FROM users
+      WHERE current_streak > 0 ${forUsers('id')} ${activeInWindow}`;
+  }
+
+  /**
+   * A page of a leaderboard, plus the caller's own entry
+   * Ranked highest first; tied values share a rank (1, 1, 3) and are ordered by username
+   */
+  static async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResponse> {
+    const since = getWindowStart(query.window, query.timezoneOffset);
+    const scores = this.getScoresQuery(query.board, since, query.userIds);
+    const offset = (query.page - 1) * query.pageSize;
+
+    const rows = await prisma.$queryRaw<RankedRow[]>`
+      WITH scores AS (${scores})
+      SELECT s.user_id, u.username, s.value, (RANK() OVER (ORDER BY s.value DESC))::int AS rank
+      FROM scores s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.value > 0
+      ORDER BY s.value DESC, u.username ASC
+      LIMIT ${query.pageSize} OFFSET ${offset}`;
+
+    const [{ total }] = await prisma.$queryRaw<Array<{ total: number }>>`
+      WITH scores AS (${scores})
+      SELECT COUNT(*)::int AS total FROM scores WHERE value > 0`;
+
+    return {
+      board: query.board,
+      window: query.window,
+      since: since ? since.toISOString() : null,
+      entries: rows.map(toEntry),
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      me: query.userId ? await this.getEntry(scores, query.userId) : null
+    };
+  }
+
+  /**
+   * One user's entry on a board - their rank is one more than the number of users scoring higher
+   */
+  private static async getEntry(scores: Prisma.Sql, userId: string): Promise<LeaderboardEntry | null> {
+    const [row] = await prisma.$queryRaw<RankedRow[]>`
+      WITH scores AS (${scores})
+      SELECT s.user_id, u.username, s.value,
+        (SELECT COUNT(*) FROM scores higher WHERE higher.value > s.value)::int + 1 AS rank
+      FROM scores s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.user_id = ${userId} AND s.value > 0`;
+
+    return row ? toEntry(row) : null;
+  }
+}
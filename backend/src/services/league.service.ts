@@ -0,0 +1,283 @@
+import { randomInt } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { LeaderboardService, LeaderboardQuery } from './leaderboard.service';
+import { validateLeagueMembership, validateLeagueOwner } from '../utils/leagueValidation';
+import { LEAGUE_VALIDATION, normalizeInviteCode } from '@shared/validation/league';
+import type {
+  LeaderboardResponse,
+  LeagueActivityItem,
+  LeagueDetail,
+  LeagueSummary,
+  StreakHistory
+} from '@shared/types';
+
+const prisma = new PrismaClient();
+
+// Invite codes are random, so a collision just means drawing again
+const INVITE_CODE_ATTEMPTS = 5;
+
+const leagueWithMembers = {
+  members: {
+    include: { user: { select: { username: true, currentStreak: true, longestStreak: true } } },
+    orderBy: { joinedAt: 'asc' as const }
+  }
+};
+
+type LeagueWithMembers = Prisma.LeagueGetPayload<{ include: typeof leagueWithMembers }>;
+
+function generateInviteCode(): string {
+  const { alphabet, length } = LEAGUE_VALIDATION.inviteCode;
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+}
+
+function isInviteCodeCollision(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    JSON.stringify(error.meta?.target ?? '').includes('invite_code');
+}
+
+function toSummary(league: LeagueWithMembers, userId: string): LeagueSummary {
+  return {
+    id: league.id,
+    name: league.name,
+    inviteCode: league.inviteCode,
+    ownerId: league.ownerId,
+    memberCount: league.members.length,
+    isOwner: league.ownerId === userId,
+    createdAt: league.createdAt.toISOString()
+  };
+}
+
+/**
+ * Service for private leagues
+ * A league is a group of users who joined with its invite code; the owner is a member
+ * like everyone else but can rename the league, remove members and reissue the code.
+ * League leaderboards and activity are the global ones limited to the members.
+ */
+export class LeagueService {
+  /**
+   * Load a league the user belongs to
+   * @throws 404 if the league doesn't exist or the user isn't a member
+   */
+  private static async getMemberLeague(leagueId: string, userId: string): Promise<LeagueWithMembers> {
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+      include: leagueWithMembers
+    });
+    validateLeagueMembership(league, userId);
+    return league;
+  }
+
+  /**
+   * Leagues the user belongs to, newest first
+   */
+  static async listLeagues(userId: string): Promise<LeagueSummary[]> {
+    const leagues = await prisma.league.findMany({
+      where: { members: { some: { userId } } },
+      include: leagueWithMembers,
+      orderBy: { createdAt: 'desc' }
+    });
+    return leagues.map(league => toSummary(league, userId));
+  }
+
+  static async getLeague(leagueId: string, userId: string): Promise<LeagueDetail> {
+    const league = await this.getMemberLeague(leagueId, userId);
+
+    return {
+      ...toSummary(league, userId),
+      members: league.members.map(member => ({
+        userId: member.userId,
+        username: member.user.username,
+        currentStreak: member.user.currentStreak,
+        longestStreak: member.user.longestStreak,
+        joinedAt: member.joinedAt.toISOString()
+      }))
+    };
+  }
+
+  /**
+   * Create a league owned (and joined) by the user
+   */
+  static async createLeague(userId: string, name: string): Promise<LeagueDetail> {
+    for (let attempt = 1; attempt <= INVITE_CODE_ATTEMPTS; attempt++) {
+      try {
+        const league = await prisma.league.create({
+          data: {
+            name,
+            inviteCode: generateInviteCode(),
+            ownerId: userId,
+            members: { create: { userId } }
+          }
+        });
+        logger.info('League created', { leagueId: league.id, userId });
+        return this.getLeague(league.id, userId);
+      } catch (error) {
+        if (!isInviteCodeCollision(error) || attempt === INVITE_CODE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+    throw new Error('Could not generate a unique invite code');
+  }
+
+  /**
+   * Join a league by invite code; joining a league you're already in is a no-op
+   */
+  static async joinLeague(userId: string, inviteCode: string): Promise<LeagueDetail> {
+    const league = await prisma.league.findUnique({
+      where: { inviteCode: normalizeInviteCode(inviteCode) }
+    });
+
+    if (!league) {
+      const error: any = new Error('No league found for that invite code');
+      error.status = 404;
+      error.code = 'NOT_FOUND';
+      throw error;
+    }
+
+    await prisma.leagueMember.upsert({
+      where: { leagueId_userId: { leagueId: league.id, userId } },
+      create: { leagueId: league.id, userId },
+      update: {}
+    });
+
+    logger.info('User joined league', { leagueId: league.id, userId });
+    return this.getLeague(league.id, userId);
+  }
+
+  static async renameLeague(leagueId: string, userId: string, name: string): Promise<LeagueDetail> {
+    const league = await this.getMemberLeague(leagueId, userId);
+    validateLeagueOwner(league, userId);
+
+    await prisma.league.update({ where: { id: leagueId }, data: { name } });
+    return this.getLeague(leagueId, userId);
+  }
+
+  /**
+   * Replace the invite code, e.g. after removing someone who still has the old one
+   */
+  static async regenerateInviteCode(leagueId: string, userId: string): Promise<LeagueDetail> {
+    const league = await this.getMemberLeague(leagueId, userId);
+    validateLeagueOwner(league, userId);
+
+    for (let attempt = 1; attempt <= INVITE_CODE_ATTEMPTS; attempt++) {
+      try {
+        await prisma.league.update({ where: { id: leagueId }, data: { inviteCode: generateInviteCode() } });
+        return this.getLeague(leagueId, userId);
+      } catch (error) {
+        if (!isInviteCodeCollision(error) || attempt === INVITE_CODE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+    throw new Error('Could not generate a unique invite code');
+  }
+
+  /**
+   * Leave a league
+   * An owner leaving hands the league to the longest-standing member; the last member
+   * leaving deletes it
+   */
+  static async leaveLeague(leagueId: string, userId: string): Promise<{ deleted: boolean }> {
+    const league = await this.getMemberLeague(leagueId, userId);
+    const remaining = league.members.filter(member => member.userId !== userId);
+
+    if (remaining.length === 0) {
+      await prisma.league.delete({ where: { id: leagueId } });
+      logger.info('Last member left, league deleted', { leagueId, userId });
+      return { deleted: true };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.leagueMember.delete({ where: { leagueId_userId: { leagueId, userId } } });
+      if (league.ownerId === userId) {
+        await tx.league.update({ where: { id: leagueId }, data: { ownerId: remaining[0].userId } });
+      }
+    });
+
+    logger.info('User left league', { leagueId, userId });
+    return { deleted: false };
+  }
+
+  /**
+   * Owner removes another member
+   */
+  static async removeMember(leagueId: string, ownerId: string, memberId: string): Promise<LeagueDetail> {
+    const league = await this.getMemberLeague(leagueId, ownerId);
+    validateLeagueOwner(league, ownerId);
+
+    if (memberId === ownerId) {
+      const error: any = new Error('Owners leave a league instead of removing themselves');
+      error.status = 400;
+      error.code = 'VALIDATION_ERROR';
+      throw error;
+    }
+
+    if (!league.members.some(member => member.userId === memberId)) {
+      const error: any = new Error('Member not found');
+      error.status = 404;
+      error.code = 'NOT_FOUND';
+      throw error;
+    }
+
+    await prisma.leagueMember.delete({ where: { leagueId_userId: { leagueId, userId: memberId } } });
+    logger.info('League member removed', { leagueId, ownerId, memberId });
+    return this.getLeague(leagueId, ownerId);
+  }
+
+  /**
+   * A leaderboard with only the league's members on it
+   */
+  static async getLeaderboard(
+    leagueId: string,
+    userId: string,
+    query: Omit<LeaderboardQuery, 'userId' | 'userIds'>
+  ): Promise<LeaderboardResponse> {
+    const league = await this.getMemberLeague(leagueId, userId);
+
+    return LeaderboardService.getLeaderboard({
+      ...query,
+      userId,
+      userIds: league.members.map(member => member.userId)
+    });
+  }
+
+  /**
+   * Members' streak changes, newest first
+   * Pass the last item's eventTime as `before` to get the next page
+   */
+  static async getActivity(
+    leagueId: string,
+    userId: string,
+    limit: number,
+    before?: Date
+  ): Promise<LeagueActivityItem[]> {
+    const league = await this.getMemberLeague(leagueId, userId);
+
+    const history = await prisma.streakHistory.findMany({
+      where: {
+        userId: { in: league.members.map(member => member.userId) },
+        ...(before && { eventTime: { lt: before } })
+      },
+      include: { user: { select: { username: true } } },
+      orderBy: [{ eventTime: 'desc' }, { createdAt: 'desc' }],
+      take: limit
+    });
+
+    return history.map(entry => ({
+      id: entry.id,
+      userId: entry.userId,
+      username: entry.user.username,
+      changeType: entry.changeType as StreakHistory['changeType'],
+      oldStreak: entry.oldStreak,
+      newStreak: entry.newStreak,
+      changeAmount: entry.changeAmount,
+      eventTime: entry.eventTime.toISOString()
+    }));
+  }
+}
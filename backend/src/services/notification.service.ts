@@ -0,0 +1,227 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { pushTransport } from './pushTransport.service';
+import type { DevicePlatform, NotificationPreferences, NotificationType } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+// Users without a preferences row get everything
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  parlayLocked: true,
+  legResolved: true,
+  parlaySettled: true,
+  gamesStartingSoon: true
+};
+
+// How far ahead "games starting soon" looks for games the user hasn't picked
+const STARTING_SOON_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+
+interface Notification {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+const LEG_RESULT_TITLES: Record<string, string> = {
+  win: 'Leg won ✅',
+  loss: 'Leg lost ❌',
+  push: 'Leg pushed',
+  void: 'Leg voided'
+};
+
+const PICK_RESULT_TITLES: Record<string, string> = {
+  win: 'Pick won ✅',
+  loss: 'Pick lost ❌',
+  push: 'Pick pushed',
+  void: 'Pick voided'
+};
+
+/**
+ * Only users who haven't turned this notification type off
+ */
+function wantsNotification(type: NotificationType): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { notificationPreference: { is: null } },
+      { notificationPreference: { is: { [type]: true } } }
+    ]
+  };
+}
+
+/**
+ * Service for device registration, notification preferences and push dispatch
+ * Sending never throws - a failed push is logged and the caller carries on.
+ */
+export class NotificationService {
+  /**
+   * Register a device's push token for a user
+   * A token already registered to another account moves to this one (shared device, re-login)
+   */
+  static async registerDevice(userId: string, token: string, platform: DevicePlatform): Promise<void> {
+    await prisma.deviceToken.upsert({
+      where: { token },
+      create: { userId, token, platform },
+      update: { userId, platform }
+    });
+  }
+
+  /**
+   * Stop sending to a device (e.g. on logout)
+   */
+  static async unregisterDevice(userId: string, token: string): Promise<void> {
+    await prisma.deviceToken.deleteMany({ where: { userId, token } });
+  }
+
+  static async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = await prisma.notificationPreference.findUnique({ where: { userId } });
+    if (!preferences) {
+      return { ...DEFAULT_PREFERENCES };
+    }
+
+    const { parlayLocked, legResolved, parlaySettled, gamesStartingSoon } = preferences;
+    return { parlayLocked, legResolved, parlaySettled, gamesStartingSoon };
+  }
+
+  static async updatePreferences(
+    userId: string,
+    updates: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> {
+    await prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...DEFAULT_PREFERENCES, ...updates },
+      update: updates
+    });
+    return this.getPreferences(userId);
+  }
+
+  static async notifyParlayLocked(userId: string, parlayId: string, betCount: number): Promise<void> {
+    await this.dispatch([userId], 'parlayLocked', {
+      title: 'Parlay locked 🔒',
+      body: `Your ${betCount}-leg parlay is locked in. Good luck!`,
+      data: { parlayId }
+    });
+  }
+
+  /**
+   * A user's pick was resolved - either a parlay leg or a single bet
+   */
+  static async notifyLegResolved(
+    userId: string,
+    pick: { parlayId: string | null; betText: string; outcome: string | null }
+  ): Promise<void> {
+    const titles = pick.parlayId ? LEG_RESULT_TITLES : PICK_RESULT_TITLES;
+    if (!pick.outcome || !titles[pick.outcome]) {
+      return;
+    }
+
+    await this.dispatch([userId], 'legResolved', {
+      title: titles[pick.outcome],
+      body: pick.betText,
+      data: { parlayId: pick.parlayId }
+    });
+  }
+
+  static async notifyParlaySettled(
+    userId: string,
+    parlayId: string,
+    outcome: 'won' | 'lost' | 'push',
+    newStreak: number
+  ): Promise<void> {
+    const notification: Notification =
+      outcome === 'won'
+        ? { title: 'Parlay won! 🔥', body: `Your streak is now ${newStreak}.` }
+        : outcome === 'lost'
+          ? { title: 'Parlay lost', body: newStreak > 0 ? `Insurance saved your streak of ${newStreak}.` : 'Your streak has been reset. Time to start a new one.' }
+          : { title: 'Parlay pushed', body: `No change to your streak of ${newStreak}.` };
+
+    await this.dispatch([userId], 'parlaySettled', { ...notification, data: { parlayId } });
+  }
+
+  /**
+   * Remind users who haven't picked anything in games that are about to start
+   * Each game is only included once, so running this often doesn't repeat reminders
+   */
+  static async notifyGamesStartingSoon(): Promise<{ games: number; usersNotified: number }> {
+    const now = new Date();
+    const games = await prisma.game.findMany({
+      where: {
+        status: 'scheduled',
+        startingSoonNotifiedAt: null,
+        startTime: { gt: now, lte: new Date(now.getTime() + STARTING_SOON_WINDOW_MS) },
+        bets: { some: {} }
+      },
+      select: { id: true }
+    });
+
+    if (games.length === 0) {
+      return { games: 0, usersNotified: 0 };
+    }
+
+    const gameIds = games.map(game => game.id);
+    await prisma.game.updateMany({
+      where: { id: { in: gameIds } },
+      data: { startingSoonNotifiedAt: now }
+    });
+
+    const users = await prisma.user.findMany({
+      where: {
+        deviceTokens: { some: {} },
+        betSelections: { none: { bet: { gameId: { in: gameIds } } } },
+        ...wantsNotification('gamesStartingSoon')
+      },
+      select: { id: true }
+    });
+
+    await this.dispatch(users.map(user => user.id), 'gamesStartingSoon', {
+      title: 'Games starting soon ⏰',
+      body: gameIds.length === 1
+        ? "A game starts within 30 minutes and you haven't made any picks."
+        : `${gameIds.length} games start within 30 minutes and you haven't made any picks.`
+    });
+
+    return { games: gameIds.length, usersNotified: users.length };
+  }
+
+  /**
+   * Send a notification to every registered device of the given users who want it
+   * Tokens the push service reports as unregistered are deleted
+   */
+  private static async dispatch(userIds: string[], type: NotificationType, notification: Notification): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    try {
+      const devices = await prisma.deviceToken.findMany({
+        where: { userId: { in: userIds }, user: wantsNotification(type) },
+        select: { token: true }
+      });
+
+      if (devices.length === 0) {
+        return;
+      }
+
+      const results = await pushTransport.send(devices.map(device => ({
+        to: device.token,
+        title: notification.title,
+        body: notification.body,
+        data: { type, ...notification.data }
+      })));
+
+      const expiredTokens = results.filter(result => result.deviceNotRegistered).map(result => result.to);
+      if (expiredTokens.length > 0) {
+        await prisma.deviceToken.deleteMany({ where: { token: { in: expiredTokens } } });
+        logger.info('Removed unregistered device tokens', { count: expiredTokens.length });
+      }
+
+      logger.info('Push notifications sent', {
+        type,
+        transport: pushTransport.name,
+        devices: devices.length,
+        failed: results.filter(result => !result.ok).length
+      });
+    } catch (error: any) {
+      logger.error('Error sending push notifications', { type, userCount: userIds.length, error: error.message });
+    }
+  }
+}
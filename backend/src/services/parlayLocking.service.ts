@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { RealtimeService } from './realtime.service';
+import { NotificationService } from './notification.service';
 
 const prisma = new PrismaClient();
 
@@ -9,9 +11,10 @@ const prisma = new PrismaClient();
 export class ParlayLockingService {
   /**
    * Check and lock parlays where the first game has started
-   * This should be called periodically (e.g., every minute) or when games are updated
+   * Runs every minute as the 'lock-parlays' background job (see src/jobs/index.ts)
+   * Returns how many parlays were checked and locked; errors are rethrown so the job run records them
    */
-  static async checkAndLockParlays(): Promise<void> {
+  static async checkAndLockParlays(): Promise<{ checked: number; locked: number }> {
     try {
       const now = new Date();
 
@@ -36,6 +39,8 @@ export class ParlayLockingService {
 
       logger.info('Checking parlays for locking', { count: buildingParlays.length });
 
+      let locked = 0;
+
       for (const parlay of buildingParlays) {
         // Check if any game in this parlay has started
         const anyGameStarted = parlay.selections.some(selection => {
@@ -48,6 +53,7 @@ export class ParlayLockingService {
 
         if (anyGameStarted) {
           await this.lockParlay(parlay.id);
+          locked++;
           logger.info('Parlay auto-locked', {
             parlayId: parlay.id,
             userId: parlay.userId,
@@ -55,11 +61,14 @@ export class ParlayLockingService {
           });
         }
       }
+
+      return { checked: buildingParlays.length, locked };
     } catch (error: any) {
       logger.error('Error checking and locking parlays', {
         error: error.message,
         stack: error.stack
       });
+      throw error;
     }
   }
 
@@ -71,7 +80,7 @@ export class ParlayLockingService {
       const now = new Date();
 
       // Update parlay
-      await prisma.parlay.update({
+      const parlay = await prisma.parlay.update({
         where: { id: parlayId },
         data: {
           status: 'locked',
@@ -88,6 +97,9 @@ export class ParlayLockingService {
       });
 
       logger.info('Parlay locked', { parlayId });
+
+      RealtimeService.emitParlayLocked(parlay.userId, parlayId);
+      await NotificationService.notifyParlayLocked(parlay.userId, parlayId, parlay.betCount);
     } catch (error: any) {
       logger.error('Error locking parlay', {
         parlayId,
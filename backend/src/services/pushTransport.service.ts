@@ -0,0 +1,27 @@
+import { logger } from '../utils/logger';
+import { ExpoPushTransport } from './expoPush.service';
+import { StubPushTransport } from './stubPush.service';
+import type { PushTransport } from '../interfaces';
+
+/**
+ * Create the push transport selected by PUSH_TRANSPORT
+ * - 'expo' (default): Expo's push service
+ * - 'stub': log messages instead of sending them, for local development
+ */
+export function createPushTransport(): PushTransport {
+  const transportName = (process.env.PUSH_TRANSPORT || 'expo').toLowerCase();
+
+  if (transportName === 'stub') {
+    logger.info('Using stub push transport');
+    return new StubPushTransport();
+  }
+
+  if (transportName !== 'expo') {
+    throw new Error(`Unknown PUSH_TRANSPORT: ${transportName} (expected 'expo' or 'stub')`);
+  }
+
+  return new ExpoPushTransport(process.env.EXPO_ACCESS_TOKEN || undefined);
+}
+
+// Singleton instance used by the notification service
+export const pushTransport = createPushTransport();
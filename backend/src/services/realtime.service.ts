@@ -0,0 +1,125 @@
+import { PrismaClient } from '@prisma/client';
+import type { Request, RequestHandler } from 'express';
+import type { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../utils/logger';
+import type {
+  BetResolvedEvent,
+  ClientToServerEvents,
+  GameUpdateEvent,
+  ParlaySettledEvent,
+  SelectionResolvedEvent,
+  ServerToClientEvents
+} from '@shared/types';
+
+const prisma = new PrismaClient();
+
+// A client only needs the games on screen; this caps how many rooms one socket can join
+const MAX_WATCHED_GAMES = 200;
+
+interface SocketData {
+  userId: string;
+}
+
+export type RealtimeServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+let io: RealtimeServer | null = null;
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const gameRoom = (gameId: string) => `game:${gameId}`;
+
+function toGameIds(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((id): id is string => typeof id === 'string').slice(0, MAX_WATCHED_GAMES)
+    : [];
+}
+
+/**
+ * Service for pushing live updates to clients over Socket.io
+ * Sockets authenticate with the same express-session cookie as the REST API and join
+ * their user's room; clients watch the games they're showing to join those games' rooms.
+ * Emitting before attach() (scripts, tests) is a no-op.
+ */
+export class RealtimeService {
+  /**
+   * Authenticate and route sockets on the server
+   * Must be given the same session middleware the express app uses
+   */
+  static attach(server: RealtimeServer, sessionMiddleware: RequestHandler): void {
+    io = server;
+
+    // Run express-session on the handshake request so socket.request.session is populated
+    server.engine.use(sessionMiddleware);
+
+    server.use((socket, next) => {
+      const userId = (socket.request as Request).session?.userId;
+      if (!userId) {
+        return next(new Error('Authentication required'));
+      }
+      socket.data.userId = userId;
+      next();
+    });
+
+    server.on('connection', (socket) => {
+      const { userId } = socket.data;
+      socket.join(userRoom(userId));
+      logger.info('Socket connected', { socketId: socket.id, userId });
+
+      socket.on('games:watch', (gameIds) => {
+        socket.join(toGameIds(gameIds).map(gameRoom));
+      });
+
+      socket.on('games:unwatch', (gameIds) => {
+        for (const gameId of toGameIds(gameIds)) {
+          socket.leave(gameRoom(gameId));
+        }
+      });
+
+      socket.on('disconnect', (reason) => {
+        logger.info('Socket disconnected', { socketId: socket.id, userId, reason });
+      });
+    });
+  }
+
+  static emitGameUpdate(event: GameUpdateEvent): void {
+    io?.to(gameRoom(event.gameId)).emit('game:update', event);
+  }
+
+  static emitBetResolved(event: BetResolvedEvent): void {
+    io?.to(gameRoom(event.gameId)).emit('bet:resolved', event);
+  }
+
+  static emitSelectionResolved(userId: string, event: SelectionResolvedEvent): void {
+    io?.to(userRoom(userId)).emit('selection:resolved', event);
+  }
+
+  static emitParlayLocked(userId: string, parlayId: string): void {
+    io?.to(userRoom(userId)).emit('parlay:locked', { parlayId });
+  }
+
+  static emitParlaySettled(userId: string, event: ParlaySettledEvent): void {
+    io?.to(userRoom(userId)).emit('parlay:settled', event);
+  }
+
+  /**
+   * Send the user their current streak fields
+   * Read back from the database after settlement, since a settlement can replay later history
+   */
+  static async emitStreakUpdate(userId: string): Promise<void> {
+    if (!io) {
+      return;
+    }
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { currentStreak: true, longestStreak: true, totalPointsEarned: true, insuranceLocked: true }
+      });
+      if (user) {
+        io.to(userRoom(userId)).emit('streak:updated', user);
+      }
+    } catch (error: any) {
+      // A missed live update isn't worth failing the settlement over
+      logger.error('Error emitting streak update', { userId, error: error.message });
+    }
+  }
+}
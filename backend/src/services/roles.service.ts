@@ -0,0 +1,188 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { getPermissionsForRoles, isUserRole } from '@shared/utils/permissions';
+import { USER_ROLES } from '@shared/constants/permissions';
+import type { Permission, UserRole, UserRoleSummary } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+const USER_SEARCH_LIMIT = 20;
+const STAFF_ROLES = USER_ROLES.filter(role => role !== 'player');
+
+const userRoleSelect = {
+  id: true,
+  username: true,
+  email: true,
+  roles: true
+} satisfies Prisma.UserSelect;
+
+function toSummary(user: Prisma.UserGetPayload<{ select: typeof userRoleSelect }>): UserRoleSummary {
+  const roles = user.roles.filter(isUserRole);
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    roles,
+    permissions: getPermissionsForRoles(roles)
+  };
+}
+
+export interface RoleChange {
+  user: UserRoleSummary;
+  previousRoles: UserRole[];
+}
+
+function roleError(status: number, code: string, message: string): Error {
+  const error: any = new Error(message);
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+/**
+ * Service for user roles and the permissions they grant
+ */
+export class RoleService {
+  static async getPermissions(userId: string): Promise<Permission[]> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { roles: true } });
+    return user ? getPermissionsForRoles(user.roles) : [];
+  }
+
+  /**
+   * Users matching a username or email search, or everyone with a role beyond player if there's no search
+   */
+  static async listUsers(search: string | null): Promise<UserRoleSummary[]> {
+    const where: Prisma.UserWhereInput = search
+      ? {
+          OR: [
+            { username: { contains: search, mode: 'insensitive' } },
+            { email: { contains: search, mode: 'insensitive' } }
+          ]
+        }
+      : { roles: { hasSome: STAFF_ROLES } };
+
+    const users = await prisma.user.findMany({
+      where,
+      select: userRoleSelect,
+      orderBy: { username: 'asc' },
+      take: USER_SEARCH_LIMIT
+    });
+
+    return users.map(toSummary);
+  }
+
+  /**
+   * @throws Error with 404 status if the user doesn't exist
+   */
+  static async grantRole(userId: string, role: UserRole, grantedBy: string): Promise<RoleChange> {
+    const user = await this.getUser(userId);
+    const previousRoles = user.roles.filter(isUserRole);
+    if (user.roles.includes(role)) {
+      return { user: toSummary(user), previousRoles };
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { roles: { push: role } },
+      select: userRoleSelect
+    });
+
+    logger.info('Role granted', { userId, role, grantedBy });
+    return { user: toSummary(updated), previousRoles };
+  }
+
+  /**
+   * @throws Error with 400 status for the player role or the last owner, 404 if the user doesn't exist
+   */
+  static async revokeRole(userId: string, role: UserRole, revokedBy: string): Promise<RoleChange> {
+    if (role === 'player') {
+      throw roleError(400, 'VALIDATION_ERROR', 'Every user is a player - the player role cannot be revoked');
+    }
+
+    let previousRoles: UserRole[] = [];
+    const updated = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id: userId }, select: userRoleSelect });
+      if (!user) {
+        throw roleError(404, 'NOT_FOUND', 'User not found');
+      }
+      previousRoles = user.roles.filter(isUserRole);
+      if (!user.roles.includes(role)) {
+        return user;
+      }
+
+      // Someone has to be left who can grant roles
+      if (role === 'owner') {
+        const owners = await tx.user.count({ where: { roles: { has: 'owner' } } });
+        if (owners <= 1) {
+          throw roleError(400, 'LAST_OWNER', 'Cannot revoke the owner role from the last owner');
+        }
+      }
+
+      return tx.user.update({
+        where: { id: userId },
+        data: { roles: user.roles.filter(existing => existing !== role) },
+        select: userRoleSelect
+      });
+    });
+
+    logger.info('Role revoked', { userId, role, revokedBy });
+    return { user: toSummary(updated), previousRoles };
+  }
+
+  /**
+   * Grant owner to the users in ADMIN_EMAILS while nobody owns the app yet
+   * Admin access used to come from that env list and the roles migration gives every existing user
+   * only the player role, so this carries the old admins over on the first start after deploying it.
+   * Does nothing once an owner exists; returns the emails granted
+   */
+  static async bootstrapOwnersFromEnv(): Promise<string[]> {
+    const adminEmails = process.env.ADMIN_EMAILS?.split(',').map(email => email.trim()).filter(Boolean) || [];
+    if (adminEmails.length === 0) {
+      return [];
+    }
+
+    const granted = await prisma.$transaction(async (tx): Promise<string[] | null> => {
+      // Serialises instances starting at once, so only the first one grants
+      await tx.$executeRaw`LOCK TABLE users IN SHARE ROW EXCLUSIVE MODE`;
+
+      const owners = await tx.user.count({ where: { roles: { has: 'owner' } } });
+      if (owners > 0) {
+        return null;
+      }
+
+      const users = await tx.user.findMany({
+        where: { email: { in: adminEmails } },
+        select: { id: true, email: true }
+      });
+
+      for (const user of users) {
+        await tx.user.update({
+          where: { id: user.id },
+          data: { roles: { push: 'owner' } }
+        });
+      }
+
+      return users.map(user => user.email);
+    });
+
+    if (!granted) {
+      return [];
+    }
+
+    logger.info('Owner role granted from ADMIN_EMAILS', { emails: granted });
+    const missing = adminEmails.filter(email => !granted.includes(email));
+    if (missing.length > 0) {
+      logger.warn('ADMIN_EMAILS entries with no matching user', { emails: missing });
+    }
+
+    return granted;
+  }
+
+  private static async getUser(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: userRoleSelect });
+    if (!user) {
+      throw roleError(404, 'NOT_FOUND', 'User not found');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,147 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { DEFAULT_GAME_RULES } from '@shared/constants/game';
+import type { GameRules, GameRuleset, GameRulesetSummary } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+// How long the active ruleset is cached - a version published on another instance shows up within this
+const ACTIVE_RULESET_TTL_MS = 60 * 1000;
+
+// Published versions never change, so they are cached for the life of the process
+const rulesetsByVersion = new Map<number, GameRuleset>();
+let activeRuleset: { ruleset: GameRuleset; expiresAt: number } | null = null;
+
+type GameRulesetRow = Prisma.GameRulesetGetPayload<{}>;
+
+function toRuleset(row: GameRulesetRow): GameRuleset {
+  return {
+    version: row.version,
+    rules: row.rules as unknown as GameRules,
+    notes: row.notes,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+function cacheRuleset(row: GameRulesetRow): GameRuleset {
+  const ruleset = toRuleset(row);
+  rulesetsByVersion.set(ruleset.version, ruleset);
+  return ruleset;
+}
+
+/**
+ * Service for the versioned game ruleset (parlay values, insurance, max legs, single bet rules)
+ * The highest version is active and used for new parlays; each parlay keeps the version it was
+ * created under so later rule changes don't rescore it.
+ */
+export class RulesService {
+  /**
+   * The highest published version
+   * Pass fresh to skip the cache when the version gets recorded (a new parlay or single bet),
+   * so one published on another instance is used straight away
+   */
+  static async getActiveRuleset(fresh: boolean = false): Promise<GameRuleset> {
+    if (!fresh && activeRuleset && activeRuleset.expiresAt > Date.now()) {
+      return activeRuleset.ruleset;
+    }
+
+    let row = await prisma.gameRuleset.findFirst({ orderBy: { version: 'desc' } });
+    if (!row) {
+      // The migration seeds version 1; this covers databases created without it
+      row = await prisma.gameRuleset.upsert({
+        where: { version: 1 },
+        create: { version: 1, rules: DEFAULT_GAME_RULES as unknown as Prisma.InputJsonValue, notes: 'Initial rules' },
+        update: {}
+      });
+    }
+
+    const ruleset = cacheRuleset(row);
+    activeRuleset = { ruleset, expiresAt: Date.now() + ACTIVE_RULESET_TTL_MS };
+    return ruleset;
+  }
+
+  static async getActiveRules(): Promise<GameRules> {
+    return (await this.getActiveRuleset()).rules;
+  }
+
+  /**
+   * @throws Error with 404 status if the version doesn't exist
+   */
+  static async getRuleset(version: number): Promise<GameRuleset> {
+    const cached = rulesetsByVersion.get(version);
+    if (cached) {
+      return cached;
+    }
+
+    const row = await prisma.gameRuleset.findUnique({ where: { version } });
+    if (!row) {
+      const error: any = new Error(`Ruleset version ${version} not found`);
+      error.status = 404;
+      error.code = 'NOT_FOUND';
+      throw error;
+    }
+
+    return cacheRuleset(row);
+  }
+
+  /**
+   * Rules a parlay is scored under
+   */
+  static async getRules(version: number): Promise<GameRules> {
+    return (await this.getRuleset(version)).rules;
+  }
+
+  static async listRulesets(): Promise<GameRulesetSummary[]> {
+    const active = await this.getActiveRuleset(true);
+    const rows = await prisma.gameRuleset.findMany({
+      orderBy: { version: 'desc' },
+      include: {
+        createdBy: { select: { username: true } },
+        _count: { select: { parlays: true } }
+      }
+    });
+
+    return rows.map(row => ({
+      ...toRuleset(row),
+      active: row.version === active.version,
+      createdBy: row.createdBy?.username ?? null,
+      parlayCount: row._count.parlays
+    }));
+  }
+
+  /**
+   * Publish validated rules as the next version, making them active for new parlays
+   * @throws Error with 409 status if another version was published at the same time
+   */
+  static async publishRuleset(rules: GameRules, notes: string | null, userId: string): Promise<GameRuleset> {
+    const latest = await prisma.gameRuleset.findFirst({
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    try {
+      const row = await prisma.gameRuleset.create({
+        data: {
+          version: (latest?.version ?? 0) + 1,
+          rules: rules as unknown as Prisma.InputJsonValue,
+          notes,
+          createdById: userId
+        }
+      });
+
+      const ruleset = cacheRuleset(row);
+      // Dropped rather than replaced - the next read picks up whichever version is now highest
+      activeRuleset = null;
+      logger.info('Game ruleset published', { version: ruleset.version, userId });
+      return ruleset;
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const conflict: any = new Error('Another ruleset version was just published. Reload and try again.');
+        conflict.status = 409;
+        conflict.code = 'CONFLICT';
+        throw conflict;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getUTCDateRange } from '../utils/dateUtils';
+import { RulesService } from './rules.service';
+import type { SingleBetSummary } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+/**
+ * The user's local date (YYYY-MM-DD) for a moment in time
+ */
+function toLocalDateString(time: Date, timezoneOffset: number): string {
+  return new Date(time.getTime() + timezoneOffset * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Service for the daily cap on open single bets
+ * The cap counts by game day in the user's timezone: singles for games starting that day
+ * that haven't resolved yet. Only new picks are checked - a parlay that falls back to a
+ * single bet keeps it even if the day is full.
+ */
+export class SingleBetService {
+  static async countOpenSingles(
+    userId: string,
+    date: string,
+    timezoneOffset: number | undefined,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const { start, end } = getUTCDateRange(date, timezoneOffset);
+    return client.userBetSelection.count({
+      where: {
+        userId,
+        parlayId: null,
+        status: { not: 'resolved' },
+        bet: { game: { startTime: { gte: start, lt: end } } }
+      }
+    });
+  }
+
+  static async getSummary(userId: string, date: string, timezoneOffset: number | undefined): Promise<SingleBetSummary> {
+    const rules = (await RulesService.getActiveRules()).singleBets;
+    const openCount = await this.countOpenSingles(userId, date, timezoneOffset);
+    return {
+      rules,
+      openCount,
+      remaining: rules.dailyOpenCap === null ? null : Math.max(0, rules.dailyOpenCap - openCount)
+    };
+  }
+
+  /**
+   * Check a new single bet on a game fits under the daily cap
+   * Call it in the transaction that creates the single, with the user's row locked
+   * (StreakRecalculationService.lockUser), so concurrent picks can't all pass the count
+   * @throws Error with 400 status if the user already has the maximum open singles that day
+   */
+  static async assertUnderDailyCap(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    gameStartTime: Date,
+    timezoneOffset: number | undefined
+  ): Promise<void> {
+    const { dailyOpenCap } = (await RulesService.getActiveRules()).singleBets;
+    if (dailyOpenCap === null) {
+      return;
+    }
+
+    const date = toLocalDateString(gameStartTime, timezoneOffset ?? 0);
+    const openCount = await this.countOpenSingles(userId, date, timezoneOffset, tx);
+    if (openCount >= dailyOpenCap) {
+      const error: any = new Error(
+        `You can have at most ${dailyOpenCap} open single bet${dailyOpenCap !== 1 ? 's' : ''} per day. Add picks to a parlay or wait for some to resolve.`
+      );
+      error.status = 400;
+      error.code = 'SINGLE_BET_LIMIT';
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { ApiSportsService } from './apiSports.service';
+import { FixtureSportsDataProvider } from './fixtureSportsData.service';
+import type { SportsDataProvider } from '../interfaces';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/sports-data';
+
+/**
+ * Create the sports data provider selected by SPORTS_DATA_PROVIDER
+ * - 'espn' (default): live ESPN API
+ * - 'fixtures': recorded payloads from SPORTS_DATA_FIXTURES_DIR, for offline development
+ */
+export function createSportsDataProvider(): SportsDataProvider {
+  const providerName = (process.env.SPORTS_DATA_PROVIDER || 'espn').toLowerCase();
+
+  if (providerName === 'fixtures') {
+    const fixturesDir = path.resolve(process.env.SPORTS_DATA_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+    logger.info('Using fixture sports data provider', { fixturesDir });
+    return new FixtureSportsDataProvider(fixturesDir);
+  }
+
+  if (providerName !== 'espn') {
+    throw new Error(`Unknown SPORTS_DATA_PROVIDER: ${providerName} (expected 'espn' or 'fixtures')`);
+  }
+
+  return new ApiSportsService();
+}
+
+// Singleton instance shared by routes, polling and resolution
+export const sportsDataProvider = createSportsDataProvider();
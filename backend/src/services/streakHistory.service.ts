@@ -0,0 +1,197 @@
+import { PrismaClient } from '@prisma/client';
+import { formatParlayResponse } from '../utils/parlayHelpers';
+import type { StreakEventType, StreakHistoryPage, StreakRun, StreakRunEvent } from '@shared/types';
+
+const prisma = new PrismaClient();
+
+interface HistoryEntry {
+  id: string;
+  parlayId: string | null;
+  selectionId: string | null;
+  oldStreak: number;
+  newStreak: number;
+  changeAmount: number;
+  changeType: string;
+  eventTime: Date;
+}
+
+interface RunEntries {
+  entries: HistoryEntry[]; // Oldest first
+  ended: boolean;
+}
+
+/**
+ * Split a user's history (in event order) into streak runs
+ * A run starts with the first change that takes the streak above 0 and ends with the
+ * change that brings it back to 0. Changes while the streak is already 0 (a loss with
+ * nothing to lose) don't belong to any run.
+ */
+function groupIntoRuns(entries: HistoryEntry[]): RunEntries[] {
+  const runs: RunEntries[] = [];
+  let current: RunEntries | null = null;
+
+  for (const entry of entries) {
+    if (!current) {
+      if (entry.newStreak <= 0) {
+        continue;
+      }
+      current = { entries: [], ended: false };
+      runs.push(current);
+    }
+
+    current.entries.push(entry);
+
+    if (entry.newStreak <= 0) {
+      current.ended = true;
+      current = null;
+    }
+  }
+
+  return runs;
+}
+
+function formatRun(
+  run: RunEntries,
+  parlays: Map<string, unknown>,
+  selections: Map<string, unknown>
+): StreakRun {
+  const first = run.entries[0];
+  const last = run.entries[run.entries.length - 1];
+
+  const events: StreakRunEvent[] = run.entries.map(entry => ({
+    id: entry.id,
+    type: entry.changeType as StreakEventType,
+    pointsChange: entry.changeAmount,
+    resultingStreak: entry.newStreak,
+    date: entry.eventTime.toISOString(),
+    parlay: entry.parlayId ? parlays.get(entry.parlayId) : undefined,
+    betSelection: !entry.parlayId && entry.selectionId ? selections.get(entry.selectionId) : undefined
+  }));
+
+  return {
+    id: first.id,
+    status: run.ended ? 'ended' : 'active',
+    peakStreak: Math.max(...run.entries.map(entry => entry.newStreak)),
+    startDate: first.eventTime.toISOString(),
+    endDate: run.ended ? last.eventTime.toISOString() : undefined,
+    finalStreak: last.newStreak,
+    events: events.reverse()
+  };
+}
+
+/**
+ * Service for a user's streak history grouped into runs, newest first
+ */
+export class StreakHistoryService {
+  static async getStreakHistory(userId: string, page: number, pageSize: number): Promise<StreakHistoryPage> {
+    // Corrections and reversals only patch up currentStreak after a replay, and reversed entries
+    // were undone by an admin changing a bet's result - none of them are events the user made
+    const entries = await prisma.streakHistory.findMany({
+      where: { userId, changeType: { notIn: ['correction', 'reversal'] }, reversedAt: null },
+      orderBy: [{ eventTime: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        parlayId: true,
+        selectionId: true,
+        oldStreak: true,
+        newStreak: true,
+        changeAmount: true,
+        changeType: true,
+        eventTime: true
+      }
+    });
+
+    const allRuns = groupIntoRuns(entries).reverse();
+    const pageRuns = allRuns.slice((page - 1) * pageSize, page * pageSize);
+    const pageEntries = pageRuns.flatMap(run => run.entries);
+
+    const [parlays, selections] = await Promise.all([
+      this.getParlays(pageEntries),
+      this.getSingleBets(pageEntries)
+    ]);
+
+    return {
+      runs: pageRuns.map(run => formatRun(run, parlays, selections)),
+      page,
+      pageSize,
+      totalRuns: allRuns.length,
+      hasMore: page * pageSize < allRuns.length
+    };
+  }
+
+  private static async getParlays(entries: HistoryEntry[]): Promise<Map<string, unknown>> {
+    const parlayIds = [...new Set(entries.map(entry => entry.parlayId).filter((id): id is string => !!id))];
+    if (parlayIds.length === 0) {
+      return new Map();
+    }
+
+    const parlays = await prisma.parlay.findMany({
+      where: { id: { in: parlayIds } },
+      include: {
+        selections: {
+          include: { bet: { include: { game: true } } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    return new Map(parlays.map(parlay => [parlay.id, formatParlayResponse(parlay)]));
+  }
+
+  /**
+   * Single bets in the same shape as GET /api/bets/my-selections, with the game also on the selection
+   */
+  private static async getSingleBets(entries: HistoryEntry[]): Promise<Map<string, unknown>> {
+    const selectionIds = [
+      ...new Set(entries.filter(entry => !entry.parlayId).map(entry => entry.selectionId).filter((id): id is string => !!id))
+    ];
+    if (selectionIds.length === 0) {
+      return new Map();
+    }
+
+    const selections = await prisma.userBetSelection.findMany({
+      where: { id: { in: selectionIds } },
+      include: {
+        bet: {
+          include: {
+            game: {
+              select: {
+                id: true,
+                homeTeam: true,
+                awayTeam: true,
+                startTime: true,
+                status: true,
+                sport: true,
+                homeScore: true,
+                awayScore: true,
+                metadata: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    return new Map(selections.map(sel => {
+      const game = { ...sel.bet.game, startTime: sel.bet.game.startTime.toISOString() };
+      return [sel.id, {
+        id: sel.id,
+        betId: sel.betId,
+        selectedSide: sel.selectedSide,
+        status: sel.status,
+        outcome: sel.outcome,
+        bet: {
+          id: sel.bet.id,
+          displayText: sel.bet.displayText,
+          displayTextOverride: sel.bet.displayTextOverride,
+          betType: sel.bet.betType,
+          outcome: sel.bet.outcome,
+          priority: sel.bet.priority,
+          config: sel.bet.config,
+          game
+        },
+        game
+      }];
+    }));
+  }
+}
@@ -0,0 +1,390 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export type StreakChangeType =
+  | 'parlay_win'
+  | 'parlay_loss'
+  | 'bet_win'
+  | 'bet_loss'
+  | 'insurance_deducted'
+  | 'insurance_refunded'
+  | 'correction'
+  | 'reversal';
+
+// Change types that add a fixed amount to whatever the streak was at the time
+const DELTA_CHANGE_TYPES: StreakChangeType[] = ['parlay_win', 'bet_win', 'insurance_deducted', 'insurance_refunded'];
+
+// Change types recorded when a parlay or single bet settles
+export const SETTLEMENT_CHANGE_TYPES: StreakChangeType[] = ['parlay_win', 'parlay_loss', 'bet_win', 'bet_loss'];
+
+// Entries for real events - corrections and reversals are derived from a replay
+const EVENT_ENTRIES: Prisma.StreakHistoryWhereInput = {
+  changeType: { notIn: ['correction', 'reversal'] }
+};
+
+// Event entries that still count - an admin changing a bet's result reverses what it settled
+const REPLAYED_ENTRIES: Prisma.StreakHistoryWhereInput = {
+  ...EVENT_ENTRIES,
+  reversedAt: null
+};
+
+export interface StreakChangeInput {
+  userId: string;
+  changeType: Exclude<StreakChangeType, 'correction' | 'reversal'>;
+  eventTime: Date;
+  parlayId?: string | null;
+  selectionId?: string | null;
+  // For delta change types: the amount to add (negative for deductions)
+  changeAmount?: number;
+  // For parlay_loss: insured parlays keep the streak instead of resetting it
+  insured?: boolean;
+}
+
+export interface StreakChangeResult {
+  entryId: string;
+  oldStreak: number;
+  newStreak: number;
+  outOfOrder: boolean;
+}
+
+export interface StreakReversalResult {
+  oldStreak: number;
+  newStreak: number;
+  // Points the reversed wins had added to totalPointsEarned
+  pointsReversed: number;
+  // Set if the reversed settlement had cleared the user's insurance lock
+  insuranceUnlock: { lastInsuredParlayId: string | null } | null;
+}
+
+/**
+ * Apply a single history entry to a streak value
+ * Deltas never take the streak below 0; losses reset it unless insured
+ */
+export function applyStreakChange(
+  oldStreak: number,
+  changeType: StreakChangeType,
+  changeAmount: number,
+  insured: boolean = false
+): number {
+  if (DELTA_CHANGE_TYPES.includes(changeType)) {
+    return Math.max(0, oldStreak + changeAmount);
+  }
+
+  if (changeType === 'parlay_loss') {
+    return insured ? oldStreak : 0;
+  }
+
+  if (changeType === 'bet_loss') {
+    return 0;
+  }
+
+  // Corrections and reversals are derived from a replay and never replayed themselves
+  return oldStreak;
+}
+
+/**
+ * Service for keeping streak history in event order
+ * Bets resolve whenever data (or an admin) gets to them, so a change can arrive after
+ * changes for events that happened later. Entries are stored with their real event time,
+ * and out-of-order arrivals replay the user's history from that point forward.
+ * See docs/STREAK_MANAGEMENT_STRATEGY.md
+ */
+export class StreakRecalculationService {
+  /**
+   * Lock the user's row until the transaction ends
+   * Settlements for the same user can run at once (admin routes, the polling job), and each reads
+   * the streak before writing it - without the lock both compute from the same old streak and one
+   * change is lost. Safe to call more than once in a transaction
+   */
+  static async lockUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+  }
+
+  /**
+   * Get the user's streak as it was at a point in event time
+   * Uses the most recent entry at or before eventTime - entries stay correct because
+   * any out-of-order insert replays everything after it
+   */
+  static async getStreakAtEventTime(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    eventTime: Date
+  ): Promise<number> {
+    const previous = await tx.streakHistory.findFirst({
+      where: {
+        userId,
+        ...REPLAYED_ENTRIES,
+        eventTime: { lte: eventTime }
+      },
+      orderBy: [{ eventTime: 'desc' }, { createdAt: 'desc' }],
+      select: { newStreak: true }
+    });
+
+    if (previous) {
+      return previous.newStreak;
+    }
+
+    // Nothing earlier - the streak before the user's first recorded change, reversed or not
+    const first = await tx.streakHistory.findFirst({
+      where: { userId, ...EVENT_ENTRIES },
+      orderBy: [{ eventTime: 'asc' }, { createdAt: 'asc' }],
+      select: { oldStreak: true }
+    });
+
+    if (first) {
+      return first.oldStreak;
+    }
+
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { currentStreak: true }
+    });
+
+    return user?.currentStreak ?? 0;
+  }
+
+  /**
+   * Record a streak change at its event time and update the user
+   * If entries already exist for later events, the history is replayed from this point
+   */
+  static async recordStreakChange(
+    tx: Prisma.TransactionClient,
+    change: StreakChangeInput
+  ): Promise<StreakChangeResult> {
+    await this.lockUser(tx, change.userId);
+    const oldStreak = await this.getStreakAtEventTime(tx, change.userId, change.eventTime);
+    const changeAmount = change.changeAmount ?? 0;
+    const newStreak = applyStreakChange(oldStreak, change.changeType, changeAmount, change.insured);
+
+    const entry = await tx.streakHistory.create({
+      data: {
+        userId: change.userId,
+        parlayId: change.parlayId ?? null,
+        selectionId: change.selectionId ?? null,
+        oldStreak,
+        newStreak,
+        changeAmount: DELTA_CHANGE_TYPES.includes(change.changeType) ? changeAmount : newStreak - oldStreak,
+        changeType: change.changeType,
+        eventTime: change.eventTime
+      }
+    });
+
+    const laterEntry = await tx.streakHistory.findFirst({
+      where: {
+        userId: change.userId,
+        ...REPLAYED_ENTRIES,
+        eventTime: { gt: change.eventTime }
+      },
+      select: { id: true }
+    });
+
+    if (laterEntry) {
+      logger.warn('Out-of-order streak change, replaying history', {
+        userId: change.userId,
+        changeType: change.changeType,
+        eventTime: change.eventTime.toISOString()
+      });
+      await this.recalculateFromEventTime(tx, change.userId, change.eventTime);
+      return { entryId: entry.id, oldStreak, newStreak, outOfOrder: true };
+    }
+
+    const user = await tx.user.findUnique({
+      where: { id: change.userId },
+      select: { longestStreak: true }
+    });
+
+    await tx.user.update({
+      where: { id: change.userId },
+      data: {
+        currentStreak: newStreak,
+        longestStreak: Math.max(user?.longestStreak ?? 0, newStreak)
+      }
+    });
+
+    return { entryId: entry.id, oldStreak, newStreak, outOfOrder: false };
+  }
+
+  /**
+   * Replay a user's history in event order from a point in time
+   * Rewrites oldStreak/newStreak on every entry from fromEventTime on, then brings
+   * currentStreak/longestStreak in line, recording any difference as a correction entry -
+   * or, when replaying after a reversal, always as a reversal entry for that parlay or bet
+   * Returns the corrected current streak
+   */
+  static async recalculateFromEventTime(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    fromEventTime: Date,
+    reversal?: { parlayId?: string; selectionId?: string }
+  ): Promise<number> {
+    await this.lockUser(tx, userId);
+    const baseline = await tx.streakHistory.findFirst({
+      where: {
+        userId,
+        ...REPLAYED_ENTRIES,
+        eventTime: { lt: fromEventTime }
+      },
+      orderBy: [{ eventTime: 'desc' }, { createdAt: 'desc' }],
+      select: { newStreak: true }
+    });
+
+    const entries = await tx.streakHistory.findMany({
+      where: {
+        userId,
+        ...REPLAYED_ENTRIES,
+        eventTime: { gte: fromEventTime }
+      },
+      orderBy: [{ eventTime: 'asc' }, { createdAt: 'asc' }],
+      include: { parlay: { select: { insured: true } } }
+    });
+
+    // With nothing earlier, start from the user's first recorded change (it may be the one reversed)
+    const first = baseline ? null : await tx.streakHistory.findFirst({
+      where: { userId, ...EVENT_ENTRIES },
+      orderBy: [{ eventTime: 'asc' }, { createdAt: 'asc' }],
+      select: { oldStreak: true }
+    });
+
+    let streak = baseline?.newStreak ?? first?.oldStreak ?? 0;
+    let updatedEntries = 0;
+
+    for (const entry of entries) {
+      const changeType = entry.changeType as StreakChangeType;
+      const oldStreak = streak;
+      const newStreak = applyStreakChange(oldStreak, changeType, entry.changeAmount, entry.parlay?.insured ?? false);
+      streak = newStreak;
+
+      if (entry.oldStreak === oldStreak && entry.newStreak === newStreak) {
+        continue;
+      }
+
+      await tx.streakHistory.update({
+        where: { id: entry.id },
+        data: {
+          oldStreak,
+          newStreak,
+          // Delta entries keep their intended amount so later replays apply the same change
+          changeAmount: DELTA_CHANGE_TYPES.includes(changeType) ? entry.changeAmount : newStreak - oldStreak
+        }
+      });
+      updatedEntries++;
+    }
+
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { currentStreak: true }
+    });
+
+    const peak = await tx.streakHistory.aggregate({
+      where: { userId, ...REPLAYED_ENTRIES },
+      _max: { newStreak: true }
+    });
+
+    const currentStreak = user?.currentStreak ?? 0;
+    const longestStreak = Math.max(peak._max.newStreak ?? 0, streak);
+
+    if (currentStreak !== streak || reversal) {
+      await tx.streakHistory.create({
+        data: {
+          userId,
+          parlayId: reversal?.parlayId ?? null,
+          selectionId: reversal?.selectionId ?? null,
+          oldStreak: currentStreak,
+          newStreak: streak,
+          changeAmount: streak - currentStreak,
+          changeType: reversal ? 'reversal' : 'correction',
+          eventTime: new Date()
+        }
+      });
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        currentStreak: streak,
+        longestStreak
+      }
+    });
+
+    logger.info('Streak history replayed', {
+      userId,
+      fromEventTime: fromEventTime.toISOString(),
+      replayedEntries: entries.length,
+      updatedEntries,
+      previousStreak: currentStreak,
+      correctedStreak: streak,
+      longestStreak
+    });
+
+    return streak;
+  }
+
+  /**
+   * Reverse what settling a parlay or single bet did to a user's streak, when an admin
+   * changes the result of a bet in it
+   * Its settlement entries are kept but marked reversed, and the history is replayed without them
+   * Returns null if it never changed the streak (e.g. a pushed parlay)
+   */
+  static async reverseSettlement(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    target: { parlayId: string } | { selectionId: string }
+  ): Promise<StreakReversalResult | null> {
+    await this.lockUser(tx, userId);
+    const entries = await tx.streakHistory.findMany({
+      where: {
+        userId,
+        ...target,
+        changeType: { in: SETTLEMENT_CHANGE_TYPES },
+        reversedAt: null
+      },
+      select: {
+        id: true,
+        changeType: true,
+        changeAmount: true,
+        eventTime: true,
+        insuranceUnlocked: true,
+        unlockedInsuredParlayId: true
+      }
+    });
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { currentStreak: true }
+    });
+
+    await tx.streakHistory.updateMany({
+      where: { id: { in: entries.map(entry => entry.id) } },
+      data: { reversedAt: new Date() }
+    });
+
+    const fromEventTime = new Date(Math.min(...entries.map(entry => entry.eventTime.getTime())));
+    const newStreak = await this.recalculateFromEventTime(tx, userId, fromEventTime, target);
+    const pointsReversed = entries
+      .filter(entry => entry.changeType === 'parlay_win' || entry.changeType === 'bet_win')
+      .reduce((sum, entry) => sum + entry.changeAmount, 0);
+    const unlocked = entries.find(entry => entry.insuranceUnlocked);
+
+    return {
+      oldStreak: user?.currentStreak ?? 0,
+      newStreak,
+      pointsReversed,
+      insuranceUnlock: unlocked ? { lastInsuredParlayId: unlocked.unlockedInsuredParlayId } : null
+    };
+  }
+
+  /**
+   * Replay a user's entire history (admin repair tool)
+   */
+  static async recalculateUser(userId: string): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      return this.recalculateFromEventTime(tx, userId, new Date(0));
+    });
+  }
+}
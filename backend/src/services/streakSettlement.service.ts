@@ -0,0 +1,674 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { calculateParlayValue } from '@shared/utils/parlay';
+import { StreakRecalculationService, SETTLEMENT_CHANGE_TYPES } from './streakRecalculation.service';
+import { RealtimeService } from './realtime.service';
+import { NotificationService } from './notification.service';
+import { EmailNotificationService } from './emailNotification.service';
+import { RulesService } from './rules.service';
+
+const prisma = new PrismaClient();
+
+// Parlay statuses that can still be settled
+const OPEN_PARLAY_STATUSES = ['building', 'locked', 'pending'];
+
+// Parlay statuses that mean the parlay has already been settled
+const SETTLED_PARLAY_STATUSES = ['won', 'lost', 'push'];
+
+export type ParlaySettlementOutcome = 'won' | 'lost' | 'push';
+
+export interface SettlementSummary {
+  parlaysSettled: number;
+  singlesSettled: number;
+  // Parlays and single bets that threw - left for the settle-resolved-bets job
+  failed: number;
+}
+
+// How far back the settle-resolved-bets job looks for selections resolved but never settled
+const SETTLEMENT_SWEEP_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ReversalSummary {
+  parlaysReversed: number;
+  singlesReversed: number;
+}
+
+// What a reversal changed, for the realtime events sent once its transaction commits
+export interface ReversedSettlements extends ReversalSummary {
+  parlays: Array<{ parlayId: string; userId: string }>;
+  userIds: string[];
+}
+
+// What a committed settlement changed, for the notifications sent after it
+interface SettledStreakChange {
+  userId: string;
+  oldStreak: number;
+  newStreak: number;
+}
+
+interface SettledParlay extends SettledStreakChange {
+  outcome: ParlaySettlementOutcome;
+  insured: boolean;
+}
+
+/**
+ * Determine a parlay's result from its selection outcomes
+ * - Any losing leg loses the parlay immediately (remaining legs don't matter)
+ * - Pushed (or voided) legs drop out, the parlay is worth what the winning legs are worth
+ * - If every leg pushed, the parlay is a push
+ * Returns null while legs are still unresolved
+ */
+export function determineParlayResult(
+  selectionOutcomes: Array<string | null>
+): { outcome: ParlaySettlementOutcome; winningLegs: number } | null {
+  if (selectionOutcomes.some(outcome => outcome === 'loss')) {
+    return { outcome: 'lost', winningLegs: 0 };
+  }
+
+  if (selectionOutcomes.some(outcome => !outcome)) {
+    return null;
+  }
+
+  const winningLegs = selectionOutcomes.filter(outcome => outcome === 'win').length;
+  if (winningLegs === 0) {
+    return { outcome: 'push', winningLegs: 0 };
+  }
+
+  return { outcome: 'won', winningLegs };
+}
+
+/**
+ * Service that turns resolved bet selections into streak changes
+ * Settles parlays and single bets into User.currentStreak, longestStreak,
+ * totalPointsEarned and StreakHistory. Each settlement runs in one transaction.
+ */
+export class StreakSettlementService {
+  /**
+   * Settle every parlay and single bet affected by a bet resolution
+   * Call this after the bet's UserBetSelection outcomes have been written
+   */
+  static async settleBet(betId: string): Promise<SettlementSummary> {
+    const selections = await prisma.userBetSelection.findMany({
+      where: { betId, status: 'resolved' },
+      select: { id: true, parlayId: true }
+    });
+
+    const parlayIds = [...new Set(selections.map(s => s.parlayId).filter((id): id is string => !!id))];
+    const singleSelectionIds = selections.filter(s => !s.parlayId).map(s => s.id);
+
+    const summary = await this.settleAll(parlayIds, singleSelectionIds);
+    logger.info('Streak settlement complete for bet', { betId, ...summary });
+
+    return summary;
+  }
+
+  /**
+   * Settle parlays and single bets whose selections resolved but never settled
+   * Run by the settle-resolved-bets job, so a settlement that failed after its bet resolved
+   * (e.g. a dropped database connection) is retried instead of lost
+   */
+  static async settleUnsettled(): Promise<SettlementSummary> {
+    const resolvedSince = new Date(Date.now() - SETTLEMENT_SWEEP_LOOKBACK_MS);
+
+    // Lost as soon as a leg loses, otherwise once every leg has resolved
+    const parlays = await prisma.parlay.findMany({
+      where: {
+        status: { in: OPEN_PARLAY_STATUSES },
+        selections: { some: { status: 'resolved', updatedAt: { gte: resolvedSince } } },
+        OR: [
+          { selections: { some: { outcome: 'loss' } } },
+          { selections: { every: { status: 'resolved' } } }
+        ]
+      },
+      select: { id: true }
+    });
+
+    const singles = await prisma.userBetSelection.findMany({
+      where: {
+        parlayId: null,
+        status: 'resolved',
+        outcome: { in: ['win', 'loss'] },
+        updatedAt: { gte: resolvedSince },
+        streakHistory: { none: { changeType: { in: ['bet_win', 'bet_loss'] }, reversedAt: null } }
+      },
+      select: { id: true }
+    });
+
+    const summary = await this.settleAll(parlays.map(p => p.id), singles.map(s => s.id));
+    if (summary.parlaysSettled > 0 || summary.singlesSettled > 0 || summary.failed > 0) {
+      logger.warn('Settled parlays and single bets missed at resolution', { ...summary });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Settle each parlay and single bet on its own, so one failure doesn't skip the rest
+   */
+  private static async settleAll(parlayIds: string[], singleSelectionIds: string[]): Promise<SettlementSummary> {
+    let parlaysSettled = 0;
+    let singlesSettled = 0;
+    let failed = 0;
+
+    for (const parlayId of parlayIds) {
+      try {
+        if (await this.settleParlay(parlayId)) {
+          parlaysSettled++;
+        }
+      } catch (error: any) {
+        failed++;
+        logger.error('Error settling parlay', { parlayId, error: error.message, stack: error.stack });
+      }
+    }
+
+    for (const selectionId of singleSelectionIds) {
+      try {
+        if (await this.settleSingleSelection(selectionId)) {
+          singlesSettled++;
+        }
+      } catch (error: any) {
+        failed++;
+        logger.error('Error settling single bet', { selectionId, error: error.message, stack: error.stack });
+      }
+    }
+
+    return { parlaysSettled, singlesSettled, failed };
+  }
+
+  /**
+   * Settle a parlay if its result is known
+   * Returns true if the parlay was settled by this call
+   */
+  static async settleParlay(parlayId: string): Promise<boolean> {
+    const settled = await prisma.$transaction(async (tx): Promise<SettledParlay | null> => {
+      const parlay = await tx.parlay.findUnique({
+        where: { id: parlayId },
+        include: {
+          selections: {
+            include: { bet: true }
+          }
+        }
+      });
+
+      if (!parlay || !OPEN_PARLAY_STATUSES.includes(parlay.status)) {
+        return null;
+      }
+
+      const result = determineParlayResult(parlay.selections.map(s => s.outcome));
+      if (!result) {
+        // Mark partially resolved parlays as pending so clients can show progress
+        if (parlay.status === 'locked' && parlay.selections.some(s => s.outcome)) {
+          await tx.parlay.update({
+            where: { id: parlayId },
+            data: { status: 'pending' }
+          });
+        }
+        return null;
+      }
+
+      // Streak changes are applied at the parlay's event time, not when we got to it
+      const now = new Date();
+      const eventTime = parlay.lastGameEndTime || this.getParlayEventTime(parlay.selections, result.outcome) || now;
+
+      // Guard against a concurrent settlement of the same parlay
+      const claimed = await tx.parlay.updateMany({
+        where: { id: parlayId, status: { in: OPEN_PARLAY_STATUSES } },
+        data: {
+          status: result.outcome,
+          resolvedAt: now,
+          lastGameEndTime: eventTime
+        }
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await StreakRecalculationService.lockUser(tx, parlay.userId);
+      const user = await tx.user.findUnique({ where: { id: parlay.userId } });
+      if (!user) {
+        throw new Error(`User ${parlay.userId} not found while settling parlay ${parlayId}`);
+      }
+
+      let entryId: string | null = null;
+      let oldStreak = user.currentStreak;
+      let newStreak = oldStreak;
+
+      if (result.outcome === 'won') {
+        // Insurance cost was already deducted when insurance was purchased
+        // Scored under the ruleset the parlay was created with
+        const value = calculateParlayValue(result.winningLegs, await RulesService.getRules(parlay.rulesetVersion));
+        ({ entryId, oldStreak, newStreak } = await StreakRecalculationService.recordStreakChange(tx, {
+          userId: user.id,
+          parlayId,
+          changeType: 'parlay_win',
+          changeAmount: value,
+          eventTime
+        }));
+        await tx.user.update({
+          where: { id: user.id },
+          data: { totalPointsEarned: { increment: value } }
+        });
+      } else if (result.outcome === 'lost') {
+        // Insured parlays survive a loss (only the insurance cost is lost)
+        ({ entryId, oldStreak, newStreak } = await StreakRecalculationService.recordStreakChange(tx, {
+          userId: user.id,
+          parlayId,
+          changeType: 'parlay_loss',
+          insured: parlay.insured,
+          eventTime
+        }));
+      }
+
+      // Pushes record no streak change and never unlock insurance
+      if (!parlay.insured && entryId) {
+        const unlock = await this.getInsuranceUnlockUpdate(tx, user, eventTime);
+        if (Object.keys(unlock).length > 0) {
+          await tx.user.update({ where: { id: user.id }, data: unlock });
+          await this.recordInsuranceUnlock(tx, entryId, user);
+        }
+      }
+
+      logger.info('Parlay settled', {
+        parlayId,
+        userId: user.id,
+        outcome: result.outcome,
+        winningLegs: result.winningLegs,
+        insured: parlay.insured,
+        oldStreak,
+        newStreak
+      });
+
+      return { userId: user.id, outcome: result.outcome, insured: parlay.insured, oldStreak, newStreak };
+    });
+
+    if (!settled) {
+      return false;
+    }
+
+    // Only tell the client once the transaction has committed
+    RealtimeService.emitParlaySettled(settled.userId, { parlayId, status: settled.outcome });
+    await RealtimeService.emitStreakUpdate(settled.userId);
+    await NotificationService.notifyParlaySettled(settled.userId, parlayId, settled.outcome, settled.newStreak);
+    await EmailNotificationService.notifyParlaySettled(settled.userId, parlayId, settled.outcome, settled.newStreak);
+    if (settled.outcome === 'lost' && settled.insured) {
+      await EmailNotificationService.notifyInsuranceConsumed(settled.userId, settled.newStreak);
+    }
+    await EmailNotificationService.notifyStreakChange(settled.userId, settled.oldStreak, settled.newStreak);
+
+    return true;
+  }
+
+  /**
+   * Settle a single bet (a resolved selection that is not part of a parlay)
+   * Scored by the single bet rules of the ruleset it was picked under: a win adds winPoints, a loss resets
+   * the streak unless lossResetsStreak is off, a push changes nothing
+   * Returns true if the selection changed the user's streak
+   */
+  static async settleSingleSelection(selectionId: string): Promise<boolean> {
+    const settled = await prisma.$transaction(async (tx): Promise<SettledStreakChange | null> => {
+      const selection = await tx.userBetSelection.findUnique({
+        where: { id: selectionId },
+        include: { bet: true }
+      });
+
+      if (!selection || selection.parlayId || selection.status !== 'resolved') {
+        return null;
+      }
+
+      if (selection.outcome !== 'win' && selection.outcome !== 'loss') {
+        return null;
+      }
+
+      // Singles picked before versions were recorded fall back to the active ruleset
+      const rulesetVersion = selection.rulesetVersion ?? (await RulesService.getActiveRuleset()).version;
+      const rules = (await RulesService.getRules(rulesetVersion)).singleBets;
+
+      if (selection.outcome === 'loss' && !rules.lossResetsStreak) {
+        return null;
+      }
+
+      // Locked before the check so two settlements of the same bet can't both pass it
+      await StreakRecalculationService.lockUser(tx, selection.userId);
+
+      // Each single bet only settles once, until an admin changes its result
+      const existing = await tx.streakHistory.findFirst({
+        where: { selectionId, changeType: { in: ['bet_win', 'bet_loss'] }, reversedAt: null },
+        select: { id: true }
+      });
+
+      if (existing) {
+        return null;
+      }
+
+      const user = await tx.user.findUnique({ where: { id: selection.userId } });
+      if (!user) {
+        throw new Error(`User ${selection.userId} not found while settling selection ${selectionId}`);
+      }
+
+      // Single bets are applied at the time the bet resolved in the game
+      const eventTime = selection.bet.resolvedAt || new Date();
+      const value = rules.winPoints;
+
+      const { entryId, oldStreak, newStreak } = await StreakRecalculationService.recordStreakChange(tx, {
+        userId: user.id,
+        selectionId,
+        changeType: selection.outcome === 'win' ? 'bet_win' : 'bet_loss',
+        changeAmount: selection.outcome === 'win' ? value : 0,
+        eventTime
+      });
+
+      const userUpdate: Prisma.UserUpdateInput = await this.getInsuranceUnlockUpdate(tx, user, eventTime);
+      if (Object.keys(userUpdate).length > 0) {
+        await this.recordInsuranceUnlock(tx, entryId, user);
+      }
+      if (selection.outcome === 'win') {
+        userUpdate.totalPointsEarned = { increment: value };
+      }
+
+      if (Object.keys(userUpdate).length > 0) {
+        await tx.user.update({
+          where: { id: user.id },
+          data: userUpdate
+        });
+      }
+
+      logger.info('Single bet settled', {
+        selectionId,
+        userId: user.id,
+        outcome: selection.outcome,
+        oldStreak,
+        newStreak
+      });
+
+      return { userId: user.id, oldStreak, newStreak };
+    });
+
+    if (!settled) {
+      return false;
+    }
+
+    await RealtimeService.emitStreakUpdate(settled.userId);
+    await EmailNotificationService.notifyStreakChange(settled.userId, settled.oldStreak, settled.newStreak);
+
+    return true;
+  }
+
+  /**
+   * Undo the settlement of every parlay and single bet a bet's result went into
+   * Call this before an admin changes the result of an already resolved bet - the parlays go
+   * back to pending and settle again, along with the single bets, once the bet is re-resolved
+   * Runs in the caller's transaction; send emitReversals once it has committed
+   */
+  static async reverseBetSettlements(tx: Prisma.TransactionClient, betId: string): Promise<ReversedSettlements> {
+    const selections = await tx.userBetSelection.findMany({
+      where: { betId },
+      select: { id: true, parlayId: true }
+    });
+
+    const parlayIds = [...new Set(selections.map(s => s.parlayId).filter((id): id is string => !!id))];
+    const singleSelectionIds = selections.filter(s => !s.parlayId).map(s => s.id);
+
+    const parlays: ReversedSettlements['parlays'] = [];
+    const userIds = new Set<string>();
+    let singlesReversed = 0;
+
+    for (const parlayId of parlayIds) {
+      const userId = await this.reverseParlay(tx, parlayId, betId);
+      if (userId) {
+        parlays.push({ parlayId, userId });
+        userIds.add(userId);
+      }
+    }
+
+    for (const selectionId of singleSelectionIds) {
+      const userId = await this.reverseSingleSelection(tx, selectionId);
+      if (userId) {
+        userIds.add(userId);
+        singlesReversed++;
+      }
+    }
+
+    logger.info('Streak settlements reversed for bet', { betId, parlaysReversed: parlays.length, singlesReversed });
+
+    return { parlaysReversed: parlays.length, singlesReversed, parlays, userIds: [...userIds] };
+  }
+
+  /**
+   * Tell clients about reversed settlements, once the transaction they ran in has committed
+   */
+  static async emitReversals(reversed: ReversedSettlements): Promise<void> {
+    for (const { parlayId, userId } of reversed.parlays) {
+      RealtimeService.emitParlaySettled(userId, { parlayId, status: 'pending' });
+    }
+
+    for (const userId of reversed.userIds) {
+      await RealtimeService.emitStreakUpdate(userId);
+    }
+  }
+
+  /**
+   * Put a settled parlay back to pending and reverse its streak change and points
+   * A parlay lost on another bet's leg is left alone - it's lost whatever this bet's result
+   * Returns the parlay's user if it was reversed
+   */
+  private static async reverseParlay(
+    tx: Prisma.TransactionClient,
+    parlayId: string,
+    betId: string
+  ): Promise<string | null> {
+    const parlay = await tx.parlay.findUnique({
+      where: { id: parlayId },
+      include: { selections: { select: { betId: true, outcome: true } } }
+    });
+
+    if (!parlay || !SETTLED_PARLAY_STATUSES.includes(parlay.status)) {
+      return null;
+    }
+
+    if (parlay.status === 'lost' && parlay.selections.some(s => s.betId !== betId && s.outcome === 'loss')) {
+      return null;
+    }
+
+    const claimed = await tx.parlay.updateMany({
+      where: { id: parlayId, status: parlay.status },
+      data: { status: 'pending', resolvedAt: null, lastGameEndTime: null }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const reversal = await StreakRecalculationService.reverseSettlement(tx, parlay.userId, { parlayId });
+    if (reversal && reversal.pointsReversed > 0) {
+      await tx.user.update({
+        where: { id: parlay.userId },
+        data: { totalPointsEarned: { decrement: reversal.pointsReversed } }
+      });
+    }
+    if (reversal?.insuranceUnlock) {
+      await this.restoreInsuranceLock(tx, parlay.userId, reversal.insuranceUnlock.lastInsuredParlayId);
+    }
+
+    logger.info('Parlay settlement reversed', {
+      parlayId,
+      userId: parlay.userId,
+      previousStatus: parlay.status,
+      oldStreak: reversal?.oldStreak,
+      newStreak: reversal?.newStreak,
+      pointsReversed: reversal?.pointsReversed ?? 0
+    });
+
+    return parlay.userId;
+  }
+
+  /**
+   * Reverse a single bet's streak change and points
+   * Returns the selection's user if the single bet had changed their streak
+   */
+  private static async reverseSingleSelection(
+    tx: Prisma.TransactionClient,
+    selectionId: string
+  ): Promise<string | null> {
+    const selection = await tx.userBetSelection.findUnique({
+      where: { id: selectionId },
+      select: { userId: true, parlayId: true }
+    });
+
+    if (!selection || selection.parlayId) {
+      return null;
+    }
+
+    const reversal = await StreakRecalculationService.reverseSettlement(tx, selection.userId, { selectionId });
+    if (!reversal) {
+      return null;
+    }
+
+    if (reversal.pointsReversed > 0) {
+      await tx.user.update({
+        where: { id: selection.userId },
+        data: { totalPointsEarned: { decrement: reversal.pointsReversed } }
+      });
+    }
+    if (reversal.insuranceUnlock) {
+      await this.restoreInsuranceLock(tx, selection.userId, reversal.insuranceUnlock.lastInsuredParlayId);
+    }
+
+    logger.info('Single bet settlement reversed', {
+      selectionId,
+      userId: selection.userId,
+      oldStreak: reversal.oldStreak,
+      newStreak: reversal.newStreak,
+      pointsReversed: reversal.pointsReversed
+    });
+
+    return selection.userId;
+  }
+
+  /**
+   * When the parlay's result became known
+   * A lost parlay resolves at its first losing leg, otherwise at its last leg
+   */
+  private static getParlayEventTime(
+    selections: Array<{ outcome: string | null; bet: { resolvedAt: Date | null } }>,
+    outcome: ParlaySettlementOutcome
+  ): Date | null {
+    const relevant = outcome === 'lost'
+      ? selections.filter(s => s.outcome === 'loss')
+      : selections;
+
+    const times = relevant
+      .map(s => s.bet.resolvedAt?.getTime())
+      .filter((time): time is number => time !== undefined);
+
+    if (times.length === 0) {
+      return null;
+    }
+
+    return new Date(outcome === 'lost' ? Math.min(...times) : Math.max(...times));
+  }
+
+  /**
+   * Insurance unlocks once an uninsured bet resolves after the insured parlay
+   * The uninsured bet must resolve strictly later than the insured parlay's last game,
+   * so bets from the same game can't be used to earn insurance back
+   */
+  private static async getInsuranceUnlockUpdate(
+    tx: Prisma.TransactionClient,
+    user: { insuranceLocked: boolean; lastInsuredParlayId: string | null },
+    eventTime: Date
+  ): Promise<Prisma.UserUpdateInput> {
+    if (!user.insuranceLocked) {
+      return {};
+    }
+
+    if (user.lastInsuredParlayId) {
+      const insuredParlay = await tx.parlay.findUnique({
+        where: { id: user.lastInsuredParlayId },
+        select: { status: true, lastGameEndTime: true }
+      });
+
+      // Insured parlay still in play - insurance stays locked
+      if (insuredParlay && !SETTLED_PARLAY_STATUSES.includes(insuredParlay.status)) {
+        return {};
+      }
+
+      if (insuredParlay?.lastGameEndTime && eventTime <= insuredParlay.lastGameEndTime) {
+        return {};
+      }
+    }
+
+    return {
+      insuranceLocked: false,
+      lastInsuredParlayId: null
+    };
+  }
+
+  /**
+   * Note on a settlement's history entry that it cleared the user's insurance lock,
+   * so reversing the settlement can put the lock back
+   */
+  private static async recordInsuranceUnlock(
+    tx: Prisma.TransactionClient,
+    entryId: string,
+    user: { lastInsuredParlayId: string | null }
+  ): Promise<void> {
+    await tx.streakHistory.update({
+      where: { id: entryId },
+      data: { insuranceUnlocked: true, unlockedInsuredParlayId: user.lastInsuredParlayId }
+    });
+  }
+
+  /**
+   * Put back the insurance lock a reversed settlement had cleared
+   * Left alone if the user has insured another parlay since. If a settlement that still counts
+   * would have unlocked it too (an uninsured bet resolving after the insured parlay), that
+   * settlement takes the unlock over instead, so reversing it later relocks
+   */
+  private static async restoreInsuranceLock(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    lastInsuredParlayId: string | null
+  ): Promise<void> {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { insuranceLocked: true }
+    });
+
+    if (!user || user.insuranceLocked) {
+      return;
+    }
+
+    const insuredParlay = lastInsuredParlayId
+      ? await tx.parlay.findUnique({
+          where: { id: lastInsuredParlayId },
+          select: { status: true, lastGameEndTime: true }
+        })
+      : null;
+
+    if (!insuredParlay || SETTLED_PARLAY_STATUSES.includes(insuredParlay.status)) {
+      const unlockedBy = await tx.streakHistory.findFirst({
+        where: {
+          userId,
+          changeType: { in: SETTLEMENT_CHANGE_TYPES },
+          reversedAt: null,
+          OR: [{ selectionId: { not: null } }, { parlay: { insured: false } }],
+          ...(insuredParlay?.lastGameEndTime && { eventTime: { gt: insuredParlay.lastGameEndTime } })
+        },
+        orderBy: [{ eventTime: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true }
+      });
+
+      if (unlockedBy) {
+        await this.recordInsuranceUnlock(tx, unlockedBy.id, { lastInsuredParlayId });
+        return;
+      }
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { insuranceLocked: true, lastInsuredParlayId }
+    });
+
+    logger.info('Insurance lock restored after reversal', { userId, lastInsuredParlayId });
+  }
+}
@@ -0,0 +1,21 @@
+import { logger } from '../utils/logger';
+import type { PushMessage, PushResult, PushTransport } from '../interfaces';
+
+/**
+ * Push transport that logs messages instead of sending them
+ * Keeps everything it was asked to send in `sent` so scripts and local testing can
+ * check what would have gone out without an Expo project or a real device
+ */
+export class StubPushTransport implements PushTransport {
+  readonly name = 'stub';
+  readonly sent: PushMessage[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    for (const message of messages) {
+      this.sent.push(message);
+      logger.info('Push notification (stub)', { to: message.to, title: message.title, body: message.body, data: message.data });
+    }
+
+    return messages.map(message => ({ to: message.to, ok: true }));
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Validation helper functions for admin audit log routes
+ */
+
+import type { AuditLogFilters } from '@shared/types';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_ID_LENGTH = 100;
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+function parseId(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_ID_LENGTH) {
+    throw validationError(`${field} must be an id`);
+  }
+  return value;
+}
+
+function parseDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw validationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+/**
+ * Reads the filters and page from an audit log request's query string
+ * @throws Error with 400 status if any of them is invalid
+ */
+export function parseAuditLogQuery(query: Record<string, unknown>): {
+  filters: AuditLogFilters;
+  page: number;
+  pageSize: number;
+} {
+  const page = query.page ? parseInt(query.page as string, 10) : 1;
+  const pageSize = query.pageSize ? parseInt(query.pageSize as string, 10) : DEFAULT_PAGE_SIZE;
+
+  if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw validationError(`page must be at least 1 and pageSize between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const filters: AuditLogFilters = {
+    betId: parseId(query.betId, 'betId'),
+    gameId: parseId(query.gameId, 'gameId'),
+    userId: parseId(query.userId, 'userId'),
+    from: parseDate(query.from, 'from'),
+    to: parseDate(query.to, 'to')
+  };
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw validationError('from must not be after to');
+  }
+
+  return { filters, page, pageSize };
+}
@@ -0,0 +1,63 @@
+/**
+ * Validation helper functions for setting, reopening and correcting a bet's result by hand
+ */
+
+import type { BetConfig, ManualBetOutcome } from '@shared/types/bets';
+
+const MAX_NOTE_LENGTH = 1000;
+
+const MANUAL_OUTCOMES: ManualBetOutcome[] = ['win', 'loss', 'push', 'void'];
+
+export interface ManualResolutionRequest {
+  outcome: ManualBetOutcome;
+  note: string;
+  // Three-way comparisons: the loss was a tie, so the draw side wins
+  draw: boolean;
+}
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+/**
+ * Validate the admin's note - required so every hand-set result says why
+ */
+export function parseResolutionNote(note: unknown): string {
+  if (typeof note !== 'string' || !note.trim()) {
+    throw validationError('note is required');
+  }
+  if (note.trim().length > MAX_NOTE_LENGTH) {
+    throw validationError(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return note.trim();
+}
+
+/**
+ * Validate a manual resolution request body for a bet
+ * @throws Error with 400 status and VALIDATION_ERROR code
+ */
+export function parseManualResolution(body: any, betConfig: BetConfig): ManualResolutionRequest {
+  const { outcome, note, draw } = body || {};
+
+  if (!MANUAL_OUTCOMES.includes(outcome)) {
+    throw validationError(`outcome must be one of: ${MANUAL_OUTCOMES.join(', ')}`);
+  }
+
+  if (draw !== undefined && typeof draw !== 'boolean') {
+    throw validationError('draw must be a boolean');
+  }
+
+  if (draw) {
+    if (betConfig.type !== 'COMPARISON' || !betConfig.allow_draw) {
+      throw validationError('draw is only allowed on three-way comparison bets');
+    }
+    if (outcome !== 'loss') {
+      throw validationError('draw is only allowed with a loss outcome');
+    }
+  }
+
+  return { outcome, note: parseResolutionNote(note), draw: draw === true };
+}
@@ -0,0 +1,240 @@
+/**
+ * Validation helper functions for bet template routes and bulk bet creation
+ */
+
+import { MAX_TOTAL_PARTICIPANTS } from '@shared/utils/betTotals';
+import type {
+  BetType,
+  ComparisonTemplateConfig,
+  EventType,
+  TemplateConfig,
+  ThresholdTemplateConfig,
+  TemplateParticipant,
+  TemplateSubject
+} from '@shared/types/bets';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_FIELD_LENGTH = 50;
+const MAX_ID_LENGTH = 100;
+// Upper bound on templates per bulk request, and on selected bets when applying a preview
+const MAX_BULK_TEMPLATES = 20;
+const MAX_BULK_SELECTIONS = 500;
+
+const BET_TYPES: BetType[] = ['COMPARISON', 'THRESHOLD', 'EVENT'];
+const SUBJECTS: TemplateSubject[] = ['HOME_TEAM', 'AWAY_TEAM', 'HOME_LEADER', 'AWAY_LEADER'];
+const EVENT_TYPES: EventType[] = ['SCORES_TD', 'SCORES_FIRST', 'GAME_GOES_TO_OT', 'SHUTOUT', 'DOUBLE_DOUBLE', 'TRIPLE_DOUBLE'];
+
+export interface BulkBetRequest {
+  templateIds: string[];
+  date: string; // YYYY-MM-DD in the admin's timezone
+  sport: string;
+  league: string;
+  timezoneOffset?: number;
+  // Game/template pairs to create, e.g. the ones left ticked in a preview; all of them if omitted
+  selections?: Array<{ gameId: string; templateId: string }>;
+}
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateString(value: unknown, field: string, maxLength = MAX_FIELD_LENGTH): string {
+  if (typeof value !== 'string' || value.trim().length === 0 || value.length > maxLength) {
+    throw validationError(`${field} must be a non-empty string of at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+function validateParticipant(value: unknown, field: string): TemplateParticipant {
+  if (!isObject(value)) {
+    throw validationError(`${field} must be an object`);
+  }
+  if (!SUBJECTS.includes(value.subject)) {
+    throw validationError(`${field}.subject must be one of ${SUBJECTS.join(', ')}`);
+  }
+
+  const participant: TemplateParticipant = {
+    subject: value.subject,
+    metric: validateString(value.metric, `${field}.metric`),
+    time_period: validateString(value.time_period, `${field}.time_period`)
+  };
+
+  if (participant.subject === 'HOME_LEADER' || participant.subject === 'AWAY_LEADER') {
+    participant.leader_category = validateString(value.leader_category, `${field}.leader_category`);
+  }
+  return participant;
+}
+
+function participantKey(participant: TemplateParticipant): string {
+  return `${participant.subject}:${participant.leader_category ?? ''}`;
+}
+
+function validateComparison(config: Record<string, any>): TemplateConfig {
+  if (!['GREATER_THAN', 'GREATER_EQUAL'].includes(config.operator)) {
+    throw validationError('config.operator must be GREATER_THAN or GREATER_EQUAL');
+  }
+
+  const validated: ComparisonTemplateConfig = {
+    type: 'COMPARISON',
+    participant_1: validateParticipant(config.participant_1, 'config.participant_1'),
+    participant_2: validateParticipant(config.participant_2, 'config.participant_2'),
+    operator: config.operator
+  };
+
+  if (config.spread !== undefined && config.spread !== null) {
+    const { direction, value } = config.spread;
+    if (!['+', '-'].includes(direction) || typeof value !== 'number' || value <= 0 || value % 1 !== 0.5) {
+      throw validationError('config.spread must have a direction of + or - and a positive X.5 value');
+    }
+    validated.spread = { direction, value };
+  }
+
+  if (config.allow_draw) {
+    if (validated.operator !== 'GREATER_THAN' || validated.spread) {
+      throw validationError('allow_draw is only supported with the GREATER_THAN operator and no spread');
+    }
+    validated.allow_draw = true;
+  }
+  return validated;
+}
+
+function validateThreshold(config: Record<string, any>): TemplateConfig {
+  if (!['OVER', 'UNDER'].includes(config.operator)) {
+    throw validationError('config.operator must be OVER or UNDER');
+  }
+  if (typeof config.threshold !== 'number' || !Number.isFinite(config.threshold)) {
+    throw validationError('config.threshold must be a number');
+  }
+
+  const validated: ThresholdTemplateConfig = {
+    type: 'THRESHOLD',
+    participant: validateParticipant(config.participant, 'config.participant'),
+    operator: config.operator,
+    threshold: config.threshold
+  };
+
+  if (config.total_with !== undefined) {
+    if (!Array.isArray(config.total_with) || config.total_with.length === 0) {
+      throw validationError('config.total_with must be a non-empty list of participants');
+    }
+    if (config.total_with.length + 1 > MAX_TOTAL_PARTICIPANTS) {
+      throw validationError(`A total can combine at most ${MAX_TOTAL_PARTICIPANTS} participants`);
+    }
+
+    const seen = new Set([participantKey(validated.participant)]);
+    validated.total_with = config.total_with.map((value: unknown, index: number) => {
+      const other = validateParticipant(value, `config.total_with[${index}]`);
+      if (other.metric !== validated.participant.metric || other.time_period !== validated.participant.time_period) {
+        throw validationError('Every participant in a total must use the same metric and time period');
+      }
+      if (seen.has(participantKey(other))) {
+        throw validationError(`config.total_with[${index}] is already included in the total`);
+      }
+      seen.add(participantKey(other));
+      return other;
+    });
+  }
+  return validated;
+}
+
+function validateEvent(config: Record<string, any>): TemplateConfig {
+  if (!EVENT_TYPES.includes(config.event_type)) {
+    throw validationError(`config.event_type must be one of ${EVENT_TYPES.join(', ')}`);
+  }
+  return {
+    type: 'EVENT',
+    participant: validateParticipant(config.participant, 'config.participant'),
+    event_type: config.event_type,
+    time_period: validateString(config.time_period, 'config.time_period')
+  };
+}
+
+/**
+ * Validates a new bet template from a request body
+ * Only the template's own shape is checked here; sport-specific checks (time periods, whether a
+ * game has a leader for the category) happen per game when it's applied
+ * @throws Error with 400 status if the template is invalid
+ */
+export function validateBetTemplate(body: unknown): { name: string; betType: BetType; config: TemplateConfig } {
+  if (!isObject(body)) {
+    throw validationError('Request body must be an object');
+  }
+
+  const name = validateString(body.name, 'name', MAX_NAME_LENGTH);
+  const betType = body.bet_type;
+  if (!BET_TYPES.includes(betType)) {
+    throw validationError(`bet_type must be one of ${BET_TYPES.join(', ')}`);
+  }
+  if (!isObject(body.config) || body.config.type !== betType) {
+    throw validationError('config must be an object whose type matches bet_type');
+  }
+
+  const config = betType === 'COMPARISON'
+    ? validateComparison(body.config)
+    : betType === 'THRESHOLD'
+      ? validateThreshold(body.config)
+      : validateEvent(body.config);
+
+  return { name, betType, config };
+}
+
+function validateId(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_ID_LENGTH) {
+    throw validationError(`${field} must be an id`);
+  }
+  return value;
+}
+
+/**
+ * Reads a bulk bet request (templates applied to a date's games in a league) from a request body
+ * @throws Error with 400 status if any field is invalid
+ */
+export function parseBulkBetRequest(body: unknown): BulkBetRequest {
+  if (!isObject(body)) {
+    throw validationError('Request body must be an object');
+  }
+
+  const { template_ids, date, sport, league, timezoneOffset, selections } = body;
+
+  if (!Array.isArray(template_ids) || template_ids.length === 0 || template_ids.length > MAX_BULK_TEMPLATES) {
+    throw validationError(`template_ids must be a list of 1 to ${MAX_BULK_TEMPLATES} template ids`);
+  }
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw validationError('date must be a date in YYYY-MM-DD format');
+  }
+  if (timezoneOffset !== undefined && (typeof timezoneOffset !== 'number' || Math.abs(timezoneOffset) > 14)) {
+    throw validationError('timezoneOffset must be a number of hours between -14 and 14');
+  }
+
+  const request: BulkBetRequest = {
+    templateIds: [...new Set(template_ids.map((id: unknown) => validateId(id, 'template_ids')))],
+    date,
+    sport: validateString(sport, 'sport'),
+    league: validateString(league, 'league'),
+    timezoneOffset
+  };
+
+  if (selections !== undefined) {
+    if (!Array.isArray(selections) || selections.length > MAX_BULK_SELECTIONS) {
+      throw validationError(`selections must be a list of at most ${MAX_BULK_SELECTIONS} game/template pairs`);
+    }
+    request.selections = selections.map((selection: unknown) => {
+      if (!isObject(selection)) {
+        throw validationError('Each selection must have a game_id and template_id');
+      }
+      return {
+        gameId: validateId(selection.game_id, 'selections.game_id'),
+        templateId: validateId(selection.template_id, 'selections.template_id')
+      };
+    });
+  }
+
+  return request;
+}
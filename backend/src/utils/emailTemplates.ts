@@ -0,0 +1,269 @@
+/**
+ * Email templates
+ * Every email is described as content (heading, paragraphs, button, lists) and rendered
+ * into matching HTML and plain text versions with the shared Parlay Streak layout.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  unsubscribeUrl?: string; // Set for optional emails; sent as the List-Unsubscribe header too
+}
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  button?: { label: string; url: string };
+  lists?: Array<{ title: string; items: string[] }>;
+  notice?: string; // Shown as "⚠️ Important: ..."
+  footer?: string;
+  unsubscribe?: { url: string; description: string };
+}
+
+const BRAND_GRADIENT = 'linear-gradient(to right, #ea580c, #dc2626)';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderHtml(content: EmailContent): string {
+  const paragraphs = content.paragraphs
+    .map(paragraph => `<p style="color: #4b5563; font-size: 16px;">${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+
+  const button = content.button
+    ? `<div style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(content.button.url)}"
+             style="display: inline-block; background: ${BRAND_GRADIENT};
+                    color: white; padding: 14px 28px; text-decoration: none;
+                    border-radius: 8px; font-weight: bold; font-size: 16px;">
+            ${escapeHtml(content.button.label)}
+          </a>
+        </div>`
+    : '';
+
+  const lists = (content.lists || [])
+    .map(list => `<p style="color: #6b7280; font-size: 14px; margin-top: 30px;"><strong>${escapeHtml(list.title)}</strong></p>
+        <ul style="color: #4b5563; font-size: 14px; padding-left: 20px;">
+          ${list.items.map(item => `<li>${escapeHtml(item)}</li>`).join('\n')}
+        </ul>`)
+    .join('\n');
+
+  const notice = content.notice
+    ? `<p style="color: #6b7280; font-size: 14px; margin-top: 30px;"><strong>⚠️ Important:</strong> ${escapeHtml(content.notice)}</p>`
+    : '';
+
+  const smallPrint = [
+    content.footer ? escapeHtml(content.footer) : '',
+    content.unsubscribe
+      ? `${escapeHtml(content.unsubscribe.description)} <a href="${escapeHtml(content.unsubscribe.url)}" style="color: #9ca3af;">Unsubscribe</a>`
+      : ''
+  ].filter(Boolean).join('<br><br>');
+
+  const footer = smallPrint
+    ? `<p style="color: #9ca3af; font-size: 12px; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;">${smallPrint}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: ${BRAND_GRADIENT}; padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">Parlay Streak</h1>
+  </div>
+  <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; border: 1px solid #e5e7eb; border-top: none;">
+    <h2 style="color: #111827; margin-top: 0;">${escapeHtml(content.heading)}</h2>
+    ${paragraphs}
+    ${button}
+    ${lists}
+    ${notice}
+    ${footer}
+  </div>
+</body>
+</html>
+`;
+}
+
+function renderText(content: EmailContent): string {
+  const sections: string[] = [content.heading, ...content.paragraphs];
+
+  if (content.button) {
+    sections.push(`${content.button.label}: ${content.button.url}`);
+  }
+  for (const list of content.lists || []) {
+    sections.push([list.title, ...list.items.map(item => `- ${item}`)].join('\n'));
+  }
+  if (content.notice) {
+    sections.push(`Important: ${content.notice}`);
+  }
+  if (content.footer) {
+    sections.push(content.footer);
+  }
+  if (content.unsubscribe) {
+    sections.push(`${content.unsubscribe.description} Unsubscribe: ${content.unsubscribe.url}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function renderEmail(content: EmailContent): RenderedEmail {
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content),
+    unsubscribeUrl: content.unsubscribe?.url
+  };
+}
+
+// Account emails
+
+export function magicLinkEmail(magicLink: string): RenderedEmail {
+  return renderEmail({
+    subject: 'Login to Parlay Streak',
+    heading: 'Login to Your Account',
+    paragraphs: ['Click the button below to securely login to your Parlay Streak account:'],
+    button: { label: 'Login to Parlay Streak', url: magicLink },
+    notice: 'This link expires in 15 minutes.',
+    footer: "If you didn't request this login link, you can safely ignore this email. No changes have been made to your account."
+  });
+}
+
+export function welcomeEmail(username: string, appUrl: string): RenderedEmail {
+  return renderEmail({
+    subject: 'Welcome to Parlay Streak!',
+    heading: `Welcome, ${username}!`,
+    paragraphs: [
+      "Thank you for joining Parlay Streak! We're excited to have you on board.",
+      'Start building your streak by creating parlays and competing with friends. The longer your streak, the more points you earn!'
+    ],
+    button: { label: 'Go to Dashboard', url: appUrl },
+    lists: [{
+      title: "What's next?",
+      items: ["Browse today's available bets", 'Create your first parlay', 'Build your streak and climb the leaderboard']
+    }],
+    footer: 'If you have any questions, feel free to reach out to our support team.'
+  });
+}
+
+export function passwordResetEmail(resetLink: string): RenderedEmail {
+  return renderEmail({
+    subject: 'Reset Your Password',
+    heading: 'Reset Your Password',
+    paragraphs: [
+      'We received a request to reset your password for your Parlay Streak account.',
+      'Click the button below to reset your password:'
+    ],
+    button: { label: 'Reset Password', url: resetLink },
+    notice: 'This link expires in 1 hour.',
+    footer: "If you didn't request a password reset, you can safely ignore this email. Your password will not be changed."
+  });
+}
+
+export function verificationEmail(verificationLink: string): RenderedEmail {
+  return renderEmail({
+    subject: 'Verify Your Email Address - Parlay Streak',
+    heading: 'Verify Your Email Address',
+    paragraphs: [
+      'Welcome to Parlay Streak! Please verify your email address to complete your registration and start building your streak.',
+      'Click the button below to verify your email address:'
+    ],
+    button: { label: 'Verify Email Address', url: verificationLink },
+    notice: 'This link expires in 24 hours.',
+    footer: "If you didn't create an account with Parlay Streak, you can safely ignore this email. No account will be created."
+  });
+}
+
+// Result emails (each can be turned off from the link at the bottom)
+
+export function parlaySettledEmail(params: {
+  username: string;
+  outcome: 'won' | 'lost' | 'push';
+  legs: string[];
+  newStreak: number;
+  appUrl: string;
+  unsubscribeUrl: string;
+}): RenderedEmail {
+  const { username, outcome, legs, newStreak, appUrl, unsubscribeUrl } = params;
+  const summary =
+    outcome === 'won'
+      ? `Nice work, ${username}! Your ${legs.length}-leg parlay hit and your streak is now ${newStreak}.`
+      : outcome === 'lost'
+        ? `Tough break, ${username}. Your ${legs.length}-leg parlay didn't hit. Your streak is ${newStreak}.`
+        : `Your ${legs.length}-leg parlay pushed, so your streak stays at ${newStreak}.`;
+
+  return renderEmail({
+    subject: outcome === 'won' ? 'Your parlay won! 🔥' : outcome === 'lost' ? 'Your parlay lost' : 'Your parlay pushed',
+    heading: outcome === 'won' ? 'Parlay Won' : outcome === 'lost' ? 'Parlay Lost' : 'Parlay Pushed',
+    paragraphs: [summary],
+    button: { label: 'View My Bets', url: appUrl },
+    lists: [{ title: 'Your legs', items: legs }],
+    unsubscribe: { url: unsubscribeUrl, description: "Don't want an email for every parlay result?" }
+  });
+}
+
+export function streakMilestoneEmail(params: {
+  username: string;
+  streak: number;
+  appUrl: string;
+  unsubscribeUrl: string;
+}): RenderedEmail {
+  const { username, streak, appUrl, unsubscribeUrl } = params;
+  return renderEmail({
+    subject: `🔥 You hit a ${streak} streak!`,
+    heading: `${streak} and Counting`,
+    paragraphs: [
+      `${username}, your streak just reached ${streak}. That's a milestone - keep it going!`
+    ],
+    button: { label: 'Build Your Next Parlay', url: appUrl },
+    unsubscribe: { url: unsubscribeUrl, description: "Don't want streak milestone emails?" }
+  });
+}
+
+export function insuranceConsumedEmail(params: {
+  username: string;
+  streak: number;
+  appUrl: string;
+  unsubscribeUrl: string;
+}): RenderedEmail {
+  const { username, streak, appUrl, unsubscribeUrl } = params;
+  return renderEmail({
+    subject: 'Insurance saved your streak',
+    heading: 'Your Insurance Paid Off',
+    paragraphs: [
+      `${username}, your insured parlay lost, but your streak of ${streak} survived.`,
+      'Insurance is locked until you win an uninsured parlay or single bet.'
+    ],
+    button: { label: 'Keep the Streak Alive', url: appUrl },
+    unsubscribe: { url: unsubscribeUrl, description: "Don't want insurance emails?" }
+  });
+}
+
+export function dailyDigestEmail(params: {
+  username: string;
+  dateLabel: string;
+  games: Array<{ title: string; bets: string[] }>;
+  appUrl: string;
+  unsubscribeUrl: string;
+}): RenderedEmail {
+  const { username, dateLabel, games, appUrl, unsubscribeUrl } = params;
+  const betCount = games.reduce((sum, game) => sum + game.bets.length, 0);
+
+  return renderEmail({
+    subject: `Tomorrow's bets: ${betCount} bet${betCount !== 1 ? 's' : ''} across ${games.length} game${games.length !== 1 ? 's' : ''}`,
+    heading: `Bets for ${dateLabel}`,
+    paragraphs: [`Hi ${username}, here's what's on the board tomorrow. Plan your parlay before the first game locks.`],
+    button: { label: "See Tomorrow's Bets", url: appUrl },
+    lists: games.map(game => ({ title: game.title, items: game.bets })),
+    unsubscribe: { url: unsubscribeUrl, description: 'You opted in to the daily digest.' }
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Signed unsubscribe links for optional emails
+ * The token carries the user and the email type, signed so it can't be edited to
+ * unsubscribe someone else. Links don't expire - an old email should still work.
+ */
+
+import * as crypto from 'crypto';
+import type { EmailPreferenceType } from '@shared/types';
+import { getAppUrl } from './email';
+
+export const EMAIL_PREFERENCE_TYPES: EmailPreferenceType[] = [
+  'parlayResults',
+  'streakMilestones',
+  'insuranceAlerts',
+  'dailyDigest'
+];
+
+function getSecret(): string {
+  return process.env.EMAIL_UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || 'your-secret-key-change-this';
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function createUnsubscribeToken(userId: string, type: EmailPreferenceType): string {
+  const payload = Buffer.from(`${userId}:${type}`).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Link to the web app's unsubscribe page for one email type
+ */
+export function getUnsubscribeUrl(userId: string, type: EmailPreferenceType): string {
+  return `${getAppUrl()}/unsubscribe?token=${createUnsubscribeToken(userId, type)}`;
+}
+
+/**
+ * Validates an unsubscribe token
+ * @throws Error with 400 status if the token is malformed or the signature doesn't match
+ */
+export function parseUnsubscribeToken(token: unknown): { userId: string; type: EmailPreferenceType } {
+  const invalid = () => {
+    const error: any = new Error('This unsubscribe link is invalid');
+    error.status = 400;
+    error.code = 'VALIDATION_ERROR';
+    return error;
+  };
+
+  if (typeof token !== 'string') {
+    throw invalid();
+  }
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    throw invalid();
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw invalid();
+  }
+
+  const [userId, type] = Buffer.from(payload, 'base64url').toString().split(':');
+  if (!userId || !EMAIL_PREFERENCE_TYPES.includes(type as EmailPreferenceType)) {
+    throw invalid();
+  }
+
+  return { userId, type: type as EmailPreferenceType };
+}
@@ -0,0 +1,40 @@
+/**
+ * Validation helper functions for email routes
+ */
+
+import type { EmailPreferences, EmailPreferenceType } from '@shared/types';
+import { EMAIL_PREFERENCE_TYPES } from './emailUnsubscribe';
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+/**
+ * Validates a partial email preferences update
+ * @throws Error with 400 status for unknown keys, non-boolean values or an empty update
+ */
+export function validateEmailPreferenceUpdates(body: unknown): Partial<EmailPreferences> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw validationError('Preferences must be an object');
+  }
+
+  const updates: Partial<EmailPreferences> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!EMAIL_PREFERENCE_TYPES.includes(key as EmailPreferenceType)) {
+      throw validationError(`Unknown email preference: ${key}`);
+    }
+    if (typeof value !== 'boolean') {
+      throw validationError(`${key} must be true or false`);
+    }
+    updates[key as EmailPreferenceType] = value;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw validationError('No preferences to update');
+  }
+
+  return updates;
+}
@@ -0,0 +1,48 @@
+/**
+ * Validation helper functions for leaderboard routes
+ */
+
+import { LEADERBOARD_BOARDS, LEADERBOARD_WINDOWS } from '../services/leaderboard.service';
+import type { LeaderboardBoard, LeaderboardWindow } from '@shared/types';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export interface LeaderboardParams {
+  board: LeaderboardBoard;
+  window: LeaderboardWindow;
+  page: number;
+  pageSize: number;
+}
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+/**
+ * Reads board, window and pagination from a request's query string, with defaults
+ * @throws Error with 400 status if any of them are invalid
+ */
+export function parseLeaderboardQuery(query: Record<string, unknown>): LeaderboardParams {
+  const board = (query.board as string | undefined) || 'current_streak';
+  const window = (query.window as string | undefined) || 'all_time';
+  const page = query.page ? parseInt(query.page as string, 10) : 1;
+  const pageSize = query.pageSize ? parseInt(query.pageSize as string, 10) : DEFAULT_PAGE_SIZE;
+
+  if (!LEADERBOARD_BOARDS.includes(board as LeaderboardBoard)) {
+    throw validationError(`board must be one of: ${LEADERBOARD_BOARDS.join(', ')}`);
+  }
+
+  if (!LEADERBOARD_WINDOWS.includes(window as LeaderboardWindow)) {
+    throw validationError(`window must be one of: ${LEADERBOARD_WINDOWS.join(', ')}`);
+  }
+
+  if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw validationError(`page must be at least 1 and pageSize between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return { board: board as LeaderboardBoard, window: window as LeaderboardWindow, page, pageSize };
+}
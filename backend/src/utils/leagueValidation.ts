@@ -0,0 +1,50 @@
+/**
+ * Validation helper functions for league routes
+ */
+
+import { validateLeagueName } from '@shared/validation/league';
+
+/**
+ * Validates a league name from a request body
+ * @throws Error with 400 status if the name is missing or the wrong length
+ */
+export function validateLeagueNameInput(name: unknown): string {
+  const message = typeof name === 'string' ? validateLeagueName(name) : 'League name is required';
+  if (message) {
+    const error: any = new Error(message);
+    error.status = 400;
+    error.code = 'VALIDATION_ERROR';
+    throw error;
+  }
+  return (name as string).trim();
+}
+
+/**
+ * Validates that a league exists and the user is a member
+ * Non-members get the same 404 as a missing league so league ids can't be probed
+ * @throws Error with 404 status if the league doesn't exist or the user isn't in it
+ */
+export function validateLeagueMembership<T extends { members: Array<{ userId: string }> }>(
+  league: T | null,
+  userId: string
+): asserts league is T {
+  if (!league || !league.members.some(member => member.userId === userId)) {
+    const error: any = new Error('League not found');
+    error.status = 404;
+    error.code = 'NOT_FOUND';
+    throw error;
+  }
+}
+
+/**
+ * Validates that the user owns the league
+ * @throws Error with 403 status if the user isn't the owner
+ */
+export function validateLeagueOwner(league: any, userId: string): void {
+  if (league.ownerId !== userId) {
+    const error: any = new Error('Only the league owner can do this');
+    error.status = 403;
+    error.code = 'FORBIDDEN';
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Validation helper functions for notification routes
+ */
+
+import type { DevicePlatform, NotificationPreferences } from '@shared/types';
+
+const DEVICE_PLATFORMS: DevicePlatform[] = ['ios', 'android'];
+
+export const NOTIFICATION_PREFERENCE_KEYS: Array<keyof NotificationPreferences> = [
+  'parlayLocked',
+  'legResolved',
+  'parlaySettled',
+  'gamesStartingSoon'
+];
+
+// Expo push tokens look like ExponentPushToken[xxxxxxxx] (or ExpoPushToken[...])
+const EXPO_PUSH_TOKEN_PATTERN = /^Expo(nent)?PushToken\[[^\]]+\]$/;
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+/**
+ * Validates an Expo push token from a request body
+ * @throws Error with 400 status if the token is missing or not an Expo push token
+ */
+export function validateDeviceTokenInput(token: unknown): string {
+  if (typeof token !== 'string' || !EXPO_PUSH_TOKEN_PATTERN.test(token.trim())) {
+    throw validationError('A valid Expo push token is required');
+  }
+  return token.trim();
+}
+
+/**
+ * Validates a device platform from a request body
+ * @throws Error with 400 status if the platform isn't ios or android
+ */
+export function validateDevicePlatform(platform: unknown): DevicePlatform {
+  if (!DEVICE_PLATFORMS.includes(platform as DevicePlatform)) {
+    throw validationError(`Platform must be one of: ${DEVICE_PLATFORMS.join(', ')}`);
+  }
+  return platform as DevicePlatform;
+}
+
+/**
+ * Validates a partial preferences update
+ * @throws Error with 400 status for unknown keys, non-boolean values or an empty update
+ */
+export function validatePreferenceUpdates(body: unknown): Partial<NotificationPreferences> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw validationError('Preferences must be an object');
+  }
+
+  const updates: Partial<NotificationPreferences> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!NOTIFICATION_PREFERENCE_KEYS.includes(key as keyof NotificationPreferences)) {
+      throw validationError(`Unknown notification preference: ${key}`);
+    }
+    if (typeof value !== 'boolean') {
+      throw validationError(`${key} must be true or false`);
+    }
+    updates[key as keyof NotificationPreferences] = value;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw validationError('No preferences to update');
+  }
+
+  return updates;
+}
@@ -3,6 +3,9 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { StreakRecalculationService } from '../services/streakRecalculation.service';
+import { calculateInsuranceCost, isInsuranceEligible } from '@shared/utils/parlay';
+import type { GameRules } from '@shared/types';
 
 /**
  * Fetches a parlay with its selections and related data
@@ -44,6 +47,7 @@ export function formatParlayResponse(parlay: any, includeSelections: boolean = t
     lockedAt: parlay.lockedAt?.toISOString(),
     resolvedAt: parlay.resolvedAt?.toISOString(),
     lastGameEndTime: parlay.lastGameEndTime?.toISOString(),
+    rulesetVersion: parlay.rulesetVersion,
     selections: includeSelections && parlay.selections
       ? parlay.selections.map((s: any) => {
           const selection: any = {
@@ -54,6 +58,7 @@ export function formatParlayResponse(parlay: any, includeSelections: boolean = t
           };
           if (includeSelectionStatus) {
             selection.status = s.status;
+            selection.outcome = s.outcome;
           }
           return selection;
         })
@@ -75,22 +80,26 @@ export async function handleInsuranceRefund(
     return;
   }
 
-  const refundAmount = parlay.insuranceCost;
-  const newStreak = user.currentStreak + refundAmount;
-
-  const updateData: any = {
-    currentStreak: newStreak
-  };
-
-  // Only unlock insurance if this was the locked parlay
-  if (user.lastInsuredParlayId === parlayId) {
-    updateData.insuranceLocked = false;
-    updateData.lastInsuredParlayId = null;
-  }
-
-  await prisma.user.update({
-    where: { id: user.id },
-    data: updateData
+  await prisma.$transaction(async (tx) => {
+    // Refund goes through streak history so replays keep it
+    await StreakRecalculationService.recordStreakChange(tx, {
+      userId: user.id,
+      parlayId,
+      changeType: 'insurance_refunded',
+      changeAmount: parlay.insuranceCost,
+      eventTime: new Date()
+    });
+
+    // Only unlock insurance if this was the locked parlay
+    if (user.lastInsuredParlayId === parlayId) {
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          insuranceLocked: false,
+          lastInsuredParlayId: null
+        }
+      });
+    }
   });
 }
 
@@ -102,10 +111,13 @@ export async function addInsuranceToParlay(
   parlay: any,
   user: any,
   parlayId: string,
-  getInsuranceCost: (parlayValue: number, currentStreak: number) => number
+  rules: GameRules
 ): Promise<void> {
-  if (parlay.betCount < 4) {
-    const error: any = new Error('Insurance only available for 4-5 bet parlays');
+  if (!isInsuranceEligible(parlay.betCount, rules)) {
+    const legs = rules.insurance.eligibleLegCounts;
+    const error: any = new Error(
+      legs.length > 0 ? `Insurance only available for ${legs.join(', ')} bet parlays` : 'Insurance is not available'
+    );
     error.status = 400;
     error.code = 'VALIDATION_ERROR';
     throw error;
@@ -118,26 +130,33 @@ export async function addInsuranceToParlay(
     throw error;
   }
 
-  const insuranceCost = getInsuranceCost(parlay.parlayValue, user.currentStreak);
-  const newStreak = Math.max(0, user.currentStreak - insuranceCost);
-
-  // Update user streak and insurance status
-  await prisma.user.update({
-    where: { id: user.id },
-    data: {
-      currentStreak: newStreak,
-      insuranceLocked: true,
-      lastInsuredParlayId: parlayId
-    }
-  });
+  const insuranceCost = calculateInsuranceCost(parlay.betCount, user.currentStreak, rules);
+
+  await prisma.$transaction(async (tx) => {
+    // Deduct the cost through streak history so replays keep it
+    await StreakRecalculationService.recordStreakChange(tx, {
+      userId: user.id,
+      parlayId,
+      changeType: 'insurance_deducted',
+      changeAmount: -insuranceCost,
+      eventTime: new Date()
+    });
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        insuranceLocked: true,
+        lastInsuredParlayId: parlayId
+      }
+    });
 
-  // Update parlay
-  await prisma.parlay.update({
-    where: { id: parlayId },
-    data: {
-      insured: true,
-      insuranceCost
-    }
+    await tx.parlay.update({
+      where: { id: parlayId },
+      data: {
+        insured: true,
+        insuranceCost
+      }
+    });
   });
 }
 
@@ -150,31 +169,34 @@ export async function removeInsuranceFromParlay(
   user: any,
   parlayId: string
 ): Promise<void> {
-  const refundAmount = parlay.insuranceCost;
-  const newStreak = user.currentStreak + refundAmount;
-
-  const updateData: any = {
-    currentStreak: newStreak
-  };
-
-  // Only unlock insurance if this was the locked parlay
-  if (user.lastInsuredParlayId === parlayId) {
-    updateData.insuranceLocked = false;
-    updateData.lastInsuredParlayId = null;
-  }
-
-  await prisma.user.update({
-    where: { id: user.id },
-    data: updateData
-  });
-
-  // Update parlay
-  await prisma.parlay.update({
-    where: { id: parlayId },
-    data: {
-      insured: false,
-      insuranceCost: 0
+  await prisma.$transaction(async (tx) => {
+    // Refund goes through streak history so replays keep it
+    await StreakRecalculationService.recordStreakChange(tx, {
+      userId: user.id,
+      parlayId,
+      changeType: 'insurance_refunded',
+      changeAmount: parlay.insuranceCost,
+      eventTime: new Date()
+    });
+
+    // Only unlock insurance if this was the locked parlay
+    if (user.lastInsuredParlayId === parlayId) {
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          insuranceLocked: false,
+          lastInsuredParlayId: null
+        }
+      });
     }
+
+    await tx.parlay.update({
+      where: { id: parlayId },
+      data: {
+        insured: false,
+        insuranceCost: 0
+      }
+    });
   });
 }
 
@@ -94,7 +94,11 @@ export function validateExistingSelection(selection: any, userId: string): void
  * Validates a new bet for selection
  * @throws Error if bet is invalid
  */
-export function validateNewBet(bet: any, selectedSide: string, validateSelectedSide: (betType: string, selectedSide: string) => boolean): void {
+export function validateNewBet(
+  bet: any,
+  selectedSide: string,
+  validateSelectedSide: (betType: string, selectedSide: string, config?: any) => boolean
+): void {
   if (!bet) {
     const error: any = new Error('Bet not found');
     error.status = 404;
@@ -118,7 +122,7 @@ export function validateNewBet(bet: any, selectedSide: string, validateSelectedS
 
   validateGameNotStarted(bet.game, 'Cannot select bets for games that have already started');
 
-  if (!validateSelectedSide(bet.betType, selectedSide)) {
+  if (!validateSelectedSide(bet.betType, selectedSide, bet.config)) {
     const error: any = new Error(`Invalid selectedSide for bet type ${bet.betType}`);
     error.status = 400;
     error.code = 'VALIDATION_ERROR';
@@ -130,9 +134,9 @@ export function validateNewBet(bet: any, selectedSide: string, validateSelectedS
  * Validates that a parlay has not reached maximum bet count
  * @throws Error with 400 status if parlay is full
  */
-export function validateParlayNotFull(parlay: any): void {
-  if (parlay.selections.length >= 5) {
-    const error: any = new Error('Parlay already has maximum number of bets (5)');
+export function validateParlayNotFull(parlay: any, maxLegs: number): void {
+  if (parlay.selections.length >= maxLegs) {
+    const error: any = new Error(`Parlay already has maximum number of bets (${maxLegs})`);
     error.status = 400;
     error.code = 'VALIDATION_ERROR';
     throw error;
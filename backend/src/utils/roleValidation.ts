@@ -0,0 +1,39 @@
+/**
+ * Validation helper functions for user role routes
+ */
+
+import type { UserRole } from '@shared/types';
+import { USER_ROLES } from '@shared/constants/permissions';
+import { isUserRole } from '@shared/utils/permissions';
+
+const MAX_SEARCH_LENGTH = 100;
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+/**
+ * Validates a role name
+ * @throws Error with 400 status if it isn't one of USER_ROLES
+ */
+export function validateRole(value: unknown): UserRole {
+  if (!isUserRole(value)) {
+    throw validationError(`role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Parses the user search query (null lists users with roles)
+ * @throws Error with 400 status if search is too long
+ */
+export function parseUserSearch(query: any): string | null {
+  const search = typeof query.search === 'string' ? query.search.trim() : '';
+  if (search.length > MAX_SEARCH_LENGTH) {
+    throw validationError(`search must be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+  return search || null;
+}
@@ -0,0 +1,163 @@
+/**
+ * Validation helper functions for game ruleset routes
+ */
+
+import type { GameRules, InsuranceTier } from '@shared/types';
+
+// Upper bound on parlay size an admin can configure
+const MAX_LEGS_LIMIT = 10;
+const MAX_NOTES_LENGTH = 500;
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validatePoints(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw validationError(`${field} must be a whole number of 0 or more`);
+  }
+  return value;
+}
+
+function validateParlayValues(value: unknown, maxLegs: number): Record<number, number> {
+  if (!isObject(value)) {
+    throw validationError('parlayValues must be an object keyed by leg count');
+  }
+
+  for (const key of Object.keys(value)) {
+    const legs = Number(key);
+    if (!Number.isInteger(legs) || legs < 1 || legs > maxLegs) {
+      throw validationError(`parlayValues has an invalid leg count: ${key}`);
+    }
+  }
+
+  // 1 is needed too - a parlay can win with a single leg left after the others push
+  const parlayValues: Record<number, number> = {};
+  for (let legs = 1; legs <= maxLegs; legs++) {
+    parlayValues[legs] = validatePoints(value[legs], `parlayValues.${legs}`);
+  }
+  return parlayValues;
+}
+
+function validateInsurance(value: unknown, maxLegs: number): GameRules['insurance'] {
+  if (!isObject(value)) {
+    throw validationError('insurance must be an object');
+  }
+
+  const { eligibleLegCounts, tiers } = value;
+  if (!Array.isArray(eligibleLegCounts)) {
+    throw validationError('insurance.eligibleLegCounts must be an array');
+  }
+  for (const legs of eligibleLegCounts) {
+    if (typeof legs !== 'number' || !Number.isInteger(legs) || legs < 2 || legs > maxLegs) {
+      throw validationError(`insurance.eligibleLegCounts must be leg counts between 2 and ${maxLegs}`);
+    }
+  }
+  const eligible = [...new Set(eligibleLegCounts as number[])].sort((a, b) => a - b);
+
+  if (!Array.isArray(tiers) || (eligible.length > 0 && tiers.length === 0)) {
+    throw validationError('insurance.tiers must be a non-empty array');
+  }
+
+  const validTiers: InsuranceTier[] = tiers.map((tier: unknown, index: number) => {
+    if (!isObject(tier) || !isObject(tier.costs)) {
+      throw validationError(`insurance.tiers[${index}] must have minStreak and costs`);
+    }
+    const minStreak = validatePoints(tier.minStreak, `insurance.tiers[${index}].minStreak`);
+    const costs: Record<number, number> = {};
+    for (const legs of eligible) {
+      costs[legs] = validatePoints(tier.costs[legs], `insurance.tiers[${index}].costs.${legs}`);
+    }
+    return { minStreak, costs };
+  });
+
+  if (validTiers.length > 0 && validTiers[0].minStreak !== 0) {
+    throw validationError('The first insurance tier must start at a streak of 0');
+  }
+  for (let i = 1; i < validTiers.length; i++) {
+    if (validTiers[i].minStreak <= validTiers[i - 1].minStreak) {
+      throw validationError('Insurance tiers must be in increasing minStreak order');
+    }
+  }
+
+  return { eligibleLegCounts: eligible, tiers: validTiers };
+}
+
+function validateSingleBets(value: unknown): GameRules['singleBets'] {
+  if (!isObject(value)) {
+    throw validationError('singleBets must be an object');
+  }
+
+  const { winPoints, lossResetsStreak, dailyOpenCap } = value;
+  if (typeof lossResetsStreak !== 'boolean') {
+    throw validationError('singleBets.lossResetsStreak must be true or false');
+  }
+  if (dailyOpenCap !== null && (typeof dailyOpenCap !== 'number' || !Number.isInteger(dailyOpenCap) || dailyOpenCap < 1)) {
+    throw validationError('singleBets.dailyOpenCap must be a whole number of 1 or more, or null for no limit');
+  }
+
+  return {
+    winPoints: validatePoints(winPoints, 'singleBets.winPoints'),
+    lossResetsStreak,
+    dailyOpenCap: dailyOpenCap as number | null
+  };
+}
+
+/**
+ * Validates a complete set of game rules for a new ruleset version
+ * @throws Error with 400 status naming the first invalid field
+ */
+export function validateGameRules(value: unknown): GameRules {
+  if (!isObject(value)) {
+    throw validationError('rules must be an object');
+  }
+
+  const { maxLegs } = value;
+  if (typeof maxLegs !== 'number' || !Number.isInteger(maxLegs) || maxLegs < 2 || maxLegs > MAX_LEGS_LIMIT) {
+    throw validationError(`maxLegs must be a whole number between 2 and ${MAX_LEGS_LIMIT}`);
+  }
+
+  return {
+    parlayValues: validateParlayValues(value.parlayValues, maxLegs),
+    maxLegs,
+    insurance: validateInsurance(value.insurance, maxLegs),
+    singleBets: validateSingleBets(value.singleBets)
+  };
+}
+
+/**
+ * Validates the optional change notes for a ruleset
+ * @throws Error with 400 status if notes isn't a string or is too long
+ */
+export function validateRulesetNotes(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw validationError('notes must be a string');
+  }
+  const notes = value.trim();
+  if (notes.length > MAX_NOTES_LENGTH) {
+    throw validationError(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+  }
+  return notes || null;
+}
+
+/**
+ * Validates a ruleset version path parameter
+ * @throws Error with 400 status if it isn't a positive whole number
+ */
+export function validateRulesetVersion(value: unknown): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw validationError('version must be a positive whole number');
+  }
+  return version;
+}
@@ -0,0 +1,28 @@
+/**
+ * Validation helper functions for streak routes
+ */
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+function validationError(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  error.code = 'VALIDATION_ERROR';
+  return error;
+}
+
+/**
+ * Reads page and pageSize (counted in streak runs) from a request's query string, with defaults
+ * @throws Error with 400 status if either is invalid
+ */
+export function parseStreakHistoryQuery(query: Record<string, unknown>): { page: number; pageSize: number } {
+  const page = query.page ? parseInt(query.page as string, 10) : 1;
+  const pageSize = query.pageSize ? parseInt(query.pageSize as string, 10) : DEFAULT_PAGE_SIZE;
+
+  if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw validationError(`page must be at least 1 and pageSize between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return { page, pageSize };
+}
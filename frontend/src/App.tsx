@@ -1,7 +1,9 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { SocketProvider } from './context/SocketContext';
 import { ParlayProvider } from './context/ParlayContext';
 import { BetsProvider } from './context/BetsContext';
+import { RulesProvider } from './context/RulesContext';
 import { Login } from './pages/Login';
 import { Register } from './pages/Register';
 import { Dashboard } from './pages/Dashboard';
@@ -9,8 +11,16 @@ import { VerifyMagicLink } from './pages/VerifyMagicLink';
 import { VerifyEmail } from './pages/VerifyEmail';
 import { ForgotPassword } from './pages/ForgotPassword';
 import { ResetPassword } from './pages/ResetPassword';
+import { Unsubscribe } from './pages/Unsubscribe';
 import { BetManagement } from './pages/admin/BetManagement';
+import { RulesManagement } from './pages/admin/RulesManagement';
+import { UserRoles } from './pages/admin/UserRoles';
+import { AuditLog } from './pages/admin/AuditLog';
+import { BetTemplates } from './pages/admin/BetTemplates';
 import { Settings } from './pages/Settings';
+import { Leaderboards } from './pages/Leaderboards';
+import { Leagues } from './pages/Leagues';
+import { LeagueDetail } from './pages/LeagueDetail';
 import { NotFound } from './pages/NotFound';
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
@@ -51,9 +61,11 @@ function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <ParlayProvider>
-          <BetsProvider>
-            <Routes>
+        <SocketProvider>
+          <RulesProvider>
+            <ParlayProvider>
+              <BetsProvider>
+                <Routes>
           {/* Private Routes */}
           <Route
             path="/"
@@ -73,6 +85,66 @@ function App() {
               </PrivateRoute>
             }
           />
+          <Route
+            path="/admin/rules"
+            element={
+              <PrivateRoute>
+                <RulesManagement />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/admin/users"
+            element={
+              <PrivateRoute>
+                <UserRoles />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/admin/audit-log"
+            element={
+              <PrivateRoute>
+                <AuditLog />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/admin/bet-templates"
+            element={
+              <PrivateRoute>
+                <BetTemplates />
+              </PrivateRoute>
+            }
+          />
+
+          {/* Leaderboards Route */}
+          <Route
+            path="/leaderboards"
+            element={
+              <PrivateRoute>
+                <Leaderboards />
+              </PrivateRoute>
+            }
+          />
+
+          {/* League Routes */}
+          <Route
+            path="/leagues"
+            element={
+              <PrivateRoute>
+                <Leagues />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/leagues/:leagueId"
+            element={
+              <PrivateRoute>
+                <LeagueDetail />
+              </PrivateRoute>
+            }
+          />
 
           {/* Settings Route */}
           <Route
@@ -105,12 +177,15 @@ function App() {
           <Route path="/verify-email" element={<VerifyEmail />} />
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/unsubscribe" element={<Unsubscribe />} />
           
           {/* 404 Catch-all */}
           <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BetsProvider>
-        </ParlayProvider>
+                </Routes>
+              </BetsProvider>
+            </ParlayProvider>
+          </RulesProvider>
+        </SocketProvider>
       </AuthProvider>
     </BrowserRouter>
   );
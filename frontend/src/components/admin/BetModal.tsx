@@ -1,10 +1,19 @@
 import { useState, useEffect, useMemo } from 'react';
 import { api } from '../../services/api';
-import { BASKETBALL_CONFIG } from '@shared/config/sports/basketball';
-import type { BetType, Participant, ComparisonConfig, ThresholdConfig, EventConfig, BetConfig, TimePeriod } from '@shared/types/bets';
+import { getSportConfigForGame } from '@shared/config/sports';
+import type { SportConfig } from '@shared/types/sports';
+import { formatTimePeriodLabel } from '@shared/utils/timePeriods';
+import type { BetType, Participant, ComparisonConfig, ThresholdConfig, EventConfig, EventType, BetConfig, TimePeriod, SubjectType } from '@shared/types/bets';
+import { getThresholdParticipants, isGameTotal, MAX_TOTAL_PARTICIPANTS } from '@shared/utils/betTotals';
 import { Modal } from '../common/Modal';
 import type { BetModalProps, Player, Game } from '../../interfaces';
 
+// Event types offered when a sport config doesn't list its own
+const DEFAULT_EVENT_TYPES: Array<{ value: EventType; label: string }> = [
+  { value: 'DOUBLE_DOUBLE', label: 'Double Double' },
+  { value: 'TRIPLE_DOUBLE', label: 'Triple Double' }
+];
+
 // Extract ParticipantSelector as a separate component
 function ParticipantSelector({ 
   value, 
@@ -28,7 +37,7 @@ function ParticipantSelector({
   label: string;
   game: Game;
   players: Player[];
-  sportConfig: typeof BASKETBALL_CONFIG;
+  sportConfig: SportConfig;
   betType?: BetType;
   // For THRESHOLD bets
   thresholdOperator?: 'OVER' | 'UNDER';
@@ -36,8 +45,8 @@ function ParticipantSelector({
   threshold?: number;
   onThresholdChange?: (val: number) => void;
   // For EVENT bets
-  eventType?: 'DOUBLE_DOUBLE' | 'TRIPLE_DOUBLE';
-  onEventTypeChange?: (et: 'DOUBLE_DOUBLE' | 'TRIPLE_DOUBLE') => void;
+  eventType?: EventType;
+  onEventTypeChange?: (et: EventType) => void;
 }) {
   // Initialize from value if provided (for edit mode)
   const [subjectType, setSubjectType] = useState<'TEAM' | 'PLAYER'>(value?.subject_type || 'TEAM');
@@ -122,6 +131,8 @@ function ParticipantSelector({
     subjectType === 'TEAM' ? m.team : m.player
   );
 
+  const eventTypes = sportConfig.event_types || DEFAULT_EVENT_TYPES;
+
   return (
     <div className="space-y-3 p-4 bg-slate-800 rounded-lg">
       <label className="block text-sm font-medium text-slate-300">{label}</label>
@@ -273,12 +284,13 @@ function ParticipantSelector({
         <div>
           <label className="block text-xs text-slate-400 mb-1">Event Type</label>
           <select
-            value={eventType || 'DOUBLE_DOUBLE'}
-            onChange={(e) => onEventTypeChange?.(e.target.value as 'DOUBLE_DOUBLE' | 'TRIPLE_DOUBLE')}
+            value={eventType || eventTypes[0]?.value}
+            onChange={(e) => onEventTypeChange?.(e.target.value as EventType)}
             className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded text-white text-sm"
           >
-            <option value="DOUBLE_DOUBLE">Double Double</option>
-            <option value="TRIPLE_DOUBLE">Triple Double</option>
+            {eventTypes.map((et) => (
+              <option key={et.value} value={et.value}>{et.label}</option>
+            ))}
           </select>
         </div>
       )}
@@ -286,6 +298,151 @@ function ParticipantSelector({
   );
 }
 
+// A participant added to a total - it takes the metric and time period of the main participant
+type TotalSubject = Pick<Participant, 'subject_type' | 'subject_id' | 'subject_name'>;
+
+function getTeamSubject(game: Game, side: 'home' | 'away'): TotalSubject {
+  // Same id resolution as ParticipantSelector, falling back to 'home'/'away' without metadata
+  const apiData = (game as any).metadata?.apiData;
+  return {
+    subject_type: 'TEAM',
+    subject_id: apiData?.teams?.[side]?.id || side,
+    subject_name: side === 'home' ? game.homeTeam : game.awayTeam
+  };
+}
+
+// Picks the extra participants summed by a totals bet (e.g. the other team for a game total)
+function TotalWithSelector({
+  value,
+  onChange,
+  base,
+  game,
+  players,
+  sportConfig
+}: {
+  value: TotalSubject[];
+  onChange: (subjects: TotalSubject[]) => void;
+  base: Participant | null;
+  game: Game;
+  players: Player[];
+  sportConfig: SportConfig;
+}) {
+  const [subjectType, setSubjectType] = useState<SubjectType>('TEAM');
+  const [selectedId, setSelectedId] = useState<string>('');
+
+  const isIncluded = (subject: TotalSubject) =>
+    [...(base ? [base] : []), ...value].some(p =>
+      p.subject_type === subject.subject_type && String(p.subject_id) === String(subject.subject_id)
+    );
+
+  // Only offer subjects the main participant's metric can be read for
+  const metricConfig = sportConfig.metrics.find(m => m.value === base?.metric);
+  const subjectTypes: SubjectType[] = [
+    ...(metricConfig?.team ? ['TEAM' as const] : []),
+    ...(metricConfig?.player ? ['PLAYER' as const] : [])
+  ];
+  const activeType = subjectTypes.includes(subjectType) ? subjectType : subjectTypes[0];
+
+  const teams = [getTeamSubject(game, 'home'), getTeamSubject(game, 'away')];
+  const otherTeam = base?.subject_type === 'TEAM' && metricConfig?.team
+    ? teams.find(team => !isIncluded(team))
+    : undefined;
+  const canAdd = value.length + 1 < MAX_TOTAL_PARTICIPANTS;
+
+  const addSelected = () => {
+    const subject = activeType === 'TEAM'
+      ? teams.find(team => String(team.subject_id) === selectedId)
+      : players
+          .filter(player => player.id === selectedId)
+          .map((player): TotalSubject => ({ subject_type: 'PLAYER', subject_id: player.id, subject_name: player.displayName }))[0];
+    if (subject && !isIncluded(subject)) {
+      onChange([...value, subject]);
+    }
+    setSelectedId('');
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-slate-800 rounded-lg">
+      <label className="block text-sm font-medium text-slate-300">Total With (optional)</label>
+      <p className="text-xs text-slate-400">
+        The threshold applies to the combined {base?.metric ? base.metric.replace(/_/g, ' ') : 'stat'} of every participant listed here and the one above.
+      </p>
+
+      {!base ? (
+        <p className="text-xs text-slate-500">Select the participant above first</p>
+      ) : (
+        <>
+          {value.map(subject => (
+            <div key={`${subject.subject_type}:${subject.subject_id}`} className="flex items-center justify-between px-3 py-2 bg-slate-700 rounded">
+              <span className="text-sm text-white">{subject.subject_name}</span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(s => s !== subject))}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          {otherTeam && value.length === 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([otherTeam])}
+              className="w-full px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-white transition"
+            >
+              Game total: add {otherTeam.subject_name}
+            </button>
+          )}
+
+          {canAdd && subjectTypes.length > 0 && (
+            <div className="grid grid-cols-[auto_1fr_auto] gap-2">
+              <select
+                value={activeType}
+                onChange={(e) => {
+                  setSubjectType(e.target.value as SubjectType);
+                  setSelectedId('');
+                }}
+                className="px-3 py-2 bg-slate-700 border border-slate-600 rounded text-white text-sm"
+              >
+                {subjectTypes.map(type => (
+                  <option key={type} value={type}>{type === 'TEAM' ? 'Team' : 'Player'}</option>
+                ))}
+              </select>
+              <select
+                value={selectedId}
+                onChange={(e) => setSelectedId(e.target.value)}
+                className="px-3 py-2 bg-slate-700 border border-slate-600 rounded text-white text-sm"
+              >
+                <option value="">{activeType === 'TEAM' ? 'Select team' : 'Select player'}</option>
+                {activeType === 'TEAM'
+                  ? teams.filter(team => !isIncluded(team)).map(team => (
+                      <option key={team.subject_id} value={String(team.subject_id)}>{team.subject_name}</option>
+                    ))
+                  : players
+                      .filter(player => !isIncluded({ subject_type: 'PLAYER', subject_id: player.id, subject_name: player.displayName }))
+                      .map((player: any) => (
+                        <option key={player.id} value={player.id}>
+                          {player.displayName} ({player.team})
+                        </option>
+                      ))}
+              </select>
+              <button
+                type="button"
+                onClick={addSelected}
+                disabled={!selectedId}
+                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-700 disabled:text-slate-500 rounded text-sm text-white transition"
+              >
+                Add
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUpdated }: BetModalProps) {
   const isEditMode = !!bet;
   const initialConfig = bet?.config || {};
@@ -330,8 +487,8 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
   const [compParticipant2, setCompParticipant2] = useState<Participant | null>(
     getInitialParticipant(initialConfig.participant_2)
   );
-  const [compOperator, setCompOperator] = useState<'GREATER_THAN' | 'spread'>(
-    initialConfig.spread ? 'spread' : 'GREATER_THAN'
+  const [compOperator, setCompOperator] = useState<'GREATER_THAN' | 'spread' | 'three_way'>(
+    initialConfig.spread ? 'spread' : initialConfig.allow_draw ? 'three_way' : 'GREATER_THAN'
   );
   const [spreadDirection, setSpreadDirection] = useState<'+' | '-'>(
     initialConfig.spread?.direction || '+'
@@ -350,6 +507,19 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
   const [threshold, setThreshold] = useState<number>(
     initialConfig.threshold || 0
   );
+  const [threshTotalWith, setThreshTotalWith] = useState<TotalSubject[]>(
+    (initialConfig.total_with || []).map(({ subject_type, subject_id, subject_name }: Participant) => ({
+      subject_type,
+      subject_id,
+      subject_name
+    }))
+  );
+
+  // Totals share the main participant's metric and time period
+  const buildTotalWith = (participant: Participant): Participant[] | undefined =>
+    threshTotalWith.length > 0
+      ? threshTotalWith.map(subject => ({ ...subject, metric: participant.metric, time_period: participant.time_period }))
+      : undefined;
 
   // Memoize players list
   const players = useMemo((): Player[] => {
@@ -386,52 +556,51 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
     return playersList;
   }, [rosterData, game.homeTeam, game.awayTeam]);
 
-  const sportConfig = BASKETBALL_CONFIG; // TODO: Get from game.sport
+  const sportConfig = getSportConfigForGame(game.sport);
 
   // Helper to format metric label
   const formatMetricLabel = (metric: string): string => {
     return metric.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
 
-  // Helper to format time period label
-  const formatTimePeriodLabel = (period: string): string => {
-    const periodMap: Record<string, string> = {
-      'FULL_GAME': 'Full Game',
-      'Q1': 'Q1',
-      'Q2': 'Q2',
-      'Q3': 'Q3',
-      'Q4': 'Q4',
-      'H1': '1H',
-      'H2': '2H',
-      'OT': 'OT'
-    };
-    return periodMap[period] || period;
-  };
+  const scoreMetric = sportConfig.score_metric || 'points';
 
   // Generate display text preview (matches backend logic)
   const generateDisplayTextPreview = (): string => {
     if (betType === 'COMPARISON' && compParticipant1 && compParticipant2) {
       const { participant_1, participant_2 } = { participant_1: compParticipant1, participant_2: compParticipant2 };
       const spread = compOperator === 'spread' ? { direction: spreadDirection, value: spreadValue } : undefined;
+      const allowDraw = compOperator === 'three_way';
+      
+      // Three-way moneyline (soccer) - either team or the draw
+      if (allowDraw &&
+          participant_1.metric === scoreMetric &&
+          participant_1.time_period === 'FULL_GAME' &&
+          participant_1.subject_type === 'TEAM' &&
+          participant_2.subject_type === 'TEAM' &&
+          participant_2.metric === scoreMetric &&
+          participant_2.time_period === 'FULL_GAME') {
+        return `${participant_1.subject_name} / Draw / ${participant_2.subject_name}`;
+      }
       
       // Moneyline (simple comparison, no spread, both teams, points, full game)
       if (!spread && 
-          participant_1.metric === 'points' && 
+          participant_1.metric === scoreMetric && 
           participant_1.time_period === 'FULL_GAME' &&
           participant_1.subject_type === 'TEAM' &&
           participant_2.subject_type === 'TEAM' &&
-          participant_2.metric === 'points' &&
+          participant_2.metric === scoreMetric &&
           participant_2.time_period === 'FULL_GAME') {
         return `${participant_1.subject_name} ML`;
       }
       
       // Spread (both teams, points, full game)
       if (spread && 
-          participant_1.metric === 'points' && 
+          participant_1.metric === scoreMetric && 
           participant_1.time_period === 'FULL_GAME' &&
           participant_1.subject_type === 'TEAM' &&
           participant_2.subject_type === 'TEAM' &&
-          participant_2.metric === 'points' &&
+          participant_2.metric === scoreMetric &&
           participant_2.time_period === 'FULL_GAME') {
         return `${participant_1.subject_name} ${spread.direction}${spread.value}`;
       }
@@ -440,15 +609,17 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
       const metric1Label = formatMetricLabel(participant_1.metric);
       const metric2Label = formatMetricLabel(participant_2.metric);
       const period1 = participant_1.time_period !== 'FULL_GAME'
-        ? ` (${formatTimePeriodLabel(participant_1.time_period)})`
+        ? ` (${formatTimePeriodLabel(participant_1.time_period, sportConfig)})`
         : '';
       const period2 = participant_2.time_period !== 'FULL_GAME'
-        ? ` (${formatTimePeriodLabel(participant_2.time_period)})`
+        ? ` (${formatTimePeriodLabel(participant_2.time_period, sportConfig)})`
         : '';
       
       // Always show both metrics and periods explicitly
       if (spread) {
         return `${participant_1.subject_name} ${metric1Label}${period1} ${spread.direction}${spread.value} > ${participant_2.subject_name} ${metric2Label}${period2}`;
+      } else if (allowDraw) {
+        return `${participant_1.subject_name} ${metric1Label}${period1} vs ${participant_2.subject_name} ${metric2Label}${period2} (3-way)`;
       } else {
         return `${participant_1.subject_name} ${metric1Label}${period1} > ${participant_2.subject_name} ${metric2Label}${period2}`;
       }
@@ -460,9 +631,22 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
       const thresholdValue = threshold;
       const metricLabel = formatMetricLabel(participant.metric);
       const period = participant.time_period !== 'FULL_GAME'
-        ? ` (${formatTimePeriodLabel(participant.time_period)})`
+        ? ` (${formatTimePeriodLabel(participant.time_period, sportConfig)})`
         : '';
       
+      const totalWith = buildTotalWith(participant);
+      if (totalWith) {
+        const totalsConfig: ThresholdConfig = { type: 'THRESHOLD', participant, operator, threshold: thresholdValue, total_with: totalWith };
+        const subjects = getThresholdParticipants(totalsConfig).map(p => p.subject_name);
+        
+        // Game total (both teams, score metric)
+        if (isGameTotal(totalsConfig, scoreMetric)) {
+          return `${subjects.join(' / ')} ${operator} ${thresholdValue}${period}`;
+        }
+        
+        return `${subjects.join(' + ')} ${operator} ${thresholdValue} ${metricLabel}${period}`;
+      }
+      
       return `${participant.subject_name} ${operator} ${thresholdValue} ${metricLabel}${period}`;
     }
     
@@ -491,7 +675,8 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
           spread: compOperator === 'spread' ? {
             direction: spreadDirection,
             value: spreadValue
-          } : undefined
+          } : undefined,
+          allow_draw: compOperator === 'three_way' ? true : undefined
         } as ComparisonConfig;
       } else if (betType === 'THRESHOLD') {
         if (!threshParticipant) {
@@ -504,7 +689,8 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
           type: 'THRESHOLD',
           participant: threshParticipant,
           operator: threshOperator,
-          threshold
+          threshold,
+          total_with: buildTotalWith(threshParticipant)
         } as ThresholdConfig;
       } else {
         setError('Invalid bet type');
@@ -629,11 +815,12 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
                 </label>
                 <select
                   value={compOperator}
-                  onChange={(e) => setCompOperator(e.target.value as 'GREATER_THAN' | 'spread')}
+                  onChange={(e) => setCompOperator(e.target.value as 'GREATER_THAN' | 'spread' | 'three_way')}
                   className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white"
                 >
                   <option value="GREATER_THAN">Greater Than (&gt;)</option>
                   <option value="spread">Spread (+/-)</option>
+                  <option value="three_way">Three-Way (with Draw)</option>
                 </select>
               </div>
 
@@ -695,6 +882,15 @@ export function BetModal({ game, rosterData, bet, onClose, onBetCreated, onBetUp
                 threshold={threshold}
                 onThresholdChange={setThreshold}
               />
+
+              <TotalWithSelector
+                value={threshTotalWith}
+                onChange={setThreshTotalWith}
+                base={threshParticipant}
+                game={game}
+                players={players}
+                sportConfig={sportConfig}
+              />
             </div>
           )}
 
@@ -0,0 +1,239 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import type { BetTemplate, BulkBetPreview } from '@shared/types/bets';
+import { api } from '../../services/api';
+import { getTimezoneOffset } from '../../utils/formatting';
+import { Modal } from '../common/Modal';
+import type { BulkBetModalProps, BulkBetRequest } from '../../interfaces';
+
+const itemKey = (item: { gameId: string; templateId: string }) => `${item.gameId}:${item.templateId}`;
+
+export function BulkBetModal({ games, date, sport, league, onClose, onBetsCreated }: BulkBetModalProps) {
+  const [templates, setTemplates] = useState<BetTemplate[]>([]);
+  const [selectedTemplates, setSelectedTemplates] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<BulkBetPreview | null>(null);
+  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await api.getBetTemplates();
+        if (response.success && response.data) {
+          setTemplates(response.data.templates);
+        } else {
+          setError(response.error?.message || 'Failed to load bet templates');
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load bet templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadTemplates();
+  }, []);
+
+  const request: BulkBetRequest = {
+    templateIds: templates.filter(t => selectedTemplates.has(t.id)).map(t => t.id),
+    date,
+    sport,
+    league,
+    timezoneOffset: getTimezoneOffset()
+  };
+
+  const gameLabel = (gameId: string) => {
+    const game = games.find(g => g.id === gameId);
+    return game ? `${game.awayTeam} @ ${game.homeTeam}` : gameId;
+  };
+  const templateName = (templateId: string) => templates.find(t => t.id === templateId)?.name ?? templateId;
+
+  // Preview rows grouped by game, in slate order
+  const previewByGame = useMemo(() => {
+    if (!preview) return [];
+    const gameIds = [...new Set([
+      ...preview.items.map(i => i.gameId),
+      ...preview.existing.map(i => i.gameId),
+      ...preview.skipped.map(i => i.gameId)
+    ])];
+    return gameIds.map(gameId => ({
+      gameId,
+      items: preview.items.filter(i => i.gameId === gameId),
+      existing: preview.existing.filter(i => i.gameId === gameId),
+      skipped: preview.skipped.filter(i => i.gameId === gameId)
+    }));
+  }, [preview]);
+
+  const toggleTemplate = (templateId: string) => {
+    setSelectedTemplates(prev => {
+      const next = new Set(prev);
+      if (next.has(templateId)) {
+        next.delete(templateId);
+      } else {
+        next.add(templateId);
+      }
+      return next;
+    });
+    // A preview is only valid for the templates it was made with
+    setPreview(null);
+  };
+
+  const toggleItem = (key: string) => {
+    setSelectedItems(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await api.previewBulkBets(request);
+      if (response.success && response.data) {
+        setPreview(response.data);
+        setSelectedItems(new Set(response.data.items.map(itemKey)));
+      } else {
+        setError(response.error?.message || 'Failed to preview bets');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to preview bets');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!preview) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const selections = preview.items.filter(item => selectedItems.has(itemKey(item)));
+      const response = await api.createBulkBets(request, selections);
+      if (response.success && response.data) {
+        onBetsCreated(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to create bets');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create bets');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex justify-between items-center gap-3">
+      <Link to="/admin/bet-templates" className="text-sm text-orange-400 hover:text-orange-300">
+        Manage templates →
+      </Link>
+      <div className="flex gap-3">
+        <button
+          onClick={preview ? () => setPreview(null) : onClose}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition text-sm"
+        >
+          {preview ? 'Back' : 'Cancel'}
+        </button>
+        {preview ? (
+          <button
+            onClick={handleCreate}
+            disabled={submitting || selectedItems.size === 0}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-sm font-medium"
+          >
+            {submitting ? 'Creating...' : `Create ${selectedItems.size} Bet${selectedItems.size !== 1 ? 's' : ''}`}
+          </button>
+        ) : (
+          <button
+            onClick={handlePreview}
+            disabled={submitting || request.templateIds.length === 0}
+            className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-sm font-medium"
+          >
+            {submitting ? 'Previewing...' : 'Preview Bets'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title="Apply Bet Templates"
+      subtitle={`Every ${league.toUpperCase()} game on ${date}`}
+      size="lg"
+      footer={footer}
+    >
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-slate-400">Loading templates...</p>
+        ) : !preview ? (
+          templates.length === 0 ? (
+            <p className="text-slate-400">No bet templates yet - create one from Manage templates.</p>
+          ) : (
+            <div className="space-y-2">
+              {templates.map(template => (
+                <label key={template.id} className="flex items-center gap-3 p-3 bg-slate-800 rounded-lg cursor-pointer hover:bg-slate-700 transition">
+                  <input
+                    type="checkbox"
+                    checked={selectedTemplates.has(template.id)}
+                    onChange={() => toggleTemplate(template.id)}
+                    className="accent-orange-600"
+                  />
+                  <span className="text-white text-sm">{template.name}</span>
+                  <span className="text-xs text-slate-500">{template.betType}</span>
+                </label>
+              ))}
+            </div>
+          )
+        ) : previewByGame.length === 0 ? (
+          <p className="text-slate-400">No games loaded for this date and league - fetch games first.</p>
+        ) : (
+          <div className="space-y-4">
+            {previewByGame.map(group => (
+              <div key={group.gameId} className="bg-slate-800 rounded-lg p-3">
+                <h3 className="text-sm font-semibold text-white mb-2">{gameLabel(group.gameId)}</h3>
+                <div className="space-y-1">
+                  {group.items.map(item => (
+                    <label key={itemKey(item)} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedItems.has(itemKey(item))}
+                        onChange={() => toggleItem(itemKey(item))}
+                        className="accent-green-600"
+                      />
+                      <span className="text-slate-200">{item.displayText}</span>
+                      <span className="text-xs text-slate-500">{templateName(item.templateId)}</span>
+                    </label>
+                  ))}
+                  {group.existing.map(item => (
+                    <p key={itemKey(item)} className="text-sm text-slate-500 pl-6">
+                      {item.displayText} <span className="text-xs">(already posted)</span>
+                    </p>
+                  ))}
+                  {group.skipped.map(item => (
+                    <p key={itemKey(item)} className="text-sm text-yellow-500 pl-6">
+                      {templateName(item.templateId)}: {item.reason}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
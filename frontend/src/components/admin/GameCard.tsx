@@ -2,22 +2,27 @@ import React from 'react';
 import { BetListItem } from './BetListItem';
 import { formatDate, formatTime, formatResolvedBetText, getSportEmoji } from '../../utils/formatting';
 import type { GameCardProps } from '../../interfaces';
+import type { GameOdds } from '@shared/types';
 
 export function GameCard({
   game,
   isExpanded,
   onToggle,
   onCreateBets,
-  onQuickMoneyline,
+  onGenerateStandardBets,
   onEditBet,
   onDeleteBet,
   onResolveBet,
+  onSetBetResult,
   onMoveBetPriority,
-  creatingMoneyline,
+  canCreateBets,
+  canResolveBets,
+  generatingStandardBets,
   loadingRoster,
   resolvingBet
 }: GameCardProps) {
   const sortedBets = [...(game.bets || [])].sort((a, b) => a.priority - b.priority);
+  const odds: GameOdds | null = game.metadata?.odds ?? null;
 
   return (
     <div className="bg-slate-900 border border-slate-800 rounded-lg hover:border-slate-700 transition">
@@ -80,27 +85,39 @@ export function GameCard({
               <span className="px-2 py-1 text-xs font-medium rounded bg-blue-900/50 text-blue-400">
                 {game.bets.length} bet{game.bets.length !== 1 ? 's' : ''}
               </span>
+
+              {/* ESPN lines the standard bets are generated from */}
+              {odds && (odds.details || odds.overUnder !== null) && (
+                <span
+                  className="px-2 py-1 text-xs font-medium rounded bg-slate-800 text-slate-300"
+                  title={odds.provider ? `Odds from ${odds.provider}` : undefined}
+                >
+                  {[odds.details, odds.overUnder !== null ? `O/U ${odds.overUnder}` : null].filter(Boolean).join(' • ')}
+                </span>
+              )}
             </div>
           </div>
 
           {/* Actions */}
-          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
-            <button
-              onClick={() => onQuickMoneyline(game)}
-              disabled={creatingMoneyline === game.id}
-              className="px-3 sm:px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-xs sm:text-sm font-medium whitespace-nowrap"
-              title="Quickly create a moneyline bet (home team vs away team)"
-            >
-              {creatingMoneyline === game.id ? 'Creating...' : <><span className="hidden sm:inline">Quick </span>Moneyline</>}
-            </button>
-            <button
-              onClick={() => onCreateBets(game)}
-              disabled={loadingRoster}
-              className="px-3 sm:px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-xs sm:text-sm font-medium whitespace-nowrap"
-            >
-              {loadingRoster ? 'Loading...' : 'Create Bets'}
-            </button>
-          </div>
+          {canCreateBets && (
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              <button
+                onClick={() => onGenerateStandardBets(game)}
+                disabled={generatingStandardBets !== null}
+                className="px-3 sm:px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-xs sm:text-sm font-medium whitespace-nowrap"
+                title="Create the moneyline, plus the spread and total from the ESPN odds"
+              >
+                {generatingStandardBets === game.id ? 'Creating...' : <><span className="hidden sm:inline">Standard </span>Bets</>}
+              </button>
+              <button
+                onClick={() => onCreateBets(game)}
+                disabled={loadingRoster}
+                className="px-3 sm:px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                {loadingRoster ? 'Loading...' : 'Create Bets'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -117,7 +134,10 @@ export function GameCard({
               onEdit={onEditBet}
               onDelete={onDeleteBet}
               onResolve={onResolveBet}
+              onSetResult={onSetBetResult}
               onMovePriority={onMoveBetPriority}
+              canCreateBets={canCreateBets}
+              canResolveBets={canResolveBets}
               resolvingBet={resolvingBet}
               formatResolvedBetText={formatResolvedBetText}
             />
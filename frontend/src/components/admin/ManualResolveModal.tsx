@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import type { ManualBetOutcome } from '@shared/types/bets';
+import { api } from '../../services/api';
+import { formatResolvedBetText } from '../../utils/formatting';
+import { Modal } from '../common/Modal';
+import type { Bet, ManualResolveModalProps } from '../../interfaces';
+
+// 'draw' is a loss on a three-way comparison where the participants tied
+type ResultChoice = ManualBetOutcome | 'draw';
+
+/**
+ * The results an admin can pick for a bet, labelled from what happened in the game
+ * Outcomes are from participant_1's side for comparisons, the operator for thresholds and "yes" for events
+ */
+function getResultChoices(bet: Bet): Array<{ value: ResultChoice; label: string }> {
+  const config = bet.config || {};
+  const choices: Array<{ value: ResultChoice; label: string }> = [];
+
+  if (config.type === 'COMPARISON') {
+    choices.push(
+      { value: 'win', label: `${config.participant_1?.subject_name || 'Participant 1'} wins` },
+      { value: 'loss', label: `${config.participant_2?.subject_name || 'Participant 2'} wins` }
+    );
+    if (config.allow_draw) {
+      choices.push({ value: 'draw', label: 'Draw' });
+    }
+  } else if (config.type === 'THRESHOLD') {
+    const line = `${config.operator} ${config.threshold}`;
+    choices.push(
+      { value: 'win', label: `${line} hits` },
+      { value: 'loss', label: `${line} misses` }
+    );
+  } else {
+    choices.push(
+      { value: 'win', label: 'Yes - it happened' },
+      { value: 'loss', label: "No - it didn't happen" }
+    );
+  }
+
+  choices.push(
+    { value: 'push', label: 'Push' },
+    { value: 'void', label: 'Void - cancel the bet for everyone' }
+  );
+  return choices;
+}
+
+export function ManualResolveModal({ bet, game, onClose, onResolved }: ManualResolveModalProps) {
+  const [choice, setChoice] = useState<ResultChoice | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isResolved = !!bet.outcome && bet.outcome !== 'pending';
+  const canSubmit = !submitting && note.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!choice) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await api.manualResolveBet(
+        bet.id,
+        choice === 'draw' ? 'loss' : choice,
+        note.trim(),
+        choice === 'draw' || undefined
+      );
+      if (response.success) {
+        onResolved();
+      } else {
+        setError(response.error?.message || 'Failed to set the result');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to set the result');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await api.reopenBet(bet.id, note.trim());
+      if (response.success) {
+        onResolved();
+      } else {
+        setError(response.error?.message || 'Failed to reopen bet');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to reopen bet');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex justify-between items-center gap-3">
+      <div>
+        {isResolved && (
+          <button
+            onClick={handleReopen}
+            disabled={!canSubmit}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 text-white rounded-lg transition text-sm"
+            title="Put the bet back to pending and reverse what its result settled"
+          >
+            Reopen
+          </button>
+        )}
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!canSubmit || !choice}
+          className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-sm font-medium"
+        >
+          {submitting ? 'Saving...' : isResolved ? 'Change Result' : 'Set Result'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={isResolved ? 'Change Bet Result' : 'Set Bet Result'}
+      subtitle={`${game.awayTeam} @ ${game.homeTeam}`}
+      size="md"
+      footer={footer}
+    >
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div>
+          <p className="text-white font-medium">{formatResolvedBetText(bet, game)}</p>
+          {isResolved && (
+            <p className="text-sm text-slate-400 mt-1">
+              Currently <span className="text-white">{bet.outcome?.toUpperCase()}</span>. Changing it reverses the
+              parlays and single bets it settled and settles them again.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {getResultChoices(bet).map(option => (
+            <label key={option.value} className="flex items-center gap-3 p-3 bg-slate-800 rounded-lg cursor-pointer hover:bg-slate-700 transition">
+              <input
+                type="radio"
+                name="result"
+                checked={choice === option.value}
+                onChange={() => setChoice(option.value)}
+                className="accent-orange-600"
+              />
+              <span className="text-white text-sm">{option.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Note (required)</label>
+          <textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            placeholder="Why the result is being set by hand, e.g. stat correction from the league"
+            className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent"
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+}
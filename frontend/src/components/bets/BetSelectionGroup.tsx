@@ -4,15 +4,23 @@ import { BetSelectionCard } from './BetSelectionCard';
 import { api } from '../../services/api';
 import { useAuth } from '../../context/AuthContext';
 import { useParlay } from '../../context/ParlayContext';
+import { useRules } from '../../context/RulesContext';
 import { useBets } from '../../context/BetsContext';
 import { ConfirmModal } from '../common/ConfirmModal';
 import type { BetConfig } from '@shared/types/bets';
+import { isThreeWayBet } from '@shared/utils/betSides';
+import { getTimezoneOffset } from '../../utils/formatting';
 import type { BetSelectionGroupProps, Bet, Game } from '../../interfaces';
 
 /**
- * Get the labels for the two sides of a bet
+ * Get the labels for the sides of a bet
+ * Three-way comparisons (soccer) also get a draw side between the two participants
  */
-function getBetSideLabels(bet: Bet, game: Game): { side1: { value: string; label: string }; side2: { value: string; label: string } } {
+function getBetSideLabels(bet: Bet, game: Game): {
+  side1: { value: string; label: string };
+  side2: { value: string; label: string };
+  draw?: { value: string; label: string };
+} {
   const config = bet.config;
   
   if (!config) {
@@ -66,7 +74,8 @@ function getBetSideLabels(bet: Bet, game: Game): { side1: { value: string; label
     
     return {
       side1: { value: 'participant_1', label: name1 },
-      side2: { value: 'participant_2', label: name2 }
+      side2: { value: 'participant_2', label: name2 },
+      ...(isThreeWayBet(bet.betType, compConfig) && { draw: { value: 'draw', label: 'DRAW' } })
     };
   } else if (bet.betType === 'THRESHOLD') {
     const threshConfig = config as any;
@@ -96,6 +105,7 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
   const { user } = useAuth();
   const { activeParlay, setActiveParlay, isParlayBuilderOpen, setIsParlayBuilderOpen, refreshActiveParlay } = useParlay();
   const { triggerRefresh } = useBets();
+  const { rules } = useRules(activeParlay?.rulesetVersion);
   const [selectedSide, setSelectedSide] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -104,6 +114,7 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
 
   const sideLabels = getBetSideLabels(bet, game);
   const gameStarted = game.status !== 'scheduled';
+  const parlayFull = !!activeParlay && !!rules && activeParlay.betCount >= rules.maxLegs;
   const disabled = gameStarted || loading || saved || !user;
 
   const handleCardClick = (side: string) => {
@@ -119,7 +130,7 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
     setError(null);
 
     try {
-      const response = await api.selectBet(bet.id, selectedSide);
+      const response = await api.selectBet(bet.id, selectedSide, getTimezoneOffset());
       if (response.success) {
         setSaved(true);
         triggerRefresh(); // Auto-refresh My Bets section
@@ -257,6 +268,15 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
             disabled={true}
             onClick={() => {}}
           />
+          {sideLabels.draw && (
+            <BetSelectionCard
+              side={sideLabels.draw.value}
+              label={sideLabels.draw.label}
+              isSelected={false}
+              disabled={true}
+              onClick={() => {}}
+            />
+          )}
           <BetSelectionCard
             side={sideLabels.side2.value}
             label={sideLabels.side2.label}
@@ -282,7 +302,7 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
 
   return (
     <div className="space-y-3">
-      {/* Two Side Cards */}
+      {/* Side Cards (plus the draw for three-way bets) */}
       <div className="flex gap-2">
         <BetSelectionCard
           side={sideLabels.side1.value}
@@ -291,6 +311,15 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
           disabled={disabled}
           onClick={() => handleCardClick(sideLabels.side1.value)}
         />
+        {sideLabels.draw && (
+          <BetSelectionCard
+            side={sideLabels.draw.value}
+            label={sideLabels.draw.label}
+            isSelected={selectedSide === sideLabels.draw.value}
+            disabled={disabled}
+            onClick={() => handleCardClick('draw')}
+          />
+        )}
         <BetSelectionCard
           side={sideLabels.side2.value}
           label={sideLabels.side2.label}
@@ -319,10 +348,10 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved }: BetSelectionG
           {isParlayBuilderOpen && activeParlay ? (
             <button
               onClick={handleAddToParlay}
-              disabled={loading || gameStarted || activeParlay.betCount >= 5}
+              disabled={loading || gameStarted || parlayFull}
               className={`
                 flex-1 px-4 py-2 rounded-lg font-medium transition
-                ${loading || gameStarted || activeParlay.betCount >= 5
+                ${loading || gameStarted || parlayFull
                   ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
                   : 'bg-blue-600 hover:bg-blue-700 text-white'
                 }
@@ -10,6 +10,7 @@ import { ParlayCard } from './ParlayCard';
 import { AvailableBetsSection } from './AvailableBetsSection';
 import { getTeamName, formatResolvedBetText, formatTime, getSportEmoji, getTodayDateString, getTimezoneOffset, formatSelectionText } from '../../utils/formatting';
 import type { Parlay, ParlaySelection, HistoricalGame, BetSelection } from '../../interfaces';
+import type { SingleBetSummary } from '@shared/types';
 
 // Extended BetSelection for MyBetsSection with createdAt
 interface BetSelectionWithCreatedAt extends BetSelection {
@@ -21,6 +22,7 @@ export function MyBetsSection() {
   const { refreshTrigger, setSelectedDate: setContextSelectedDate } = useBets();
   const [selections, setSelections] = useState<BetSelectionWithCreatedAt[]>([]);
   const [parlays, setParlays] = useState<Parlay[]>([]);
+  const [singleBetSummary, setSingleBetSummary] = useState<SingleBetSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<{message: string, code: string} | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -69,13 +71,14 @@ export function MyBetsSection() {
       // Fetch single bets (selections with no parlay) for the selected date
       const selectionsResponse = await api.getMySelections(selectedDate, getTimezoneOffset());
       if (selectionsResponse.success && selectionsResponse.data) {
-        const data = selectionsResponse.data as { selections?: BetSelection[] };
+        const data = selectionsResponse.data as { selections?: BetSelection[]; singleBets?: SingleBetSummary };
         // Filter to only single bets (parlayId is null in the response, but we check status)
         // Ensure status is always provided (default to 'pending' if missing)
         const singleBets = (data.selections || [])
           .filter((s: any) => !s.parlayId || s.parlayId === null)
           .map((s: any) => ({ ...s, status: s.status || 'pending' }));
         setSelections(singleBets);
+        setSingleBetSummary(data.singleBets || null);
       } else {
         // Check if there's an error with code
         if (selectionsResponse.error) {
@@ -347,6 +350,11 @@ export function MyBetsSection() {
             </div>
             <p className="text-slate-400 text-xs sm:text-sm mt-1">
               {selections.length} single bet{selections.length !== 1 ? 's' : ''} • {parlays.length} parlay{parlays.length !== 1 ? 's' : ''}
+              {isTodayOrFuture && singleBetSummary?.rules.dailyOpenCap != null && (
+                <span title="Open single bets for games on this day">
+                  {' '}• {singleBetSummary.openCount}/{singleBetSummary.rules.dailyOpenCap} open singles
+                </span>
+              )}
             </p>
           </div>
           <button
@@ -401,6 +409,7 @@ export function MyBetsSection() {
                         deletingId={deletingId}
                         onStartParlay={handleStartParlay}
                         onDelete={setConfirmDeleteId}
+                        singleBetRules={singleBetSummary?.rules}
                       />
                     );
                   } else {
@@ -450,6 +459,7 @@ export function MyBetsSection() {
                     deletingId={deletingId}
                     onStartParlay={handleStartParlay}
                     onDelete={setConfirmDeleteId}
+                    singleBetRules={singleBetSummary?.rules}
                   />
                 );
               } else {
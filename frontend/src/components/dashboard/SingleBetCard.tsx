@@ -11,7 +11,8 @@ export function SingleBetCard({
   startingParlayId,
   deletingId,
   onStartParlay,
-  onDelete
+  onDelete,
+  singleBetRules
 }: SingleBetCardProps) {
   const inBuilder = isBetInActiveParlay(selection.id, selection.bet.id);
 
@@ -41,6 +42,12 @@ export function SingleBetCard({
           <div className="text-sm text-white font-medium truncate">
             {formatSelectionText(selection.selectedSide, selection.bet.betType, selection.bet.config, selection.bet.game, selection.outcome || selection.bet.outcome)}
           </div>
+          {singleBetRules && selection.status !== 'resolved' && (
+            <div className="text-xs text-slate-500 mt-0.5">
+              Win +{singleBetRules.winPoints}
+              {singleBetRules.lossResetsStreak ? ' • Loss resets streak' : ' • Loss keeps streak'}
+            </div>
+          )}
           {selection.bet.game.status === 'completed' && selection.bet.game.homeScore !== null && selection.bet.game.awayScore !== null && (
             <div className="text-xs text-slate-400 mt-0.5">
               {selection.bet.game.awayTeam} {selection.bet.game.awayScore} - {selection.bet.game.homeScore} {selection.bet.game.homeTeam}
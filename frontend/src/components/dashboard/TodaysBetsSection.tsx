@@ -6,7 +6,7 @@ import { getSportEmoji, getTodayDateString, getTimezoneOffset } from '../../util
 import type { Game } from '../../interfaces';
 
 export function TodaysBetsSection() {
-  const { selectedDate } = useBets();
+  const { selectedDate, liveGames, watchGames } = useBets();
   const [games, setGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -46,6 +46,12 @@ export function TodaysBetsSection() {
     fetchTodaysBets();
   }, [selectedDate]);
 
+  // Get live score and status updates for the games on screen
+  useEffect(() => {
+    watchGames(games.map(game => game.id));
+    return () => watchGames([]);
+  }, [games, watchGames]);
+
   const fetchTodaysBets = async () => {
     setLoading(true);
     setError(null);
@@ -158,7 +164,11 @@ export function TodaysBetsSection() {
       </div>
 
       <div className="grid gap-6">
-        {games.map((game) => {
+        {games.map((listedGame) => {
+          const live = liveGames[listedGame.id];
+          const game = live
+            ? { ...listedGame, status: live.status, homeScore: live.homeScore, awayScore: live.awayScore }
+            : listedGame;
           const sortedBets = [...(game.bets || [])].sort((a, b) => a.priority - b.priority);
           
           return (
@@ -179,6 +189,13 @@ export function TodaysBetsSection() {
                       <span>•</span>
                       <span>{formatDate(game.startTime)}</span>
                     </div>
+                    {live && live.status !== 'scheduled' && (
+                      <p className="text-xs text-slate-300 mt-1">
+                        {live.status === 'in_progress' && live.periodDisplay ? `${live.periodDisplay}: ` : ''}
+                        {game.awayTeam} <span className="font-bold text-white">{live.awayScore ?? 0}</span> - <span className="font-bold text-white">{live.homeScore ?? 0}</span> {game.homeTeam}
+                        {live.status === 'in_progress' && live.displayClock ? ` · ${live.displayClock}` : ''}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
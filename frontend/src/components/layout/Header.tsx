@@ -1,6 +1,7 @@
 import { Link } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
-import { HiCog6Tooth, HiArrowRightOnRectangle } from 'react-icons/hi2';
+import { hasAnyPermission } from '@shared/utils/permissions';
+import { HiCog6Tooth, HiArrowRightOnRectangle, HiTrophy, HiUserGroup } from 'react-icons/hi2';
 
 interface HeaderProps {
   title?: string;
@@ -40,7 +41,7 @@ export function Header({ title }: HeaderProps) {
               <span className="text-slate-300 text-sm sm:text-base hidden sm:inline">
                 Welcome, <span className="font-semibold text-white">{user.username}</span>
               </span>
-              {user.isAdmin && (
+              {hasAnyPermission(user.permissions, 'create_bets', 'resolve_bets', 'manage_games') && (
                 <Link
                   to="/admin/bets"
                   className="px-3 sm:px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-medium text-sm sm:text-base"
@@ -49,6 +50,20 @@ export function Header({ title }: HeaderProps) {
                   <span className="sm:hidden">A</span>
                 </Link>
               )}
+              <Link
+                to="/leaderboards"
+                className="p-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition"
+                title="Leaderboards"
+              >
+                <HiTrophy className="w-5 h-5" />
+              </Link>
+              <Link
+                to="/leagues"
+                className="p-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition"
+                title="Leagues"
+              >
+                <HiUserGroup className="w-5 h-5" />
+              </Link>
               <Link
                 to="/settings"
                 className="p-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition"
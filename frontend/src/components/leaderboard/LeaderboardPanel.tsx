@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import type { LeaderboardBoard, LeaderboardEntry, LeaderboardResponse, LeaderboardWindow } from '@shared/types';
+import type { ApiResponse } from '../../interfaces';
+import { useAuth } from '../../context/AuthContext';
+
+const BOARDS: Array<{ value: LeaderboardBoard; label: string; emoji: string }> = [
+  { value: 'current_streak', label: 'Current Streak', emoji: '🔥' },
+  { value: 'longest_streak', label: 'Longest Streak', emoji: '👑' },
+  { value: 'points', label: 'Points', emoji: '⭐' },
+];
+
+const WINDOWS: Array<{ value: LeaderboardWindow; label: string }> = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: 'This Week' },
+  { value: 'monthly', label: 'This Month' },
+  { value: 'all_time', label: 'All Time' },
+];
+
+function LeaderboardRow({ entry, isMe }: { entry: LeaderboardEntry; isMe: boolean }) {
+  return (
+    <div
+      className={`flex items-center justify-between px-4 py-3 ${
+        isMe ? 'bg-orange-900/30 border-l-4 border-orange-600' : ''
+      }`}
+    >
+      <div className="flex items-center gap-4 min-w-0">
+        <span className="w-10 text-right text-slate-400 font-semibold">#{entry.rank}</span>
+        <span className={`truncate ${isMe ? 'text-white font-semibold' : 'text-slate-200'}`}>
+          {entry.username}
+          {isMe && <span className="ml-2 text-xs text-orange-400">(you)</span>}
+        </span>
+      </div>
+      <span className="text-lg font-bold text-white">{entry.value}</span>
+    </div>
+  );
+}
+
+interface LeaderboardPanelProps {
+  // Loads one page of the board; the panel handles tabs, paging and the caller's rank
+  fetchLeaderboard: (
+    board: LeaderboardBoard,
+    window: LeaderboardWindow,
+    page: number
+  ) => Promise<ApiResponse<LeaderboardResponse>>;
+}
+
+export function LeaderboardPanel({ fetchLeaderboard }: LeaderboardPanelProps) {
+  const { user } = useAuth();
+  const [board, setBoard] = useState<LeaderboardBoard>('current_streak');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all_time');
+  const [page, setPage] = useState(1);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadLeaderboard = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await fetchLeaderboard(board, timeWindow, page);
+        if (response.success && response.data) {
+          setLeaderboard(response.data);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load leaderboard');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLeaderboard();
+  }, [fetchLeaderboard, board, timeWindow, page]);
+
+  const selectBoard = (value: LeaderboardBoard) => {
+    setBoard(value);
+    setPage(1);
+  };
+
+  const selectWindow = (value: LeaderboardWindow) => {
+    setTimeWindow(value);
+    setPage(1);
+  };
+
+  const totalPages = leaderboard ? Math.max(1, Math.ceil(leaderboard.total / leaderboard.pageSize)) : 1;
+  const me = leaderboard?.me;
+  const meOnPage = me ? leaderboard?.entries.some(entry => entry.userId === me.userId) : false;
+
+  return (
+    <>
+      {/* Board tabs */}
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {BOARDS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => selectBoard(option.value)}
+            className={`px-3 py-2 rounded-lg font-medium text-sm sm:text-base transition ${
+              board === option.value
+                ? 'bg-orange-600 text-white'
+                : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            <span className="mr-1">{option.emoji}</span>
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Window tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {WINDOWS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => selectWindow(option.value)}
+            className={`px-3 py-1 rounded-full text-sm transition ${
+              timeWindow === option.value
+                ? 'bg-slate-200 text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-400 border border-slate-800 hover:text-slate-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Your rank, when you're not on this page */}
+      {user && leaderboard && !meOnPage && (
+        <div className="bg-slate-900 rounded-lg border border-slate-800 mb-4 overflow-hidden">
+          {me ? (
+            <LeaderboardRow entry={me} isMe />
+          ) : (
+            <p className="px-4 py-3 text-sm text-slate-400">You're not on this board yet</p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+        {loading ? (
+          <p className="px-4 py-8 text-center text-slate-400">Loading...</p>
+        ) : !leaderboard || leaderboard.entries.length === 0 ? (
+          <p className="px-4 py-8 text-center text-slate-400">No one on this board yet</p>
+        ) : (
+          <div className="divide-y divide-slate-800">
+            {leaderboard.entries.map(entry => (
+              <LeaderboardRow key={entry.userId} entry={entry} isMe={entry.userId === user?.id} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {leaderboard && totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-slate-400">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages || loading}
+            className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -3,8 +3,10 @@ import { useParlay } from '../../context/ParlayContext';
 import { useBets } from '../../context/BetsContext';
 import { api } from '../../services/api';
 import { useAuth } from '../../context/AuthContext';
+import { useRules } from '../../context/RulesContext';
 import { ConfirmModal } from '../common/ConfirmModal';
 import type { BetConfig } from '@shared/types/bets';
+import { calculateInsuranceCost, isInsuranceEligible } from '@shared/utils/parlay';
 import type { Parlay, ParlaySelection } from '../../interfaces';
 
 /**
@@ -16,6 +18,9 @@ function getSideDisplayLabel(selection: ParlaySelection): string {
 
   if (bet.betType === 'COMPARISON') {
     const compConfig = config as any;
+    if (selectedSide === 'draw') {
+      return 'DRAW';
+    }
     const participant = selectedSide === 'participant_1' ? compConfig.participant_1 : compConfig.participant_2;
     let name = participant?.subject_name || 'Participant';
     
@@ -42,6 +47,7 @@ export function ParlayBuilder() {
   const { activeParlay, setActiveParlay, isParlayBuilderOpen, setIsParlayBuilderOpen, refreshActiveParlay } = useParlay();
   const { triggerRefresh } = useBets();
   const { user } = useAuth();
+  const { rules } = useRules(activeParlay?.rulesetVersion);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
@@ -60,6 +66,10 @@ export function ParlayBuilder() {
     return null;
   }
 
+  // Limits come from the ruleset the parlay was created under; until it loads the server enforces them
+  const maxLegs = rules?.maxLegs ?? null;
+  const insuranceEligible = rules ? isInsuranceEligible(activeParlay.betCount, rules) : false;
+
   const handleRemoveSelection = async (selectionId: string) => {
     if (loading) return;
 
@@ -93,7 +103,7 @@ export function ParlayBuilder() {
   };
 
   const handleToggleInsurance = async () => {
-    if (loading || activeParlay.betCount < 4) return;
+    if (loading || !insuranceEligible) return;
 
     setLoading(true);
     setError(null);
@@ -193,14 +203,16 @@ export function ParlayBuilder() {
     }
   };
 
-  // Insurance cost comes from backend, but we can display it
+  // Insured parlays show what was paid, otherwise quote the cost at the user's current streak
   const getInsuranceCost = () => {
-    if (activeParlay.betCount < 4) return null;
-    return activeParlay.insuranceCost || null;
+    if (!rules || !insuranceEligible) return null;
+    if (activeParlay.insured) return activeParlay.insuranceCost;
+    return calculateInsuranceCost(activeParlay.betCount, user?.currentStreak ?? 0, rules);
   };
 
   const insuranceCost = getInsuranceCost();
-  const canInsure = activeParlay.betCount >= 4 && !activeParlay.lockedAt;
+  const canInsure = insuranceEligible && !activeParlay.lockedAt;
+  const slotNumbers = Array.from({ length: Math.max(maxLegs ?? 0, activeParlay.betCount) }, (_, i) => i + 1);
   const isLocked = activeParlay.lockedAt !== null && activeParlay.lockedAt !== undefined;
 
   return (
@@ -242,7 +254,7 @@ export function ParlayBuilder() {
         <div className="bg-slate-800/50 rounded-lg p-3">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-slate-400">Bets</span>
-            <span className="text-lg font-bold text-white">{activeParlay.betCount}/5</span>
+            <span className="text-lg font-bold text-white">{maxLegs ? `${activeParlay.betCount}/${maxLegs}` : activeParlay.betCount}</span>
           </div>
           <div className="flex items-center justify-between">
             <span className="text-sm text-slate-400">Value</span>
@@ -260,7 +272,7 @@ export function ParlayBuilder() {
         {/* Bet Slots */}
         <div className="space-y-2">
           <div className="text-sm font-semibold text-slate-300 mb-2">Bets</div>
-          {[1, 2, 3, 4, 5].map((slotNum) => {
+          {slotNumbers.map((slotNum) => {
             const selection = activeParlay.selections[slotNum - 1];
             return (
               <div
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import type { StreakEvent, StreakHistoryCardProps } from '../../interfaces';
+import { formatSelectionText, getSportEmoji } from '../../utils/formatting';
+
+// Insured parlay losses keep the streak, so only a loss that hit 0 ended it
+function isStreakReset(event: StreakEvent): boolean {
+  return (event.type === 'parlay_loss' || event.type === 'bet_loss') && event.resultingStreak === 0;
+}
+
+function getEventLabel(event: StreakEvent): string {
+  switch (event.type) {
+    case 'parlay_win':
+    case 'bet_win':
+      return 'Streak Increased';
+    case 'insurance_deducted':
+      return 'Insurance Bought';
+    case 'insurance_refunded':
+      return 'Insurance Refunded';
+    default:
+      return isStreakReset(event) ? 'Streak Ended' : 'Insurance Saved';
+  }
+}
+
+function formatShortDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function outcomeClass(outcome?: string): string {
+  if (outcome === 'win') return 'bg-green-900/30 text-green-400';
+  if (outcome === 'loss') return 'bg-red-900/30 text-red-400';
+  return 'bg-yellow-900/30 text-yellow-400';
+}
+
+export function StreakHistoryCard({ group }: StreakHistoryCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+
+  const isActive = group.status === 'active';
+  const dateRange = `${formatShortDate(group.startDate)} - ${isActive ? 'Present' : group.endDate ? formatShortDate(group.endDate) : '?'}`;
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 text-left hover:bg-slate-800/50 transition-colors"
+      >
+        <div className="flex items-center gap-4">
+          <div
+            className={`h-12 w-12 rounded-lg flex items-center justify-center text-xl font-bold ${
+              isActive
+                ? 'bg-emerald-500/10 border border-emerald-500/20 text-emerald-400'
+                : 'bg-slate-800 border border-slate-700 text-slate-400'
+            }`}
+          >
+            {group.peakStreak}
+          </div>
+          <div>
+            <p className="text-white font-semibold">{isActive ? 'Current Streak' : 'Past Streak'}</p>
+            <p className="text-slate-400 text-xs">{dateRange}</p>
+          </div>
+        </div>
+        <span className="text-slate-500 text-sm">{isExpanded ? '▲' : '▼'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-slate-800 p-4 space-y-2 max-h-96 overflow-y-auto">
+          {group.events.map(event => {
+            const hasDetails = !!event.parlay || !!event.betSelection;
+            const showDetails = expandedEventId === event.id;
+
+            return (
+              <div key={event.id}>
+                <button
+                  type="button"
+                  onClick={() => hasDetails && setExpandedEventId(showDetails ? null : event.id)}
+                  className={`w-full flex items-center p-3 bg-slate-800/50 rounded-lg border border-slate-700/50 text-left ${
+                    hasDetails ? 'hover:border-slate-600 cursor-pointer' : 'cursor-default'
+                  }`}
+                >
+                  <div className="w-12 text-center mr-3 pr-3 border-r border-slate-700/50">
+                    {isStreakReset(event) ? (
+                      <span className="text-xl">💥</span>
+                    ) : (
+                      <span
+                        className={`font-bold text-lg ${
+                          event.pointsChange > 0
+                            ? 'text-emerald-400'
+                            : event.type === 'insurance_deducted' || event.pointsChange === 0
+                            ? 'text-orange-400'
+                            : 'text-red-400'
+                        }`}
+                      >
+                        {event.pointsChange > 0 ? '+' : ''}
+                        {event.pointsChange}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-300 font-bold text-sm">{getEventLabel(event)}</span>
+                      {event.parlay && (
+                        <span className="px-1.5 py-0.5 bg-blue-500/20 text-blue-400 rounded text-[10px] font-bold uppercase">
+                          {event.parlay.betCount} Leg
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-slate-500 text-xs">{formatShortDate(event.date)}</span>
+                  </div>
+                  <div className="text-right pl-3">
+                    <p className="text-slate-500 text-[10px] uppercase font-bold tracking-wider">Streak</p>
+                    <p className="text-white font-bold text-lg leading-5">{event.resultingStreak}</p>
+                  </div>
+                </button>
+
+                {showDetails && (
+                  <div className="mt-2 ml-4 pl-3 border-l-2 border-slate-700 space-y-1">
+                    {event.parlay?.selections.map(selection => (
+                      <div key={selection.id} className="flex items-center gap-2 text-xs">
+                        <span>{getSportEmoji(selection.game.sport || '')}</span>
+                        <span className="text-white">
+                          {formatSelectionText(selection.selectedSide, selection.bet.betType, selection.bet.config, selection.game, selection.outcome)}
+                        </span>
+                        {selection.outcome && selection.outcome !== 'pending' && (
+                          <span className={`px-1 py-0.5 rounded font-bold uppercase ${outcomeClass(selection.outcome)}`}>
+                            {selection.outcome}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                    {event.betSelection && (
+                      <div className="flex items-center gap-2 text-xs">
+                        <span>{getSportEmoji(event.betSelection.game.sport || '')}</span>
+                        <span className="text-white">
+                          {formatSelectionText(
+                            event.betSelection.selectedSide,
+                            event.betSelection.bet.betType,
+                            event.betSelection.bet.config,
+                            event.betSelection.game,
+                            event.betSelection.outcome
+                          )}
+                        </span>
+                        {event.betSelection.outcome && (
+                          <span className={`px-1 py-0.5 rounded font-bold uppercase ${outcomeClass(event.betSelection.outcome)}`}>
+                            {event.betSelection.outcome}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,65 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import type { GameUpdateEvent } from '@shared/types';
+import { useAuth } from './AuthContext';
+import { useSocket } from './SocketContext';
 import type { BetsContextType } from '../interfaces';
 
 const BetsContext = createContext<BetsContextType | undefined>(undefined);
 
 export function BetsProvider({ children }: { children: ReactNode }) {
+  const { socket } = useSocket();
+  const { updateUser } = useAuth();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [liveGames, setLiveGames] = useState<Record<string, GameUpdateEvent>>({});
+  const watchedGameIds = useRef<string[]>([]);
 
-  const triggerRefresh = () => {
+  const triggerRefresh = useCallback(() => {
     setRefreshTrigger(prev => prev + 1);
-  };
+  }, []);
+
+  // Swap the set of games we get live updates for
+  const watchGames = useCallback((gameIds: string[]) => {
+    if (socket) {
+      const dropped = watchedGameIds.current.filter(id => !gameIds.includes(id));
+      if (dropped.length > 0) socket.emit('games:unwatch', dropped);
+      if (gameIds.length > 0) socket.emit('games:watch', gameIds);
+    }
+    watchedGameIds.current = gameIds;
+  }, [socket]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Rooms don't survive a reconnect, so rejoin the games we're watching
+    const handleConnect = () => {
+      if (watchedGameIds.current.length > 0) {
+        socket.emit('games:watch', watchedGameIds.current);
+      }
+    };
+
+    const handleGameUpdate = (event: GameUpdateEvent) => {
+      setLiveGames(prev => ({ ...prev, [event.gameId]: event }));
+    };
+
+    socket.on('connect', handleConnect);
+    socket.on('game:update', handleGameUpdate);
+    socket.on('bet:resolved', triggerRefresh);
+    socket.on('selection:resolved', triggerRefresh);
+    socket.on('parlay:locked', triggerRefresh);
+    socket.on('parlay:settled', triggerRefresh);
+    socket.on('streak:updated', updateUser);
+
+    return () => {
+      socket.off('connect', handleConnect);
+      socket.off('game:update', handleGameUpdate);
+      socket.off('bet:resolved', triggerRefresh);
+      socket.off('selection:resolved', triggerRefresh);
+      socket.off('parlay:locked', triggerRefresh);
+      socket.off('parlay:settled', triggerRefresh);
+      socket.off('streak:updated', updateUser);
+    };
+  }, [socket, triggerRefresh, updateUser]);
 
   return (
     <BetsContext.Provider
@@ -18,6 +68,8 @@ export function BetsProvider({ children }: { children: ReactNode }) {
         triggerRefresh,
         selectedDate,
         setSelectedDate,
+        liveGames,
+        watchGames,
       }}
     >
       {children}
@@ -32,4 +84,3 @@ export function useBets() {
   }
   return context;
 }
-
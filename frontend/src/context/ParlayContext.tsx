@@ -1,10 +1,13 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { ParlayLockedEvent } from '@shared/types';
+import { useSocket } from './SocketContext';
 import { api } from '../services/api';
 import type { Parlay, ParlayContextType } from '../interfaces';
 
 const ParlayContext = createContext<ParlayContextType | undefined>(undefined);
 
 export function ParlayProvider({ children }: { children: ReactNode }) {
+  const { socket } = useSocket();
   const [activeParlay, setActiveParlay] = useState<Parlay | null>(null);
   const [isParlayBuilderOpen, setIsParlayBuilderOpen] = useState(false);
 
@@ -21,6 +24,25 @@ export function ParlayProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Keep the open parlay in step when the server locks or settles it
+  useEffect(() => {
+    if (!socket || !activeParlay) return;
+
+    const handleParlayEvent = (event: ParlayLockedEvent) => {
+      if (event.parlayId === activeParlay.id) {
+        refreshActiveParlay();
+      }
+    };
+
+    socket.on('parlay:locked', handleParlayEvent);
+    socket.on('parlay:settled', handleParlayEvent);
+
+    return () => {
+      socket.off('parlay:locked', handleParlayEvent);
+      socket.off('parlay:settled', handleParlayEvent);
+    };
+  }, [socket, activeParlay]);
+
   return (
     <ParlayContext.Provider
       value={{
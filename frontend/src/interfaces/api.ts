@@ -11,3 +11,11 @@ export interface ApiResponse<T = any> {
   };
 }
 
+// The slate a bulk bet request applies templates to
+export interface BulkBetRequest {
+  templateIds: string[];
+  date: string; // YYYY-MM-DD, local
+  sport: string;
+  league: string;
+  timezoneOffset?: number;
+}
@@ -10,6 +10,8 @@ export interface Bet {
   outcome?: string;
   config?: any;
   displayTextOverride?: string;
+  needsAdminResolution?: boolean;
+  adminResolutionNotes?: string | null;
 }
 
 export interface BetSelection {
@@ -5,6 +5,9 @@
 import { Game, HistoricalGame } from './game';
 import { Bet, BetSelection } from './bet';
 import { Parlay, ParlaySelection } from './parlay';
+import { StreakGroup } from './streak';
+import type { SingleBetRules } from '@shared/types';
+import type { BulkBetResult } from '@shared/types/bets';
 
 export interface HeaderProps {
   // Add props if needed
@@ -85,6 +88,11 @@ export interface SingleBetCardProps {
   deletingId: string | null;
   onStartParlay: (selectionId: string, betId: string, selectedSide: string) => void;
   onDelete: (selectionId: string) => void;
+  singleBetRules?: SingleBetRules; // Shows what the pick is worth while it's open
+}
+
+export interface StreakHistoryCardProps {
+  group: StreakGroup;
 }
 
 export interface BetSelectionCardProps {
@@ -120,7 +128,10 @@ export interface BetListItemProps {
   onEdit: (bet: Bet, game: Game) => void;
   onDelete: (bet: Bet, game: Game) => void;
   onResolve: (bet: Bet) => void;
+  onSetResult: (bet: Bet, game: Game) => void;
   onMovePriority: (gameId: string, betId: string, direction: 'up' | 'down') => void;
+  canCreateBets: boolean;
+  canResolveBets: boolean;
   resolvingBet: string | null;
   formatResolvedBetText: (bet: Bet, game: Game) => string;
 }
@@ -130,17 +141,36 @@ export interface GameCardProps {
   isExpanded: boolean;
   onToggle: (gameId: string) => void;
   onCreateBets: (game: Game) => void;
-  onQuickMoneyline: (game: Game) => void;
+  onGenerateStandardBets: (game: Game) => void;
   onEditBet: (bet: Bet, game: Game) => void;
   onForceRefresh: (gameId: string) => void;
   onDeleteBet: (bet: Bet, game: Game) => void;
   onResolveBet: (bet: Bet) => void;
+  onSetBetResult: (bet: Bet, game: Game) => void;
   onMoveBetPriority: (gameId: string, betId: string, direction: 'up' | 'down') => void;
-  creatingMoneyline: string | null;
+  canCreateBets: boolean;
+  canResolveBets: boolean;
+  generatingStandardBets: string | null; // Game id, or 'all' for the whole slate
   loadingRoster: boolean;
   resolvingBet: string | null;
 }
 
+export interface ManualResolveModalProps {
+  bet: Bet;
+  game: Game;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+export interface BulkBetModalProps {
+  games: Game[];
+  date: string;
+  sport: string;
+  league: string;
+  onClose: () => void;
+  onBetsCreated: (result: BulkBetResult) => void;
+}
+
 export interface GameFiltersProps {
   selectedDate: string;
   sportsConfig: Array<{
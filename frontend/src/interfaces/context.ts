@@ -2,6 +2,8 @@
  * Context-related interfaces for the frontend
  */
 
+import type { Socket } from 'socket.io-client';
+import type { ClientToServerEvents, GameRuleset, GameUpdateEvent, ServerToClientEvents } from '@shared/types';
 import { User } from './user';
 import { Parlay } from './parlay';
 
@@ -12,6 +14,13 @@ export interface AuthContextType {
   register: (username: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
+  updateUser: (fields: Partial<User>) => void;
+}
+
+export type RealtimeSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export interface SocketContextType {
+  socket: RealtimeSocket | null;
 }
 
 export interface ParlayContextType {
@@ -27,5 +36,14 @@ export interface BetsContextType {
   triggerRefresh: () => void;
   selectedDate: string | null;
   setSelectedDate: (date: string | null) => void;
+  liveGames: Record<string, GameUpdateEvent>;
+  watchGames: (gameIds: string[]) => void;
 }
 
+
+export interface RulesContextType {
+  rulesets: Record<number, GameRuleset>; // Loaded versions
+  activeVersion: number | null;
+  loadRuleset: (version: number) => void;
+  refreshRules: () => Promise<void>;
+}
@@ -6,6 +6,7 @@ export * from './user';
 export * from './game';
 export * from './bet';
 export * from './parlay';
+export * from './streak';
 export * from './api';
 export * from './context';
 export * from './components';
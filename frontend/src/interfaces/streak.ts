@@ -0,0 +1,11 @@
+/**
+ * Streak history interfaces for the frontend
+ */
+
+import type { StreakRun, StreakRunEvent } from '@shared/types';
+import type { Parlay } from './parlay';
+import type { BetSelection } from './bet';
+
+export type StreakEvent = StreakRunEvent<Parlay, BetSelection>;
+
+export type StreakGroup = StreakRun<Parlay, BetSelection>;
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import type { LeaderboardBoard, LeaderboardWindow } from '@shared/types';
+import { api } from '../services/api';
+import { getTimezoneOffset } from '../utils/formatting';
+import { Header } from '../components/layout/Header';
+import { Footer } from '../components/layout/Footer';
+import { LeaderboardPanel } from '../components/leaderboard/LeaderboardPanel';
+
+export function Leaderboards() {
+  const fetchLeaderboard = useCallback(
+    (board: LeaderboardBoard, window: LeaderboardWindow, page: number) =>
+      api.getLeaderboard(board, window, page, getTimezoneOffset()),
+    []
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Leaderboards" />
+
+      <main className="flex-1 w-full max-w-4xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto">
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">Leaderboards</h1>
+          <p className="text-sm sm:text-base text-slate-400">See how your streaks stack up</p>
+        </div>
+
+        <LeaderboardPanel fetchLeaderboard={fetchLeaderboard} />
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
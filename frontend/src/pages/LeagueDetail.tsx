@@ -0,0 +1,360 @@
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import type { LeaderboardBoard, LeaderboardWindow, LeagueActivityItem, LeagueDetail as League, LeagueMember } from '@shared/types';
+import { validateLeagueName } from '@shared/validation/league';
+import { describeStreakChange } from '@shared/utils/streakActivity';
+import { useAuth } from '../context/AuthContext';
+import { api } from '../services/api';
+import { getTimezoneOffset } from '../utils/formatting';
+import { Header } from '../components/layout/Header';
+import { Footer } from '../components/layout/Footer';
+import { ConfirmModal } from '../components/common/ConfirmModal';
+import { LeaderboardPanel } from '../components/leaderboard/LeaderboardPanel';
+
+type LeagueTab = 'leaderboard' | 'activity' | 'members';
+
+const TABS: Array<{ value: LeagueTab; label: string }> = [
+  { value: 'leaderboard', label: 'Leaderboard' },
+  { value: 'activity', label: 'Activity' },
+  { value: 'members', label: 'Members' },
+];
+
+export function LeagueDetail() {
+  const { leagueId = '' } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<LeagueTab>('leaderboard');
+
+  const [activity, setActivity] = useState<LeagueActivityItem[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loadingActivity, setLoadingActivity] = useState(false);
+
+  const [editingName, setEditingName] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [nameError, setNameError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<LeagueMember | null>(null);
+
+  useEffect(() => {
+    const loadLeague = async () => {
+      try {
+        const response = await api.getLeague(leagueId);
+        if (response.success && response.data) {
+          setLeague(response.data.league);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load league');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLeague();
+  }, [leagueId]);
+
+  const loadActivity = useCallback(async (before?: string) => {
+    setLoadingActivity(true);
+    try {
+      const response = await api.getLeagueActivity(leagueId, before);
+      if (response.success && response.data) {
+        const { activity: items, nextBefore: next } = response.data;
+        setActivity(prev => (before ? [...prev, ...items] : items));
+        setNextBefore(next);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load activity');
+    } finally {
+      setLoadingActivity(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    if (tab === 'activity') {
+      loadActivity();
+    }
+  }, [tab, loadActivity]);
+
+  const fetchLeaderboard = useCallback(
+    (board: LeaderboardBoard, window: LeaderboardWindow, page: number) =>
+      api.getLeagueLeaderboard(leagueId, board, window, page, getTimezoneOffset()),
+    [leagueId]
+  );
+
+  const handleRename = async (e: FormEvent) => {
+    e.preventDefault();
+    setNameError('');
+
+    const validationError = validateLeagueName(newName);
+    if (validationError) {
+      setNameError(validationError);
+      return;
+    }
+
+    try {
+      const response = await api.renameLeague(leagueId, newName.trim());
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+        setEditingName(false);
+      }
+    } catch (err: any) {
+      setNameError(err.message || 'Failed to rename league');
+    }
+  };
+
+  const handleCopyCode = async () => {
+    if (!league) return;
+    try {
+      await navigator.clipboard.writeText(league.inviteCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy invite code:', err);
+    }
+  };
+
+  const handleRegenerateCode = async () => {
+    try {
+      const response = await api.regenerateLeagueInviteCode(leagueId);
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to reissue invite code');
+    }
+  };
+
+  const handleLeave = async () => {
+    setConfirmLeave(false);
+    try {
+      await api.leaveLeague(leagueId);
+      navigate('/leagues');
+    } catch (err: any) {
+      setError(err.message || 'Failed to leave league');
+    }
+  };
+
+  const handleRemoveMember = async () => {
+    if (!memberToRemove) return;
+    const member = memberToRemove;
+    setMemberToRemove(null);
+    try {
+      const response = await api.removeLeagueMember(leagueId, member.userId);
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove member');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Leagues" />
+
+      <main className="flex-1 w-full max-w-4xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto">
+        <Link to="/leagues" className="text-sm text-slate-400 hover:text-slate-200 transition">
+          ← All leagues
+        </Link>
+
+        {loading ? (
+          <p className="py-12 text-center text-slate-400">Loading...</p>
+        ) : !league ? (
+          <p className="py-12 text-center text-red-400">{error || 'League not found'}</p>
+        ) : (
+          <>
+            {/* League header */}
+            <div className="mt-4 mb-6 sm:mb-8">
+              {editingName ? (
+                <form onSubmit={handleRename} className="flex flex-col sm:flex-row gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    autoFocus
+                    className="flex-1 px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white font-semibold rounded-lg transition-colors"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingName(false)}
+                      className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex items-center gap-3 mb-2">
+                  <h1 className="text-2xl sm:text-3xl font-bold text-white">{league.name}</h1>
+                  {league.isOwner && (
+                    <button
+                      onClick={() => {
+                        setNewName(league.name);
+                        setNameError('');
+                        setEditingName(true);
+                      }}
+                      className="text-sm text-slate-400 hover:text-slate-200 transition"
+                    >
+                      Rename
+                    </button>
+                  )}
+                </div>
+              )}
+              {nameError && <p className="text-red-400 text-sm mb-2">{nameError}</p>}
+
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-slate-400">Invite code</span>
+                <span className="px-3 py-1 bg-slate-800 text-white font-mono tracking-widest rounded-lg">
+                  {league.inviteCode}
+                </span>
+                <button onClick={handleCopyCode} className="text-orange-400 hover:text-orange-300 transition">
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+                {league.isOwner && (
+                  <button onClick={handleRegenerateCode} className="text-slate-400 hover:text-slate-200 transition">
+                    New code
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-900/20 border border-red-800 rounded-lg p-3 mb-4">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Tabs */}
+            <div className="flex gap-2 mb-6 border-b border-slate-800">
+              {TABS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setTab(option.value)}
+                  className={`px-4 py-2 -mb-px border-b-2 font-medium transition ${
+                    tab === option.value
+                      ? 'border-orange-600 text-white'
+                      : 'border-transparent text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'leaderboard' && <LeaderboardPanel fetchLeaderboard={fetchLeaderboard} />}
+
+            {tab === 'activity' && (
+              <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+                {activity.length === 0 && !loadingActivity ? (
+                  <p className="px-4 py-8 text-center text-slate-400">No activity yet</p>
+                ) : (
+                  <div className="divide-y divide-slate-800">
+                    {activity.map(item => (
+                      <div key={item.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                        <p className="text-slate-200 min-w-0">
+                          <span className="font-semibold text-white">{item.username}</span>{' '}
+                          {describeStreakChange(item)}
+                        </p>
+                        <span className="text-xs text-slate-500 whitespace-nowrap">
+                          {new Date(item.eventTime).toLocaleDateString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {loadingActivity && <p className="px-4 py-4 text-center text-slate-400">Loading...</p>}
+                {nextBefore && !loadingActivity && (
+                  <button
+                    onClick={() => loadActivity(nextBefore)}
+                    className="w-full px-4 py-3 text-sm text-orange-400 hover:bg-slate-800/50 transition border-t border-slate-800"
+                  >
+                    Load more
+                  </button>
+                )}
+              </div>
+            )}
+
+            {tab === 'members' && (
+              <div className="bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+                <div className="divide-y divide-slate-800">
+                  {league.members.map(member => (
+                    <div key={member.userId} className="flex items-center justify-between gap-4 px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="text-white font-semibold truncate">
+                          {member.username}
+                          {member.userId === league.ownerId && (
+                            <span className="ml-2 text-xs text-orange-400">Owner</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          🔥 {member.currentStreak} · 👑 {member.longestStreak}
+                        </p>
+                      </div>
+                      {league.isOwner && member.userId !== user?.id && (
+                        <button
+                          onClick={() => setMemberToRemove(member)}
+                          className="text-sm text-red-400 hover:text-red-300 transition"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-8">
+              <button
+                onClick={() => setConfirmLeave(true)}
+                className="px-4 py-2 bg-slate-800 text-red-400 rounded-lg hover:bg-slate-700 transition"
+              >
+                Leave League
+              </button>
+            </div>
+          </>
+        )}
+      </main>
+
+      <Footer />
+
+      <ConfirmModal
+        isOpen={confirmLeave}
+        title="Leave League"
+        message={
+          league?.isOwner && league.members.length > 1
+            ? 'Ownership will pass to the longest-standing member.'
+            : league?.members.length === 1
+              ? "You're the last member, so the league will be deleted."
+              : 'You can rejoin later with the invite code.'
+        }
+        confirmText="Leave"
+        variant="danger"
+        onConfirm={handleLeave}
+        onCancel={() => setConfirmLeave(false)}
+      />
+
+      <ConfirmModal
+        isOpen={!!memberToRemove}
+        title="Remove Member"
+        message={`Remove ${memberToRemove?.username} from ${league?.name}? Issue a new invite code if you don't want them to rejoin.`}
+        confirmText="Remove"
+        variant="danger"
+        onConfirm={handleRemoveMember}
+        onCancel={() => setMemberToRemove(null)}
+      />
+    </div>
+  );
+}
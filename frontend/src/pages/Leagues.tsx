@@ -0,0 +1,185 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { LeagueSummary } from '@shared/types';
+import { validateLeagueName } from '@shared/validation/league';
+import { api } from '../services/api';
+import { Header } from '../components/layout/Header';
+import { Footer } from '../components/layout/Footer';
+
+export function Leagues() {
+  const navigate = useNavigate();
+  const [leagues, setLeagues] = useState<LeagueSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [leagueName, setLeagueName] = useState('');
+  const [createError, setCreateError] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const [inviteCode, setInviteCode] = useState('');
+  const [joinError, setJoinError] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    const loadLeagues = async () => {
+      try {
+        const response = await api.getLeagues();
+        if (response.success && response.data) {
+          setLeagues(response.data.leagues);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load leagues');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLeagues();
+  }, []);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setCreateError('');
+
+    const validationError = validateLeagueName(leagueName);
+    if (validationError) {
+      setCreateError(validationError);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await api.createLeague(leagueName.trim());
+      if (response.success && response.data) {
+        navigate(`/leagues/${response.data.league.id}`);
+      }
+    } catch (err: any) {
+      setCreateError(err.message || 'Failed to create league');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleJoin = async (e: FormEvent) => {
+    e.preventDefault();
+    setJoinError('');
+
+    if (!inviteCode.trim()) {
+      setJoinError('Enter an invite code');
+      return;
+    }
+
+    setJoining(true);
+    try {
+      const response = await api.joinLeague(inviteCode);
+      if (response.success && response.data) {
+        navigate(`/leagues/${response.data.league.id}`);
+      }
+    } catch (err: any) {
+      setJoinError(err.message || 'Failed to join league');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Leagues" />
+
+      <main className="flex-1 w-full max-w-4xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto">
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">Leagues</h1>
+          <p className="text-sm sm:text-base text-slate-400">Compete with friends on your own leaderboards</p>
+        </div>
+
+        {/* My Leagues */}
+        <div className="bg-slate-900 rounded-lg border border-slate-800 mb-6 overflow-hidden">
+          {loading ? (
+            <p className="px-4 py-8 text-center text-slate-400">Loading...</p>
+          ) : error ? (
+            <p className="px-4 py-8 text-center text-red-400">{error}</p>
+          ) : leagues.length === 0 ? (
+            <p className="px-4 py-8 text-center text-slate-400">
+              You're not in any leagues yet. Create one or join with an invite code.
+            </p>
+          ) : (
+            <div className="divide-y divide-slate-800">
+              {leagues.map(league => (
+                <Link
+                  key={league.id}
+                  to={`/leagues/${league.id}`}
+                  className="flex items-center justify-between px-4 py-4 hover:bg-slate-800/50 transition"
+                >
+                  <div className="min-w-0">
+                    <p className="text-white font-semibold truncate">{league.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {league.memberCount} {league.memberCount === 1 ? 'member' : 'members'}
+                      {league.isOwner && ' · Owner'}
+                    </p>
+                  </div>
+                  <span className="text-slate-500">›</span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          {/* Create League */}
+          <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+            <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Create a League</h2>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <input
+                type="text"
+                value={leagueName}
+                onChange={(e) => setLeagueName(e.target.value)}
+                placeholder="League name"
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent"
+              />
+              {createError && (
+                <div className="bg-red-900/20 border border-red-800 rounded-lg p-3">
+                  <p className="text-red-400 text-sm">{createError}</p>
+                </div>
+              )}
+              <button
+                type="submit"
+                disabled={creating}
+                className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {creating ? 'Creating...' : 'Create League'}
+              </button>
+            </form>
+          </div>
+
+          {/* Join League */}
+          <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+            <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Join a League</h2>
+            <form onSubmit={handleJoin} className="space-y-4">
+              <input
+                type="text"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                placeholder="Invite code"
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent"
+              />
+              {joinError && (
+                <div className="bg-red-900/20 border border-red-800 rounded-lg p-3">
+                  <p className="text-red-400 text-sm">{joinError}</p>
+                </div>
+              )}
+              <button
+                type="submit"
+                disabled={joining}
+                className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {joining ? 'Joining...' : 'Join League'}
+              </button>
+            </form>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,9 +1,19 @@
-import { useState, FormEvent } from 'react';
+import { useState, useEffect, FormEvent } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { api } from '../services/api';
 import { validateUsername, validateEmail, validatePassword } from '@shared/validation/auth';
 import { Header } from '../components/layout/Header';
 import { Footer } from '../components/layout/Footer';
+import { StreakHistoryCard } from '../components/profile/StreakHistoryCard';
+import type { StreakGroup } from '../interfaces';
+import type { EmailPreferences, EmailPreferenceType } from '@shared/types';
+
+const EMAIL_PREFERENCE_OPTIONS: Array<{ key: EmailPreferenceType; label: string; description: string }> = [
+  { key: 'parlayResults', label: 'Parlay results', description: 'When one of your parlays wins, loses or pushes' },
+  { key: 'streakMilestones', label: 'Streak milestones', description: 'When your streak reaches 5, 10, 25 and beyond' },
+  { key: 'insuranceAlerts', label: 'Insurance alerts', description: 'When insurance saves your streak' },
+  { key: 'dailyDigest', label: 'Daily digest', description: "An evening email with tomorrow's available bets" },
+];
 
 export function Settings() {
   const { user, checkAuth } = useAuth();
@@ -24,6 +34,64 @@ export function Settings() {
   const [updatingEmail, setUpdatingEmail] = useState(false);
   const [updatingPassword, setUpdatingPassword] = useState(false);
 
+  const [emailPreferences, setEmailPreferences] = useState<EmailPreferences | null>(null);
+  const [emailPreferencesError, setEmailPreferencesError] = useState('');
+
+  const [streakGroups, setStreakGroups] = useState<StreakGroup[]>([]);
+  const [streakPage, setStreakPage] = useState(0);
+  const [hasMoreStreaks, setHasMoreStreaks] = useState(false);
+  const [loadingStreaks, setLoadingStreaks] = useState(true);
+  const [streakError, setStreakError] = useState('');
+
+  const loadStreakHistory = async (page: number) => {
+    setLoadingStreaks(true);
+    setStreakError('');
+    try {
+      const response = await api.getStreakHistory(page);
+      if (response.success && response.data) {
+        const { runs, hasMore } = response.data;
+        setStreakGroups(prev => (page === 1 ? runs : [...prev, ...runs]));
+        setStreakPage(page);
+        setHasMoreStreaks(hasMore);
+      }
+    } catch (err: any) {
+      setStreakError(err.message || 'Failed to load streak history');
+    } finally {
+      setLoadingStreaks(false);
+    }
+  };
+
+  useEffect(() => {
+    api.getEmailPreferences()
+      .then(response => {
+        if (response.success && response.data) {
+          setEmailPreferences(response.data.preferences);
+        }
+      })
+      .catch((err: any) => setEmailPreferencesError(err.message || 'Failed to load email preferences'));
+
+    loadStreakHistory(1);
+  }, []);
+
+  const handleToggleEmailPreference = async (key: EmailPreferenceType) => {
+    if (!emailPreferences) return;
+
+    // Update optimistically and roll back if the request fails
+    const previous = emailPreferences;
+    setEmailPreferences({ ...previous, [key]: !previous[key] });
+    setEmailPreferencesError('');
+
+    try {
+      const response = await api.updateEmailPreferences({ [key]: !previous[key] });
+      if (response.success && response.data) {
+        setEmailPreferences(response.data.preferences);
+      }
+    } catch (err: any) {
+      setEmailPreferences(previous);
+      setEmailPreferencesError(err.message || 'Failed to update email preferences');
+    }
+  };
+
   const handleUpdateUsername = async (e: FormEvent) => {
     e.preventDefault();
     setUsernameError('');
@@ -292,6 +360,72 @@ export function Settings() {
             </div>
           )}
 
+          {/* Streak History Section */}
+          <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+            <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Streak History</h2>
+            <div className="space-y-3">
+              {streakGroups.map(group => (
+                <StreakHistoryCard key={group.id} group={group} />
+              ))}
+            </div>
+            {!loadingStreaks && !streakError && streakGroups.length === 0 && (
+              <p className="text-sm text-slate-400">No streaks yet. Win a bet or parlay to start one.</p>
+            )}
+            {loadingStreaks && streakGroups.length === 0 && (
+              <p className="text-sm text-slate-400">Loading...</p>
+            )}
+            {streakError && (
+              <div className="mt-4 bg-red-900/20 border border-red-800 rounded-lg p-3">
+                <p className="text-red-400 text-sm">{streakError}</p>
+              </div>
+            )}
+            {hasMoreStreaks && (
+              <button
+                type="button"
+                onClick={() => loadStreakHistory(streakPage + 1)}
+                disabled={loadingStreaks}
+                className="mt-4 w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loadingStreaks ? 'Loading...' : 'Load More'}
+              </button>
+            )}
+          </div>
+
+          {/* Email Notifications Section */}
+          <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+            <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Email Notifications</h2>
+            {user && !user.emailVerified && (
+              <p className="mb-4 text-xs text-orange-400">
+                ⚠️ We only send these emails once your email address is verified.
+              </p>
+            )}
+            {emailPreferences ? (
+              <div className="space-y-3">
+                {EMAIL_PREFERENCE_OPTIONS.map(option => (
+                  <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={emailPreferences[option.key]}
+                      onChange={() => handleToggleEmailPreference(option.key)}
+                      className="mt-1 h-4 w-4 accent-orange-600"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-slate-300">{option.label}</span>
+                      <span className="block text-xs text-slate-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              !emailPreferencesError && <p className="text-sm text-slate-400">Loading...</p>
+            )}
+            {emailPreferencesError && (
+              <div className="mt-4 bg-red-900/20 border border-red-800 rounded-lg p-3">
+                <p className="text-red-400 text-sm">{emailPreferencesError}</p>
+              </div>
+            )}
+          </div>
+
           {user && !user.emailVerified && (
             <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
               <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Password</h2>
@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import type { EmailPreferenceType } from '@shared/types';
+import { api } from '../services/api';
+import { Footer } from '../components/layout/Footer';
+
+const EMAIL_TYPE_LABELS: Record<EmailPreferenceType, string> = {
+  parlayResults: 'parlay result',
+  streakMilestones: 'streak milestone',
+  insuranceAlerts: 'insurance',
+  dailyDigest: 'daily digest',
+};
+
+export function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'unsubscribing' | 'success' | 'error'>('unsubscribing');
+  const [type, setType] = useState<EmailPreferenceType | null>(null);
+  const [error, setError] = useState('');
+  // Only submit the token once, even if the effect runs again
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('error');
+      setError('No unsubscribe token provided');
+      return;
+    }
+    if (submitted.current) return;
+    submitted.current = true;
+
+    api.unsubscribeFromEmail(token)
+      .then(response => {
+        if (response.success && response.data) {
+          setType(response.data.type);
+          setStatus('success');
+        } else {
+          setStatus('error');
+          setError(response.error?.message || 'Failed to unsubscribe');
+        }
+      })
+      .catch((err: any) => {
+        setStatus('error');
+        setError(err.message || 'Failed to unsubscribe');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <div className="flex-1 flex items-center justify-center px-4 py-6 sm:py-12">
+        <div className="max-w-md w-full">
+          <div className="bg-slate-900 rounded-lg shadow-xl p-6 sm:p-8 border border-slate-800">
+            {status === 'unsubscribing' && (
+              <div className="text-center">
+                <div className="text-5xl sm:text-6xl mb-4">📧</div>
+                <h1 className="text-xl sm:text-2xl font-bold text-white mb-2">Unsubscribing</h1>
+                <p className="text-sm sm:text-base text-slate-400">Please wait while we update your email preferences...</p>
+              </div>
+            )}
+
+            {status === 'success' && (
+              <div className="text-center">
+                <div className="text-5xl sm:text-6xl mb-4">✅</div>
+                <h1 className="text-xl sm:text-2xl font-bold text-green-500 mb-2">Unsubscribed</h1>
+                <p className="text-sm sm:text-base text-slate-400 mb-4">
+                  You won't receive {type ? EMAIL_TYPE_LABELS[type] : 'these'} emails anymore.
+                </p>
+                <p className="text-xs sm:text-sm text-slate-500">
+                  You can turn them back on any time from your settings.
+                </p>
+              </div>
+            )}
+
+            {status === 'error' && (
+              <div className="text-center">
+                <div className="text-5xl sm:text-6xl mb-4">❌</div>
+                <h1 className="text-xl sm:text-2xl font-bold text-red-500 mb-2">Unsubscribe Failed</h1>
+                <p className="text-sm sm:text-base text-slate-400">{error}</p>
+              </div>
+            )}
+
+            {status !== 'unsubscribing' && (
+              <div className="mt-6 pt-6 border-t border-slate-800 text-center">
+                <Link
+                  to="/settings"
+                  className="text-orange-500 hover:text-orange-400 text-sm"
+                >
+                  Manage Email Preferences
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
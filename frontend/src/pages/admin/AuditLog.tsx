@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AuditAction, AuditLogEntry, AuditLogFilters } from '@shared/types';
+import { api } from '../../services/api';
+import { Header } from '../../components/layout/Header';
+import { Footer } from '../../components/layout/Footer';
+import { formatDateWithTime } from '../../utils/formatting';
+
+const INPUT_CLASS = 'w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'bet.create': 'Created bet',
+  'bet.update': 'Edited bet',
+  'bet.delete': 'Deleted bet',
+  'bet.resolve': 'Resolved bet',
+  'bet.reopen': 'Reopened bet',
+  'bet.correct': 'Corrected bet result',
+  'bet_template.create': 'Created bet template',
+  'bet_template.delete': 'Deleted bet template',
+  'game.fetch': 'Fetched games',
+  'game.reorder_bets': 'Reordered bets',
+  'job.run': 'Ran job',
+  'ruleset.publish': 'Published rules',
+  'user.grant_role': 'Granted role',
+  'user.revoke_role': 'Revoked role',
+  'user.recalculate_streak': 'Recalculated streak',
+};
+
+const FILTER_FIELDS: Array<{ key: keyof AuditLogFilters; label: string; type: 'text' | 'date' }> = [
+  { key: 'betId', label: 'Bet ID', type: 'text' },
+  { key: 'gameId', label: 'Game ID', type: 'text' },
+  { key: 'userId', label: 'User ID', type: 'text' },
+  { key: 'from', label: 'From (UTC)', type: 'date' },
+  { key: 'to', label: 'To (UTC)', type: 'date' },
+];
+
+// Long values (configs, game lists) are cut short - the full value is in the tooltip
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+export function AuditLog() {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [draftFilters, setDraftFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async (activeFilters: AuditLogFilters, pageNumber: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getAuditLog(activeFilters, pageNumber);
+      if (response.success && response.data) {
+        setEntries(response.data.entries);
+        setTotal(response.data.total);
+        setHasMore(response.data.hasMore);
+      } else {
+        setError(response.error?.message || 'Failed to load audit log');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries(filters, page);
+  }, [loadEntries, filters, page]);
+
+  const applyFilters = (next: AuditLogFilters) => {
+    setDraftFilters(next);
+    setFilters(next);
+    setPage(1);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed: AuditLogFilters = {};
+    for (const { key } of FILTER_FIELDS) {
+      const value = draftFilters[key]?.trim();
+      if (value) trimmed[key] = value;
+    }
+    applyFilters(trimmed);
+  };
+
+  const filterChip = (key: 'betId' | 'gameId' | 'userId', id: string, label: string) => (
+    <button
+      type="button"
+      onClick={() => applyFilters({ ...filters, [key]: id })}
+      className="px-2 py-0.5 text-xs rounded bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+      title={`Show only entries for ${label.toLowerCase()} ${id}`}
+    >
+      {label} {id.slice(0, 8)}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Admin: Audit Log" />
+
+      <main className="flex-1 w-full max-w-5xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto space-y-6">
+        <form onSubmit={handleSubmit} className="bg-slate-900 rounded-lg p-4 border border-slate-800">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {FILTER_FIELDS.map(({ key, label, type }) => (
+              <label key={key} className="flex flex-col gap-1 text-xs text-slate-500">
+                {label}
+                <input
+                  type={type}
+                  value={draftFilters[key] ?? ''}
+                  onChange={(e) => setDraftFilters(prev => ({ ...prev, [key]: e.target.value }))}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              type="button"
+              onClick={() => applyFilters({})}
+              className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition text-sm"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-medium text-sm"
+            >
+              Filter
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+          <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">
+            {total} entr{total !== 1 ? 'ies' : 'y'}
+          </h2>
+
+          {loading ? (
+            <p className="text-slate-400">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-slate-400">No admin changes match these filters.</p>
+          ) : (
+            <div className="divide-y divide-slate-800">
+              {entries.map(entry => (
+                <div key={entry.id} className="py-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium text-white">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                    <span className="text-slate-400">by</span>
+                    {entry.actorId ? (
+                      <button
+                        type="button"
+                        onClick={() => applyFilters({ ...filters, userId: entry.actorId! })}
+                        className="text-orange-400 hover:text-orange-300"
+                      >
+                        {entry.actorUsername ?? entry.actorId}
+                      </button>
+                    ) : (
+                      <span className="text-slate-500">deleted user</span>
+                    )}
+                    <span className="text-slate-500">{formatDateWithTime(entry.createdAt)}</span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {entry.betId && filterChip('betId', entry.betId, 'Bet')}
+                    {entry.gameId && filterChip('gameId', entry.gameId, 'Game')}
+                    {entry.targetType === 'user' && entry.targetId && filterChip('userId', entry.targetId, 'User')}
+                    {(entry.targetType === 'job' || entry.targetType === 'ruleset') && entry.targetId && (
+                      <span className="px-2 py-0.5 text-xs rounded bg-slate-800 text-slate-400">
+                        {entry.targetType === 'job' ? entry.targetId : `Version ${entry.targetId}`}
+                      </span>
+                    )}
+                    <span className="px-2 py-0.5 text-xs rounded text-slate-600" title="Request ID">
+                      {entry.requestId}
+                    </span>
+                  </div>
+
+                  <div className="mt-2 space-y-1">
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <div key={field} className="text-xs font-mono flex flex-wrap gap-x-2">
+                        <span className="text-slate-400">{field}:</span>
+                        <span className="text-red-400 break-all" title={JSON.stringify(change.before)}>
+                          {formatValue(change.before)}
+                        </span>
+                        <span className="text-slate-600">→</span>
+                        <span className="text-green-400 break-all" title={JSON.stringify(change.after)}>
+                          {formatValue(change.after)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {(page > 1 || hasMore) && (
+            <div className="flex justify-between items-center mt-4">
+              <button
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={page === 1 || loading}
+                className="px-3 py-1.5 text-sm bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 disabled:opacity-40 transition"
+              >
+                ← Newer
+              </button>
+              <span className="text-sm text-slate-500">Page {page}</span>
+              <button
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={!hasMore || loading}
+                className="px-3 py-1.5 text-sm bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 disabled:opacity-40 transition"
+              >
+                Older →
+              </button>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
+import { hasAnyPermission } from '@shared/utils/permissions';
 import { api } from '../../services/api';
 import { Header } from '../../components/layout/Header';
 import { Footer } from '../../components/layout/Footer';
@@ -9,7 +11,10 @@ import { ConfirmModal } from '../../components/common/ConfirmModal';
 import { BetListItem } from '../../components/admin/BetListItem';
 import { GameCard } from '../../components/admin/GameCard';
 import { GameFilters } from '../../components/admin/GameFilters';
+import { BulkBetModal } from '../../components/admin/BulkBetModal';
+import { ManualResolveModal } from '../../components/admin/ManualResolveModal';
 import type { Bet, Game, SportConfig } from '../../interfaces';
+import type { BulkBetResult } from '@shared/types/bets';
 
 
 
@@ -29,7 +34,10 @@ export function BetManagement() {
   const [editingBet, setEditingBet] = useState<{ bet: Bet; game: Game } | null>(null);
   const [deletingBet, setDeletingBet] = useState<{ bet: Bet; game: Game } | null>(null);
   const [resolvingBet, setResolvingBet] = useState<string | null>(null);
-  const [creatingMoneyline, setCreatingMoneyline] = useState<string | null>(null);
+  const [settingResultBet, setSettingResultBet] = useState<{ bet: Bet; game: Game } | null>(null);
+  const [generatingStandardBets, setGeneratingStandardBets] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showBulkBetModal, setShowBulkBetModal] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Load sports configuration on mount
@@ -272,57 +280,60 @@ export function BetManagement() {
     }
   };
 
-  const handleQuickMoneyline = async (game: Game) => {
-    if (creatingMoneyline) return; // Prevent multiple simultaneous creations
-
-    setCreatingMoneyline(game.id);
+  const handleBetResultSet = async () => {
+    setSettingResultBet(null);
     setError(null);
+    // Refresh games to show the updated bet outcome
+    await fetchGames();
+  };
 
-    try {
-      // Extract team IDs from game metadata
-      const metadata = (game as any).metadata;
-      const apiData = metadata?.apiData;
-      
-      const homeTeamId = apiData?.teams?.home?.id;
-      const awayTeamId = apiData?.teams?.away?.id;
+  // Creates the moneyline, spread and total for one game, or every game on the slate
+  const handleGenerateStandardBets = async (target: Game | 'all') => {
+    if (generatingStandardBets) return; // Prevent multiple simultaneous generations
 
-      if (!homeTeamId || !awayTeamId) {
-        setError('Game missing team IDs. Please refresh the game data first.');
-        setCreatingMoneyline(null);
-        return;
-      }
+    const gameIds = target === 'all' ? games.map(g => g.id) : [target.id];
+    if (gameIds.length === 0) return;
 
-      // Create moneyline bet config (home team vs away team, points, FULL_GAME)
-      const moneylineConfig = {
-        type: 'COMPARISON' as const,
-        participant_1: {
-          subject_type: 'TEAM' as const,
-          subject_id: homeTeamId,
-          subject_name: game.homeTeam,
-          metric: 'points',
-          time_period: 'FULL_GAME' as const
-        },
-        participant_2: {
-          subject_type: 'TEAM' as const,
-          subject_id: awayTeamId,
-          subject_name: game.awayTeam,
-          metric: 'points',
-          time_period: 'FULL_GAME' as const
-        },
-        operator: 'GREATER_THAN' as const
-      };
-
-      const response = await api.createBet(game.id, 'COMPARISON', moneylineConfig);
-      if (response.success) {
-        // Refresh games to show the new bet
-        await fetchGames();
+    setGeneratingStandardBets(target === 'all' ? 'all' : target.id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await api.generateStandardBets(gameIds);
+      if (response.success && response.data) {
+        const { created, existing, skipped } = response.data;
+        const summary = `Created ${created.length} bet${created.length !== 1 ? 's' : ''}` +
+          (existing.length > 0 ? ` (${existing.length} already posted)` : '');
+        setNotice(skipped.length > 0
+          ? `${summary}. Skipped: ${skipped.map(skip => {
+              const game = games.find(g => g.id === skip.gameId);
+              return `${game ? `${game.awayTeam} @ ${game.homeTeam}` : skip.gameId} ${skip.kind} (${skip.reason})`;
+            }).join('; ')}`
+          : summary);
+        if (created.length > 0) {
+          // Refresh games to show the new bets
+          await fetchGames();
+        }
       } else {
-        setError(response.error?.message || 'Failed to create moneyline bet');
+        setError(response.error?.message || 'Failed to generate standard bets');
       }
     } catch (error: any) {
-      setError(error.message || 'Failed to create moneyline bet');
+      setError(error.message || 'Failed to generate standard bets');
     } finally {
-      setCreatingMoneyline(null);
+      setGeneratingStandardBets(null);
+    }
+  };
+
+  const handleBulkBetsCreated = async (result: BulkBetResult) => {
+    setShowBulkBetModal(false);
+    setError(null);
+    const { created, existing, skipped } = result;
+    setNotice(`Created ${created.length} bet${created.length !== 1 ? 's' : ''} from templates` +
+      (existing.length > 0 ? ` (${existing.length} already posted)` : '') +
+      (skipped.length > 0 ? `, ${skipped.length} skipped` : ''));
+    if (created.length > 0) {
+      // Refresh games to show the new bets
+      await fetchGames();
     }
   };
 
@@ -400,6 +411,29 @@ export function BetManagement() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
+        <div className="flex justify-end gap-4 mb-4">
+          {hasAnyPermission(user?.permissions, 'create_bets') && (
+            <Link to="/admin/bet-templates" className="text-sm text-orange-400 hover:text-orange-300">
+              Bet Templates →
+            </Link>
+          )}
+          {hasAnyPermission(user?.permissions, 'view_audit_log') && (
+            <Link to="/admin/audit-log" className="text-sm text-orange-400 hover:text-orange-300">
+              Audit Log →
+            </Link>
+          )}
+          {hasAnyPermission(user?.permissions, 'manage_users') && (
+            <Link to="/admin/users" className="text-sm text-orange-400 hover:text-orange-300">
+              User Roles →
+            </Link>
+          )}
+          {hasAnyPermission(user?.permissions, 'manage_rules') && (
+            <Link to="/admin/rules" className="text-sm text-orange-400 hover:text-orange-300">
+              Game Rules →
+            </Link>
+          )}
+        </div>
+
         {/* Date Selector, Sport/League Selectors & Fetch Button */}
         <GameFilters
           selectedDate={selectedDate}
@@ -421,11 +455,41 @@ export function BetManagement() {
           </div>
         )}
 
+        {notice && (
+          <div className="bg-green-900/20 border border-green-800 rounded-lg p-4 mb-6 flex justify-between gap-4">
+            <p className="text-green-400 text-sm">{notice}</p>
+            <button onClick={() => setNotice(null)} className="text-green-400 hover:text-green-300 text-sm" aria-label="Dismiss">
+              ✕
+            </button>
+          </div>
+        )}
+
         {/* Games List */}
         <div className="space-y-4">
-          <h2 className="text-lg sm:text-xl font-semibold text-white">
-            Games ({games.length})
-          </h2>
+          <div className="flex justify-between items-center gap-3">
+            <h2 className="text-lg sm:text-xl font-semibold text-white">
+              Games ({games.length})
+            </h2>
+            {hasAnyPermission(user?.permissions, 'create_bets') && games.length > 0 && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setShowBulkBetModal(true)}
+                  className="px-3 sm:px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg transition text-xs sm:text-sm font-medium whitespace-nowrap"
+                  title="Create bets from saved templates for every game on the slate"
+                >
+                  Apply Templates
+                </button>
+                <button
+                  onClick={() => handleGenerateStandardBets('all')}
+                  disabled={generatingStandardBets !== null}
+                  className="px-3 sm:px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition text-xs sm:text-sm font-medium whitespace-nowrap"
+                  title="Create the moneyline, spread and total for every game that doesn't have them yet"
+                >
+                  {generatingStandardBets === 'all' ? 'Generating...' : 'Generate Standard Bets'}
+                </button>
+              </div>
+            )}
+          </div>
 
           {loading ? (
             <div className="bg-slate-900 rounded-lg p-6 sm:p-8 text-center">
@@ -449,13 +513,16 @@ export function BetManagement() {
                   isExpanded={expandedGames.has(game.id)}
                   onToggle={toggleGameExpanded}
                   onCreateBets={handleCreateBets}
-                  onQuickMoneyline={handleQuickMoneyline}
+                  onGenerateStandardBets={handleGenerateStandardBets}
                   onEditBet={handleEditBet}
                   onDeleteBet={handleDeleteBet}
                   onResolveBet={handleResolveBet}
+                  onSetBetResult={(bet, game) => setSettingResultBet({ bet, game })}
                   onMoveBetPriority={handleMoveBetPriority}
+                  canCreateBets={hasAnyPermission(user?.permissions, 'create_bets')}
+                  canResolveBets={hasAnyPermission(user?.permissions, 'resolve_bets')}
                   onForceRefresh={handleForceRefresh}
-                  creatingMoneyline={creatingMoneyline}
+                  generatingStandardBets={generatingStandardBets}
                   loadingRoster={loadingRoster}
                   resolvingBet={resolvingBet}
                 />
@@ -475,6 +542,17 @@ export function BetManagement() {
         />
       )}
 
+      {showBulkBetModal && (
+        <BulkBetModal
+          games={games}
+          date={selectedDate}
+          sport={selectedSport}
+          league={selectedLeague}
+          onClose={() => setShowBulkBetModal(false)}
+          onBetsCreated={handleBulkBetsCreated}
+        />
+      )}
+
       {editingBet && (
         <BetModal
           bet={editingBet.bet}
@@ -485,6 +563,15 @@ export function BetManagement() {
         />
       )}
 
+      {settingResultBet && (
+        <ManualResolveModal
+          bet={settingResultBet.bet}
+          game={settingResultBet.game}
+          onClose={() => setSettingResultBet(null)}
+          onResolved={handleBetResultSet}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <ConfirmModal
         isOpen={!!deletingBet}
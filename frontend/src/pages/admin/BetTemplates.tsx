@@ -0,0 +1,446 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { SPORT_CONFIGS } from '@shared/config/sports';
+import type {
+  BetTemplate,
+  BetType,
+  EventType,
+  TemplateConfig,
+  TemplateParticipant,
+  TemplateSubject
+} from '@shared/types/bets';
+import { api } from '../../services/api';
+import { Header } from '../../components/layout/Header';
+import { Footer } from '../../components/layout/Footer';
+import { ConfirmModal } from '../../components/common/ConfirmModal';
+import { formatDateWithTime } from '../../utils/formatting';
+
+const INPUT_CLASS = 'w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent';
+
+const SUBJECT_LABELS: Record<TemplateSubject, string> = {
+  HOME_TEAM: 'Home team',
+  AWAY_TEAM: 'Away team',
+  HOME_LEADER: 'Home team leader',
+  AWAY_LEADER: 'Away team leader',
+};
+
+const DEFAULT_EVENT_TYPES: Array<{ value: EventType; label: string }> = [
+  { value: 'DOUBLE_DOUBLE', label: 'Double Double' },
+  { value: 'TRIPLE_DOUBLE', label: 'Triple Double' },
+];
+
+const isLeader = (subject: TemplateSubject) => subject === 'HOME_LEADER' || subject === 'AWAY_LEADER';
+
+function describeSubject(participant: TemplateParticipant): string {
+  return isLeader(participant.subject)
+    ? `${participant.subject === 'HOME_LEADER' ? 'Home' : 'Away'} ${participant.leader_category} leader`
+    : SUBJECT_LABELS[participant.subject];
+}
+
+// e.g. "Home team points (Q1) > Away team points (Q1)" - the real names are filled in per game
+function describeTemplate(config: TemplateConfig): string {
+  switch (config.type) {
+    case 'COMPARISON': {
+      const side = (p: TemplateParticipant) => `${describeSubject(p)} ${p.metric} (${p.time_period})`;
+      const spread = config.spread ? ` ${config.spread.direction}${config.spread.value}` : '';
+      return `${side(config.participant_1)}${spread} > ${side(config.participant_2)}${config.allow_draw ? ' (draw allowed)' : ''}`;
+    }
+    case 'THRESHOLD': {
+      const subjects = [config.participant, ...(config.total_with || [])].map(describeSubject).join(' + ');
+      return `${subjects} ${config.operator} ${config.threshold} ${config.participant.metric} (${config.participant.time_period})`;
+    }
+    case 'EVENT':
+      return `${describeSubject(config.participant)} ${config.event_type} (${config.time_period})`;
+  }
+}
+
+function TemplateParticipantFields({
+  label,
+  participant,
+  sport,
+  onChange,
+}: {
+  label: string;
+  participant: TemplateParticipant;
+  sport: string;
+  onChange: (participant: TemplateParticipant) => void;
+}) {
+  const sportConfig = SPORT_CONFIGS[sport];
+  const metrics = sportConfig.metrics.filter(m => (isLeader(participant.subject) ? m.player : m.team));
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-3 space-y-2">
+      <p className="text-xs font-medium text-slate-400">{label}</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <select
+          value={participant.subject}
+          onChange={(e) => {
+            const subject = e.target.value as TemplateSubject;
+            onChange({
+              ...participant,
+              subject,
+              leader_category: isLeader(subject) ? participant.leader_category || 'points' : undefined,
+              metric: '',
+            });
+          }}
+          className={INPUT_CLASS}
+        >
+          {Object.entries(SUBJECT_LABELS).map(([value, subjectLabel]) => (
+            <option key={value} value={value}>{subjectLabel}</option>
+          ))}
+        </select>
+        {isLeader(participant.subject) && (
+          <input
+            type="text"
+            value={participant.leader_category || ''}
+            onChange={(e) => onChange({ ...participant, leader_category: e.target.value })}
+            placeholder="Leader category (e.g. points)"
+            title="The ESPN leader category the player leads their team in, e.g. points, rebounds, passingYards"
+            className={INPUT_CLASS}
+          />
+        )}
+        <select
+          value={participant.metric}
+          onChange={(e) => onChange({ ...participant, metric: e.target.value })}
+          className={INPUT_CLASS}
+        >
+          <option value="">Select metric</option>
+          {metrics.map(m => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+        <select
+          value={participant.time_period}
+          onChange={(e) => onChange({ ...participant, time_period: e.target.value })}
+          className={INPUT_CLASS}
+        >
+          {sportConfig.time_periods.map(tp => (
+            <option key={tp.value} value={tp.value}>{tp.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+const emptyParticipant = (subject: TemplateSubject): TemplateParticipant => ({
+  subject,
+  metric: '',
+  time_period: 'FULL_GAME',
+});
+
+export function BetTemplates() {
+  const [templates, setTemplates] = useState<BetTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deletingTemplate, setDeletingTemplate] = useState<BetTemplate | null>(null);
+
+  // New template form
+  const [name, setName] = useState('');
+  const [sport, setSport] = useState('basketball');
+  const [betType, setBetType] = useState<BetType>('COMPARISON');
+  const [participant1, setParticipant1] = useState<TemplateParticipant>(emptyParticipant('HOME_TEAM'));
+  const [participant2, setParticipant2] = useState<TemplateParticipant>(emptyParticipant('AWAY_TEAM'));
+  const [comparisonOperator, setComparisonOperator] = useState<'GREATER_THAN' | 'GREATER_EQUAL'>('GREATER_THAN');
+  const [spreadDirection, setSpreadDirection] = useState<'' | '+' | '-'>('');
+  const [spreadValue, setSpreadValue] = useState('');
+  const [thresholdOperator, setThresholdOperator] = useState<'OVER' | 'UNDER'>('OVER');
+  const [threshold, setThreshold] = useState('');
+  const [gameTotal, setGameTotal] = useState(false);
+  const [eventType, setEventType] = useState<EventType>('DOUBLE_DOUBLE');
+
+  const sportConfig = SPORT_CONFIGS[sport];
+  const eventTypes = sportConfig.event_types || DEFAULT_EVENT_TYPES;
+  const isTeamSubject = participant1.subject === 'HOME_TEAM' || participant1.subject === 'AWAY_TEAM';
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getBetTemplates();
+      if (response.success && response.data) {
+        setTemplates(response.data.templates);
+      } else {
+        setError(response.error?.message || 'Failed to load bet templates');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load bet templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const buildConfig = (): TemplateConfig => {
+    switch (betType) {
+      case 'COMPARISON':
+        return {
+          type: 'COMPARISON',
+          participant_1: participant1,
+          participant_2: participant2,
+          operator: comparisonOperator,
+          ...(spreadDirection && { spread: { direction: spreadDirection, value: parseFloat(spreadValue) } }),
+        };
+      case 'THRESHOLD': {
+        // Game total: the other team's score is added to this one's
+        const otherTeam: TemplateParticipant = {
+          ...participant1,
+          subject: participant1.subject === 'HOME_TEAM' ? 'AWAY_TEAM' : 'HOME_TEAM',
+        };
+        return {
+          type: 'THRESHOLD',
+          participant: participant1,
+          operator: thresholdOperator,
+          threshold: parseFloat(threshold),
+          ...(gameTotal && isTeamSubject && { total_with: [otherTeam] }),
+        };
+      }
+      case 'EVENT':
+        return {
+          type: 'EVENT',
+          participant: participant1,
+          event_type: eventType,
+          time_period: participant1.time_period,
+        };
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await api.createBetTemplate(name, betType, buildConfig());
+      if (response.success && response.data) {
+        setTemplates(prev => [...prev, response.data!.template].sort((a, b) => a.name.localeCompare(b.name)));
+        setName('');
+      } else {
+        setError(response.error?.message || 'Failed to save bet template');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save bet template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTemplate) return;
+    const template = deletingTemplate;
+    setDeletingTemplate(null);
+    setError(null);
+    try {
+      const response = await api.deleteBetTemplate(template.id);
+      if (response.success) {
+        setTemplates(prev => prev.filter(t => t.id !== template.id));
+      } else {
+        setError(response.error?.message || 'Failed to delete bet template');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete bet template');
+    }
+  };
+
+  const handleSportChange = (nextSport: string) => {
+    // Metrics and periods differ per sport
+    setSport(nextSport);
+    setParticipant1(prev => ({ ...prev, metric: '', time_period: 'FULL_GAME' }));
+    setParticipant2(prev => ({ ...prev, metric: '', time_period: 'FULL_GAME' }));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Admin: Bet Templates" />
+
+      <main className="flex-1 w-full max-w-5xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <p className="text-sm text-slate-400">
+            Apply templates to a whole slate with "Apply Templates" on the bet management page.
+          </p>
+          <Link to="/admin/bets" className="text-sm text-orange-400 hover:text-orange-300">
+            ← Bet Management
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+          <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Templates ({templates.length})</h2>
+          {loading ? (
+            <p className="text-slate-400">Loading...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-slate-400">No bet templates yet.</p>
+          ) : (
+            <div className="divide-y divide-slate-800">
+              {templates.map(template => (
+                <div key={template.id} className="py-3 flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-medium text-white">{template.name}</p>
+                    <p className="text-sm text-slate-400">{describeTemplate(template.config)}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {template.createdBy ?? 'deleted user'} · {formatDateWithTime(template.createdAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setDeletingTemplate(template)}
+                    className="px-3 py-1.5 text-sm bg-slate-800 text-red-400 rounded-lg hover:bg-slate-700 transition"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800 space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-white">New Template</h2>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1 text-xs text-slate-500">
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Q1 points, home vs away"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-500">
+              Sport (for metrics and periods)
+              <select value={sport} onChange={(e) => handleSportChange(e.target.value)} className={INPUT_CLASS}>
+                {Object.entries(SPORT_CONFIGS).map(([key, config]) => (
+                  <option key={key} value={key}>{config.display_name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-500">
+              Bet type
+              <select value={betType} onChange={(e) => setBetType(e.target.value as BetType)} className={INPUT_CLASS}>
+                <option value="COMPARISON">Comparison</option>
+                <option value="THRESHOLD">Threshold</option>
+                <option value="EVENT">Event</option>
+              </select>
+            </label>
+          </div>
+
+          <TemplateParticipantFields
+            label={betType === 'COMPARISON' ? 'Participant 1' : 'Participant'}
+            participant={participant1}
+            sport={sport}
+            onChange={setParticipant1}
+          />
+
+          {betType === 'COMPARISON' && (
+            <>
+              <TemplateParticipantFields label="Participant 2" participant={participant2} sport={sport} onChange={setParticipant2} />
+              <div className="grid grid-cols-3 gap-3">
+                <select
+                  value={comparisonOperator}
+                  onChange={(e) => setComparisonOperator(e.target.value as 'GREATER_THAN' | 'GREATER_EQUAL')}
+                  className={INPUT_CLASS}
+                >
+                  <option value="GREATER_THAN">Greater than</option>
+                  <option value="GREATER_EQUAL">Greater or equal</option>
+                </select>
+                <select
+                  value={spreadDirection}
+                  onChange={(e) => setSpreadDirection(e.target.value as '' | '+' | '-')}
+                  className={INPUT_CLASS}
+                >
+                  <option value="">No spread</option>
+                  <option value="+">Participant 1 +</option>
+                  <option value="-">Participant 1 -</option>
+                </select>
+                {spreadDirection && (
+                  <input
+                    type="number"
+                    step="1"
+                    min="0.5"
+                    value={spreadValue}
+                    onChange={(e) => setSpreadValue(e.target.value)}
+                    placeholder="e.g. 3.5"
+                    className={INPUT_CLASS}
+                  />
+                )}
+              </div>
+            </>
+          )}
+
+          {betType === 'THRESHOLD' && (
+            <div className="grid grid-cols-3 gap-3 items-center">
+              <select
+                value={thresholdOperator}
+                onChange={(e) => setThresholdOperator(e.target.value as 'OVER' | 'UNDER')}
+                className={INPUT_CLASS}
+              >
+                <option value="OVER">Over</option>
+                <option value="UNDER">Under</option>
+              </select>
+              <input
+                type="number"
+                step="0.5"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                placeholder="e.g. 24.5"
+                className={INPUT_CLASS}
+              />
+              {isTeamSubject && (
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={gameTotal}
+                    onChange={(e) => setGameTotal(e.target.checked)}
+                    className="accent-orange-600"
+                  />
+                  Game total (both teams)
+                </label>
+              )}
+            </div>
+          )}
+
+          {betType === 'EVENT' && (
+            <select value={eventType} onChange={(e) => setEventType(e.target.value as EventType)} className={INPUT_CLASS}>
+              {eventTypes.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          )}
+
+          <div className="flex justify-between items-center gap-3">
+            <p className="text-sm text-slate-400">{describeTemplate(buildConfig())}</p>
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:bg-slate-700 disabled:text-slate-500 transition font-medium text-sm"
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      </main>
+
+      <ConfirmModal
+        isOpen={!!deletingTemplate}
+        title="Delete Template"
+        message={`Delete "${deletingTemplate?.name}"? Bets already created from it are kept.`}
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingTemplate(null)}
+      />
+
+      <Footer />
+    </div>
+  );
+}
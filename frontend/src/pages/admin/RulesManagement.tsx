@@ -0,0 +1,406 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { GameRules, GameRulesetSummary } from '@shared/types';
+import { api } from '../../services/api';
+import { useRules } from '../../context/RulesContext';
+import { Header } from '../../components/layout/Header';
+import { Footer } from '../../components/layout/Footer';
+import { ConfirmModal } from '../../components/common/ConfirmModal';
+import { formatDateWithTime } from '../../utils/formatting';
+
+const INPUT_CLASS = 'w-20 px-2 py-1 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent';
+
+// Empty inputs become NaN so the server reports them instead of silently saving 0
+function toNumber(value: string): number {
+  return value === '' ? NaN : Number(value);
+}
+
+function legCounts(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+}
+
+export function RulesManagement() {
+  const { refreshRules } = useRules();
+  const [rulesets, setRulesets] = useState<GameRulesetSummary[]>([]);
+  const [draft, setDraft] = useState<GameRules | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [confirmPublish, setConfirmPublish] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadRulesets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await api.getAdminRulesets();
+      if (response.success && response.data) {
+        setRulesets(response.data.rulesets);
+        const active = response.data.rulesets.find(ruleset => ruleset.active);
+        setDraft(active ? structuredClone(active.rules) : null);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load rulesets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRulesets();
+  }, [loadRulesets]);
+
+  const activeRuleset = rulesets.find(ruleset => ruleset.active);
+
+  const updateDraft = (update: (rules: GameRules) => GameRules) => {
+    setDraft(prev => (prev ? update(prev) : prev));
+    setSuccess(null);
+  };
+
+  // Keep parlay values and insurance leg counts in range when max legs changes
+  const handleMaxLegsChange = (value: string) => {
+    const maxLegs = toNumber(value);
+    updateDraft(rules => {
+      if (!Number.isInteger(maxLegs) || maxLegs < 2) {
+        return { ...rules, maxLegs };
+      }
+      const parlayValues: Record<number, number> = {};
+      for (const legs of legCounts(1, maxLegs)) {
+        parlayValues[legs] = rules.parlayValues[legs] ?? 0;
+      }
+      return {
+        ...rules,
+        maxLegs,
+        parlayValues,
+        insurance: {
+          ...rules.insurance,
+          eligibleLegCounts: rules.insurance.eligibleLegCounts.filter(legs => legs <= maxLegs),
+        },
+      };
+    });
+  };
+
+  const handleToggleEligible = (legs: number) => {
+    updateDraft(rules => {
+      const eligible = rules.insurance.eligibleLegCounts.includes(legs)
+        ? rules.insurance.eligibleLegCounts.filter(count => count !== legs)
+        : [...rules.insurance.eligibleLegCounts, legs].sort((a, b) => a - b);
+      return {
+        ...rules,
+        insurance: {
+          eligibleLegCounts: eligible,
+          tiers: rules.insurance.tiers.map(tier => ({ ...tier, costs: { [legs]: 0, ...tier.costs } })),
+        },
+      };
+    });
+  };
+
+  const handleTierChange = (index: number, field: 'minStreak' | number, value: string) => {
+    updateDraft(rules => ({
+      ...rules,
+      insurance: {
+        ...rules.insurance,
+        tiers: rules.insurance.tiers.map((tier, i) => {
+          if (i !== index) return tier;
+          return field === 'minStreak'
+            ? { ...tier, minStreak: toNumber(value) }
+            : { ...tier, costs: { ...tier.costs, [field]: toNumber(value) } };
+        }),
+      },
+    }));
+  };
+
+  const handleAddTier = () => {
+    updateDraft(rules => {
+      const last = rules.insurance.tiers[rules.insurance.tiers.length - 1];
+      return {
+        ...rules,
+        insurance: {
+          ...rules.insurance,
+          tiers: [
+            ...rules.insurance.tiers,
+            { minStreak: last ? last.minStreak + 10 : 0, costs: { ...(last?.costs ?? {}) } },
+          ],
+        },
+      };
+    });
+  };
+
+  const handleRemoveTier = (index: number) => {
+    updateDraft(rules => ({
+      ...rules,
+      insurance: {
+        ...rules.insurance,
+        tiers: rules.insurance.tiers.filter((_, i) => i !== index),
+      },
+    }));
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+    setConfirmPublish(false);
+    setPublishing(true);
+    setError(null);
+
+    try {
+      const response = await api.publishRuleset(draft, notes);
+      if (response.success && response.data) {
+        setSuccess(`Published version ${response.data.ruleset.version}. New parlays use it from now on.`);
+        setNotes('');
+        await Promise.all([loadRulesets(), refreshRules()]);
+      } else {
+        setError(response.error?.message || 'Failed to publish rules');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to publish rules');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(activeRuleset ? structuredClone(activeRuleset.rules) : null);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const eligibleLegCounts = draft?.insurance.eligibleLegCounts ?? [];
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Admin: Game Rules" />
+
+      <main className="flex-1 w-full max-w-4xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto space-y-6">
+        <p className="text-sm text-slate-400">
+          Publishing creates a new ruleset version for parlays created from then on. Existing parlays
+          keep being scored under the version they were created with.
+        </p>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+        {success && (
+          <div className="bg-green-900/20 border border-green-800 rounded-lg p-4">
+            <p className="text-green-400">{success}</p>
+          </div>
+        )}
+
+        {loading && !draft ? (
+          <p className="text-slate-400">Loading...</p>
+        ) : draft && (
+          <>
+            {/* Parlays */}
+            <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+              <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Parlays</h2>
+              <label className="flex items-center gap-3 mb-4 text-sm text-slate-300">
+                Max legs
+                <input
+                  type="number"
+                  min={2}
+                  value={Number.isNaN(draft.maxLegs) ? '' : draft.maxLegs}
+                  onChange={(e) => handleMaxLegsChange(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <div className="text-sm text-slate-400 mb-2">Streak points for a win, by winning legs</div>
+              <div className="flex flex-wrap gap-3">
+                {Object.keys(draft.parlayValues).map(Number).map(legs => (
+                  <label key={legs} className="flex flex-col gap-1 text-xs text-slate-500">
+                    {legs} leg{legs !== 1 ? 's' : ''}
+                    <input
+                      type="number"
+                      min={0}
+                      value={Number.isNaN(draft.parlayValues[legs]) ? '' : draft.parlayValues[legs]}
+                      onChange={(e) => updateDraft(rules => ({
+                        ...rules,
+                        parlayValues: { ...rules.parlayValues, [legs]: toNumber(e.target.value) },
+                      }))}
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Insurance */}
+            <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+              <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Insurance</h2>
+              <div className="text-sm text-slate-400 mb-2">Available for</div>
+              <div className="flex flex-wrap gap-4 mb-4">
+                {legCounts(2, Number.isInteger(draft.maxLegs) ? draft.maxLegs : 0).map(legs => (
+                  <label key={legs} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={eligibleLegCounts.includes(legs)}
+                      onChange={() => handleToggleEligible(legs)}
+                      className="h-4 w-4 accent-orange-600"
+                    />
+                    {legs}-leg parlays
+                  </label>
+                ))}
+              </div>
+
+              {eligibleLegCounts.length > 0 && (
+                <>
+                  <div className="text-sm text-slate-400 mb-2">Cost by streak</div>
+                  <div className="space-y-2">
+                    {draft.insurance.tiers.map((tier, index) => (
+                      <div key={index} className="flex flex-wrap items-end gap-3">
+                        <label className="flex flex-col gap-1 text-xs text-slate-500">
+                          From streak
+                          <input
+                            type="number"
+                            min={0}
+                            value={Number.isNaN(tier.minStreak) ? '' : tier.minStreak}
+                            onChange={(e) => handleTierChange(index, 'minStreak', e.target.value)}
+                            className={INPUT_CLASS}
+                          />
+                        </label>
+                        {eligibleLegCounts.map(legs => (
+                          <label key={legs} className="flex flex-col gap-1 text-xs text-slate-500">
+                            {legs} legs
+                            <input
+                              type="number"
+                              min={0}
+                              value={Number.isNaN(tier.costs[legs]) ? '' : tier.costs[legs] ?? ''}
+                              onChange={(e) => handleTierChange(index, legs, e.target.value)}
+                              className={INPUT_CLASS}
+                            />
+                          </label>
+                        ))}
+                        {draft.insurance.tiers.length > 1 && (
+                          <button
+                            onClick={() => handleRemoveTier(index)}
+                            className="px-2 py-1 text-red-400 hover:text-red-300 text-sm"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={handleAddTier}
+                    className="mt-3 text-sm text-orange-400 hover:text-orange-300"
+                  >
+                    + Add tier
+                  </button>
+                </>
+              )}
+            </div>
+
+            {/* Single Bets */}
+            <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+              <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Single Bets</h2>
+              <div className="flex flex-wrap items-end gap-6">
+                <label className="flex flex-col gap-1 text-xs text-slate-500">
+                  Win points
+                  <input
+                    type="number"
+                    min={0}
+                    value={Number.isNaN(draft.singleBets.winPoints) ? '' : draft.singleBets.winPoints}
+                    onChange={(e) => updateDraft(rules => ({
+                      ...rules,
+                      singleBets: { ...rules.singleBets, winPoints: toNumber(e.target.value) },
+                    }))}
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-slate-500">
+                  Open per day (blank for no limit)
+                  <input
+                    type="number"
+                    min={1}
+                    value={draft.singleBets.dailyOpenCap === null || Number.isNaN(draft.singleBets.dailyOpenCap) ? '' : draft.singleBets.dailyOpenCap}
+                    onChange={(e) => updateDraft(rules => ({
+                      ...rules,
+                      singleBets: { ...rules.singleBets, dailyOpenCap: e.target.value === '' ? null : toNumber(e.target.value) },
+                    }))}
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.singleBets.lossResetsStreak}
+                    onChange={() => updateDraft(rules => ({
+                      ...rules,
+                      singleBets: { ...rules.singleBets, lossResetsStreak: !rules.singleBets.lossResetsStreak },
+                    }))}
+                    className="h-4 w-4 accent-orange-600"
+                  />
+                  A loss resets the streak
+                </label>
+              </div>
+            </div>
+
+            {/* Publish */}
+            <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800 space-y-3">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={500}
+                rows={2}
+                placeholder="What changed? (optional)"
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent"
+              />
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setConfirmPublish(true)}
+                  disabled={publishing}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-medium disabled:opacity-50"
+                >
+                  {publishing ? 'Publishing...' : 'Publish New Version'}
+                </button>
+                <button
+                  onClick={handleReset}
+                  disabled={publishing}
+                  className="px-4 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition font-medium disabled:opacity-50"
+                >
+                  Reset
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Version History */}
+        {rulesets.length > 0 && (
+          <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+            <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">Version History</h2>
+            <div className="space-y-3">
+              {rulesets.map(ruleset => (
+                <div key={ruleset.version} className="border-b border-slate-800 pb-3 last:border-0 last:pb-0">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold text-white">Version {ruleset.version}</span>
+                    {ruleset.active && (
+                      <span className="px-2 py-0.5 rounded bg-orange-600/20 text-orange-400 text-xs">Active</span>
+                    )}
+                    <span className="text-slate-500">
+                      {formatDateWithTime(ruleset.createdAt)}
+                      {ruleset.createdBy ? ` by ${ruleset.createdBy}` : ''}
+                      {` • ${ruleset.parlayCount} parlay${ruleset.parlayCount !== 1 ? 's' : ''}`}
+                    </span>
+                  </div>
+                  {ruleset.notes && <p className="text-sm text-slate-400 mt-1">{ruleset.notes}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+
+      <ConfirmModal
+        isOpen={confirmPublish}
+        title="Publish New Rules"
+        message={`This creates version ${(activeRuleset?.version ?? 0) + 1}. Parlays created from now on will use it; existing parlays keep their current rules.`}
+        confirmText="Publish"
+        onConfirm={handlePublish}
+        onCancel={() => setConfirmPublish(false)}
+      />
+    </div>
+  );
+}
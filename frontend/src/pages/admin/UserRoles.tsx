@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { UserRole, UserRoleSummary } from '@shared/types';
+import { ROLE_LABELS, USER_ROLES } from '@shared/constants/permissions';
+import { api } from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
+import { Header } from '../../components/layout/Header';
+import { Footer } from '../../components/layout/Footer';
+
+export function UserRoles() {
+  const { user: currentUser, checkAuth } = useAuth();
+  const [users, setUsers] = useState<UserRoleSummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [activeSearch, setActiveSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async (query: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getAdminUsers(query);
+      if (response.success && response.data) {
+        setUsers(response.data.users);
+      } else {
+        setError(response.error?.message || 'Failed to load users');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers(activeSearch);
+  }, [loadUsers, activeSearch]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setActiveSearch(search.trim());
+  };
+
+  const handleToggleRole = async (target: UserRoleSummary, role: UserRole) => {
+    const granting = !target.roles.includes(role);
+    setUpdating(`${target.id}:${role}`);
+    setError(null);
+
+    try {
+      const response = granting
+        ? await api.grantRole(target.id, role)
+        : await api.revokeRole(target.id, role);
+      if (response.success && response.data) {
+        const updated = response.data.user;
+        setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+        // Changing your own roles changes which admin controls you see
+        if (updated.id === currentUser?.id) {
+          await checkAuth();
+        }
+      } else {
+        setError(response.error?.message || 'Failed to update role');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to update role');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <Header title="Admin: User Roles" />
+
+      <main className="flex-1 w-full max-w-4xl px-4 sm:px-6 lg:px-8 py-6 sm:py-12 mx-auto space-y-6">
+        <p className="text-sm text-slate-400">
+          Bet authors create bets, resolvers settle them, admins can do everything except manage
+          users, and owners can also grant and revoke roles.
+        </p>
+
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by username or email"
+            className="flex-1 px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-600 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition font-medium"
+          >
+            Search
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-slate-900 rounded-lg p-4 sm:p-6 border border-slate-800">
+          <h2 className="text-lg sm:text-xl font-semibold text-white mb-4">
+            {activeSearch ? `Users matching "${activeSearch}"` : 'Staff'}
+          </h2>
+
+          {loading ? (
+            <p className="text-slate-400">Loading...</p>
+          ) : users.length === 0 ? (
+            <p className="text-slate-400">
+              {activeSearch ? 'No users found.' : 'No one has a role beyond player yet.'}
+            </p>
+          ) : (
+            <div className="divide-y divide-slate-800">
+              {users.map(user => (
+                <div key={user.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-white truncate">
+                      {user.username}
+                      {user.id === currentUser?.id && <span className="text-slate-500 font-normal"> (you)</span>}
+                    </div>
+                    <div className="text-sm text-slate-500 truncate">{user.email}</div>
+                  </div>
+                  <div className="flex flex-wrap gap-3">
+                    {USER_ROLES.map(role => (
+                      <label key={role} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={user.roles.includes(role)}
+                          disabled={role === 'player' || updating === `${user.id}:${role}`}
+                          onChange={() => handleToggleRole(user, role)}
+                          className="h-4 w-4 accent-orange-600"
+                        />
+                        {ROLE_LABELS[role]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
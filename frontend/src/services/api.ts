@@ -1,6 +1,26 @@
-import type { ApiResponse } from '../interfaces';
-
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+import type { ApiResponse, BetSelection, BulkBetRequest, Parlay } from '../interfaces';
+import type {
+  AuditLogFilters,
+  AuditLogPage,
+  EmailPreferences,
+  EmailPreferenceType,
+  GameRules,
+  GameRuleset,
+  GameRulesetSummary,
+  LeaderboardBoard,
+  LeaderboardResponse,
+  LeaderboardWindow,
+  LeagueActivityItem,
+  LeagueDetail,
+  LeagueSummary,
+  StandardBetsResult,
+  StreakHistoryPage,
+  UserRole,
+  UserRoleSummary,
+} from '@shared/types';
+import type { BetTemplate, BetType, BulkBetPreview, BulkBetResult, ManualBetOutcome, TemplateConfig } from '@shared/types/bets';
+
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
 class ApiService {
   private async request<T>(
@@ -147,10 +167,10 @@ class ApiService {
   }
 
   // Bet selection endpoints
-  async selectBet(betId: string, selectedSide: string) {
+  async selectBet(betId: string, selectedSide: string, timezoneOffset?: number) {
     return this.request(`/api/bets/${betId}/select`, {
       method: 'POST',
-      body: JSON.stringify({ selectedSide }),
+      body: JSON.stringify({ selectedSide, timezoneOffset }),
     });
   }
 
@@ -188,6 +208,55 @@ class ApiService {
     });
   }
 
+  async generateStandardBets(gameIds: string[]): Promise<ApiResponse<StandardBetsResult>> {
+    return this.request<StandardBetsResult>('/api/admin/bets/standard', {
+      method: 'POST',
+      body: JSON.stringify({ game_ids: gameIds }),
+    });
+  }
+
+  // Bet template endpoints
+  async getBetTemplates(): Promise<ApiResponse<{ templates: BetTemplate[] }>> {
+    return this.request<{ templates: BetTemplate[] }>('/api/admin/bet-templates');
+  }
+
+  async createBetTemplate(name: string, betType: BetType, config: TemplateConfig): Promise<ApiResponse<{ template: BetTemplate }>> {
+    return this.request<{ template: BetTemplate }>('/api/admin/bet-templates', {
+      method: 'POST',
+      body: JSON.stringify({ name, bet_type: betType, config }),
+    });
+  }
+
+  async deleteBetTemplate(templateId: string): Promise<ApiResponse<{ template: BetTemplate }>> {
+    return this.request<{ template: BetTemplate }>(`/api/admin/bet-templates/${templateId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  private bulkBetBody({ templateIds, date, sport, league, timezoneOffset }: BulkBetRequest) {
+    return { template_ids: templateIds, date, sport, league, timezoneOffset };
+  }
+
+  async previewBulkBets(request: BulkBetRequest): Promise<ApiResponse<BulkBetPreview>> {
+    return this.request<BulkBetPreview>('/api/admin/bets/bulk/preview', {
+      method: 'POST',
+      body: JSON.stringify(this.bulkBetBody(request)),
+    });
+  }
+
+  async createBulkBets(
+    request: BulkBetRequest,
+    selections: Array<{ gameId: string; templateId: string }>
+  ): Promise<ApiResponse<BulkBetResult>> {
+    return this.request<BulkBetResult>('/api/admin/bets/bulk', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...this.bulkBetBody(request),
+        selections: selections.map(({ gameId, templateId }) => ({ game_id: gameId, template_id: templateId })),
+      }),
+    });
+  }
+
   async updateBet(betId: string, updates: { bet_type?: string; config?: any; display_text_override?: string; priority?: number }) {
     return this.request(`/api/admin/bets/${betId}`, {
       method: 'PATCH',
@@ -214,6 +283,20 @@ class ApiService {
     });
   }
 
+  async manualResolveBet(betId: string, outcome: ManualBetOutcome, note: string, draw?: boolean) {
+    return this.request(`/api/admin/bets/${betId}/manual-resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ outcome, note, draw }),
+    });
+  }
+
+  async reopenBet(betId: string, note: string) {
+    return this.request(`/api/admin/bets/${betId}/reopen`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  }
+
   // Parlay endpoints
   async startParlay(betId: string, selectedSide: string, existingSelectionId?: string) {
     return this.request('/api/parlays/start', {
@@ -261,6 +344,169 @@ class ApiService {
       method: 'DELETE',
     });
   }
+
+  // Leaderboard endpoints
+  async getLeaderboard(
+    board: LeaderboardBoard,
+    window: LeaderboardWindow,
+    page: number = 1,
+    timezoneOffset?: number
+  ): Promise<ApiResponse<LeaderboardResponse>> {
+    const params = new URLSearchParams({ board, window, page: page.toString() });
+    if (timezoneOffset !== undefined) {
+      params.append('timezoneOffset', timezoneOffset.toString());
+    }
+    return this.request<LeaderboardResponse>(`/api/leaderboards?${params.toString()}`);
+  }
+
+  // League endpoints
+  async getLeagues(): Promise<ApiResponse<{ leagues: LeagueSummary[] }>> {
+    return this.request<{ leagues: LeagueSummary[] }>('/api/leagues');
+  }
+
+  async createLeague(name: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>('/api/leagues', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async joinLeague(inviteCode: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>('/api/leagues/join', {
+      method: 'POST',
+      body: JSON.stringify({ inviteCode }),
+    });
+  }
+
+  async getLeague(leagueId: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}`);
+  }
+
+  async renameLeague(leagueId: string, name: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async regenerateLeagueInviteCode(leagueId: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}/invite-code`, {
+      method: 'POST',
+    });
+  }
+
+  async leaveLeague(leagueId: string): Promise<ApiResponse<{ deleted: boolean; message: string }>> {
+    return this.request<{ deleted: boolean; message: string }>(`/api/leagues/${leagueId}/leave`, {
+      method: 'POST',
+    });
+  }
+
+  async removeLeagueMember(leagueId: string, userId: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getLeagueLeaderboard(
+    leagueId: string,
+    board: LeaderboardBoard,
+    window: LeaderboardWindow,
+    page: number = 1,
+    timezoneOffset?: number
+  ): Promise<ApiResponse<LeaderboardResponse>> {
+    const params = new URLSearchParams({ board, window, page: page.toString() });
+    if (timezoneOffset !== undefined) {
+      params.append('timezoneOffset', timezoneOffset.toString());
+    }
+    return this.request<LeaderboardResponse>(`/api/leagues/${leagueId}/leaderboard?${params.toString()}`);
+  }
+
+  async getLeagueActivity(
+    leagueId: string,
+    before?: string
+  ): Promise<ApiResponse<{ activity: LeagueActivityItem[]; nextBefore: string | null }>> {
+    const query = before ? `?before=${encodeURIComponent(before)}` : '';
+    return this.request<{ activity: LeagueActivityItem[]; nextBefore: string | null }>(
+      `/api/leagues/${leagueId}/activity${query}`
+    );
+  }
+
+  async getStreakHistory(
+    page: number = 1,
+    pageSize: number = 5
+  ): Promise<ApiResponse<StreakHistoryPage<Parlay, BetSelection>>> {
+    const params = new URLSearchParams({ page: page.toString(), pageSize: pageSize.toString() });
+    return this.request<StreakHistoryPage<Parlay, BetSelection>>(`/api/streaks/history?${params.toString()}`);
+  }
+
+  // Email preference endpoints
+  async getEmailPreferences(): Promise<ApiResponse<{ preferences: EmailPreferences }>> {
+    return this.request<{ preferences: EmailPreferences }>('/api/emails/preferences');
+  }
+
+  async updateEmailPreferences(
+    updates: Partial<EmailPreferences>
+  ): Promise<ApiResponse<{ preferences: EmailPreferences }>> {
+    return this.request<{ preferences: EmailPreferences }>('/api/emails/preferences', {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async unsubscribeFromEmail(token: string): Promise<ApiResponse<{ type: EmailPreferenceType }>> {
+    return this.request<{ type: EmailPreferenceType }>('/api/emails/unsubscribe', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  // Game rules endpoints
+  async getRules(): Promise<ApiResponse<{ ruleset: GameRuleset }>> {
+    return this.request<{ ruleset: GameRuleset }>('/api/rules');
+  }
+
+  async getRulesetVersion(version: number): Promise<ApiResponse<{ ruleset: GameRuleset }>> {
+    return this.request<{ ruleset: GameRuleset }>(`/api/rules/versions/${version}`);
+  }
+
+  async getAdminRulesets(): Promise<ApiResponse<{ rulesets: GameRulesetSummary[] }>> {
+    return this.request<{ rulesets: GameRulesetSummary[] }>('/api/admin/rules');
+  }
+
+  async publishRuleset(rules: GameRules, notes?: string): Promise<ApiResponse<{ ruleset: GameRuleset }>> {
+    return this.request<{ ruleset: GameRuleset }>('/api/admin/rules', {
+      method: 'POST',
+      body: JSON.stringify({ rules, notes }),
+    });
+  }
+
+  // Admin user role endpoints
+  async getAdminUsers(search?: string): Promise<ApiResponse<{ users: UserRoleSummary[] }>> {
+    const query = search ? `?search=${encodeURIComponent(search)}` : '';
+    return this.request<{ users: UserRoleSummary[] }>(`/api/admin/users${query}`);
+  }
+
+  async grantRole(userId: string, role: UserRole): Promise<ApiResponse<{ user: UserRoleSummary }>> {
+    return this.request<{ user: UserRoleSummary }>(`/api/admin/users/${userId}/roles`, {
+      method: 'POST',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async revokeRole(userId: string, role: UserRole): Promise<ApiResponse<{ user: UserRoleSummary }>> {
+    return this.request<{ user: UserRoleSummary }>(`/api/admin/users/${userId}/roles/${role}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Admin audit log endpoints
+  async getAuditLog(filters: AuditLogFilters, page: number = 1): Promise<ApiResponse<AuditLogPage>> {
+    const params = new URLSearchParams({ page: String(page) });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    return this.request<AuditLogPage>(`/api/admin/audit-log?${params}`);
+  }
 }
 
 export const api = new ApiService();
@@ -3,6 +3,7 @@
  */
 
 import type { Game, Bet } from '../interfaces';
+import { getThresholdParticipants } from '@shared/utils/betTotals';
 
 /**
  * Formats a date string for display
@@ -197,6 +198,23 @@ export function formatSelectionText(
       name2 = shortName2;
     }
     
+    // Three-way bets - the draw is its own side, and a tie isn't a push
+    if (compConfig.allow_draw) {
+      const isResolved = outcome && outcome !== 'pending' && game.homeScore !== null && game.awayScore !== null;
+      const p1IsHome = game.metadata?.apiData?.teams?.home?.id === p1?.subject_id;
+      const p1Score = p1IsHome ? game.homeScore : game.awayScore;
+      const p2Score = p1IsHome ? game.awayScore : game.homeScore;
+      
+      if (side === 'draw') {
+        return isResolved
+          ? `${shortName1} vs ${shortName2} draw (${p1Score}-${p2Score})`
+          : `${shortName1} vs ${shortName2} draw`;
+      }
+      if (isResolved && p1Score === p2Score) {
+        return `${shortName1} vs ${shortName2} drew (${p1Score}-${p2Score})`;
+      }
+    }
+    
     // If bet is resolved, show what actually happened with scores
     if (outcome && outcome !== 'pending' && game.homeScore !== null && game.awayScore !== null) {
       // Determine which participant won based on outcome and user's selection
@@ -235,14 +253,22 @@ export function formatSelectionText(
     return side === 'participant_1' ? `${name1} over ${name2}` : `${name2} over ${name1}`;
   } else if (betType === 'THRESHOLD' && config) {
     const threshold = config.threshold;
-    const participant = config.participant;
-    let name = getTeamName(participant, game);
-    const shortName = name.split(' ').pop() || name;
+    // Totals sum several participants - show them all ("Lakers + Celtics")
+    const participants = config.participant ? getThresholdParticipants(config) : [];
+    const shortName = participants
+      .map(participant => {
+        const name = getTeamName(participant, game);
+        return name.split(' ').pop() || name;
+      })
+      .join(' + ');
     
     // If resolved, show what actually happened
-    if (outcome && outcome !== 'pending' && game.homeScore !== null && game.awayScore !== null && participant?.subject_type === 'TEAM') {
-      const pIsHome = game.metadata?.apiData?.teams?.home?.id === participant?.subject_id;
-      const pScore = pIsHome ? game.homeScore : game.awayScore;
+    if (outcome && outcome !== 'pending' && game.homeScore !== null && game.awayScore !== null &&
+        participants.length > 0 && participants.every(participant => participant.subject_type === 'TEAM')) {
+      const pScore = participants.reduce((total, participant) => {
+        const pIsHome = game.metadata?.apiData?.teams?.home?.id === participant.subject_id;
+        return total + (pIsHome ? game.homeScore : game.awayScore);
+      }, 0);
       return `${shortName} ${side} ${threshold} (${pScore})`;
     }
     
@@ -6,8 +6,10 @@ import * as Linking from 'expo-linking';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import './global.css';
 import { AuthProvider, useAuth } from './src/context/AuthContext';
+import { SocketProvider } from './src/context/SocketContext';
 import { ParlayProvider } from './src/context/ParlayContext';
 import { BetsProvider } from './src/context/BetsContext';
+import { RulesProvider } from './src/context/RulesContext';
 import { ToastProvider } from './src/context/ToastContext';
 import { ThemeProvider, useTheme } from './src/context/ThemeContext';
 import { Login } from './src/pages/Login';
@@ -21,6 +23,7 @@ import { ForgotPassword } from './src/pages/ForgotPassword';
 import { ResetPassword } from './src/pages/ResetPassword';
 import { LoadingScreen } from './src/components/common/LoadingScreen';
 import { ParlayBuilder } from './src/components/parlay/ParlayBuilder';
+import { registerForPushNotifications } from './src/services/pushNotifications';
 
 const Stack = createNativeStackNavigator();
 
@@ -51,6 +54,15 @@ function AppStack() {
 
 function RootNavigator() {
   const { user, loading } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (userId) {
+      registerForPushNotifications().catch((error) => {
+        console.error('Failed to register for push notifications:', error);
+      });
+    }
+  }, [userId]);
 
   if (loading) {
     return <LoadingScreen />;
@@ -97,13 +109,17 @@ export default function App() {
     <SafeAreaProvider>
       <ThemeProvider>
         <ToastProvider>
-    <AuthProvider>
-      <ParlayProvider>
-        <BetsProvider>
-                <ThemedApp />
-        </BetsProvider>
-      </ParlayProvider>
-    </AuthProvider>
+          <AuthProvider>
+            <SocketProvider>
+              <RulesProvider>
+                <ParlayProvider>
+                  <BetsProvider>
+                    <ThemedApp />
+                  </BetsProvider>
+                </ParlayProvider>
+              </RulesProvider>
+            </SocketProvider>
+          </AuthProvider>
         </ToastProvider>
       </ThemeProvider>
     </SafeAreaProvider>
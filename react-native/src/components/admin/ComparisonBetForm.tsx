@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
-import { BASKETBALL_CONFIG } from '@shared/config/sports/basketball';
+import { getSportConfigForGame } from '@shared/config/sports';
 import type { TimePeriod } from '@shared/types/bets';
+import { formatTimePeriodLabel } from '@shared/utils/timePeriods';
 import { useTheme } from '../../context/ThemeContext';
 import { api } from '../../services/api';
 import type { Game, Player, SubjectType } from './types';
@@ -24,19 +25,21 @@ export function ComparisonBetForm({
 }: ComparisonBetFormProps) {
   const { effectiveTheme } = useTheme();
   const isDark = effectiveTheme === 'dark';
+  const sportConfig = getSportConfigForGame(game.sport);
+  const scoreMetric = sportConfig.score_metric || 'points';
   const [subjectType1, setSubjectType1] = useState<SubjectType>('TEAM');
   const [team1, setTeam1] = useState<'home' | 'away' | ''>('home');
   const [player1, setPlayer1] = useState<string>('');
-  const [metric1, setMetric1] = useState<string>('points');
+  const [metric1, setMetric1] = useState<string>(scoreMetric);
   const [timePeriod1, setTimePeriod1] = useState<TimePeriod>('FULL_GAME');
 
   const [subjectType2, setSubjectType2] = useState<SubjectType>('TEAM');
   const [team2, setTeam2] = useState<'home' | 'away' | ''>('away');
   const [player2, setPlayer2] = useState<string>('');
-  const [metric2, setMetric2] = useState<string>('points');
+  const [metric2, setMetric2] = useState<string>(scoreMetric);
   const [timePeriod2, setTimePeriod2] = useState<TimePeriod>('FULL_GAME');
 
-  const [compOperator, setCompOperator] = useState<'GREATER_THAN' | 'spread'>('GREATER_THAN');
+  const [compOperator, setCompOperator] = useState<'GREATER_THAN' | 'spread' | 'three_way'>('GREATER_THAN');
   const [spreadDirection, setSpreadDirection] = useState<'+' | '-'>('+');
   const [spreadValue, setSpreadValue] = useState('3.5');
 
@@ -46,19 +49,6 @@ export function ComparisonBetForm({
   const formatMetricLabel = (metric: string): string =>
     metric.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
 
-  const formatTimePeriodLabel = (period: TimePeriod | string): string => {
-    const map: Record<string, string> = {
-      FULL_GAME: 'Full Game',
-      Q1: 'Q1',
-      Q2: 'Q2',
-      Q3: 'Q3',
-      Q4: 'Q4',
-      H1: '1H',
-      H2: '2H',
-      OT: 'OT',
-    };
-    return map[period] || period;
-  };
 
   const handleCreate = async () => {
     if (loading) return;
@@ -151,6 +141,7 @@ export function ComparisonBetForm({
       participant_2,
       operator: 'GREATER_THAN',
       ...(spreadConfig && { spread: spreadConfig }),
+      ...(compOperator === 'three_way' && { allow_draw: true }),
     };
 
     try {
@@ -209,27 +200,37 @@ export function ComparisonBetForm({
     const spread = compOperator === 'spread' ? { direction: spreadDirection, value: parseFloat(spreadValue || '0') || 0 } : undefined;
     const participant_1: any = previewParticipant1;
     const participant_2: any = previewParticipant2;
+    const allowDraw = compOperator === 'three_way';
+
+    // Three-way moneyline
+    if (allowDraw && participant_1.metric === scoreMetric && participant_1.time_period === 'FULL_GAME' && participant_1.subject_type === 'TEAM' && participant_2.subject_type === 'TEAM' && participant_2.metric === scoreMetric && participant_2.time_period === 'FULL_GAME') {
+      return `${participant_1.subject_name} / Draw / ${participant_2.subject_name}`;
+    }
 
     // Moneyline
-    if (!spread && participant_1.metric === 'points' && participant_1.time_period === 'FULL_GAME' && participant_1.subject_type === 'TEAM' && participant_2.subject_type === 'TEAM' && participant_2.metric === 'points' && participant_2.time_period === 'FULL_GAME') {
+    if (!spread && participant_1.metric === scoreMetric && participant_1.time_period === 'FULL_GAME' && participant_1.subject_type === 'TEAM' && participant_2.subject_type === 'TEAM' && participant_2.metric === scoreMetric && participant_2.time_period === 'FULL_GAME') {
       return `${participant_1.subject_name} ML`;
     }
 
     // Spread
-    if (spread && participant_1.metric === 'points' && participant_1.time_period === 'FULL_GAME' && participant_1.subject_type === 'TEAM' && participant_2.subject_type === 'TEAM' && participant_2.metric === 'points' && participant_2.time_period === 'FULL_GAME') {
+    if (spread && participant_1.metric === scoreMetric && participant_1.time_period === 'FULL_GAME' && participant_1.subject_type === 'TEAM' && participant_2.subject_type === 'TEAM' && participant_2.metric === scoreMetric && participant_2.time_period === 'FULL_GAME') {
       return `${participant_1.subject_name} ${spread.direction}${spread.value}`;
     }
 
     // Generic comparison
     const metric1Label = formatMetricLabel(participant_1.metric);
     const metric2Label = formatMetricLabel(participant_2.metric);
-    const period1 = participant_1.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant_1.time_period)})` : '';
-    const period2 = participant_2.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant_2.time_period)})` : '';
+    const period1 = participant_1.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant_1.time_period, sportConfig)})` : '';
+    const period2 = participant_2.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant_2.time_period, sportConfig)})` : '';
 
     if (spread) {
       return `${participant_1.subject_name} ${metric1Label}${period1} ${spread.direction}${spread.value} > ${participant_2.subject_name} ${metric2Label}${period2}`;
     }
 
+    if (allowDraw) {
+      return `${participant_1.subject_name} ${metric1Label}${period1} vs ${participant_2.subject_name} ${metric2Label}${period2} (3-way)`;
+    }
+
     return `${participant_1.subject_name} ${metric1Label}${period1} > ${participant_2.subject_name} ${metric2Label}${period2}`;
   };
 
@@ -247,6 +248,7 @@ export function ComparisonBetForm({
       <ParticipantSelector
         label="Participant 1"
         game={game}
+        sportConfig={sportConfig}
         subjectType={subjectType1}
         setSubjectType={setSubjectType1}
         team={team1}
@@ -281,6 +283,14 @@ export function ComparisonBetForm({
               Spread (+/-)
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setCompOperator('three_way')}
+            className={`flex-1 rounded-full px-3 py-1 items-center ${compOperator === 'three_way' ? (isDark ? 'bg-slate-100' : 'bg-orange-600') : 'bg-transparent'}`}
+          >
+            <Text className={`text-[11px] font-medium ${compOperator === 'three_way' ? (isDark ? 'text-slate-900' : 'text-white') : (isDark ? 'text-slate-300' : 'text-slate-700')}`}>
+              3-way (draw)
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {compOperator === 'spread' && (
@@ -320,6 +330,7 @@ export function ComparisonBetForm({
       <ParticipantSelector
         label="Participant 2"
         game={game}
+        sportConfig={sportConfig}
         subjectType={subjectType2}
         setSubjectType={setSubjectType2}
         team={team2}
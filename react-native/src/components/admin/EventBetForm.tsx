@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
-import type { TimePeriod } from '@shared/types/bets';
+import { getSportConfigForGame } from '@shared/config/sports';
+import type { EventType, TimePeriod } from '@shared/types/bets';
+import { formatTimePeriodLabel } from '@shared/utils/timePeriods';
 import { useTheme } from '../../context/ThemeContext';
 import { api } from '../../services/api';
 import type { Game, Player, SubjectType } from './types';
@@ -23,29 +25,19 @@ export function EventBetForm({
 }: EventBetFormProps) {
   const { effectiveTheme } = useTheme();
   const isDark = effectiveTheme === 'dark';
+  const sportConfig = getSportConfigForGame(game.sport);
+  const scoreMetric = sportConfig.score_metric || 'points';
   const [subjectType, setSubjectType] = useState<SubjectType>('PLAYER');
   const [team, setTeam] = useState<'home' | 'away' | ''>('home');
   const [player, setPlayer] = useState<string>('');
-  const [metric, setMetric] = useState<string>('points');
+  const [metric, setMetric] = useState<string>(scoreMetric);
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('FULL_GAME');
-  const [eventType, setEventType] = useState<'DOUBLE_DOUBLE' | 'TRIPLE_DOUBLE'>('DOUBLE_DOUBLE');
+  const eventTypes = sportConfig.event_types || [];
+  const [eventType, setEventType] = useState<EventType>(eventTypes[0]?.value || 'DOUBLE_DOUBLE');
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const formatTimePeriodLabel = (period: TimePeriod | string): string => {
-    const map: Record<string, string> = {
-      FULL_GAME: 'Full Game',
-      Q1: 'Q1',
-      Q2: 'Q2',
-      Q3: 'Q3',
-      Q4: 'Q4',
-      H1: '1H',
-      H2: '2H',
-      OT: 'OT',
-    };
-    return map[period] || period;
-  };
 
   const handleCreate = async () => {
     if (loading) return;
@@ -154,8 +146,8 @@ export function EventBetForm({
       return 'Complete the form to see preview';
     }
 
-    const eventTypeLabel = eventType === 'DOUBLE_DOUBLE' ? 'Double Double' : 'Triple Double';
-    const period = participant.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant.time_period)})` : '';
+    const eventTypeLabel = eventTypes.find((et) => et.value === eventType)?.label || eventType;
+    const period = participant.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant.time_period, sportConfig)})` : '';
 
     return `${participant.subject_name} ${eventTypeLabel}${period}`;
   };
@@ -173,6 +165,7 @@ export function EventBetForm({
       <ParticipantSelector
         label="Participant"
         game={game}
+        sportConfig={sportConfig}
         subjectType={subjectType}
         setSubjectType={setSubjectType}
         team={team}
@@ -191,22 +184,17 @@ export function EventBetForm({
       {/* <View className={`rounded-2xl px-3 py-3 ${isDark ? 'bg-slate-800' : 'bg-slate-50'}`}> */}
         <Text className={`text-[11px] font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>Event Type</Text>
         <View className={`flex-row rounded-full p-1 ${isDark ? 'bg-slate-900' : 'bg-slate-100'}`}>
-          <TouchableOpacity
-            onPress={() => setEventType('DOUBLE_DOUBLE')}
-            className={`flex-1 rounded-full px-3 py-1 items-center ${eventType === 'DOUBLE_DOUBLE' ? (isDark ? 'bg-slate-100' : 'bg-orange-600') : 'bg-transparent'}`}
-          >
-            <Text className={`text-[11px] font-medium ${eventType === 'DOUBLE_DOUBLE' ? (isDark ? 'text-slate-900' : 'text-white') : (isDark ? 'text-slate-300' : 'text-slate-700')}`}>
-              Double Double
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => setEventType('TRIPLE_DOUBLE')}
-            className={`flex-1 rounded-full px-3 py-1 items-center ${eventType === 'TRIPLE_DOUBLE' ? (isDark ? 'bg-slate-100' : 'bg-orange-600') : 'bg-transparent'}`}
-          >
-            <Text className={`text-[11px] font-medium ${eventType === 'TRIPLE_DOUBLE' ? (isDark ? 'text-slate-900' : 'text-white') : (isDark ? 'text-slate-300' : 'text-slate-700')}`}>
-              Triple Double
-            </Text>
-          </TouchableOpacity>
+          {eventTypes.map((et) => (
+            <TouchableOpacity
+              key={et.value}
+              onPress={() => setEventType(et.value)}
+              className={`flex-1 rounded-full px-3 py-1 items-center ${eventType === et.value ? (isDark ? 'bg-slate-100' : 'bg-orange-600') : 'bg-transparent'}`}
+            >
+              <Text className={`text-[11px] font-medium ${eventType === et.value ? (isDark ? 'text-slate-900' : 'text-white') : (isDark ? 'text-slate-300' : 'text-slate-700')}`}>
+                {et.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
       {/* </View> */}
 
@@ -1,13 +1,14 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
-import { BASKETBALL_CONFIG } from '@shared/config/sports/basketball';
 import type { TimePeriod } from '@shared/types/bets';
+import type { SportConfig } from '@shared/types/sports';
 import { useTheme } from '../../context/ThemeContext';
 import type { Game, Player, SubjectType } from './types';
 
 interface ParticipantSelectorProps {
   label: string;
   game: Game;
+  sportConfig: SportConfig;
   subjectType: SubjectType;
   setSubjectType: (t: SubjectType) => void;
   team: 'home' | 'away' | '';
@@ -26,6 +27,7 @@ interface ParticipantSelectorProps {
 export function ParticipantSelector({
   label,
   game,
+  sportConfig,
   subjectType,
   setSubjectType,
   team,
@@ -158,7 +160,7 @@ export function ParticipantSelector({
       <View className="mt-1">
         <Text className={`text-[11px] mb-1 ${isDark ? 'text-slate-400' : 'text-slate-800'}`}>Metric</Text>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-          {BASKETBALL_CONFIG.metrics
+          {sportConfig.metrics
             .filter((m) => (subjectType === 'TEAM' ? m.team : m.player))
             .map((m) => (
               <TouchableOpacity
@@ -177,7 +179,7 @@ export function ParticipantSelector({
       <View className="mt-2">
         <Text className={`text-[11px] mb-1 ${isDark ? 'text-slate-400' : 'text-slate-800'}`}>Time period</Text>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-          {BASKETBALL_CONFIG.time_periods.map((tp) => (
+          {sportConfig.time_periods.map((tp) => (
             <TouchableOpacity
               key={tp.value}
               onPress={() => setTimePeriod(tp.value)}
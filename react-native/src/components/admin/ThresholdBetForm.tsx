@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator, ScrollView } from 'react-native';
+import { getSportConfigForGame } from '@shared/config/sports';
 import type { TimePeriod } from '@shared/types/bets';
+import { formatTimePeriodLabel } from '@shared/utils/timePeriods';
+import { MAX_TOTAL_PARTICIPANTS } from '@shared/utils/betTotals';
 import { useTheme } from '../../context/ThemeContext';
 import { api } from '../../services/api';
 import type { Game, Player, SubjectType } from './types';
@@ -23,13 +26,18 @@ export function ThresholdBetForm({
 }: ThresholdBetFormProps) {
   const { effectiveTheme } = useTheme();
   const isDark = effectiveTheme === 'dark';
+  const sportConfig = getSportConfigForGame(game.sport);
+  const scoreMetric = sportConfig.score_metric || 'points';
   const [subjectType, setSubjectType] = useState<SubjectType>('TEAM');
   const [team, setTeam] = useState<'home' | 'away' | ''>('home');
   const [player, setPlayer] = useState<string>('');
-  const [metric, setMetric] = useState<string>('points');
+  const [metric, setMetric] = useState<string>(scoreMetric);
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('FULL_GAME');
   const [operator, setOperator] = useState<'OVER' | 'UNDER'>('OVER');
   const [threshold, setThreshold] = useState('28.5');
+  // Totals mode: both teams for a game total, or extra players summed with the selected one
+  const [gameTotal, setGameTotal] = useState(false);
+  const [totalPlayers, setTotalPlayers] = useState<string[]>([]);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -37,18 +45,16 @@ export function ThresholdBetForm({
   const formatMetricLabel = (metric: string): string =>
     metric.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
 
-  const formatTimePeriodLabel = (period: TimePeriod | string): string => {
-    const map: Record<string, string> = {
-      FULL_GAME: 'Full Game',
-      Q1: 'Q1',
-      Q2: 'Q2',
-      Q3: 'Q3',
-      Q4: 'Q4',
-      H1: '1H',
-      H2: '2H',
-      OT: 'OT',
-    };
-    return map[period] || period;
+  const otherTeam = team === 'home' ? 'away' : team === 'away' ? 'home' : '';
+  const isGameTotal = subjectType === 'TEAM' && gameTotal && otherTeam !== '';
+  // The selected player can't also be added to their own total
+  const totalPlayerIds = subjectType === 'PLAYER' ? totalPlayers.filter((id) => id !== player) : [];
+
+  const toggleTotalPlayer = (id: string) => {
+    setTotalPlayers((prev) => {
+      if (prev.includes(id)) return prev.filter((p) => p !== id);
+      return prev.length + 1 < MAX_TOTAL_PARTICIPANTS ? [...prev, id] : prev;
+    });
   };
 
   const handleCreate = async () => {
@@ -115,6 +121,20 @@ export function ThresholdBetForm({
       return;
     }
 
+    // Totals share the participant's metric and time period
+    const totalWith = isGameTotal && otherTeam
+      ? [buildTeamParticipant(otherTeam, metric, timePeriod)]
+      : totalPlayerIds
+          .map((id) => findPlayer(id))
+          .filter((p): p is Player => !!p)
+          .map((p) => ({
+            subject_type: 'PLAYER' as const,
+            subject_id: String(p.id),
+            subject_name: p.displayName || p.fullName || `Player ${p.id}`,
+            metric,
+            time_period: timePeriod,
+          }));
+
     try {
       setLoading(true);
       const config = {
@@ -122,6 +142,7 @@ export function ThresholdBetForm({
         participant,
         operator,
         threshold: thresholdValue,
+        ...(totalWith.length > 0 && { total_with: totalWith }),
       };
 
       const response: any = await api.createBet(game.id, 'THRESHOLD', config);
@@ -167,7 +188,20 @@ export function ThresholdBetForm({
 
     const thresholdValue = parseFloat(threshold) || 0;
     const metricLabel = formatMetricLabel(participant.metric);
-    const period = participant.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant.time_period)})` : '';
+    const period = participant.time_period !== 'FULL_GAME' ? ` (${formatTimePeriodLabel(participant.time_period, sportConfig)})` : '';
+
+    // Game total (both teams, score metric) - matches the backend's display text
+    if (isGameTotal && otherTeam) {
+      const otherName = buildPreviewSubjectName('TEAM', otherTeam, '', 'Team');
+      return metric === scoreMetric
+        ? `${participant.subject_name} / ${otherName} ${operator} ${thresholdValue}${period}`
+        : `${participant.subject_name} + ${otherName} ${operator} ${thresholdValue} ${metricLabel}${period}`;
+    }
+
+    if (totalPlayerIds.length > 0) {
+      const names = [participant.subject_name, ...totalPlayerIds.map((id) => buildPreviewSubjectName('PLAYER', '', id, 'Player'))];
+      return `${names.join(' + ')} ${operator} ${thresholdValue} ${metricLabel}${period}`;
+    }
 
     return `${participant.subject_name} ${operator} ${thresholdValue} ${metricLabel}${period}`;
   };
@@ -185,6 +219,7 @@ export function ThresholdBetForm({
       <ParticipantSelector
         label="Participant"
         game={game}
+        sportConfig={sportConfig}
         subjectType={subjectType}
         setSubjectType={setSubjectType}
         team={team}
@@ -232,6 +267,43 @@ export function ThresholdBetForm({
         </View>
       </View>
 
+      <View className={`rounded-2xl px-3 py-3 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
+        <Text className={`text-[11px] font-medium mb-2 ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>Total (optional)</Text>
+        {subjectType === 'TEAM' ? (
+          <TouchableOpacity
+            onPress={() => setGameTotal(!gameTotal)}
+            disabled={!otherTeam}
+            className={`self-start px-3 py-1 rounded-full border ${isGameTotal ? (isDark ? 'bg-slate-100 border-slate-100' : 'bg-orange-600 border-orange-600') : (isDark ? 'bg-slate-900 border-slate-700' : 'bg-slate-100 border-slate-300')}`}
+          >
+            <Text className={`text-[11px] ${isGameTotal ? (isDark ? 'text-slate-900' : 'text-white') : (isDark ? 'text-slate-200' : 'text-slate-700')}`}>
+              Game total (both teams)
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            <Text className={`text-[11px] mb-1 ${isDark ? 'text-slate-400' : 'text-slate-800'}`}>Add players to sum with the participant</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {playersHome.concat(playersAway)
+                .filter((p) => String(p.id) !== player)
+                .map((p) => {
+                  const isSelected = totalPlayerIds.includes(String(p.id));
+                  return (
+                    <TouchableOpacity
+                      key={p.id}
+                      onPress={() => toggleTotalPlayer(String(p.id))}
+                      className={`px-3 py-1 rounded-full mr-2 border ${isSelected ? (isDark ? 'bg-slate-100 border-slate-100' : 'bg-orange-600 border-orange-600') : (isDark ? 'bg-slate-900 border-slate-700' : 'bg-slate-100 border-slate-300')}`}
+                    >
+                      <Text className={`text-[11px] ${isSelected ? (isDark ? 'text-slate-900' : 'text-white') : (isDark ? 'text-slate-200' : 'text-slate-700')}`}>
+                        {p.displayName || p.fullName || 'Unknown'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+            </ScrollView>
+          </>
+        )}
+      </View>
+
       <View className={`mt-2 rounded-2xl px-3 py-3 ${isDark ? 'bg-slate-800' : 'bg-slate-100'}`}>
         <Text className={`text-[11px] mb-1 ${isDark ? 'text-slate-400' : 'text-slate-800'}`}>Preview</Text>
         <Text className={`text-xs font-medium ${isDark ? 'text-slate-100' : 'text-slate-900'}`}>{generatePreview()}</Text>
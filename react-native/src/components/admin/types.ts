@@ -1,5 +1,6 @@
 export interface Game {
   id: string;
+  sport?: string;
   homeTeam: string;
   awayTeam: string;
   startTime: string;
@@ -3,8 +3,11 @@ import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { api } from '../../services/api';
 import { BetSelectionCard } from './BetSelectionCard';
 import type { BetConfig } from '@shared/types/bets';
+import { isThreeWayBet } from '@shared/utils/betSides';
+import { getThresholdParticipants } from '@shared/utils/betTotals';
 import { useToast } from '../../context/ToastContext';
 import { useParlay } from '../../context/ParlayContext';
+import { useRules } from '../../context/RulesContext';
 import { useBets } from '../../context/BetsContext';
 
 interface Bet {
@@ -34,6 +37,7 @@ interface BetSelectionGroupProps {
 function getBetSideLabels(bet: Bet, game: Game): {
   side1: { value: string; label: string; isSimple?: boolean };
   side2: { value: string; label: string; isSimple?: boolean };
+  draw?: { value: string; label: string; isSimple?: boolean }; // Three-way comparisons only
   context?: string; // Optional context to display above buttons
 } {
   const config = bet.config;
@@ -101,6 +105,7 @@ function getBetSideLabels(bet: Bet, game: Game): {
     return {
       side1: { value: 'participant_1', label: name1 },
       side2: { value: 'participant_2', label: name2 },
+      ...(isThreeWayBet(bet.betType, compConfig) && { draw: { value: 'draw', label: 'DRAW', isSimple: true } }),
       context: bet.displayText || 'Select Winner', // Use displayText or default title
     };
   } else if (bet.betType === 'THRESHOLD') {
@@ -111,7 +116,8 @@ function getBetSideLabels(bet: Bet, game: Game): {
     // Build context: "{Subject} {Metric} {TimePeriod}"
     let context = '';
     if (participant) {
-      const subjectName = participant.subject_name || '';
+      // Totals list every participant being summed
+      const subjectName = getThresholdParticipants(threshConfig).map(p => p.subject_name).join(' + ');
       const metric = participant.metric || '';
       const timePeriod = participant.time_period && participant.time_period !== 'FULL_GAME' 
         ? ` (${participant.time_period})` 
@@ -148,13 +154,14 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved, selectedBetId,
   const { showToast } = useToast();
   const { activeParlay, setActiveParlay, isParlayBuilderOpen, setIsParlayBuilderOpen, refreshActiveParlay } = useParlay();
   const { triggerRefresh } = useBets();
+  const { rules } = useRules(activeParlay?.rulesetVersion);
 
   const sideLabels = getBetSideLabels(bet, game);
   const gameStarted = game.status !== 'scheduled';
   const disabled = gameStarted || loading || parlayLoading || saved;
 
-  // Check if parlay is full (5 bets max)
-  const parlayFull = activeParlay && activeParlay.betCount >= 5;
+  // Check if parlay is full (max legs from the parlay's ruleset)
+  const parlayFull = !!activeParlay && !!rules && activeParlay.betCount >= rules.maxLegs;
 
   // Clear selection if another bet was selected
   useEffect(() => {
@@ -187,7 +194,9 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved, selectedBetId,
     setError(null);
 
     try {
-      const response = await api.selectBet(bet.id, selectedSide);
+      // Hours ahead of UTC, so the daily single bet cap uses the user's game day
+      const timezoneOffset = -new Date().getTimezoneOffset() / 60;
+      const response = await api.selectBet(bet.id, selectedSide, timezoneOffset);
       if (response.success) {
         setSaved(true);
         showToast('Bet selection saved!', 'success');
@@ -311,6 +320,17 @@ export function BetSelectionGroup({ bet, game, onSelectionSaved, selectedBetId,
           isSimple={sideLabels.side1.isSimple}
           hasContext={!!sideLabels.context}
         />
+        {sideLabels.draw && (
+          <BetSelectionCard
+            side={sideLabels.draw.value}
+            label={sideLabels.draw.label}
+            isSelected={selectedSide === sideLabels.draw.value}
+            disabled={disabled}
+            onPress={() => handleCardPress('draw')}
+            isSimple={sideLabels.draw.isSimple}
+            hasContext={!!sideLabels.context}
+          />
+        )}
         <BetSelectionCard
           side={sideLabels.side2.value}
           label={sideLabels.side2.label}
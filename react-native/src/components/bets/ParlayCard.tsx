@@ -4,6 +4,8 @@ import { Ionicons } from '@expo/vector-icons';
 import type { Parlay, ParlaySelection } from '../../interfaces/parlay';
 import { LockTimer } from '../common/LockTimer';
 import { useTheme } from '../../context/ThemeContext';
+import { isThreeWayBet } from '@shared/utils/betSides';
+import { getThresholdParticipants } from '@shared/utils/betTotals';
 
 interface ParlayCardProps {
   parlay: Parlay;
@@ -20,6 +22,7 @@ interface ParlayCardProps {
 function getBetSideLabels(selection: ParlaySelection): {
   side1: { value: string; label: string };
   side2: { value: string; label: string };
+  draw?: { value: string; label: string }; // Three-way comparisons only
   context?: string;
 } {
   const { bet, game } = selection;
@@ -88,6 +91,7 @@ function getBetSideLabels(selection: ParlaySelection): {
     return {
       side1: { value: 'participant_1', label: name1 },
       side2: { value: 'participant_2', label: name2 },
+      ...(isThreeWayBet(bet.betType, compConfig) && { draw: { value: 'draw', label: 'DRAW' } }),
     };
 
   } else if (bet.betType === 'THRESHOLD') {
@@ -97,7 +101,8 @@ function getBetSideLabels(selection: ParlaySelection): {
 
     let context = '';
     if (participant) {
-      const subjectName = participant.subject_name || '';
+      // Totals list every participant being summed
+      const subjectName = getThresholdParticipants(threshConfig).map(p => p.subject_name).join(' + ');
       const metric = participant.metric || '';
       const timePeriod = participant.time_period && participant.time_period !== 'FULL_GAME'
         ? ` (${participant.time_period})`
@@ -194,7 +199,9 @@ export function ParlayCard({
   const firstPick = firstSelection && firstSideLabels
     ? (firstSelection.selectedSide === firstSideLabels.side1.value 
         ? firstSideLabels.side1.label 
-        : firstSideLabels.side2.label)
+        : (firstSideLabels.draw && firstSelection.selectedSide === firstSideLabels.draw.value
+          ? firstSideLabels.draw.label
+          : firstSideLabels.side2.label))
     : '';
 
   return (
@@ -257,7 +264,10 @@ export function ParlayCard({
             {parlay.selections.map((selection) => {
               const sideLabels = getBetSideLabels(selection);
               const isSelected1 = selection.selectedSide === sideLabels.side1.value;
-              const selectedLabel = isSelected1 ? sideLabels.side1.label : sideLabels.side2.label;
+              const isSelectedDraw = !!sideLabels.draw && selection.selectedSide === sideLabels.draw.value;
+              const selectedLabel = isSelected1
+                ? sideLabels.side1.label
+                : (isSelectedDraw && sideLabels.draw ? sideLabels.draw.label : sideLabels.side2.label);
               
               const SelectionWrapper = onSelectionPress ? TouchableOpacity : View;
 
@@ -6,6 +6,9 @@ import { useParlay } from '../../context/ParlayContext';
 import { useTheme } from '../../context/ThemeContext';
 import { BetSelection } from '../../interfaces/bet';
 import { openEspnGame } from '../../utils/espn';
+import { isThreeWayBet } from '@shared/utils/betSides';
+import { getThresholdParticipants } from '@shared/utils/betTotals';
+import type { SingleBetRules } from '@shared/types';
 
 interface SingleBetCardProps {
   selection: BetSelection;
@@ -16,6 +19,7 @@ interface SingleBetCardProps {
   onPress?: () => void;
   initiallyExpanded?: boolean;
   hideLockIcon?: boolean;
+  singleBetRules?: SingleBetRules; // Shows what the pick is worth while it's open
 }
 
 function getSportEmoji(sport: string): string {
@@ -42,6 +46,7 @@ function formatTime(dateString: string): string {
 function getBetSideLabels(bet: any, game: any): {
   side1: { value: string; label: string };
   side2: { value: string; label: string };
+  draw?: { value: string; label: string }; // Three-way comparisons only
   context?: string;
 } {
   const config = bet.config;
@@ -109,6 +114,7 @@ function getBetSideLabels(bet: any, game: any): {
     return {
       side1: { value: 'participant_1', label: name1 },
       side2: { value: 'participant_2', label: name2 },
+      ...(isThreeWayBet(bet.betType, compConfig) && { draw: { value: 'draw', label: 'DRAW' } }),
     };
 
   } else if (bet.betType === 'THRESHOLD') {
@@ -118,7 +124,8 @@ function getBetSideLabels(bet: any, game: any): {
 
     let context = '';
     if (participant) {
-      const subjectName = participant.subject_name || '';
+      // Totals list every participant being summed
+      const subjectName = getThresholdParticipants(threshConfig).map(p => p.subject_name).join(' + ');
       const metric = participant.metric || '';
       const timePeriod = participant.time_period && participant.time_period !== 'FULL_GAME'
         ? ` (${participant.time_period})`
@@ -154,7 +161,8 @@ export function SingleBetCard({
   collapsible = true,
   onPress,
   initiallyExpanded = false,
-  hideLockIcon = false
+  hideLockIcon = false,
+  singleBetRules
 }: SingleBetCardProps) {
   const [isExpanded, setIsExpanded] = useState(initiallyExpanded);
   const { isParlayBuilderOpen } = useParlay();
@@ -178,6 +186,10 @@ export function SingleBetCard({
 
   const isSelected1 = selection.selectedSide === sideLabels.side1.value;
   const isSelected2 = selection.selectedSide === sideLabels.side2.value;
+  const isSelectedDraw = !!sideLabels.draw && selection.selectedSide === sideLabels.draw.value;
+  const selectedLabel = isSelected1
+    ? sideLabels.side1.label
+    : (isSelectedDraw && sideLabels.draw ? sideLabels.draw.label : sideLabels.side2.label);
 
   return (
     <View
@@ -203,10 +215,10 @@ export function SingleBetCard({
             <Text className="text-slate-800 dark:text-white text-base font-bold flex-1" numberOfLines={1}>
               {sideLabels.context ? (
                 <>
-                  {sideLabels.context} • <Text style={{ color: '#fb923c' }}>{isSelected1 ? sideLabels.side1.label : sideLabels.side2.label}</Text>
+                  {sideLabels.context} • <Text style={{ color: '#fb923c' }}>{selectedLabel}</Text>
                 </>
               ) : (
-                <Text style={{ color: '#fb923c' }}>{isSelected1 ? sideLabels.side1.label : sideLabels.side2.label}</Text>
+                <Text style={{ color: '#fb923c' }}>{selectedLabel}</Text>
               )}
             </Text>
           </View>
@@ -302,7 +314,7 @@ export function SingleBetCard({
                 <View style={{ flex: 1, alignItems: 'flex-end' }}>
                    {sideLabels.context && <Text className="text-slate-700 dark:text-e2e8f0 text-sm text-right mb-0.5">{sideLabels.context}</Text>}
                    <Text className="text-orange-600 dark:text-orange-400 text-base font-bold text-right">
-                     {isSelected1 ? sideLabels.side1.label : sideLabels.side2.label}
+                     {selectedLabel}
                    </Text>
                 </View>
               </View>
@@ -336,6 +348,13 @@ export function SingleBetCard({
                 </Text>
               </View>
 
+              {singleBetRules && (
+                <Text className="text-slate-500 dark:text-slate-500 text-xs mb-3">
+                  Win +{singleBetRules.winPoints}
+                  {singleBetRules.lossResetsStreak ? ' • Loss resets streak' : ' • Loss keeps streak'}
+                </Text>
+              )}
+
               {/* Selection buttons - both shown, selected one highlighted */}
               <View style={{ flexDirection: 'row', gap: 8, marginBottom: 12 }}>
                 <View
@@ -356,6 +375,26 @@ export function SingleBetCard({
                     {sideLabels.side1.label}
                   </Text>
                 </View>
+                {sideLabels.draw && (
+                  <View
+                    className={`flex-1 p-2.5 rounded-xl border ${
+                      isSelectedDraw
+                        ? 'border-orange-500 bg-orange-500/10'
+                        : 'border-slate-200 bg-slate-100/30 dark:border-slate-700 dark:bg-slate-800'
+                    } items-center justify-center`}
+                  >
+                    <Text
+                      className={`text-sm font-semibold text-center ${
+                        isSelectedDraw
+                          ? 'text-orange-600 dark:text-orange-400'
+                          : 'text-slate-500 dark:text-slate-400'
+                      }`}
+                      numberOfLines={2}
+                    >
+                      {sideLabels.draw.label}
+                    </Text>
+                  </View>
+                )}
                 <View
                   className={`flex-1 p-2.5 rounded-xl border ${
                     isSelected2 
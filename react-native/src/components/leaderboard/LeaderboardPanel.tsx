@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { LeaderboardBoard, LeaderboardEntry, LeaderboardResponse, LeaderboardWindow } from '@shared/types';
+import type { ApiResponse } from '../../interfaces';
+import { useAuth } from '../../context/AuthContext';
+
+const BOARDS: Array<{ value: LeaderboardBoard; label: string }> = [
+  { value: 'current_streak', label: 'Streak' },
+  { value: 'longest_streak', label: 'Best' },
+  { value: 'points', label: 'Points' },
+];
+
+const WINDOWS: Array<{ value: LeaderboardWindow; label: string }> = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: 'Week' },
+  { value: 'monthly', label: 'Month' },
+  { value: 'all_time', label: 'All Time' },
+];
+
+function LeaderboardRow({ entry, isMe }: { entry: LeaderboardEntry; isMe: boolean }) {
+  return (
+    <View
+      className={`flex-row items-center justify-between px-4 py-3 ${
+        isMe ? 'bg-orange-50 dark:bg-orange-900/30' : ''
+      }`}
+    >
+      <View className="flex-row items-center flex-1 mr-3">
+        <Text className="w-10 text-slate-500 dark:text-slate-400 font-semibold">#{entry.rank}</Text>
+        <Text
+          numberOfLines={1}
+          className={`flex-1 ${isMe ? 'text-slate-900 dark:text-white font-bold' : 'text-slate-700 dark:text-slate-200'}`}
+        >
+          {entry.username}{isMe ? ' (you)' : ''}
+        </Text>
+      </View>
+      <Text className="text-lg font-bold text-slate-900 dark:text-white">{entry.value}</Text>
+    </View>
+  );
+}
+
+interface LeaderboardPanelProps {
+  // Loads one page of the board; the panel handles tabs, paging and the caller's rank
+  fetchLeaderboard: (
+    board: LeaderboardBoard,
+    window: LeaderboardWindow,
+    page: number
+  ) => Promise<ApiResponse<LeaderboardResponse>>;
+  refreshKey?: number; // Bump to reload the current page (pull to refresh)
+}
+
+export function LeaderboardPanel({ fetchLeaderboard, refreshKey = 0 }: LeaderboardPanelProps) {
+  const { user } = useAuth();
+  const [board, setBoard] = useState<LeaderboardBoard>('current_streak');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all_time');
+  const [page, setPage] = useState(1);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadLeaderboard = useCallback(async () => {
+    setError('');
+    try {
+      const response = await fetchLeaderboard(board, timeWindow, page);
+      if (response.success && response.data) {
+        setLeaderboard(response.data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchLeaderboard, board, timeWindow, page]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadLeaderboard();
+  }, [loadLeaderboard, refreshKey]);
+
+  const totalPages = leaderboard ? Math.max(1, Math.ceil(leaderboard.total / leaderboard.pageSize)) : 1;
+  const me = leaderboard?.me;
+  const meOnPage = me ? leaderboard?.entries.some(entry => entry.userId === me.userId) : false;
+
+  return (
+    <View>
+      {/* Board tabs */}
+      <View className="flex-row bg-slate-100 dark:bg-slate-800 rounded-xl p-1 mb-3">
+        {BOARDS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => {
+              setBoard(option.value);
+              setPage(1);
+            }}
+            className={`flex-1 py-2 rounded-lg items-center ${board === option.value ? 'bg-orange-600' : ''}`}
+          >
+            <Text className={`font-semibold ${board === option.value ? 'text-white' : 'text-slate-600 dark:text-slate-300'}`}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Window tabs */}
+      <View className="flex-row gap-2 mb-6">
+        {WINDOWS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => {
+              setTimeWindow(option.value);
+              setPage(1);
+            }}
+            className={`px-3 py-1 rounded-full border ${
+              timeWindow === option.value
+                ? 'bg-slate-900 dark:bg-slate-200 border-slate-900 dark:border-slate-200'
+                : 'border-slate-200 dark:border-slate-800'
+            }`}
+          >
+            <Text
+              className={`text-sm ${
+                timeWindow === option.value
+                  ? 'text-white dark:text-slate-900 font-semibold'
+                  : 'text-slate-600 dark:text-slate-400'
+              }`}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error ? (
+        <View className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-3 mb-4">
+          <Text className="text-red-600 dark:text-red-400 text-sm">{error}</Text>
+        </View>
+      ) : null}
+
+      {/* Your rank, when you're not on this page */}
+      {user && leaderboard && !meOnPage && (
+        <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden mb-4">
+          {me ? (
+            <LeaderboardRow entry={me} isMe />
+          ) : (
+            <Text className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">You're not on this board yet</Text>
+          )}
+        </View>
+      )}
+
+      <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden shadow-lg shadow-slate-900/10 dark:shadow-none">
+        {loading ? (
+          <View className="py-8 items-center">
+            <ActivityIndicator color="#ea580c" />
+          </View>
+        ) : !leaderboard || leaderboard.entries.length === 0 ? (
+          <Text className="py-8 text-center text-slate-500 dark:text-slate-400">No one on this board yet</Text>
+        ) : (
+          leaderboard.entries.map((entry, index) => (
+            <View key={entry.userId} className={index > 0 ? 'border-t border-slate-100 dark:border-slate-800' : ''}>
+              <LeaderboardRow entry={entry} isMe={entry.userId === user?.id} />
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Pagination */}
+      {leaderboard && totalPages > 1 && (
+        <View className="flex-row items-center justify-between mt-4">
+          <TouchableOpacity
+            onPress={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            className={`p-2 rounded-lg bg-slate-100 dark:bg-slate-800 ${page <= 1 ? 'opacity-50' : ''}`}
+          >
+            <Ionicons name="chevron-back" size={20} color="#94a3b8" />
+          </TouchableOpacity>
+          <Text className="text-sm text-slate-500 dark:text-slate-400">
+            Page {page} of {totalPages}
+          </Text>
+          <TouchableOpacity
+            onPress={() => setPage(page + 1)}
+            disabled={page >= totalPages || loading}
+            className={`p-2 rounded-lg bg-slate-100 dark:bg-slate-800 ${page >= totalPages ? 'opacity-50' : ''}`}
+          >
+            <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
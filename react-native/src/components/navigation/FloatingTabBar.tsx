@@ -8,12 +8,12 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const TAB_BAR_HEIGHT = 64;
 const PILL_HEIGHT = 48;
-const PILL_WIDTH = 140;
-const TAB_COUNT = 2; // Home and Profile
+const TAB_COUNT = 3; // Home, Leaderboard and Profile
 const CONTAINER_PADDING = 40; // left: 20 + right: 20
 const INNER_PADDING = 16; // paddingHorizontal: 8 * 2
 const AVAILABLE_WIDTH = SCREEN_WIDTH - CONTAINER_PADDING - INNER_PADDING;
 const TAB_WIDTH = AVAILABLE_WIDTH / TAB_COUNT;
+const PILL_WIDTH = Math.min(140, TAB_WIDTH - 8); // Keep a gap between pills on narrow screens
 
 export function FloatingTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
   const { effectiveTheme } = useTheme();
@@ -108,6 +108,8 @@ export function FloatingTabBar({ state, descriptors, navigation }: BottomTabBarP
         let iconName: any;
         if (route.name === 'Home') {
           iconName = isFocused ? 'home' : 'home-outline';
+        } else if (route.name === 'Leaderboard') {
+          iconName = isFocused ? 'trophy' : 'trophy-outline';
         } else if (route.name === 'Profile') {
           iconName = isFocused ? 'person' : 'person-outline';
         }
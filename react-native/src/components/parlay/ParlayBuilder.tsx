@@ -15,12 +15,17 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useParlay } from '../../context/ParlayContext';
+import { useAuth } from '../../context/AuthContext';
+import { useRules } from '../../context/RulesContext';
 import { useBets } from '../../context/BetsContext';
 import { useToast } from '../../context/ToastContext';
 import { useTheme } from '../../context/ThemeContext';
 import { api } from '../../services/api';
 import type { ParlaySelection } from '../../interfaces/parlay';
 import { LockTimer } from '../common/LockTimer';
+import { isThreeWayBet } from '@shared/utils/betSides';
+import { getThresholdParticipants } from '@shared/utils/betTotals';
+import { calculateInsuranceCost, isInsuranceEligible } from '@shared/utils/parlay';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 const SHEET_HEIGHT = SCREEN_HEIGHT * 0.75;
@@ -30,6 +35,7 @@ const MINIMIZED_HEIGHT = 80;
 function getBetSideLabels(selection: ParlaySelection): {
   side1: { value: string; label: string };
   side2: { value: string; label: string };
+  draw?: { value: string; label: string }; // Three-way comparisons only
   context?: string;
 } {
   const { bet, game } = selection;
@@ -98,6 +104,7 @@ function getBetSideLabels(selection: ParlaySelection): {
     return {
       side1: { value: 'participant_1', label: name1 },
       side2: { value: 'participant_2', label: name2 },
+      ...(isThreeWayBet(bet.betType, compConfig) && { draw: { value: 'draw', label: 'DRAW' } }),
     };
 
   } else if (bet.betType === 'THRESHOLD') {
@@ -107,7 +114,8 @@ function getBetSideLabels(selection: ParlaySelection): {
 
     let context = '';
     if (participant) {
-      const subjectName = participant.subject_name || '';
+      // Totals list every participant being summed
+      const subjectName = getThresholdParticipants(threshConfig).map(p => p.subject_name).join(' + ');
       const metric = participant.metric || '';
       const timePeriod = participant.time_period && participant.time_period !== 'FULL_GAME'
         ? ` (${participant.time_period})`
@@ -152,7 +160,12 @@ export function ParlayBuilder() {
   const { triggerRefresh } = useBets();
   const { showToast } = useToast();
   const { effectiveTheme } = useTheme();
+  const { user } = useAuth();
+  const { rules } = useRules(activeParlay?.rulesetVersion);
   const insets = useSafeAreaInsets();
+
+  // Insurance rules come from the ruleset the parlay was created under
+  const insuranceEligible = !!activeParlay && !!rules && isInsuranceEligible(activeParlay.betCount, rules);
   
   const isDark = effectiveTheme === 'dark';
   
@@ -364,7 +377,7 @@ export function ParlayBuilder() {
   };
 
   const handleToggleInsurance = async () => {
-    if (loading || !activeParlay || activeParlay.betCount < 4) return;
+    if (loading || !activeParlay || !insuranceEligible) return;
 
     setLoading(true);
 
@@ -445,8 +458,13 @@ export function ParlayBuilder() {
   }
 
   const isLocked = activeParlay.lockedAt !== null && activeParlay.lockedAt !== undefined;
-  const canInsure = activeParlay.betCount >= 4 && !isLocked;
-  const insuranceCost = activeParlay.betCount >= 4 ? activeParlay.insuranceCost : null;
+  const canInsure = insuranceEligible && !isLocked;
+  // Insured parlays show what was paid, otherwise quote the cost at the user's current streak
+  const insuranceCost = !rules || !insuranceEligible
+    ? null
+    : activeParlay.insured
+      ? activeParlay.insuranceCost
+      : calculateInsuranceCost(activeParlay.betCount, user?.currentStreak ?? 0, rules);
 
   return (
     <View style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, pointerEvents: 'box-none' }}>
@@ -591,6 +609,7 @@ export function ParlayBuilder() {
                 const sideLabels = getBetSideLabels(selection);
                 const isSelected1 = selection.selectedSide === sideLabels.side1.value;
                 const isSelected2 = selection.selectedSide === sideLabels.side2.value;
+                const isSelectedDraw = !!sideLabels.draw && selection.selectedSide === sideLabels.draw.value;
                 
                 return (
                   <View
@@ -659,6 +678,33 @@ export function ParlayBuilder() {
                           {sideLabels.side1.label}
                         </Text>
                       </View>
+                      {sideLabels.draw && (
+                        <View
+                          style={{
+                            flex: 1,
+                            paddingHorizontal: 8,
+                            paddingVertical: 8,
+                            borderRadius: 8,
+                            borderWidth: 1,
+                            borderColor: isSelectedDraw ? '#f97316' : (isDark ? '#334155' : '#cbd5e1'),
+                            backgroundColor: isSelectedDraw ? 'rgba(249, 115, 22, 0.15)' : 'transparent',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                          }}
+                        >
+                          <Text
+                            style={{
+                              fontSize: 11,
+                              fontWeight: '600',
+                              color: isSelectedDraw ? '#fb923c' : (isDark ? '#64748b' : '#475569'),
+                              textAlign: 'center',
+                            }}
+                            numberOfLines={2}
+                          >
+                            {sideLabels.draw.label}
+                          </Text>
+                        </View>
+                      )}
                       <View
                         style={{
                           flex: 1,
@@ -10,6 +10,25 @@ interface StreakHistoryCardProps {
   group: StreakGroup;
 }
 
+// Insured parlay losses keep the streak, so only a loss that hit 0 ended it
+function isStreakReset(event: StreakEvent): boolean {
+  return (event.type === 'parlay_loss' || event.type === 'bet_loss') && event.resultingStreak === 0;
+}
+
+function getEventLabel(event: StreakEvent): string {
+  switch (event.type) {
+    case 'parlay_win':
+    case 'bet_win':
+      return 'Streak Increased';
+    case 'insurance_deducted':
+      return 'Insurance Bought';
+    case 'insurance_refunded':
+      return 'Insurance Refunded';
+    default:
+      return isStreakReset(event) ? 'Streak Ended' : 'Insurance Saved';
+  }
+}
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
@@ -84,7 +103,7 @@ export function StreakHistoryCard({ group }: StreakHistoryCardProps) {
               >
                 {/* Left: Points or Image */}
                 <View className="w-12 items-center justify-center mr-3 border-r border-slate-200 dark:border-slate-700/50 pr-3">
-                  {(event.type === 'parlay_loss' || event.type === 'bet_loss') ? (
+                  {isStreakReset(event) ? (
                     <Image 
                       source={require('../../../assets/images/reset.png')} 
                       style={{ width: 32, height: 32, borderRadius: 4 }} 
@@ -95,7 +114,7 @@ export function StreakHistoryCard({ group }: StreakHistoryCardProps) {
                       className={`font-bold text-xl ${
                         event.pointsChange > 0
                           ? 'text-emerald-600 dark:text-emerald-400'
-                          : event.type === 'insurance_deducted'
+                          : event.type === 'insurance_deducted' || event.pointsChange === 0
                           ? 'text-orange-600 dark:text-orange-400'
                           : 'text-red-600 dark:text-red-400'
                       }`}
@@ -110,11 +129,7 @@ export function StreakHistoryCard({ group }: StreakHistoryCardProps) {
                 <View className="flex-1 justify-center">
                   <View className="flex-row items-center gap-2 mb-0.5">
                     <Text className="text-slate-700 dark:text-slate-300 font-bold text-sm">
-                      {event.type === 'parlay_win' || event.type === 'bet_win'
-                        ? 'Streak Increased'
-                        : event.type === 'insurance_deducted'
-                        ? 'Insurance Saved'
-                        : 'Streak Ended'}
+                      {getEventLabel(event)}
                     </Text>
                     {/* Parlay Badge */}
                     {event.parlay && (
@@ -1,5 +1,6 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { api } from '../services/api';
+import { unregisterPushNotifications } from '../services/pushNotifications';
 import type { User, AuthContextType } from '../interfaces';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -40,12 +41,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
+    try {
+      await unregisterPushNotifications();
+    } catch (error) {
+      console.error('Failed to unregister push notifications:', error);
+    }
     await api.logout();
     setUser(null);
   };
 
+  // Apply fields pushed by the server (e.g. streak updates) without refetching the user
+  const updateUser = useCallback((fields: Partial<User>) => {
+    setUser(prev => (prev ? { ...prev, ...fields } : prev));
+  }, []);
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, register, logout, checkAuth }}>
+    <AuthContext.Provider value={{ user, loading, login, register, logout, checkAuth, updateUser }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,82 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import type { GameRuleset } from '@shared/types';
+import { api } from '../services/api';
+import type { RulesContextType } from '../interfaces';
+
+const RulesContext = createContext<RulesContextType | undefined>(undefined);
+
+export function RulesProvider({ children }: { children: ReactNode }) {
+  const [rulesets, setRulesets] = useState<Record<number, GameRuleset>>({});
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const requestedVersions = useRef(new Set<number>());
+
+  const storeRuleset = useCallback((ruleset: GameRuleset) => {
+    requestedVersions.current.add(ruleset.version);
+    setRulesets(prev => ({ ...prev, [ruleset.version]: ruleset }));
+  }, []);
+
+  const refreshRules = useCallback(async () => {
+    try {
+      const response = await api.getRules();
+      if (response.success && response.data?.ruleset) {
+        storeRuleset(response.data.ruleset);
+        setActiveVersion(response.data.ruleset.version);
+      }
+    } catch (error) {
+      console.error('Error loading game rules:', error);
+    }
+  }, [storeRuleset]);
+
+  // Older versions are only needed for parlays created under them
+  const loadRuleset = useCallback((version: number) => {
+    if (requestedVersions.current.has(version)) return;
+    requestedVersions.current.add(version);
+
+    api.getRulesetVersion(version)
+      .then(response => {
+        if (response.success && response.data?.ruleset) {
+          storeRuleset(response.data.ruleset);
+        }
+      })
+      .catch(error => {
+        requestedVersions.current.delete(version);
+        console.error('Error loading game ruleset version:', error);
+      });
+  }, [storeRuleset]);
+
+  useEffect(() => {
+    refreshRules();
+  }, [refreshRules]);
+
+  return (
+    <RulesContext.Provider value={{ rulesets, activeVersion, loadRuleset, refreshRules }}>
+      {children}
+    </RulesContext.Provider>
+  );
+}
+
+/**
+ * Game rules for a ruleset version (a parlay's rulesetVersion), or the active rules if no version is given
+ * rules is null until the version has loaded
+ */
+export function useRules(version?: number) {
+  const context = useContext(RulesContext);
+  if (context === undefined) {
+    throw new Error('useRules must be used within a RulesProvider');
+  }
+
+  const { rulesets, activeVersion, loadRuleset, refreshRules } = context;
+  const targetVersion = version ?? activeVersion;
+
+  useEffect(() => {
+    if (targetVersion !== null) {
+      loadRuleset(targetVersion);
+    }
+  }, [targetVersion, loadRuleset]);
+
+  return {
+    rules: targetVersion !== null ? rulesets[targetVersion]?.rules ?? null : null,
+    activeVersion,
+    refreshRules,
+  };
+}
@@ -0,0 +1,43 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { io } from 'socket.io-client';
+import { useAuth } from './AuthContext';
+import { API_URL } from '../services/api';
+import type { RealtimeSocket, SocketContextType } from '../interfaces';
+
+const SocketContext = createContext<SocketContextType | undefined>(undefined);
+
+export function SocketProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [socket, setSocket] = useState<RealtimeSocket | null>(null);
+  const userId = user?.id;
+
+  // The server authenticates the socket off the session cookie, so only connect while logged in
+  useEffect(() => {
+    if (!userId) return;
+
+    const newSocket: RealtimeSocket = io(API_URL, { withCredentials: true });
+    newSocket.on('connect_error', (error) => {
+      console.error('Socket connection error:', error.message);
+    });
+    setSocket(newSocket);
+
+    return () => {
+      newSocket.disconnect();
+      setSocket(null);
+    };
+  }, [userId]);
+
+  return (
+    <SocketContext.Provider value={{ socket }}>
+      {children}
+    </SocketContext.Provider>
+  );
+}
+
+export function useSocket() {
+  const context = useContext(SocketContext);
+  if (context === undefined) {
+    throw new Error('useSocket must be used within a SocketProvider');
+  }
+  return context;
+}
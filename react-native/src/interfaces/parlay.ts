@@ -37,6 +37,7 @@ export interface Parlay {
   status: string;
   lockedAt?: string;
   resolvedAt?: string;
+  rulesetVersion: number;
   selections: ParlaySelection[];
   createdAt: string;
 }
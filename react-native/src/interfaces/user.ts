@@ -2,6 +2,8 @@
  * User-related interfaces for the mobile app
  */
 
+import type { Permission, UserRole } from '@shared/types';
+
 export interface User {
   id: string;
   username: string;
@@ -12,6 +14,7 @@ export interface User {
   totalPointsEarned: number;
   insuranceLocked: boolean;
   leaderboardRank?: number;
-  isAdmin?: boolean;
+  roles?: UserRole[];
+  permissions?: Permission[];
 }
 
@@ -4,6 +4,9 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 import { Dashboard } from '../pages/Dashboard';
 import { Settings } from '../pages/Settings';
+import { Leaderboard } from '../pages/Leaderboard';
+import { Leagues } from '../pages/Leagues';
+import { LeagueDetail } from '../pages/LeagueDetail';
 import { AdminHome } from '../pages/admin/AdminHome';
 import { AdminBetBuilder } from '../pages/admin/AdminBetBuilder';
 import { FloatingTabBar } from '../components/navigation/FloatingTabBar';
@@ -20,6 +23,16 @@ function AdminStack() {
   );
 }
 
+function LeaderboardStack() {
+  return (
+    <Stack.Navigator id="LeaderboardStack" screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="LeaderboardMain" component={Leaderboard} />
+      <Stack.Screen name="Leagues" component={Leagues} />
+      <Stack.Screen name="LeagueDetail" component={LeagueDetail} />
+    </Stack.Navigator>
+  );
+}
+
 export function TabNavigator() {
   return (
     <Tab.Navigator
@@ -29,6 +42,7 @@ export function TabNavigator() {
       }}
     >
       <Tab.Screen name="Home" component={Dashboard} />
+      <Tab.Screen name="Leaderboard" component={LeaderboardStack} />
       <Tab.Screen name="Profile" component={Settings} />
     </Tab.Navigator>
   );
@@ -15,6 +15,7 @@ import { useToast } from '../context/ToastContext';
 import { useParlay } from '../context/ParlayContext';
 import { useBets } from '../context/BetsContext';
 import type { Parlay } from '../interfaces/parlay';
+import type { SingleBetSummary } from '@shared/types';
 
 interface Bet {
   id: string;
@@ -69,12 +70,13 @@ export function Dashboard() {
   const navigation = useNavigation();
   const { user } = useAuth();
   const { activeParlay, setActiveParlay, isParlayBuilderOpen, setIsParlayBuilderOpen } = useParlay();
-  const { refreshTrigger, triggerRefresh } = useBets();
+  const { refreshTrigger, triggerRefresh, liveGames, watchGames } = useBets();
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [games, setGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [mySelections, setMySelections] = useState<BetSelection[]>([]);
+  const [singleBetSummary, setSingleBetSummary] = useState<SingleBetSummary | null>(null);
   const [myParlays, setMyParlays] = useState<Parlay[]>([]);
   const [loadingMyBets, setLoadingMyBets] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -150,12 +152,13 @@ export function Dashboard() {
       const timezoneOffset = getTimezoneOffset();
       const response = await api.getMySelections(dateString, timezoneOffset);
       if (response.success && response.data) {
-        const data = response.data as { selections?: BetSelection[] };
+        const data = response.data as { selections?: BetSelection[]; singleBets?: SingleBetSummary };
         // Filter to only single bets (no parlay)
         const singleBets = (data.selections || []).filter(
           (s: any) => !s.parlayId || s.parlayId === null
         );
         setMySelections(singleBets);
+        setSingleBetSummary(data.singleBets || null);
       } else {
         setMySelections([]);
       }
@@ -305,6 +308,12 @@ export function Dashboard() {
     }
   }, [refreshTrigger]);
 
+  // Get live score and status updates for the games on screen
+  useEffect(() => {
+    watchGames(games.map(game => game.id));
+    return () => watchGames([]);
+  }, [games, watchGames]);
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString(undefined, {
@@ -360,14 +369,17 @@ export function Dashboard() {
                       Personal Best: {user.longestStreak}
                     </Text>
                   </View>
-                  <View className="items-end">
+                  <TouchableOpacity
+                    className="items-end"
+                    onPress={() => navigation.navigate('Leaderboard' as never)}
+                  >
                     <Text className="text-xs text-orange-200 mb-1">
                       Rank
                     </Text>
                     <Text className="text-2xl font-bold text-white">
                       #{user.leaderboardRank || '-'}
                     </Text>
-                  </View>
+                  </TouchableOpacity>
                 </View>
               </View>
 
@@ -453,6 +465,11 @@ export function Dashboard() {
             <Text className="text-lg font-bold text-slate-900 dark:text-white">
               My Picks
             </Text>
+            {singleBetSummary?.rules.dailyOpenCap != null && (
+              <Text className="text-xs text-slate-500 dark:text-slate-400">
+                {singleBetSummary.openCount}/{singleBetSummary.rules.dailyOpenCap} open singles
+              </Text>
+            )}
           </View>
 
           {loadingMyBets && !refreshing ? (
@@ -489,6 +506,7 @@ export function Dashboard() {
                   onDelete={handleDeleteBet}
                   onMakeParlay={handleMakeParlay}
                   deletingId={deletingId}
+                  singleBetRules={singleBetSummary?.rules}
                 />
               ))}
             </View>
@@ -530,7 +548,11 @@ export function Dashboard() {
             </View>
           ) : (
             <View className="gap-4">
-              {games.map((game) => {
+              {games.map((listedGame) => {
+                const live = liveGames[listedGame.id];
+                const game = live
+                  ? { ...listedGame, status: live.status, homeScore: live.homeScore, awayScore: live.awayScore }
+                  : listedGame;
                 const sortedBets = [...game.bets].sort((a, b) => a.priority - b.priority);
                 
                 return (
@@ -558,6 +580,13 @@ export function Dashboard() {
                               </View>
                             )}
                           </View>
+                          {live && live.status !== 'scheduled' && (
+                            <Text className="text-xs text-slate-600 dark:text-slate-300 mt-1">
+                              {live.status === 'in_progress' && live.periodDisplay ? `${live.periodDisplay}: ` : ''}
+                              {game.awayTeam} <Text className="font-bold">{live.awayScore ?? 0}</Text> - <Text className="font-bold">{live.homeScore ?? 0}</Text> {game.homeTeam}
+                              {live.status === 'in_progress' && live.displayClock ? ` · ${live.displayClock}` : ''}
+                            </Text>
+                          )}
                         </View>
                       </View>
                     </View>
@@ -0,0 +1,45 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import type { LeaderboardBoard, LeaderboardWindow } from '@shared/types';
+import { api } from '../services/api';
+import { LeaderboardPanel } from '../components/leaderboard/LeaderboardPanel';
+
+export function Leaderboard() {
+  const navigation = useNavigation();
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const fetchLeaderboard = useCallback((board: LeaderboardBoard, window: LeaderboardWindow, page: number) => {
+    // getTimezoneOffset() returns minutes behind UTC; the API wants hours ahead
+    const timezoneOffset = -new Date().getTimezoneOffset() / 60;
+    return api.getLeaderboard(board, window, page, timezoneOffset);
+  }, []);
+
+  return (
+    <SafeAreaView className="flex-1 bg-slate-50 dark:bg-slate-950" edges={['top', 'left', 'right']}>
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ paddingBottom: 120 }}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={() => setRefreshKey(key => key + 1)} tintColor="#ea580c" />}
+      >
+        {/* Header */}
+        <View className="px-6 pt-6 pb-4 flex-row items-center justify-between">
+          <Text className="text-3xl font-bold text-slate-900 dark:text-white">Leaderboard</Text>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Leagues' as never)}
+            className="flex-row items-center gap-1 px-3 py-2 rounded-full bg-slate-100 dark:bg-slate-800"
+          >
+            <Ionicons name="people" size={16} color="#ea580c" />
+            <Text className="text-sm font-semibold text-slate-700 dark:text-slate-200">Leagues</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View className="px-6">
+          <LeaderboardPanel fetchLeaderboard={fetchLeaderboard} refreshKey={refreshKey} />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, ActivityIndicator, RefreshControl, Share } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import type { LeaderboardBoard, LeaderboardWindow, LeagueActivityItem, LeagueDetail as League, LeagueMember } from '@shared/types';
+import { validateLeagueName } from '@shared/validation/league';
+import { describeStreakChange } from '@shared/utils/streakActivity';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import { ConfirmationModal } from '../components/common/ConfirmationModal';
+import { LeaderboardPanel } from '../components/leaderboard/LeaderboardPanel';
+
+interface RouteParams {
+  leagueId: string;
+}
+
+type LeagueTab = 'leaderboard' | 'activity' | 'members';
+
+const TABS: Array<{ value: LeagueTab; label: string }> = [
+  { value: 'leaderboard', label: 'Board' },
+  { value: 'activity', label: 'Activity' },
+  { value: 'members', label: 'Members' },
+];
+
+export function LeagueDetail() {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { leagueId } = route.params as RouteParams;
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<LeagueTab>('leaderboard');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [activity, setActivity] = useState<LeagueActivityItem[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loadingActivity, setLoadingActivity] = useState(false);
+
+  const [editingName, setEditingName] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<LeagueMember | null>(null);
+
+  const loadLeague = useCallback(async () => {
+    try {
+      const response = await api.getLeague(leagueId);
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load league');
+    } finally {
+      setLoading(false);
+    }
+  }, [leagueId]);
+
+  const loadActivity = useCallback(async (before?: string) => {
+    setLoadingActivity(true);
+    try {
+      const response = await api.getLeagueActivity(leagueId, before);
+      if (response.success && response.data) {
+        const { activity: items, nextBefore: next } = response.data;
+        setActivity(prev => (before ? [...prev, ...items] : items));
+        setNextBefore(next);
+      }
+    } catch (err: any) {
+      showToast(err.message || 'Failed to load activity', 'error');
+    } finally {
+      setLoadingActivity(false);
+    }
+  }, [leagueId, showToast]);
+
+  useEffect(() => {
+    loadLeague();
+  }, [loadLeague]);
+
+  useEffect(() => {
+    if (tab === 'activity') {
+      loadActivity();
+    }
+  }, [tab, loadActivity, refreshKey]);
+
+  const fetchLeaderboard = useCallback((board: LeaderboardBoard, window: LeaderboardWindow, page: number) => {
+    // getTimezoneOffset() returns minutes behind UTC; the API wants hours ahead
+    const timezoneOffset = -new Date().getTimezoneOffset() / 60;
+    return api.getLeagueLeaderboard(leagueId, board, window, page, timezoneOffset);
+  }, [leagueId]);
+
+  const onRefresh = () => {
+    loadLeague();
+    setRefreshKey(key => key + 1);
+  };
+
+  const handleRename = async () => {
+    const validationError = validateLeagueName(newName);
+    if (validationError) {
+      showToast(validationError, 'error');
+      return;
+    }
+
+    try {
+      const response = await api.renameLeague(leagueId, newName.trim());
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+        setEditingName(false);
+      }
+    } catch (err: any) {
+      showToast(err.message || 'Failed to rename league', 'error');
+    }
+  };
+
+  const handleShareCode = async () => {
+    if (!league) return;
+    try {
+      await Share.share({ message: `Join my Parlay Streak league "${league.name}" with invite code ${league.inviteCode}` });
+    } catch (err) {
+      console.error('Failed to share invite code:', err);
+    }
+  };
+
+  const handleRegenerateCode = async () => {
+    try {
+      const response = await api.regenerateLeagueInviteCode(leagueId);
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+        showToast('New invite code issued', 'info');
+      }
+    } catch (err: any) {
+      showToast(err.message || 'Failed to reissue invite code', 'error');
+    }
+  };
+
+  const handleLeave = async () => {
+    setConfirmLeave(false);
+    try {
+      await api.leaveLeague(leagueId);
+      showToast('Left league', 'info');
+      navigation.goBack();
+    } catch (err: any) {
+      showToast(err.message || 'Failed to leave league', 'error');
+    }
+  };
+
+  const handleRemoveMember = async () => {
+    if (!memberToRemove) return;
+    const member = memberToRemove;
+    setMemberToRemove(null);
+    try {
+      const response = await api.removeLeagueMember(leagueId, member.userId);
+      if (response.success && response.data) {
+        setLeague(response.data.league);
+        showToast(`Removed ${member.username}`, 'info');
+      }
+    } catch (err: any) {
+      showToast(err.message || 'Failed to remove member', 'error');
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-slate-50 dark:bg-slate-950" edges={['top', 'left', 'right']}>
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ paddingBottom: 120 }}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={false} onRefresh={onRefresh} tintColor="#ea580c" />}
+      >
+        {/* Header */}
+        <View className="px-6 pt-6 pb-4 flex-row items-center gap-3">
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Ionicons name="chevron-back" size={24} color="#94a3b8" />
+          </TouchableOpacity>
+          {editingName ? (
+            <View className="flex-1 flex-row items-center gap-2">
+              <TextInput
+                className="flex-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2 text-lg text-slate-900 dark:text-white"
+                value={newName}
+                onChangeText={setNewName}
+                autoFocus
+              />
+              <TouchableOpacity onPress={handleRename}>
+                <Ionicons name="checkmark" size={24} color="#ea580c" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setEditingName(false)}>
+                <Ionicons name="close" size={24} color="#94a3b8" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View className="flex-1 flex-row items-center gap-2">
+              <Text numberOfLines={1} className="flex-shrink text-3xl font-bold text-slate-900 dark:text-white">
+                {league?.name || 'League'}
+              </Text>
+              {league?.isOwner && (
+                <TouchableOpacity
+                  onPress={() => {
+                    setNewName(league.name);
+                    setEditingName(true);
+                  }}
+                >
+                  <Ionicons name="pencil" size={18} color="#94a3b8" />
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+
+        <View className="px-6">
+          {loading ? (
+            <View className="py-12 items-center">
+              <ActivityIndicator color="#ea580c" />
+            </View>
+          ) : !league ? (
+            <Text className="py-12 text-center text-red-600 dark:text-red-400">{error || 'League not found'}</Text>
+          ) : (
+            <>
+              {/* Invite code */}
+              <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 px-4 py-3 mb-6 flex-row items-center justify-between shadow-lg shadow-slate-900/10 dark:shadow-none">
+                <View>
+                  <Text className="text-xs text-slate-500 dark:text-slate-400">Invite code</Text>
+                  <Text className="text-xl font-bold tracking-widest text-slate-900 dark:text-white">{league.inviteCode}</Text>
+                </View>
+                <View className="flex-row items-center gap-4">
+                  {league.isOwner && (
+                    <TouchableOpacity onPress={handleRegenerateCode}>
+                      <Ionicons name="refresh" size={22} color="#94a3b8" />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={handleShareCode}>
+                    <Ionicons name="share-outline" size={22} color="#ea580c" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {/* Tabs */}
+              <View className="flex-row bg-slate-100 dark:bg-slate-800 rounded-xl p-1 mb-4">
+                {TABS.map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => setTab(option.value)}
+                    className={`flex-1 py-2 rounded-lg items-center ${tab === option.value ? 'bg-white dark:bg-slate-600' : ''}`}
+                  >
+                    <Text className={`font-semibold ${tab === option.value ? 'text-slate-900 dark:text-white' : 'text-slate-500 dark:text-slate-400'}`}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {tab === 'leaderboard' && <LeaderboardPanel fetchLeaderboard={fetchLeaderboard} refreshKey={refreshKey} />}
+
+              {tab === 'activity' && (
+                <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+                  {activity.length === 0 && !loadingActivity ? (
+                    <Text className="py-8 text-center text-slate-500 dark:text-slate-400">No activity yet</Text>
+                  ) : (
+                    activity.map((item, index) => (
+                      <View
+                        key={item.id}
+                        className={`px-4 py-3 ${index > 0 ? 'border-t border-slate-100 dark:border-slate-800' : ''}`}
+                      >
+                        <Text className="text-slate-700 dark:text-slate-200">
+                          <Text className="font-bold text-slate-900 dark:text-white">{item.username}</Text>{' '}
+                          {describeStreakChange(item)}
+                        </Text>
+                        <Text className="text-xs text-slate-500 mt-1">{new Date(item.eventTime).toLocaleDateString()}</Text>
+                      </View>
+                    ))
+                  )}
+                  {loadingActivity && (
+                    <View className="py-4 items-center">
+                      <ActivityIndicator color="#ea580c" />
+                    </View>
+                  )}
+                  {nextBefore && !loadingActivity && (
+                    <TouchableOpacity
+                      onPress={() => loadActivity(nextBefore)}
+                      className="py-3 items-center border-t border-slate-100 dark:border-slate-800"
+                    >
+                      <Text className="text-sm font-semibold text-orange-600">Load more</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              {tab === 'members' && (
+                <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+                  {league.members.map((member, index) => (
+                    <View
+                      key={member.userId}
+                      className={`flex-row items-center justify-between px-4 py-3 ${index > 0 ? 'border-t border-slate-100 dark:border-slate-800' : ''}`}
+                    >
+                      <View className="flex-1 mr-3">
+                        <Text numberOfLines={1} className="font-semibold text-slate-900 dark:text-white">
+                          {member.username}
+                          {member.userId === league.ownerId ? '  · Owner' : ''}
+                        </Text>
+                        <Text className="text-xs text-slate-500 dark:text-slate-400">
+                          🔥 {member.currentStreak} · 👑 {member.longestStreak}
+                        </Text>
+                      </View>
+                      {league.isOwner && member.userId !== user?.id && (
+                        <TouchableOpacity onPress={() => setMemberToRemove(member)}>
+                          <Ionicons name="person-remove-outline" size={20} color="#ef4444" />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <TouchableOpacity
+                onPress={() => setConfirmLeave(true)}
+                className="mt-8 py-3 rounded-xl items-center bg-slate-100 dark:bg-slate-800"
+              >
+                <Text className="font-semibold text-red-600 dark:text-red-400">Leave League</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+
+      <ConfirmationModal
+        visible={confirmLeave}
+        title="Leave League"
+        message={
+          league?.isOwner && league.members.length > 1
+            ? 'Ownership will pass to the longest-standing member.'
+            : league?.members.length === 1
+              ? "You're the last member, so the league will be deleted."
+              : 'You can rejoin later with the invite code.'
+        }
+        confirmText="Leave"
+        cancelText="Cancel"
+        isDestructive
+        onConfirm={handleLeave}
+        onCancel={() => setConfirmLeave(false)}
+      />
+
+      <ConfirmationModal
+        visible={!!memberToRemove}
+        title="Remove Member"
+        message={`Remove ${memberToRemove?.username} from ${league?.name}? Issue a new invite code if you don't want them to rejoin.`}
+        confirmText="Remove"
+        cancelText="Cancel"
+        isDestructive
+        onConfirm={handleRemoveMember}
+        onCancel={() => setMemberToRemove(null)}
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import type { LeagueSummary } from '@shared/types';
+import { validateLeagueName } from '@shared/validation/league';
+import { api } from '../services/api';
+
+export function Leagues() {
+  const navigation = useNavigation();
+  const [leagues, setLeagues] = useState<LeagueSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [leagueName, setLeagueName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [formError, setFormError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Reload on focus so leaving/renaming on the detail screen shows up here
+  useFocusEffect(
+    useCallback(() => {
+      const loadLeagues = async () => {
+        try {
+          const response = await api.getLeagues();
+          if (response.success && response.data) {
+            setLeagues(response.data.leagues);
+          }
+        } catch (err: any) {
+          setError(err.message || 'Failed to load leagues');
+        } finally {
+          setLoading(false);
+        }
+      };
+
+      loadLeagues();
+    }, [])
+  );
+
+  const openLeague = (leagueId: string) => {
+    (navigation as any).navigate('LeagueDetail', { leagueId });
+  };
+
+  const handleCreate = async () => {
+    setFormError('');
+    const validationError = validateLeagueName(leagueName);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await api.createLeague(leagueName.trim());
+      if (response.success && response.data) {
+        setLeagueName('');
+        openLeague(response.data.league.id);
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to create league');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setFormError('');
+    if (!inviteCode.trim()) {
+      setFormError('Enter an invite code');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await api.joinLeague(inviteCode);
+      if (response.success && response.data) {
+        setInviteCode('');
+        openLeague(response.data.league.id);
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to join league');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-slate-50 dark:bg-slate-950" edges={['top', 'left', 'right']}>
+      <ScrollView className="flex-1" contentContainerStyle={{ paddingBottom: 120 }} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <View className="px-6 pt-6 pb-4 flex-row items-center gap-3">
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Ionicons name="chevron-back" size={24} color="#94a3b8" />
+          </TouchableOpacity>
+          <Text className="text-3xl font-bold text-slate-900 dark:text-white">Leagues</Text>
+        </View>
+
+        <View className="px-6">
+          {/* My Leagues */}
+          <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden mb-8 shadow-lg shadow-slate-900/10 dark:shadow-none">
+            {loading ? (
+              <View className="py-8 items-center">
+                <ActivityIndicator color="#ea580c" />
+              </View>
+            ) : error ? (
+              <Text className="py-8 px-4 text-center text-red-600 dark:text-red-400">{error}</Text>
+            ) : leagues.length === 0 ? (
+              <Text className="py-8 px-4 text-center text-slate-500 dark:text-slate-400">
+                You're not in any leagues yet. Create one or join with an invite code.
+              </Text>
+            ) : (
+              leagues.map((league, index) => (
+                <TouchableOpacity
+                  key={league.id}
+                  onPress={() => openLeague(league.id)}
+                  className={`flex-row items-center justify-between px-4 py-4 ${index > 0 ? 'border-t border-slate-100 dark:border-slate-800' : ''}`}
+                >
+                  <View className="flex-1 mr-3">
+                    <Text numberOfLines={1} className="text-base font-semibold text-slate-900 dark:text-white">
+                      {league.name}
+                    </Text>
+                    <Text className="text-xs text-slate-500 dark:text-slate-400">
+                      {league.memberCount} {league.memberCount === 1 ? 'member' : 'members'}
+                      {league.isOwner ? ' · Owner' : ''}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+
+          {/* Create / Join */}
+          <Text className="text-xs font-bold text-slate-700 dark:text-slate-500 uppercase tracking-wider mb-3 ml-1">Create a League</Text>
+          <View className="flex-row gap-2 mb-6">
+            <TextInput
+              className="flex-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-4 py-3 text-base text-slate-900 dark:text-white"
+              placeholder="League name"
+              placeholderTextColor="#94a3b8"
+              value={leagueName}
+              onChangeText={setLeagueName}
+            />
+            <TouchableOpacity
+              onPress={handleCreate}
+              disabled={submitting}
+              className={`px-4 rounded-xl bg-orange-600 items-center justify-center ${submitting ? 'opacity-50' : ''}`}
+            >
+              <Text className="text-white font-semibold">Create</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text className="text-xs font-bold text-slate-700 dark:text-slate-500 uppercase tracking-wider mb-3 ml-1">Join a League</Text>
+          <View className="flex-row gap-2 mb-4">
+            <TextInput
+              className="flex-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl px-4 py-3 text-base text-slate-900 dark:text-white tracking-widest"
+              placeholder="Invite code"
+              placeholderTextColor="#94a3b8"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              value={inviteCode}
+              onChangeText={setInviteCode}
+            />
+            <TouchableOpacity
+              onPress={handleJoin}
+              disabled={submitting}
+              className={`px-4 rounded-xl bg-orange-600 items-center justify-center ${submitting ? 'opacity-50' : ''}`}
+            >
+              <Text className="text-white font-semibold">Join</Text>
+            </TouchableOpacity>
+          </View>
+
+          {formError ? (
+            <View className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-3">
+              <Text className="text-red-600 dark:text-red-400 text-sm">{formError}</Text>
+            </View>
+          ) : null}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -1,18 +1,84 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
 import { Ionicons } from '@expo/vector-icons';
 import { StreakHistoryCard } from '../components/profile/StreakHistoryCard';
-import { MOCK_STREAK_HISTORY } from '../data/mockStreakData';
 import { useTheme } from '../context/ThemeContext';
+import { useToast } from '../context/ToastContext';
+import { api } from '../services/api';
+import { hasAnyPermission } from '@shared/utils/permissions';
+import type { NotificationPreferences } from '@shared/types';
+import type { StreakGroup } from '../interfaces/streak';
+
+const NOTIFICATION_OPTIONS: Array<{ key: keyof NotificationPreferences; label: string; description: string }> = [
+  { key: 'parlayLocked', label: 'Parlay locked', description: 'When your parlay locks as its first game starts' },
+  { key: 'legResolved', label: 'Pick results', description: 'When a leg or single bet wins, loses or pushes' },
+  { key: 'parlaySettled', label: 'Parlay results', description: 'When a parlay settles and your streak changes' },
+  { key: 'gamesStartingSoon', label: 'Games starting soon', description: "When games are about to start and you haven't picked" },
+];
 
 export function Settings() {
   const navigation = useNavigation();
   const { user, logout } = useAuth();
-  const [visibleStreaks, setVisibleStreaks] = useState(3);
+  const [streakGroups, setStreakGroups] = useState<StreakGroup[]>([]);
+  const [streakPage, setStreakPage] = useState(0);
+  const [hasMoreStreaks, setHasMoreStreaks] = useState(false);
+  const [loadingStreaks, setLoadingStreaks] = useState(true);
   const { theme, effectiveTheme, setTheme } = useTheme();
+  const { showToast } = useToast();
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    const loadNotificationPreferences = async () => {
+      try {
+        const response = await api.getNotificationPreferences();
+        if (response.success && response.data) {
+          setNotificationPreferences(response.data.preferences);
+        }
+      } catch (error) {
+        console.error('Failed to load notification preferences:', error);
+      }
+    };
+
+    loadNotificationPreferences();
+    loadStreakHistory(1);
+  }, []);
+
+  const loadStreakHistory = async (page: number) => {
+    setLoadingStreaks(true);
+    try {
+      const response = await api.getStreakHistory(page);
+      if (response.success && response.data) {
+        const { runs, hasMore } = response.data;
+        setStreakGroups(prev => (page === 1 ? runs : [...prev, ...runs]));
+        setStreakPage(page);
+        setHasMoreStreaks(hasMore);
+      }
+    } catch (error: any) {
+      showToast(error.message || 'Failed to load streak history', 'error');
+    } finally {
+      setLoadingStreaks(false);
+    }
+  };
+
+  const toggleNotification = async (key: keyof NotificationPreferences, enabled: boolean) => {
+    const previous = notificationPreferences;
+    if (!previous) return;
+
+    // Flip the switch straight away and put it back if the save fails
+    setNotificationPreferences({ ...previous, [key]: enabled });
+    try {
+      const response = await api.updateNotificationPreferences({ [key]: enabled });
+      if (response.success && response.data) {
+        setNotificationPreferences(response.data.preferences);
+      }
+    } catch (error: any) {
+      setNotificationPreferences(previous);
+      showToast(error.message || 'Failed to update notifications', 'error');
+    }
+  };
 
   const handleLogout = async () => {
     await logout();
@@ -91,6 +157,31 @@ export function Settings() {
             </View>
           </View>
 
+          {/* Notifications Section */}
+          {notificationPreferences && (
+            <>
+              <Text className="text-xs font-bold text-slate-700 dark:text-slate-500 uppercase tracking-wider mb-3 ml-1">Notifications</Text>
+              <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden mb-8 shadow-lg shadow-slate-900/10 dark:shadow-none">
+                {NOTIFICATION_OPTIONS.map((option, index) => (
+                  <View
+                    key={option.key}
+                    className={`flex-row items-center justify-between px-4 py-4 ${index > 0 ? 'border-t border-slate-200 dark:border-slate-800' : ''}`}
+                  >
+                    <View className="flex-1 mr-3">
+                      <Text className="text-slate-900 dark:text-white text-base font-medium">{option.label}</Text>
+                      <Text className="text-slate-500 dark:text-slate-400 text-xs">{option.description}</Text>
+                    </View>
+                    <Switch
+                      value={notificationPreferences[option.key]}
+                      onValueChange={(enabled) => toggleNotification(option.key, enabled)}
+                      trackColor={{ true: '#ea580c' }}
+                    />
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
           {/* Account section */}
           <Text className="text-xs font-bold text-slate-700 dark:text-slate-500 uppercase tracking-wider mb-3 ml-1">Account</Text>
           <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden mb-8 shadow-lg shadow-slate-900/10 dark:shadow-none">
@@ -122,23 +213,34 @@ export function Settings() {
               nestedScrollEnabled={true}
               showsVerticalScrollIndicator={true}
             >
-              {MOCK_STREAK_HISTORY.slice(0, visibleStreaks).map((group) => (
+              {streakGroups.map((group) => (
                 <StreakHistoryCard key={group.id} group={group} />
               ))}
+
+              {!loadingStreaks && streakGroups.length === 0 && (
+                <View className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-4 items-center">
+                  <Text className="text-slate-500 dark:text-slate-400 text-sm">
+                    No streaks yet. Win a bet or parlay to start one.
+                  </Text>
+                </View>
+              )}
               
-              {visibleStreaks < MOCK_STREAK_HISTORY.length && (
+              {hasMoreStreaks && (
                 <TouchableOpacity
-                  onPress={() => setVisibleStreaks(prev => prev + 3)}
+                  onPress={() => loadStreakHistory(streakPage + 1)}
+                  disabled={loadingStreaks}
                   className="bg-white dark:bg-slate-800/50 py-3 rounded-xl items-center border border-slate-200 dark:border-slate-700/50 mt-2 mb-2 shadow-md shadow-slate-900/10 dark:shadow-none"
                 >
-                  <Text className="text-slate-700 dark:text-slate-400 font-semibold">Load More</Text>
+                  <Text className="text-slate-700 dark:text-slate-400 font-semibold">
+                    {loadingStreaks ? 'Loading...' : 'Load More'}
+                  </Text>
                 </TouchableOpacity>
               )}
             </ScrollView>
           </View>
 
-          {/* Admin section (only for admins) */}
-          {user.isAdmin && (
+          {/* Admin section (only for staff) */}
+          {hasAnyPermission(user.permissions, 'create_bets', 'resolve_bets', 'manage_games') && (
             <>
               <Text className="text-xs font-bold text-slate-700 dark:text-slate-500 uppercase tracking-wider mb-3 ml-1">Administration</Text>
               <TouchableOpacity
@@ -5,6 +5,7 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
 import { api } from '../../services/api';
+import { hasAnyPermission } from '@shared/utils/permissions';
 
 interface Bet {
   id: string;
@@ -57,14 +58,17 @@ export function AdminHome() {
   const [error, setError] = useState<string | null>(null);
   const [expandedGames, setExpandedGames] = useState<Set<string>>(new Set());
   const [resolvingBet, setResolvingBet] = useState<string | null>(null);
-  const [creatingMoneyline, setCreatingMoneyline] = useState<string | null>(null);
+  const [generatingStandardBets, setGeneratingStandardBets] = useState<string | null>(null);
 
-  if (!user || !user.isAdmin) {
+  const canCreateBets = hasAnyPermission(user?.permissions, 'create_bets');
+  const canResolveBets = hasAnyPermission(user?.permissions, 'resolve_bets');
+
+  if (!user || !hasAnyPermission(user.permissions, 'create_bets', 'resolve_bets', 'manage_games')) {
     // Simple guard for now; in future we can show a nicer unauthorized screen
     return (
       <SafeAreaView className={`flex-1 items-center justify-center px-6 ${isDark ? 'bg-[#050816]' : 'bg-white'}`}>
         <Text className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-600'}`}>
-          Admin tools are only available to admin users.
+          Admin tools are only available to staff.
         </Text>
       </SafeAreaView>
     );
@@ -207,46 +211,30 @@ export function AdminHome() {
     ]);
   };
 
-  const handleQuickMoneyline = async (game: Game) => {
-    if (creatingMoneyline) return;
-    setCreatingMoneyline(game.id);
+  // Moneyline, plus the spread and total when ESPN has lines for the game
+  const handleStandardBets = async (game: Game) => {
+    if (generatingStandardBets) return;
+    setGeneratingStandardBets(game.id);
     try {
-      const metadata: any = game.metadata;
-      const apiData = metadata?.apiData;
-      const homeTeamId = apiData?.teams?.home?.id;
-      const awayTeamId = apiData?.teams?.away?.id;
-      if (!homeTeamId || !awayTeamId) {
-        Alert.alert('Error', 'Game missing team IDs, refresh game data on web.');
+      const response = await api.generateStandardBets([game.id]);
+      if (!response.success || !response.data) {
+        Alert.alert('Error', response.error?.message || 'Failed to create standard bets');
         return;
       }
-      const config = {
-        type: 'COMPARISON' as const,
-        participant_1: {
-          subject_type: 'TEAM' as const,
-          subject_id: homeTeamId,
-          subject_name: game.homeTeam,
-          metric: 'points',
-          time_period: 'FULL_GAME' as const,
-        },
-        participant_2: {
-          subject_type: 'TEAM' as const,
-          subject_id: awayTeamId,
-          subject_name: game.awayTeam,
-          metric: 'points',
-          time_period: 'FULL_GAME' as const,
-        },
-        operator: 'GREATER_THAN' as const,
-      };
-      const response: any = await api.createBet(game.id, 'COMPARISON', config);
-      if (!response.success) {
-        Alert.alert('Error', response.error?.message || 'Failed to create moneyline bet');
-      } else {
+      const { created, skipped } = response.data;
+      if (skipped.length > 0) {
+        Alert.alert(
+          `Created ${created.length} bet${created.length === 1 ? '' : 's'}`,
+          skipped.map((skip) => `${skip.kind}: ${skip.reason}`).join('\n')
+        );
+      }
+      if (created.length > 0) {
         await fetchGames(false);
       }
     } catch (e: any) {
-      Alert.alert('Error', e.message || 'Failed to create moneyline bet');
+      Alert.alert('Error', e.message || 'Failed to create standard bets');
     } finally {
-      setCreatingMoneyline(null);
+      setGeneratingStandardBets(null);
     }
   };
 
@@ -436,21 +424,25 @@ export function AdminHome() {
                         </Text>
                       </View>
                       <View className="items-end">
-                        <TouchableOpacity
-                          onPress={() => handleQuickMoneyline(game)}
-                          disabled={creatingMoneyline === game.id}
-                          className="px-3 py-1 rounded-full bg-emerald-600 mb-2"
-                        >
-                          <Text className="text-white text-[11px] font-semibold">
-                            {creatingMoneyline === game.id ? 'Creating…' : 'Quick ML'}
-                          </Text>
-                        </TouchableOpacity>
-                        <TouchableOpacity
-                          onPress={() => handleOpenCreateBets(game)}
-                          className="px-3 py-1 rounded-full bg-blue-600"
-                        >
-                          <Text className="text-white text-[11px] font-semibold">More bets</Text>
-                        </TouchableOpacity>
+                        {canCreateBets && (
+                          <>
+                            <TouchableOpacity
+                              onPress={() => handleStandardBets(game)}
+                              disabled={generatingStandardBets !== null}
+                              className="px-3 py-1 rounded-full bg-emerald-600 mb-2"
+                            >
+                              <Text className="text-white text-[11px] font-semibold">
+                                {generatingStandardBets === game.id ? 'Creating…' : 'Standard bets'}
+                              </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              onPress={() => handleOpenCreateBets(game)}
+                              className="px-3 py-1 rounded-full bg-blue-600"
+                            >
+                              <Text className="text-white text-[11px] font-semibold">More bets</Text>
+                            </TouchableOpacity>
+                          </>
+                        )}
                       </View>
                     </TouchableOpacity>
 
@@ -458,7 +450,7 @@ export function AdminHome() {
                       <View className={`mt-3 border-t pt-3 space-y-2 ${isDark ? 'border-slate-800' : 'border-slate-200'}`}>
                         {game.bets.length === 0 ? (
                           <Text className={`text-[11px] ${isDark ? 'text-slate-500' : 'text-slate-600'}`}>
-                            No bets yet. Use Quick ML above or the web admin to create more.
+                            No bets yet. Use Standard bets above or the web admin to create more.
                           </Text>
                         ) : (
                           game.bets
@@ -497,23 +489,27 @@ export function AdminHome() {
                                     {(bet.outcome || 'pending').toUpperCase()}
                                   </Text>
                                   <View className="flex-row mt-2">
-                                    <TouchableOpacity
-                                      onPress={() => handleResolveBet(bet.id)}
-                                      disabled={resolvingBet === bet.id}
-                                      className="px-2 py-1 rounded-full bg-emerald-600 mr-2"
-                                    >
-                                      <Text className="text-white text-[10px] font-semibold">
-                                        {resolvingBet === bet.id ? 'Resolving…' : 'Resolve'}
-                                      </Text>
-                                    </TouchableOpacity>
-                                    <TouchableOpacity
-                                      onPress={() => handleDeleteBet(bet.id)}
-                                      className="px-2 py-1 rounded-full bg-red-600/80"
-                                    >
-                                      <Text className="text-white text-[10px] font-semibold">
-                                        Delete
-                                      </Text>
-                                    </TouchableOpacity>
+                                    {canResolveBets && (
+                                      <TouchableOpacity
+                                        onPress={() => handleResolveBet(bet.id)}
+                                        disabled={resolvingBet === bet.id}
+                                        className="px-2 py-1 rounded-full bg-emerald-600 mr-2"
+                                      >
+                                        <Text className="text-white text-[10px] font-semibold">
+                                          {resolvingBet === bet.id ? 'Resolving…' : 'Resolve'}
+                                        </Text>
+                                      </TouchableOpacity>
+                                    )}
+                                    {canCreateBets && (
+                                      <TouchableOpacity
+                                        onPress={() => handleDeleteBet(bet.id)}
+                                        className="px-2 py-1 rounded-full bg-red-600/80"
+                                      >
+                                        <Text className="text-white text-[10px] font-semibold">
+                                          Delete
+                                        </Text>
+                                      </TouchableOpacity>
+                                    )}
                                   </View>
                                 </View>
                               </View>
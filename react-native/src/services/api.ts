@@ -1,7 +1,20 @@
 import Constants from 'expo-constants';
-import type { ApiResponse } from '../interfaces';
-
-const API_URL = Constants.expoConfig?.extra?.apiUrl || 'http://localhost:3001';
+import type { ApiResponse, BetSelection, Parlay } from '../interfaces';
+import type {
+  DevicePlatform,
+  GameRuleset,
+  LeaderboardBoard,
+  LeaderboardResponse,
+  LeaderboardWindow,
+  LeagueActivityItem,
+  LeagueDetail,
+  LeagueSummary,
+  NotificationPreferences,
+  StandardBetsResult,
+  StreakHistoryPage,
+} from '@shared/types';
+
+export const API_URL = Constants.expoConfig?.extra?.apiUrl || 'http://localhost:3001';
 
 class ApiService {
   private async request<T>(
@@ -154,10 +167,10 @@ class ApiService {
   }
 
   // Bet selection endpoints
-  async selectBet(betId: string, selectedSide: string) {
+  async selectBet(betId: string, selectedSide: string, timezoneOffset?: number) {
     return this.request(`/api/bets/${betId}/select`, {
       method: 'POST',
-      body: JSON.stringify({ selectedSide }),
+      body: JSON.stringify({ selectedSide, timezoneOffset }),
     });
   }
 
@@ -195,6 +208,13 @@ class ApiService {
     });
   }
 
+  async generateStandardBets(gameIds: string[]) {
+    return this.request<StandardBetsResult>('/api/admin/bets/standard', {
+      method: 'POST',
+      body: JSON.stringify({ game_ids: gameIds }),
+    });
+  }
+
   async updateBet(
     betId: string,
     updates: { bet_type?: string; config?: any; display_text_override?: string; priority?: number }
@@ -271,6 +291,132 @@ class ApiService {
       method: 'DELETE',
     });
   }
+
+  // Leaderboard endpoints
+  async getLeaderboard(
+    board: LeaderboardBoard,
+    window: LeaderboardWindow,
+    page: number = 1,
+    timezoneOffset?: number
+  ): Promise<ApiResponse<LeaderboardResponse>> {
+    const params = new URLSearchParams({ board, window, page: page.toString() });
+    if (timezoneOffset !== undefined) params.append('timezoneOffset', timezoneOffset.toString());
+    return this.request<LeaderboardResponse>(`/api/leaderboards?${params.toString()}`);
+  }
+
+  // League endpoints
+  async getLeagues(): Promise<ApiResponse<{ leagues: LeagueSummary[] }>> {
+    return this.request<{ leagues: LeagueSummary[] }>('/api/leagues');
+  }
+
+  async createLeague(name: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>('/api/leagues', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async joinLeague(inviteCode: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>('/api/leagues/join', {
+      method: 'POST',
+      body: JSON.stringify({ inviteCode }),
+    });
+  }
+
+  async getLeague(leagueId: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}`);
+  }
+
+  async renameLeague(leagueId: string, name: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async regenerateLeagueInviteCode(leagueId: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}/invite-code`, {
+      method: 'POST',
+    });
+  }
+
+  async leaveLeague(leagueId: string): Promise<ApiResponse<{ deleted: boolean; message: string }>> {
+    return this.request<{ deleted: boolean; message: string }>(`/api/leagues/${leagueId}/leave`, {
+      method: 'POST',
+    });
+  }
+
+  async removeLeagueMember(leagueId: string, userId: string): Promise<ApiResponse<{ league: LeagueDetail }>> {
+    return this.request<{ league: LeagueDetail }>(`/api/leagues/${leagueId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getLeagueLeaderboard(
+    leagueId: string,
+    board: LeaderboardBoard,
+    window: LeaderboardWindow,
+    page: number = 1,
+    timezoneOffset?: number
+  ): Promise<ApiResponse<LeaderboardResponse>> {
+    const params = new URLSearchParams({ board, window, page: page.toString() });
+    if (timezoneOffset !== undefined) params.append('timezoneOffset', timezoneOffset.toString());
+    return this.request<LeaderboardResponse>(`/api/leagues/${leagueId}/leaderboard?${params.toString()}`);
+  }
+
+  async getLeagueActivity(
+    leagueId: string,
+    before?: string
+  ): Promise<ApiResponse<{ activity: LeagueActivityItem[]; nextBefore: string | null }>> {
+    const query = before ? `?before=${encodeURIComponent(before)}` : '';
+    return this.request<{ activity: LeagueActivityItem[]; nextBefore: string | null }>(
+      `/api/leagues/${leagueId}/activity${query}`
+    );
+  }
+
+  async registerDevice(token: string, platform: DevicePlatform): Promise<ApiResponse<{ registered: boolean }>> {
+    return this.request<{ registered: boolean }>('/api/notifications/devices', {
+      method: 'POST',
+      body: JSON.stringify({ token, platform }),
+    });
+  }
+
+  async unregisterDevice(token: string): Promise<ApiResponse<{ registered: boolean }>> {
+    return this.request<{ registered: boolean }>('/api/notifications/devices', {
+      method: 'DELETE',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async getNotificationPreferences(): Promise<ApiResponse<{ preferences: NotificationPreferences }>> {
+    return this.request<{ preferences: NotificationPreferences }>('/api/notifications/preferences');
+  }
+
+  async updateNotificationPreferences(
+    updates: Partial<NotificationPreferences>
+  ): Promise<ApiResponse<{ preferences: NotificationPreferences }>> {
+    return this.request<{ preferences: NotificationPreferences }>('/api/notifications/preferences', {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async getStreakHistory(
+    page: number = 1,
+    pageSize: number = 3
+  ): Promise<ApiResponse<StreakHistoryPage<Parlay, BetSelection>>> {
+    const params = new URLSearchParams({ page: page.toString(), pageSize: pageSize.toString() });
+    return this.request<StreakHistoryPage<Parlay, BetSelection>>(`/api/streaks/history?${params.toString()}`);
+  }
+
+  // Game rules endpoints
+  async getRules(): Promise<ApiResponse<{ ruleset: GameRuleset }>> {
+    return this.request<{ ruleset: GameRuleset }>('/api/rules');
+  }
+
+  async getRulesetVersion(version: number): Promise<ApiResponse<{ ruleset: GameRuleset }>> {
+    return this.request<{ ruleset: GameRuleset }>(`/api/rules/versions/${version}`);
+  }
 }
 
 export const api = new ApiService();
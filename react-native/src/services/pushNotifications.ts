@@ -0,0 +1,61 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { api } from './api';
+
+// Show notifications that arrive while the app is open too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// The token registered for the signed in user, so logout can unregister it
+let registeredToken: string | null = null;
+
+/**
+ * Ask for permission and register this device's Expo push token with the API
+ * Does nothing on simulators or if the user declines
+ */
+export async function registerForPushNotifications(): Promise<void> {
+  if (!Device.isDevice || (Platform.OS !== 'ios' && Platform.OS !== 'android')) {
+    return;
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'Default',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') {
+    return;
+  }
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+  await api.registerDevice(token, Platform.OS);
+  registeredToken = token;
+}
+
+/**
+ * Stop push notifications to this device - call while still signed in
+ */
+export async function unregisterPushNotifications(): Promise<void> {
+  if (!registeredToken) {
+    return;
+  }
+
+  const token = registeredToken;
+  registeredToken = null;
+  await api.unregisterDevice(token);
+}
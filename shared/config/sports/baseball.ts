@@ -0,0 +1,381 @@
+/**
+ * Baseball sport configuration
+ * Defines available metrics, time periods and event types for MLB
+ *
+ * Baseball declares its own time periods: single innings, the first five innings (F5)
+ * and extra innings. ESPN numbers innings as periods, with a Top/Bottom half - the away
+ * team bats in the top, the home team in the bottom.
+ */
+
+import { TimePeriod } from '../../types/bets';
+import type { SportConfig, SportMetric, SportTimePeriod, EventEvaluator } from '../../types/sports';
+import { getCompetition } from '../../utils/eventResolution';
+import { getDeclaredPeriodNumbers } from '../../utils/timePeriods';
+
+const REGULATION_INNINGS = 9;
+
+/**
+ * Full game end point (competition status completed)
+ */
+const GAME_COMPLETED_END_POINT = {
+  path: 'status.type.completed',
+  expectedValue: true,
+  filter: {
+    arrayPath: 'header.competitions',
+    filterKey: 'id',
+    filterValuePath: 'header.id'
+  }
+};
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th'];
+
+const INNING_PERIODS: SportTimePeriod[] = ORDINALS.map((ordinal, index) => ({
+  value: `I${index + 1}`,
+  label: `${ordinal} Inning`,
+  short_label: `${ordinal} Inn`,
+  api_key: `inning_${index + 1}`,
+  betEndPointKey: { periodCheck: { periodNumber: index + 1 } },
+  period_numbers: [index + 1]
+}));
+
+/**
+ * Team id batting in a play (away team in the top of the inning, home team in the bottom)
+ */
+function getBattingTeamId(gameData: any, play: any): string | null {
+  if (play.team?.id) {
+    return String(play.team.id);
+  }
+
+  const half = String(play.period?.type || '').toLowerCase();
+  const homeAway = half === 'top' ? 'away' : half === 'bottom' ? 'home' : null;
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => c.homeAway === homeAway);
+  return competitor?.team?.id ? String(competitor.team.id) : null;
+}
+
+function getBatterId(play: any): string | null {
+  const batter = (play.participants || []).find((p: any) => p.type === 'batter') || play.participants?.[0];
+  return batter?.athlete?.id ? String(batter.athlete.id) : null;
+}
+
+/**
+ * Bases for a hit play (0 for anything that isn't a hit)
+ */
+function getBasesForPlay(play: any): number {
+  const typeText = String(play.type?.text || '').toLowerCase();
+  if (typeText.includes('home run')) return 4;
+  if (typeText.includes('triple')) return 3;
+  if (typeText.includes('double') && !typeText.includes('double play')) return 2;
+  if (typeText.includes('single')) return 1;
+  return 0;
+}
+
+/**
+ * Plays in a time period (every play for FULL_GAME)
+ */
+function getPlaysForPeriod(gameData: any, period: TimePeriod): any[] {
+  const plays = gameData?.plays;
+  if (!plays || !Array.isArray(plays)) {
+    return [];
+  }
+
+  if (period === 'FULL_GAME') {
+    return plays;
+  }
+
+  const playedInnings = plays.map((p: any) => p.period?.number).filter((num: any) => num !== undefined);
+  const periodNumbers = getDeclaredPeriodNumbers(BASEBALL_CONFIG, period, playedInnings) || [];
+  return plays.filter((play: any) => periodNumbers.includes(play.period?.number));
+}
+
+/**
+ * Sum a value over a team's or batter's plays in a period
+ */
+function sumBattingPlays(
+  gameData: any,
+  subjectId: string,
+  subjectType: 'TEAM' | 'PLAYER',
+  period: TimePeriod,
+  valueOf: (play: any) => number
+): number | null {
+  if (!Array.isArray(gameData?.plays)) {
+    console.log(`[baseball stat] ❌ No plays array found`);
+    return null;
+  }
+
+  return getPlaysForPeriod(gameData, period).reduce((total: number, play: any) => {
+    const belongsTo = subjectType === 'TEAM'
+      ? getBattingTeamId(gameData, play) === String(subjectId)
+      : getBatterId(play) === String(subjectId);
+    return belongsTo ? total + valueOf(play) : total;
+  }, 0);
+}
+
+/**
+ * Get a team statistic from boxscore.teams (stats are grouped as batting / pitching)
+ */
+function getTeamStat(gameData: any, teamId: string, groupName: string, statName: string): number | null {
+  const team = gameData?.boxscore?.teams?.find((t: any) => String(t.team?.id) === String(teamId));
+  const group = team?.statistics?.find((g: any) => g.name === groupName);
+  const stat = group?.stats?.find((s: any) => s.name === statName);
+  if (stat?.displayValue === undefined) {
+    console.log(`[baseball stat] ❌ ${groupName}.${statName} not found for team ${teamId}`);
+    return null;
+  }
+
+  const result = parseFloat(stat.displayValue);
+  return isNaN(result) ? null : result;
+}
+
+/**
+ * Get a player statistic from the boxscore batting or pitching group
+ * Returns 0 if the player is in the boxscore but not in that group (e.g. a pitcher's batting stats in the AL)
+ */
+function getPlayerStat(gameData: any, playerId: string, groupName: string, statKey: string): number | null {
+  let playerFound = false;
+
+  for (const team of gameData?.boxscore?.players || []) {
+    for (const group of team.statistics || []) {
+      const athlete = group.athletes?.find((a: any) => String(a.athlete?.id) === String(playerId));
+      if (!athlete) {
+        continue;
+      }
+      playerFound = true;
+
+      if ((group.type || group.name) !== groupName) {
+        continue;
+      }
+
+      const statIndex = group.keys?.indexOf(statKey);
+      if (statIndex === undefined || statIndex === -1) {
+        console.log(`[baseball stat] ❌ ${groupName}.${statKey} not found for player ${playerId}`);
+        return null;
+      }
+
+      const result = parseFloat(athlete.stats?.[statIndex]);
+      return isNaN(result) ? null : result;
+    }
+  }
+
+  if (playerFound) {
+    return 0;
+  }
+
+  console.log(`[baseball stat] ❌ Player ${playerId} not found in boxscore`);
+  return null;
+}
+
+/**
+ * Team runs for a time period, from the competitor score and inning linescores
+ */
+function getTeamRuns(gameData: any, teamId: string, period?: TimePeriod): number | null {
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => String(c.team?.id) === String(teamId));
+  if (!competitor) {
+    console.log(`[runs stat] ❌ Team ${teamId} not found in competitors`);
+    return null;
+  }
+
+  if (!period || period === 'FULL_GAME') {
+    return competitor.score !== undefined ? parseInt(competitor.score) : null;
+  }
+
+  const linescores = competitor.linescores || [];
+  const playedInnings = linescores.map((_: any, index: number) => index + 1);
+  const innings = getDeclaredPeriodNumbers(BASEBALL_CONFIG, period, playedInnings) || [];
+
+  // An unplayed bottom of the 9th ("X") counts as no runs
+  return innings.reduce((total: number, inning: number) => {
+    const value = parseInt(linescores[inning - 1]?.displayValue ?? linescores[inning - 1]?.value);
+    return total + (isNaN(value) ? 0 : value);
+  }, 0);
+}
+
+/**
+ * Build a metric counted from batting plays, using the boxscore for full game totals
+ */
+function battingMetric(value: string, label: string, boxscoreStat: string, valueOf: (play: any) => number): SportMetric {
+  return {
+    value,
+    label,
+    team: true,
+    player: true,
+    resolvable: true,
+    endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+      const timePeriod = period || 'FULL_GAME';
+
+      if (timePeriod === 'FULL_GAME') {
+        const result = subjectType === 'TEAM'
+          ? getTeamStat(gameData, subjectId, 'batting', boxscoreStat)
+          : getPlayerStat(gameData, subjectId, 'batting', boxscoreStat);
+        if (result !== null) {
+          return result;
+        }
+      }
+
+      const result = sumBattingPlays(gameData, subjectId, subjectType, timePeriod, valueOf);
+      console.log(`[${value} stat] ${result !== null ? '✅' : '❌'} ${subjectType} ${subjectId} ${value} (${timePeriod}): ${result}`);
+      return result;
+    }
+  };
+}
+
+/**
+ * Build a metric that's only available for the full game, from the boxscore
+ */
+function boxscoreMetric(value: string, label: string, groupName: string, teamStat: string, playerStat: string): SportMetric {
+  return {
+    value,
+    label,
+    team: true,
+    player: true,
+    resolvable: true,
+    endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+      if (period && period !== 'FULL_GAME') {
+        console.log(`[${value} stat] ❌ Only full game stats are available for ${value}`);
+        return null;
+      }
+      return subjectType === 'TEAM'
+        ? getTeamStat(gameData, subjectId, groupName, teamStat)
+        : getPlayerStat(gameData, subjectId, groupName, playerStat);
+    }
+  };
+}
+
+/**
+ * Get the resolution UTC time for a specific time period in baseball
+ * Uses the wallclock of the last play in the innings; full game uses the game's last play
+ */
+function getBaseballResolutionUTCTime(gameData: any, timePeriod: TimePeriod): Date | undefined {
+  const plays = (gameData?.plays || []).filter((play: any) => play.wallclock);
+  const lastPlayWallClock = gameData?.meta?.lastPlayWallClock || plays[plays.length - 1]?.wallclock;
+
+  if (timePeriod === 'FULL_GAME') {
+    return lastPlayWallClock ? new Date(lastPlayWallClock) : undefined;
+  }
+
+  const periodPlays = getPlaysForPeriod(gameData, timePeriod).filter((play: any) => play.wallclock);
+  const lastPlay = periodPlays[periodPlays.length - 1];
+
+  if (lastPlay?.wallclock) {
+    return new Date(lastPlay.wallclock);
+  }
+
+  console.log(`[getBaseballResolutionUTCTime] ⚠️  No plays found for ${timePeriod}, falling back to game end`);
+  return lastPlayWallClock ? new Date(lastPlayWallClock) : undefined;
+}
+
+/**
+ * SCORES_FIRST - the participant's team (or batter) drives in the first run of the time period
+ */
+const baseballScoresFirst: EventEvaluator = (gameData, config) => {
+  if (!Array.isArray(gameData?.plays)) {
+    return { occurred: null, reason: 'No play-by-play available' };
+  }
+
+  const firstRun = getPlaysForPeriod(gameData, config.time_period).find((play: any) => play.scoringPlay);
+  if (!firstRun) {
+    // Nobody scored in the innings
+    return { occurred: false, details: { firstRun: null } };
+  }
+
+  const occurred = config.participant.subject_type === 'TEAM'
+    ? getBattingTeamId(gameData, firstRun) === String(config.participant.subject_id)
+    : getBatterId(firstRun) === String(config.participant.subject_id);
+
+  return {
+    occurred,
+    details: {
+      firstRun: {
+        text: firstRun.text,
+        teamId: getBattingTeamId(gameData, firstRun),
+        inning: firstRun.period?.number
+      }
+    }
+  };
+};
+
+/**
+ * GAME_GOES_TO_OT - the game needs extra innings
+ */
+const baseballExtraInnings: EventEvaluator = (gameData) => {
+  const competition = getCompetition(gameData);
+  const innings = Math.max(
+    competition?.status?.period || 0,
+    ...(competition?.competitors || []).map((c: any) => c.linescores?.length || 0)
+  );
+
+  return {
+    occurred: innings > REGULATION_INNINGS,
+    details: { innings }
+  };
+};
+
+export const BASEBALL_CONFIG: SportConfig = {
+  sport_key: 'baseball',
+  display_name: 'Baseball',
+  getResolutionUTCTime: getBaseballResolutionUTCTime,
+  score_metric: 'runs',
+  eventEvaluators: {
+    SCORES_FIRST: baseballScoresFirst,
+    GAME_GOES_TO_OT: baseballExtraInnings
+  },
+  event_types: [
+    { value: 'SCORES_FIRST', label: 'Scores First' },
+    { value: 'SHUTOUT', label: 'Shutout' },
+    { value: 'GAME_GOES_TO_OT', label: 'Goes to Extra Innings' }
+  ],
+
+  time_periods: [
+    {
+      value: 'FULL_GAME',
+      label: 'Full Game',
+      api_key: 'game',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+    {
+      value: 'F5',
+      label: 'First 5 Innings',
+      short_label: 'F5',
+      api_key: 'first_five',
+      betEndPointKey: { periodCheck: { periodNumber: 5 } },
+      period_numbers: [1, 2, 3, 4, 5]
+    },
+    ...INNING_PERIODS,
+    {
+      value: 'EXTRAS',
+      label: 'Extra Innings',
+      short_label: 'Extras',
+      api_key: 'extra_innings',
+      betEndPointKey: GAME_COMPLETED_END_POINT,
+      periods_after: REGULATION_INNINGS
+    },
+  ],
+
+  metrics: [
+    {
+      value: 'runs',
+      label: 'Runs',
+      team: true,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        if (subjectType === 'TEAM') {
+          const result = getTeamRuns(gameData, subjectId, period);
+          console.log(`[runs stat] ${result !== null ? '✅' : '❌'} Team ${subjectId} runs (${period || 'FULL_GAME'}): ${result}`);
+          return result;
+        }
+        if (period && period !== 'FULL_GAME') {
+          console.log(`[runs stat] ❌ Only full game runs are available for players`);
+          return null;
+        }
+        return getPlayerStat(gameData, subjectId, 'batting', 'runs');
+      }
+    },
+    battingMetric('hits', 'Hits', 'hits', play => (getBasesForPlay(play) > 0 ? 1 : 0)),
+    battingMetric('home_runs', 'Home Runs', 'homeRuns', play => (getBasesForPlay(play) === 4 ? 1 : 0)),
+    // Total bases aren't in ESPN's boxscore, so they're always counted from the plays
+    battingMetric('total_bases', 'Total Bases', 'totalBases', getBasesForPlay),
+    boxscoreMetric('rbis', 'RBIs', 'batting', 'RBIs', 'RBIs'),
+    // Strikeouts thrown by the team's / player's pitchers
+    boxscoreMetric('strikeouts', 'Strikeouts (Pitching)', 'pitching', 'strikeouts', 'strikeouts'),
+  ]
+};
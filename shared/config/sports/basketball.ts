@@ -4,7 +4,8 @@
  */
 
 import { TimePeriod } from '../../types/bets';
-import type { SportMetric, BetEndPointKey, SportConfig } from '../../types/sports';
+import type { SportMetric, BetEndPointKey, SportConfig, EventEvaluator } from '../../types/sports';
+import { createDoubleDigitEvaluator, getCompetition } from '../../utils/eventResolution';
 
 // Re-export types for backward compatibility
 export type { SportMetric, BetEndPointKey, SportConfig } from '../../types/sports';
@@ -362,10 +363,43 @@ function getBasketballResolutionUTCTime(gameData: any, timePeriod: TimePeriod):
   return undefined;
 }
 
+// Stat categories that count toward double-doubles and triple-doubles
+const DOUBLE_DIGIT_CATEGORIES = ['points', 'rebounds', 'assists', 'steals', 'blocks'];
+
+/**
+ * Game goes to overtime if play reached a 5th period
+ */
+const basketballGoesToOvertime: EventEvaluator = (gameData) => {
+  const competition = getCompetition(gameData);
+  const plays = Array.isArray(gameData?.plays) ? gameData.plays : [];
+  const maxPlayPeriod = plays.reduce((max: number, play: any) => Math.max(max, play.period?.number || 0), 0);
+  const maxPeriod = Math.max(
+    maxPlayPeriod,
+    competition?.status?.period || 0,
+    competition?.competitors?.[0]?.linescores?.length || 0
+  );
+
+  return {
+    occurred: maxPeriod > 4,
+    details: { periodsPlayed: maxPeriod }
+  };
+};
+
 export const BASKETBALL_CONFIG: SportConfig = {
   sport_key: 'basketball',
   display_name: 'Basketball',
   getResolutionUTCTime: getBasketballResolutionUTCTime,
+  eventEvaluators: {
+    DOUBLE_DOUBLE: createDoubleDigitEvaluator(DOUBLE_DIGIT_CATEGORIES, 2),
+    TRIPLE_DOUBLE: createDoubleDigitEvaluator(DOUBLE_DIGIT_CATEGORIES, 3),
+    GAME_GOES_TO_OT: basketballGoesToOvertime
+  },
+  event_types: [
+    { value: 'DOUBLE_DOUBLE', label: 'Double Double' },
+    { value: 'TRIPLE_DOUBLE', label: 'Triple Double' },
+    { value: 'SCORES_FIRST', label: 'Scores First' },
+    { value: 'GAME_GOES_TO_OT', label: 'Game Goes to OT' }
+  ],
   
   time_periods: [
     {
@@ -882,12 +916,62 @@ export const BASKETBALL_CONFIG: SportConfig = {
         }
       }
     },
+    // Derived player props - summed from the metrics above, so they resolve for any period those do
+    {
+      value: 'pts_reb_ast',
+      label: 'Pts + Reb + Ast',
+      team: false,
+      player: true,
+      resolvable: true,
+      components: [{ metric: 'points' }, { metric: 'rebounds' }, { metric: 'assists' }]
+    },
+    {
+      value: 'pts_ast',
+      label: 'Pts + Ast',
+      team: false,
+      player: true,
+      resolvable: true,
+      components: [{ metric: 'points' }, { metric: 'assists' }]
+    },
+    {
+      value: 'pts_reb',
+      label: 'Pts + Reb',
+      team: false,
+      player: true,
+      resolvable: true,
+      components: [{ metric: 'points' }, { metric: 'rebounds' }]
+    },
+    {
+      value: 'reb_ast',
+      label: 'Reb + Ast',
+      team: false,
+      player: true,
+      resolvable: true,
+      components: [{ metric: 'rebounds' }, { metric: 'assists' }]
+    },
+    {
+      value: 'stocks',
+      label: 'Stocks (Stl + Blk)',
+      team: false,
+      player: true,
+      resolvable: true,
+      components: [{ metric: 'steals' }, { metric: 'blocks' }]
+    },
+    {
+      // Common DFS pick'em scoring
+      value: 'fantasy_score',
+      label: 'Fantasy Score',
+      team: false,
+      player: true,
+      resolvable: true,
+      components: [
+        { metric: 'points', weight: 1 },
+        { metric: 'rebounds', weight: 1.2 },
+        { metric: 'assists', weight: 1.5 },
+        { metric: 'steals', weight: 3 },
+        { metric: 'blocks', weight: 3 },
+        { metric: 'turnovers', weight: -1 }
+      ]
+    },
   ]
 };
-
-// Export registry for all sports
-export const SPORT_CONFIGS: Record<string, SportConfig> = {
-  basketball: BASKETBALL_CONFIG,
-  // Add more sports here as they're implemented
-};
-
@@ -0,0 +1,361 @@
+/**
+ * American football sport configuration
+ * Defines available metrics, time periods and event types for NFL / college football
+ *
+ * ESPN football summaries have no flat play-by-play: plays live under drives, and
+ * scoring plays are listed separately in scoringPlays. Player stats come from the
+ * boxscore categories (passing, rushing, receiving, defensive, interceptions), which
+ * only cover the full game - period-specific stats are supported for team points and touchdowns.
+ */
+
+import { TimePeriod } from '../../types/bets';
+import type { SportConfig, SportMetric } from '../../types/sports';
+import { getCompetition, getPeriodNumbers, scoresTouchdownEvaluator } from '../../utils/eventResolution';
+
+/**
+ * Full game end point (competition status completed)
+ */
+const GAME_COMPLETED_END_POINT = {
+  path: 'status.type.completed',
+  expectedValue: true,
+  filter: {
+    arrayPath: 'header.competitions',
+    filterKey: 'id',
+    filterValuePath: 'header.id'
+  }
+};
+
+/**
+ * Get a team statistic from boxscore.teams by stat name
+ * Compound values like "2-14" (sacks-yards lost) return the first number
+ */
+function getTeamStat(gameData: any, teamId: string, statName: string): number | null {
+  const team = gameData?.boxscore?.teams?.find((t: any) => String(t.team?.id) === String(teamId));
+  if (!team) {
+    console.log(`[football stat] ❌ Team ${teamId} not found in boxscore.teams`);
+    return null;
+  }
+
+  const stat = team.statistics?.find((s: any) => s.name === statName);
+  if (!stat?.displayValue) {
+    console.log(`[football stat] ❌ ${statName} not found for team ${teamId}`);
+    return null;
+  }
+
+  const value = String(stat.displayValue).split('-')[0];
+  const result = parseFloat(value);
+  return isNaN(result) ? null : result;
+}
+
+/**
+ * Get a player statistic from a boxscore category (e.g. 'passing', 'passingYards')
+ * Returns 0 if the player played but has no line in the category, null if the player isn't in the boxscore
+ */
+function getPlayerStat(gameData: any, playerId: string, category: string, statKey: string): number | null {
+  const teams = gameData?.boxscore?.players;
+  if (!teams || !Array.isArray(teams)) {
+    console.log(`[football stat] ❌ No boxscore.players found`);
+    return null;
+  }
+
+  let playerFound = false;
+
+  for (const team of teams) {
+    for (const group of team.statistics || []) {
+      const athlete = group.athletes?.find((a: any) => String(a.athlete?.id) === String(playerId));
+      if (!athlete) {
+        continue;
+      }
+      playerFound = true;
+
+      if (group.name !== category) {
+        continue;
+      }
+
+      const statIndex = group.keys?.indexOf(statKey);
+      if (statIndex === undefined || statIndex === -1 || athlete.stats?.[statIndex] === undefined) {
+        console.log(`[football stat] ❌ ${category}.${statKey} not found for player ${playerId}`);
+        return null;
+      }
+
+      const result = parseFloat(String(athlete.stats[statIndex]).split('/')[0]);
+      return isNaN(result) ? null : result;
+    }
+  }
+
+  if (playerFound) {
+    // Player is in the boxscore, just not in this category (e.g. no receptions)
+    return 0;
+  }
+
+  console.log(`[football stat] ❌ Player ${playerId} not found in boxscore`);
+  return null;
+}
+
+/**
+ * Get the opposing team's id for a team
+ */
+function getOpponentTeamId(gameData: any, teamId: string): string | null {
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => String(c.team?.id) !== String(teamId));
+  return competitor?.team?.id ? String(competitor.team.id) : null;
+}
+
+/**
+ * Team points for a time period, from the competitor score and quarter linescores
+ */
+function getTeamPoints(gameData: any, teamId: string, period?: TimePeriod): number | null {
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => String(c.team?.id) === String(teamId));
+  if (!competitor) {
+    console.log(`[points stat] ❌ Team ${teamId} not found in competitors`);
+    return null;
+  }
+
+  if (!period || period === 'FULL_GAME') {
+    return competitor.score !== undefined ? parseInt(competitor.score) : null;
+  }
+
+  const linescores = competitor.linescores || [];
+  const periodNumbers = period === 'OT'
+    ? linescores.map((_: any, index: number) => index + 1).filter((num: number) => num >= 5)
+    : getPeriodNumbers(period) || [];
+
+  // Period hasn't started yet - no linescore to read
+  if (periodNumbers.some((num: number) => !linescores[num - 1]) && period !== 'OT') {
+    console.log(`[points stat] ❌ Missing linescores for ${period}`);
+    return null;
+  }
+
+  return periodNumbers.reduce((total: number, num: number) => {
+    const value = linescores[num - 1]?.displayValue ?? linescores[num - 1]?.value;
+    return total + (value !== undefined ? parseInt(value) : 0);
+  }, 0);
+}
+
+/**
+ * Touchdowns scored by a team in a time period, from the summary's scoring plays
+ */
+function getTeamTouchdowns(gameData: any, teamId: string, period?: TimePeriod): number | null {
+  const scoringPlays = gameData?.scoringPlays;
+  if (!Array.isArray(scoringPlays)) {
+    console.log(`[touchdowns stat] ❌ No scoringPlays found`);
+    return null;
+  }
+
+  const periodNumbers = period && period !== 'FULL_GAME'
+    ? (period === 'OT'
+      ? scoringPlays.map((p: any) => p.period?.number).filter((num: number) => num >= 5)
+      : getPeriodNumbers(period))
+    : null;
+
+  return scoringPlays.filter((play: any) => {
+    const typeText = `${play.type?.text || ''} ${play.scoringType?.name || ''}`.toLowerCase();
+    return typeText.includes('touchdown') &&
+      String(play.team?.id) === String(teamId) &&
+      (!periodNumbers || periodNumbers.includes(play.period?.number));
+  }).length;
+}
+
+/**
+ * Build a metric backed by the boxscore
+ * Team and player stats are only available for the full game
+ */
+function boxscoreMetric(
+  value: string,
+  label: string,
+  team: { statName: string; fromOpponent?: boolean } | null,
+  player: { category: string; statKey: string } | Array<{ category: string; statKey: string }> | null
+): SportMetric {
+  return {
+    value,
+    label,
+    team: !!team,
+    player: !!player,
+    resolvable: true,
+    endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+      if (period && period !== 'FULL_GAME') {
+        console.log(`[${value} stat] ❌ Only full game stats are available for ${value}`);
+        return null;
+      }
+
+      if (subjectType === 'TEAM') {
+        if (!team) {
+          return null;
+        }
+        const teamId = team.fromOpponent ? getOpponentTeamId(gameData, subjectId) : subjectId;
+        return teamId ? getTeamStat(gameData, teamId, team.statName) : null;
+      }
+
+      if (!player) {
+        return null;
+      }
+
+      // Metrics like touchdowns add up several boxscore categories
+      const sources = Array.isArray(player) ? player : [player];
+      let total: number | null = null;
+      for (const source of sources) {
+        const stat = getPlayerStat(gameData, subjectId, source.category, source.statKey);
+        if (stat === null) {
+          return null;
+        }
+        total = (total ?? 0) + stat;
+      }
+      return total;
+    }
+  };
+}
+
+/**
+ * All plays from the drives, in game order
+ */
+function getDrivePlays(gameData: any): any[] {
+  const drives = [
+    ...(gameData?.drives?.previous || []),
+    ...(gameData?.drives?.current ? [gameData.drives.current] : [])
+  ];
+  return drives.flatMap((drive: any) => drive.plays || []);
+}
+
+/**
+ * Get the resolution UTC time for a specific time period in football
+ * Uses the wallclock of the last play in the period; full game uses the game's last play
+ */
+function getFootballResolutionUTCTime(gameData: any, timePeriod: TimePeriod): Date | undefined {
+  const plays = getDrivePlays(gameData).filter((play: any) => play.wallclock);
+  const lastPlayWallClock = gameData?.meta?.lastPlayWallClock || plays[plays.length - 1]?.wallclock;
+
+  if (timePeriod === 'FULL_GAME' || timePeriod === 'H2' || timePeriod === 'OT') {
+    return lastPlayWallClock ? new Date(lastPlayWallClock) : undefined;
+  }
+
+  // H1 ends with Q2
+  const periodNumber = timePeriod === 'H1' ? 2 : (getPeriodNumbers(timePeriod) || [])[0];
+  const periodPlays = plays.filter((play: any) => play.period?.number === periodNumber);
+  const lastPlay = periodPlays[periodPlays.length - 1];
+
+  if (lastPlay?.wallclock) {
+    return new Date(lastPlay.wallclock);
+  }
+
+  console.log(`[getFootballResolutionUTCTime] ⚠️  No plays found for ${timePeriod}, falling back to game end`);
+  return lastPlayWallClock ? new Date(lastPlayWallClock) : undefined;
+}
+
+export const FOOTBALL_CONFIG: SportConfig = {
+  sport_key: 'football',
+  display_name: 'Football',
+  getResolutionUTCTime: getFootballResolutionUTCTime,
+  eventEvaluators: {
+    SCORES_TD: scoresTouchdownEvaluator
+  },
+  event_types: [
+    { value: 'SCORES_TD', label: 'Scores a Touchdown' },
+    { value: 'SCORES_FIRST', label: 'Scores First' },
+    { value: 'SHUTOUT', label: 'Shutout' },
+    { value: 'GAME_GOES_TO_OT', label: 'Game Goes to OT' }
+  ],
+
+  time_periods: [
+    {
+      value: 'FULL_GAME',
+      label: 'Full Game',
+      api_key: 'game',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+    {
+      value: 'Q1',
+      label: '1st Quarter',
+      api_key: 'quarter_1',
+      betEndPointKey: { periodCheck: { periodNumber: 1 } }
+    },
+    {
+      value: 'Q2',
+      label: '2nd Quarter',
+      api_key: 'quarter_2',
+      betEndPointKey: { periodCheck: { periodNumber: 2 } }
+    },
+    {
+      value: 'Q3',
+      label: '3rd Quarter',
+      api_key: 'quarter_3',
+      betEndPointKey: { periodCheck: { periodNumber: 3 } }
+    },
+    {
+      value: 'Q4',
+      label: '4th Quarter',
+      api_key: 'quarter_4',
+      betEndPointKey: { periodCheck: { periodNumber: 4 } }
+    },
+    {
+      value: 'H1',
+      label: '1st Half',
+      api_key: 'half_1',
+      betEndPointKey: { periodCheck: { periodNumber: 2 } } // H1 is complete at halftime
+    },
+    {
+      value: 'H2',
+      label: '2nd Half',
+      api_key: 'half_2',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+    {
+      value: 'OT',
+      label: 'Overtime',
+      api_key: 'overtime',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+  ],
+
+  metrics: [
+    {
+      value: 'points',
+      label: 'Points',
+      team: true,
+      player: false,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        if (subjectType !== 'TEAM') {
+          return null;
+        }
+        const result = getTeamPoints(gameData, subjectId, period);
+        console.log(`[points stat] ${result !== null ? '✅' : '❌'} Team ${subjectId} points (${period || 'FULL_GAME'}): ${result}`);
+        return result;
+      }
+    },
+    {
+      value: 'touchdowns',
+      label: 'Touchdowns',
+      team: true,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        if (subjectType === 'TEAM') {
+          return getTeamTouchdowns(gameData, subjectId, period);
+        }
+        if (period && period !== 'FULL_GAME') {
+          console.log(`[touchdowns stat] ❌ Only full game touchdowns are available for players`);
+          return null;
+        }
+        // Rushing + receiving touchdowns (passing touchdowns are a separate metric)
+        const rushing = getPlayerStat(gameData, subjectId, 'rushing', 'rushingTouchdowns');
+        const receiving = getPlayerStat(gameData, subjectId, 'receiving', 'receivingTouchdowns');
+        if (rushing === null || receiving === null) {
+          return null;
+        }
+        return rushing + receiving;
+      }
+    },
+    boxscoreMetric('passing_yards', 'Passing Yards', { statName: 'netPassingYards' }, { category: 'passing', statKey: 'passingYards' }),
+    boxscoreMetric('passing_touchdowns', 'Passing TDs', null, { category: 'passing', statKey: 'passingTouchdowns' }),
+    boxscoreMetric('rushing_yards', 'Rushing Yards', { statName: 'rushingYards' }, { category: 'rushing', statKey: 'rushingYards' }),
+    boxscoreMetric('rushing_touchdowns', 'Rushing TDs', null, { category: 'rushing', statKey: 'rushingTouchdowns' }),
+    boxscoreMetric('receiving_yards', 'Receiving Yards', null, { category: 'receiving', statKey: 'receivingYards' }),
+    boxscoreMetric('receiving_touchdowns', 'Receiving TDs', null, { category: 'receiving', statKey: 'receivingTouchdowns' }),
+    boxscoreMetric('receptions', 'Receptions', null, { category: 'receiving', statKey: 'receptions' }),
+    boxscoreMetric('total_yards', 'Total Yards', { statName: 'totalYards' }, null),
+    // Sacks made by the defense - the team stat is the opponent's "sacks-yards lost"
+    boxscoreMetric('sacks', 'Sacks', { statName: 'sacksYardsLost', fromOpponent: true }, { category: 'defensive', statKey: 'sacks' }),
+    // Interceptions made by the defense
+    boxscoreMetric('interceptions', 'Interceptions', { statName: 'interceptions', fromOpponent: true }, { category: 'interceptions', statKey: 'interceptions' }),
+    boxscoreMetric('interceptions_thrown', 'Interceptions Thrown', { statName: 'interceptions' }, { category: 'passing', statKey: 'interceptions' }),
+  ]
+};
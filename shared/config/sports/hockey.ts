@@ -0,0 +1,529 @@
+/**
+ * Hockey sport configuration
+ * Defines available metrics, time periods and event types for the NHL
+ *
+ * Three regulation periods, then overtime (period 4, or 4+ in the playoffs) and in the
+ * regular season a shootout. ESPN lists the shootout as the last period and marks the
+ * final "Final/SO"; shootout goals don't count towards player or period stats, but the
+ * shootout winner gets one goal added to the final score.
+ */
+
+import { TimePeriod } from '../../types/bets';
+import type { SportConfig, SportMetric, EventEvaluator } from '../../types/sports';
+import { getCompetition } from '../../utils/eventResolution';
+
+const REGULATION_PERIODS = 3;
+
+/**
+ * Full game end point (competition status completed)
+ */
+const GAME_COMPLETED_END_POINT = {
+  path: 'status.type.completed',
+  expectedValue: true,
+  filter: {
+    arrayPath: 'header.competitions',
+    filterKey: 'id',
+    filterValuePath: 'header.id'
+  }
+};
+
+/**
+ * Period number of the shootout, or null if the game didn't go to one
+ */
+function getShootoutPeriodNumber(gameData: any): number | null {
+  const status = getCompetition(gameData)?.status;
+  const detail = `${status?.type?.detail || ''} ${status?.type?.shortDetail || ''}`;
+  if (!/\bSO\b|shootout/i.test(detail)) {
+    return null;
+  }
+
+  const periods = (gameData?.plays || []).map((p: any) => p.period?.number || 0);
+  return periods.length > 0 ? Math.max(...periods) : null;
+}
+
+/**
+ * Map a time period to ESPN period numbers
+ * Returns null for FULL_GAME (every period except the shootout counts)
+ */
+function getHockeyPeriodNumbers(gameData: any, period: TimePeriod): number[] | null {
+  const shootoutPeriod = getShootoutPeriodNumber(gameData);
+
+  switch (period) {
+    case 'P1':
+      return [1];
+    case 'P2':
+      return [2];
+    case 'P3':
+      return [3];
+    case 'OT':
+      // Every period after regulation that isn't the shootout (playoffs can have several)
+      return (gameData?.plays || [])
+        .map((p: any) => p.period?.number)
+        .filter((num: number) => num > REGULATION_PERIODS && num !== shootoutPeriod)
+        .filter((num: number, index: number, arr: number[]) => arr.indexOf(num) === index);
+    case 'SO':
+      return shootoutPeriod ? [shootoutPeriod] : [];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Plays in a time period (shootout attempts are left out of FULL_GAME)
+ */
+function getPlaysForPeriod(gameData: any, period: TimePeriod): any[] {
+  const plays = gameData?.plays;
+  if (!plays || !Array.isArray(plays)) {
+    return [];
+  }
+
+  const periodNumbers = getHockeyPeriodNumbers(gameData, period);
+  if (!periodNumbers) {
+    const shootoutPeriod = getShootoutPeriodNumber(gameData);
+    return plays.filter((play: any) => play.period?.number !== shootoutPeriod);
+  }
+
+  return plays.filter((play: any) => periodNumbers.includes(play.period?.number));
+}
+
+function isGoalPlay(play: any): boolean {
+  return !!play.scoringPlay || String(play.type?.text || '').toLowerCase() === 'goal';
+}
+
+function isShotOnGoalPlay(play: any): boolean {
+  const typeText = String(play.type?.text || '').toLowerCase();
+  return typeText === 'shot' || isGoalPlay(play);
+}
+
+function isPowerPlayGoal(play: any): boolean {
+  return isGoalPlay(play) && /power play/i.test(play.strength?.text || play.text || '');
+}
+
+/**
+ * Goal scorer and assisters for a goal play (goalies are listed as participants too)
+ */
+function getGoalParticipants(play: any): { scorerId: string | null; assistIds: string[] } {
+  const skaters = (play.participants || []).filter((p: any) => p.type !== 'goalie');
+  const scorer = skaters.find((p: any) => p.type === 'scorer') || skaters[0];
+  const assists = skaters.filter((p: any) => p !== scorer && (p.type === undefined || p.type === 'assister'));
+
+  return {
+    scorerId: scorer?.athlete?.id ? String(scorer.athlete.id) : null,
+    assistIds: assists.map((p: any) => String(p.athlete?.id))
+  };
+}
+
+/**
+ * Count a player's or team's plays in a period from play-by-play
+ */
+function countPlays(
+  gameData: any,
+  subjectId: string,
+  subjectType: 'TEAM' | 'PLAYER',
+  period: TimePeriod,
+  matches: (play: any) => boolean,
+  role: 'scorer' | 'assist' | 'shooter' = 'scorer'
+): number | null {
+  if (!Array.isArray(gameData?.plays)) {
+    console.log(`[hockey stat] ❌ No plays array found`);
+    return null;
+  }
+
+  return getPlaysForPeriod(gameData, period).filter((play: any) => {
+    if (!matches(play)) {
+      return false;
+    }
+    if (subjectType === 'TEAM') {
+      return String(play.team?.id) === String(subjectId);
+    }
+    if (role === 'shooter') {
+      return String(play.participants?.[0]?.athlete?.id) === String(subjectId);
+    }
+    const { scorerId, assistIds } = getGoalParticipants(play);
+    return role === 'scorer' ? scorerId === String(subjectId) : assistIds.includes(String(subjectId));
+  }).length;
+}
+
+/**
+ * Get a team statistic from boxscore.teams by stat name
+ */
+function getTeamStat(gameData: any, teamId: string, statName: string): number | null {
+  const team = gameData?.boxscore?.teams?.find((t: any) => String(t.team?.id) === String(teamId));
+  const stat = team?.statistics?.find((s: any) => s.name === statName);
+  if (!stat?.displayValue) {
+    console.log(`[hockey stat] ❌ ${statName} not found for team ${teamId}`);
+    return null;
+  }
+
+  const result = parseFloat(stat.displayValue);
+  return isNaN(result) ? null : result;
+}
+
+/**
+ * Get a player statistic from the boxscore (forwards, defenses and goalies groups)
+ * Returns 0 if the player is in the boxscore but their group doesn't track the stat
+ */
+function getPlayerStat(gameData: any, playerId: string, statKey: string): number | null {
+  for (const team of gameData?.boxscore?.players || []) {
+    for (const group of team.statistics || []) {
+      const athlete = group.athletes?.find((a: any) => String(a.athlete?.id) === String(playerId));
+      if (!athlete) {
+        continue;
+      }
+
+      const statIndex = group.keys?.indexOf(statKey);
+      if (statIndex === undefined || statIndex === -1) {
+        return 0;
+      }
+
+      const result = parseFloat(athlete.stats?.[statIndex]);
+      return isNaN(result) ? null : result;
+    }
+  }
+
+  console.log(`[hockey stat] ❌ Player ${playerId} not found in boxscore`);
+  return null;
+}
+
+/**
+ * Team goals for a time period, from the competitor score and period linescores
+ */
+function getTeamGoals(gameData: any, teamId: string, period?: TimePeriod): number | null {
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => String(c.team?.id) === String(teamId));
+  if (!competitor) {
+    console.log(`[goals stat] ❌ Team ${teamId} not found in competitors`);
+    return null;
+  }
+
+  // Final score includes the shootout winner's goal
+  if (!period || period === 'FULL_GAME') {
+    return competitor.score !== undefined ? parseInt(competitor.score) : null;
+  }
+
+  const linescores = competitor.linescores || [];
+  const periodNumbers = getHockeyPeriodNumbers(gameData, period) || [];
+
+  if (['P1', 'P2', 'P3'].includes(period) && !linescores[periodNumbers[0] - 1]) {
+    console.log(`[goals stat] ❌ Missing linescore for ${period}`);
+    return null;
+  }
+
+  return periodNumbers.reduce((total: number, num: number) => {
+    const value = linescores[num - 1]?.displayValue ?? linescores[num - 1]?.value;
+    return total + (value !== undefined ? parseInt(value) : 0);
+  }, 0);
+}
+
+function getOpponentTeamId(gameData: any, teamId: string): string | null {
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => String(c.team?.id) !== String(teamId));
+  return competitor?.team?.id ? String(competitor.team.id) : null;
+}
+
+/**
+ * Get the resolution UTC time for a specific time period in hockey
+ * Uses the wallclock of the last play in the period; full game uses the game's last play
+ */
+function getHockeyResolutionUTCTime(gameData: any, timePeriod: TimePeriod): Date | undefined {
+  const plays = (gameData?.plays || []).filter((play: any) => play.wallclock);
+  const lastPlayWallClock = gameData?.meta?.lastPlayWallClock || plays[plays.length - 1]?.wallclock;
+
+  if (timePeriod === 'FULL_GAME') {
+    return lastPlayWallClock ? new Date(lastPlayWallClock) : undefined;
+  }
+
+  const periodPlays = getPlaysForPeriod(gameData, timePeriod).filter((play: any) => play.wallclock);
+  const lastPlay = periodPlays[periodPlays.length - 1];
+
+  if (lastPlay?.wallclock) {
+    return new Date(lastPlay.wallclock);
+  }
+
+  console.log(`[getHockeyResolutionUTCTime] ⚠️  No plays found for ${timePeriod}, falling back to game end`);
+  return lastPlayWallClock ? new Date(lastPlayWallClock) : undefined;
+}
+
+/**
+ * SHUTOUT - the participant team (or goalie's team) holds its opponent scoreless
+ * A shootout goal isn't a goal against, so FULL_GAME uses the regulation + OT linescores
+ */
+const hockeyShutout: EventEvaluator = (gameData, config) => {
+  const competition = getCompetition(gameData);
+  let teamId = config.participant.subject_type === 'TEAM' ? config.participant.subject_id : null;
+
+  if (!teamId) {
+    // Goalie shutouts: use the team whose boxscore lists the player
+    const playerTeam = gameData?.boxscore?.players?.find((team: any) =>
+      (team.statistics || []).some((group: any) =>
+        group.athletes?.some((a: any) => String(a.athlete?.id) === String(config.participant.subject_id))
+      )
+    );
+    teamId = playerTeam?.team?.id ? String(playerTeam.team.id) : null;
+  }
+
+  const opponent = competition?.competitors?.find((c: any) => teamId && String(c.team?.id) !== String(teamId));
+  if (!teamId || !opponent?.team?.id) {
+    return { occurred: null, reason: `Could not find opponent for ${config.participant.subject_name}` };
+  }
+
+  const opponentId = String(opponent.team.id);
+  let goalsAgainst: number | null;
+  if (config.time_period === 'FULL_GAME') {
+    const linescores = opponent.linescores || [];
+    const shootoutPeriod = getShootoutPeriodNumber(gameData);
+    goalsAgainst = linescores.length === 0
+      ? getTeamGoals(gameData, opponentId)
+      : linescores
+        .filter((_: any, index: number) => index + 1 !== shootoutPeriod)
+        .reduce((total: number, ls: any) => total + parseInt(ls.displayValue ?? ls.value ?? 0), 0);
+  } else {
+    goalsAgainst = getTeamGoals(gameData, opponentId, config.time_period);
+  }
+
+  if (goalsAgainst === null) {
+    return { occurred: null, reason: `Could not extract opponent goals for ${config.time_period}` };
+  }
+
+  return {
+    occurred: goalsAgainst === 0,
+    details: { teamId, opponentTeamId: opponentId, goalsAgainst }
+  };
+};
+
+/**
+ * SCORES_FIRST - the participant scores the first goal of the time period (shootouts excluded)
+ */
+const hockeyScoresFirst: EventEvaluator = (gameData, config) => {
+  if (!Array.isArray(gameData?.plays)) {
+    return { occurred: null, reason: 'No play-by-play available' };
+  }
+
+  const firstGoal = getPlaysForPeriod(gameData, config.time_period).find((play: any) => isGoalPlay(play));
+
+  if (!firstGoal) {
+    // Nobody scored in the period
+    return { occurred: false, details: { firstGoal: null } };
+  }
+
+  const occurred = config.participant.subject_type === 'TEAM'
+    ? String(firstGoal.team?.id) === String(config.participant.subject_id)
+    : getGoalParticipants(firstGoal).scorerId === String(config.participant.subject_id);
+
+  return {
+    occurred,
+    details: {
+      firstGoal: {
+        text: firstGoal.text,
+        teamId: firstGoal.team?.id,
+        period: firstGoal.period?.number
+      }
+    }
+  };
+};
+
+/**
+ * GAME_GOES_TO_OT - anything past regulation, including games settled in a shootout ("Final/SO")
+ */
+const hockeyGoesToOvertime: EventEvaluator = (gameData) => {
+  const competition = getCompetition(gameData);
+  const periodsPlayed = Math.max(
+    competition?.status?.period || 0,
+    ...(gameData?.plays || []).map((p: any) => p.period?.number || 0)
+  );
+
+  return {
+    occurred: periodsPlayed > REGULATION_PERIODS,
+    details: { periodsPlayed, statusDetail: competition?.status?.type?.detail || null }
+  };
+};
+
+/**
+ * Build a metric backed by play-by-play for players and periods, with boxscore fallbacks
+ */
+function playMetric(
+  value: string,
+  label: string,
+  options: {
+    matches: (play: any) => boolean;
+    role?: 'scorer' | 'assist' | 'shooter';
+    team: boolean;
+    teamStatName?: string;
+    playerStatKey?: string;
+  }
+): SportMetric {
+  return {
+    value,
+    label,
+    team: options.team,
+    player: true,
+    resolvable: true,
+    endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+      if (subjectType === 'TEAM' && !options.team) {
+        return null;
+      }
+
+      const isFullGame = !period || period === 'FULL_GAME';
+
+      // Prefer the boxscore for full game totals
+      if (isFullGame) {
+        const boxscoreStat = subjectType === 'TEAM'
+          ? (options.teamStatName ? getTeamStat(gameData, subjectId, options.teamStatName) : null)
+          : (options.playerStatKey ? getPlayerStat(gameData, subjectId, options.playerStatKey) : null);
+        if (boxscoreStat !== null) {
+          return boxscoreStat;
+        }
+      }
+
+      const result = countPlays(gameData, subjectId, subjectType, period || 'FULL_GAME', options.matches, options.role);
+      console.log(`[${value} stat] ${result !== null ? '✅' : '❌'} ${subjectType} ${subjectId} ${value} (${period || 'FULL_GAME'}): ${result}`);
+      return result;
+    }
+  };
+}
+
+export const HOCKEY_CONFIG: SportConfig = {
+  sport_key: 'hockey',
+  display_name: 'Hockey',
+  getResolutionUTCTime: getHockeyResolutionUTCTime,
+  score_metric: 'goals',
+  eventEvaluators: {
+    SHUTOUT: hockeyShutout,
+    SCORES_FIRST: hockeyScoresFirst,
+    GAME_GOES_TO_OT: hockeyGoesToOvertime
+  },
+  event_types: [
+    { value: 'SHUTOUT', label: 'Shutout' },
+    { value: 'SCORES_FIRST', label: 'Scores First' },
+    { value: 'GAME_GOES_TO_OT', label: 'Game Goes to OT' }
+  ],
+
+  time_periods: [
+    {
+      value: 'FULL_GAME',
+      label: 'Full Game',
+      api_key: 'game',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+    {
+      value: 'P1',
+      label: '1st Period',
+      api_key: 'period_1',
+      betEndPointKey: { periodCheck: { periodNumber: 1 } }
+    },
+    {
+      value: 'P2',
+      label: '2nd Period',
+      api_key: 'period_2',
+      betEndPointKey: { periodCheck: { periodNumber: 2 } }
+    },
+    {
+      value: 'P3',
+      label: '3rd Period',
+      api_key: 'period_3',
+      betEndPointKey: { periodCheck: { periodNumber: 3 } }
+    },
+    {
+      value: 'OT',
+      label: 'Overtime',
+      api_key: 'overtime',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+    {
+      value: 'SO',
+      label: 'Shootout',
+      api_key: 'shootout',
+      betEndPointKey: GAME_COMPLETED_END_POINT
+    },
+  ],
+
+  metrics: [
+    {
+      value: 'goals',
+      label: 'Goals',
+      team: true,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        if (subjectType === 'TEAM') {
+          const result = getTeamGoals(gameData, subjectId, period);
+          console.log(`[goals stat] ${result !== null ? '✅' : '❌'} Team ${subjectId} goals (${period || 'FULL_GAME'}): ${result}`);
+          return result;
+        }
+        if (!period || period === 'FULL_GAME') {
+          const result = getPlayerStat(gameData, subjectId, 'goals');
+          if (result !== null) {
+            return result;
+          }
+        }
+        return countPlays(gameData, subjectId, 'PLAYER', period || 'FULL_GAME', isGoalPlay, 'scorer');
+      }
+    },
+    playMetric('assists', 'Assists', { matches: isGoalPlay, role: 'assist', team: false, playerStatKey: 'assists' }),
+    {
+      value: 'points',
+      label: 'Points',
+      team: false,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        if (subjectType !== 'PLAYER') {
+          return null;
+        }
+        // Points = goals + assists
+        const timePeriod = period || 'FULL_GAME';
+        const goals = timePeriod === 'FULL_GAME'
+          ? getPlayerStat(gameData, subjectId, 'goals')
+          : countPlays(gameData, subjectId, 'PLAYER', timePeriod, isGoalPlay, 'scorer');
+        const assists = timePeriod === 'FULL_GAME'
+          ? getPlayerStat(gameData, subjectId, 'assists')
+          : countPlays(gameData, subjectId, 'PLAYER', timePeriod, isGoalPlay, 'assist');
+        if (goals === null || assists === null) {
+          return null;
+        }
+        return goals + assists;
+      }
+    },
+    playMetric('shots_on_goal', 'Shots on Goal', {
+      matches: isShotOnGoalPlay,
+      role: 'shooter',
+      team: true,
+      teamStatName: 'shotsTotal',
+      playerStatKey: 'shotsTotal'
+    }),
+    {
+      value: 'saves',
+      label: 'Saves',
+      team: true,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        const timePeriod = period || 'FULL_GAME';
+
+        if (subjectType === 'PLAYER') {
+          if (timePeriod !== 'FULL_GAME') {
+            console.log(`[saves stat] ❌ Only full game saves are available for goalies`);
+            return null;
+          }
+          return getPlayerStat(gameData, subjectId, 'saves');
+        }
+
+        // Team saves = opponent shots on goal that weren't goals
+        const opponentId = getOpponentTeamId(gameData, subjectId);
+        if (!opponentId) {
+          return null;
+        }
+        const shots = countPlays(gameData, opponentId, 'TEAM', timePeriod, isShotOnGoalPlay);
+        const goals = countPlays(gameData, opponentId, 'TEAM', timePeriod, isGoalPlay);
+        if (shots === null || goals === null) {
+          return null;
+        }
+        return shots - goals;
+      }
+    },
+    playMetric('power_play_goals', 'Power Play Goals', {
+      matches: isPowerPlayGoal,
+      role: 'scorer',
+      team: true,
+      teamStatName: 'powerPlayGoals'
+    }),
+  ]
+};
@@ -0,0 +1,35 @@
+/**
+ * Sport config registry
+ * Keys are lowercase sport names, matching Game.sport lowercased (e.g. 'BASKETBALL' -> 'basketball')
+ */
+
+import type { SportConfig } from '../../types/sports';
+import { BASKETBALL_CONFIG } from './basketball';
+import { BASEBALL_CONFIG } from './baseball';
+import { FOOTBALL_CONFIG } from './football';
+import { HOCKEY_CONFIG } from './hockey';
+import { SOCCER_CONFIG } from './soccer';
+
+export { BASKETBALL_CONFIG } from './basketball';
+export { BASEBALL_CONFIG } from './baseball';
+export { FOOTBALL_CONFIG } from './football';
+export { HOCKEY_CONFIG } from './hockey';
+export { SOCCER_CONFIG } from './soccer';
+
+// Export registry for all sports
+export const SPORT_CONFIGS: Record<string, SportConfig> = {
+  basketball: BASKETBALL_CONFIG,
+  football: FOOTBALL_CONFIG,
+  hockey: HOCKEY_CONFIG,
+  baseball: BASEBALL_CONFIG,
+  soccer: SOCCER_CONFIG,
+  // Add more sports here as they're implemented
+};
+
+/**
+ * Get the config for a Game.sport value (e.g. 'BASEBALL'), falling back to basketball
+ * so the admin bet forms always have metrics and periods to offer
+ */
+export function getSportConfigForGame(sport?: string | null): SportConfig {
+  return (sport && SPORT_CONFIGS[sport.toLowerCase()]) || BASKETBALL_CONFIG;
+}
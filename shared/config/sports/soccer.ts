@@ -0,0 +1,335 @@
+/**
+ * Soccer sport configuration
+ * Defines available metrics, time periods and event types for soccer leagues
+ *
+ * ESPN numbers the halves 1 and 2, extra time 3 and 4, and a penalty shootout 5.
+ * Stoppage time belongs to the half it's played in (a 45'+2' goal is period 1).
+ * FULL_GAME follows the usual soccer betting rule of regulation time only:
+ * 90 minutes plus stoppage time, not extra time or penalties.
+ */
+
+import { TimePeriod } from '../../types/bets';
+import type { SportConfig, SportMetric, EventEvaluator } from '../../types/sports';
+import { getCompetition } from '../../utils/eventResolution';
+
+const REGULATION_PERIODS = 2;
+const EXTRA_TIME_PERIODS = [3, 4];
+
+/**
+ * Map a time period to ESPN period numbers (FULL_GAME is regulation)
+ */
+function getSoccerPeriodNumbers(period?: TimePeriod): number[] {
+  switch (period) {
+    case 'H1':
+      return [1];
+    case 'H2':
+      return [2];
+    case 'ET':
+      return EXTRA_TIME_PERIODS;
+    default:
+      return [1, 2];
+  }
+}
+
+/**
+ * Whether the match went past regulation (extra time, and possibly penalties)
+ */
+function wentToExtraTime(gameData: any): boolean {
+  const competition = getCompetition(gameData);
+  const periods = (gameData?.keyEvents || []).map((e: any) => e.period?.number || 0);
+  return Math.max(competition?.status?.period || 0, ...periods) > REGULATION_PERIODS;
+}
+
+/**
+ * Key events (goals, cards, substitutions) in a time period, shootout kicks excluded
+ */
+function getKeyEventsForPeriod(gameData: any, period?: TimePeriod): any[] {
+  const periodNumbers = getSoccerPeriodNumbers(period);
+  return (gameData?.keyEvents || []).filter((event: any) =>
+    !event.shootout && periodNumbers.includes(event.period?.number)
+  );
+}
+
+function getEventType(event: any): string {
+  return String(event.type?.type || event.type?.text || '').toLowerCase();
+}
+
+function isGoalEvent(event: any): boolean {
+  return !!event.scoringPlay && !event.shootout;
+}
+
+function isOwnGoal(event: any): boolean {
+  return /own[- ]goal/.test(getEventType(event));
+}
+
+function isCardEvent(event: any): boolean {
+  return /yellow-card|red-card|yellow card|red card/.test(getEventType(event));
+}
+
+/**
+ * Count a team's or player's key events in a period
+ * ESPN credits an own goal to the team it counts for, but not to the player who scored it
+ */
+function countKeyEvents(
+  gameData: any,
+  subjectId: string,
+  subjectType: 'TEAM' | 'PLAYER',
+  period: TimePeriod | undefined,
+  matches: (event: any) => boolean
+): number | null {
+  if (!Array.isArray(gameData?.keyEvents)) {
+    console.log(`[soccer stat] ❌ No keyEvents array found`);
+    return null;
+  }
+
+  return getKeyEventsForPeriod(gameData, period).filter((event: any) => {
+    if (!matches(event)) {
+      return false;
+    }
+    if (subjectType === 'TEAM') {
+      return String(event.team?.id) === String(subjectId);
+    }
+    if (isGoalEvent(event) && isOwnGoal(event)) {
+      return false;
+    }
+    return String(event.participants?.[0]?.athlete?.id) === String(subjectId);
+  }).length;
+}
+
+/**
+ * Get a team statistic from boxscore.teams by stat name
+ */
+function getTeamStat(gameData: any, teamId: string, statName: string): number | null {
+  const team = gameData?.boxscore?.teams?.find((t: any) => String(t.team?.id) === String(teamId));
+  const stat = team?.statistics?.find((s: any) => s.name === statName);
+  if (!stat?.displayValue) {
+    console.log(`[soccer stat] ❌ ${statName} not found for team ${teamId}`);
+    return null;
+  }
+
+  const result = parseFloat(stat.displayValue);
+  return isNaN(result) ? null : result;
+}
+
+/**
+ * Get a player statistic from the match rosters
+ * Returns 0 if the player is listed but has no entry for the stat (unused substitutes)
+ */
+function getPlayerStat(gameData: any, playerId: string, statName: string): number | null {
+  for (const team of gameData?.rosters || []) {
+    const player = team.roster?.find((p: any) => String(p.athlete?.id) === String(playerId));
+    if (!player) {
+      continue;
+    }
+
+    const stat = player.stats?.find((s: any) => s.name === statName);
+    const result = parseFloat(stat?.value ?? stat?.displayValue ?? 0);
+    return isNaN(result) ? null : result;
+  }
+
+  console.log(`[soccer stat] ❌ Player ${playerId} not found in rosters`);
+  return null;
+}
+
+/**
+ * Team goals for a time period
+ * Uses the final score when regulation was the whole match, then period linescores,
+ * then goals counted from key events (not every league publishes linescores)
+ */
+function getTeamGoals(gameData: any, teamId: string, period?: TimePeriod): number | null {
+  const competitor = getCompetition(gameData)?.competitors?.find((c: any) => String(c.team?.id) === String(teamId));
+  if (!competitor) {
+    console.log(`[goals stat] ❌ Team ${teamId} not found in competitors`);
+    return null;
+  }
+
+  const isFullGame = !period || period === 'FULL_GAME';
+  if (isFullGame && !wentToExtraTime(gameData) && competitor.score !== undefined) {
+    return parseInt(competitor.score);
+  }
+
+  const periodNumbers = getSoccerPeriodNumbers(period);
+  const linescores = competitor.linescores || [];
+  if (linescores.length >= REGULATION_PERIODS) {
+    return periodNumbers.reduce((total: number, num: number) => {
+      const value = linescores[num - 1]?.displayValue ?? linescores[num - 1]?.value;
+      return total + (value !== undefined ? parseInt(value) : 0);
+    }, 0);
+  }
+
+  return countKeyEvents(gameData, teamId, 'TEAM', period, isGoalEvent);
+}
+
+/**
+ * Get the resolution UTC time for a specific time period in soccer
+ * Uses the wallclock of the last key event in the period (the half-time or full-time whistle)
+ */
+function getSoccerResolutionUTCTime(gameData: any, timePeriod: TimePeriod): Date | undefined {
+  const events = getKeyEventsForPeriod(gameData, timePeriod).filter((event: any) => event.wallclock);
+  const lastEvent = events[events.length - 1];
+
+  if (lastEvent?.wallclock) {
+    return new Date(lastEvent.wallclock);
+  }
+
+  console.log(`[getSoccerResolutionUTCTime] ⚠️  No key events found for ${timePeriod}`);
+  return undefined;
+}
+
+/**
+ * SCORES_FIRST - the participant scores the first goal of the time period
+ */
+const soccerScoresFirst: EventEvaluator = (gameData, config) => {
+  if (!Array.isArray(gameData?.keyEvents)) {
+    return { occurred: null, reason: 'No key events available' };
+  }
+
+  const firstGoal = getKeyEventsForPeriod(gameData, config.time_period).find((event: any) => isGoalEvent(event));
+
+  if (!firstGoal) {
+    // Goalless period
+    return { occurred: false, details: { firstGoal: null } };
+  }
+
+  const occurred = config.participant.subject_type === 'TEAM'
+    ? String(firstGoal.team?.id) === String(config.participant.subject_id)
+    : !isOwnGoal(firstGoal) && String(firstGoal.participants?.[0]?.athlete?.id) === String(config.participant.subject_id);
+
+  return {
+    occurred,
+    details: {
+      firstGoal: {
+        text: firstGoal.text,
+        teamId: firstGoal.team?.id,
+        period: firstGoal.period?.number,
+        clock: firstGoal.clock?.displayValue
+      }
+    }
+  };
+};
+
+/**
+ * GAME_GOES_TO_OT - the match needs extra time (knockout ties level after 90 minutes)
+ */
+const soccerGoesToExtraTime: EventEvaluator = (gameData) => {
+  const competition = getCompetition(gameData);
+  return {
+    occurred: wentToExtraTime(gameData),
+    details: { statusDetail: competition?.status?.type?.detail || null }
+  };
+};
+
+/**
+ * Build a metric from a boxscore team stat and roster player stat (full game only)
+ * ESPN only publishes these as match totals, so extra time is included when played
+ */
+function boxscoreMetric(value: string, label: string, teamStatName: string | null, playerStatName: string | null): SportMetric {
+  return {
+    value,
+    label,
+    team: teamStatName !== null,
+    player: playerStatName !== null,
+    resolvable: true,
+    endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+      if (period && period !== 'FULL_GAME') {
+        console.log(`[${value} stat] ❌ Only full game ${label.toLowerCase()} are available`);
+        return null;
+      }
+
+      const result = subjectType === 'TEAM'
+        ? (teamStatName ? getTeamStat(gameData, subjectId, teamStatName) : null)
+        : (playerStatName ? getPlayerStat(gameData, subjectId, playerStatName) : null);
+      console.log(`[${value} stat] ${result !== null ? '✅' : '❌'} ${subjectType} ${subjectId} ${value}: ${result}`);
+      return result;
+    }
+  };
+}
+
+export const SOCCER_CONFIG: SportConfig = {
+  sport_key: 'soccer',
+  display_name: 'Soccer',
+  getResolutionUTCTime: getSoccerResolutionUTCTime,
+  score_metric: 'goals',
+  eventEvaluators: {
+    SCORES_FIRST: soccerScoresFirst,
+    GAME_GOES_TO_OT: soccerGoesToExtraTime
+  },
+  event_types: [
+    { value: 'SCORES_FIRST', label: 'Scores First' },
+    { value: 'SHUTOUT', label: 'Clean Sheet' },
+    { value: 'GAME_GOES_TO_OT', label: 'Goes to Extra Time' }
+  ],
+
+  time_periods: [
+    {
+      value: 'FULL_GAME',
+      label: 'Full Time (90 min + stoppage)',
+      api_key: 'game',
+      betEndPointKey: { periodCheck: { periodNumber: 2 } },
+      period_numbers: [1, 2]
+    },
+    {
+      value: 'H1',
+      label: '1st Half',
+      api_key: 'first_half',
+      betEndPointKey: { periodCheck: { periodNumber: 1 } },
+      period_numbers: [1]
+    },
+    {
+      value: 'H2',
+      label: '2nd Half',
+      api_key: 'second_half',
+      betEndPointKey: { periodCheck: { periodNumber: 2 } },
+      period_numbers: [2]
+    },
+    {
+      value: 'ET',
+      label: 'Extra Time',
+      short_label: 'ET',
+      api_key: 'extra_time',
+      betEndPointKey: { periodCheck: { periodNumber: 4 } },
+      period_numbers: EXTRA_TIME_PERIODS
+    },
+  ],
+
+  metrics: [
+    {
+      value: 'goals',
+      label: 'Goals',
+      team: true,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        if (subjectType === 'TEAM') {
+          const result = getTeamGoals(gameData, subjectId, period);
+          console.log(`[goals stat] ${result !== null ? '✅' : '❌'} Team ${subjectId} goals (${period || 'FULL_GAME'}): ${result}`);
+          return result;
+        }
+        if (Array.isArray(gameData?.keyEvents)) {
+          return countKeyEvents(gameData, subjectId, 'PLAYER', period, isGoalEvent);
+        }
+        // Roster totals include extra time, so only use them when regulation was the whole match
+        if ((!period || period === 'FULL_GAME') && !wentToExtraTime(gameData)) {
+          return getPlayerStat(gameData, subjectId, 'totalGoals');
+        }
+        return null;
+      }
+    },
+    boxscoreMetric('shots', 'Shots', 'totalShots', 'totalShots'),
+    boxscoreMetric('shots_on_target', 'Shots on Target', 'shotsOnTarget', 'shotsOnTarget'),
+    {
+      value: 'cards',
+      label: 'Cards',
+      team: true,
+      player: true,
+      resolvable: true,
+      endGameStatFetchKey: (gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => {
+        // Yellow + red cards, from key events so halves and regulation can be told apart
+        const result = countKeyEvents(gameData, subjectId, subjectType, period, isCardEvent);
+        console.log(`[cards stat] ${result !== null ? '✅' : '❌'} ${subjectType} ${subjectId} cards (${period || 'FULL_GAME'}): ${result}`);
+        return result;
+      }
+    },
+    boxscoreMetric('corners', 'Corners', 'wonCorners', null),
+  ],
+};
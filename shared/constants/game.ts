@@ -1,32 +1,29 @@
-/**
- * Parlay value mappings
- */
-export const PARLAY_VALUES = {
-  1: 1,
-  2: 2,
-  3: 4,
-  4: 8,
-  5: 16,
-} as const;
-
-/**
- * Base insurance costs for each parlay type
- */
-export const BASE_INSURANCE_COSTS = {
-  4: 3, // 4-bet parlay base cost
-  5: 5, // 5-bet parlay base cost
-} as const;
+import type { GameRules } from '../types';
 
 /**
- * Insurance cost multipliers based on streak level
+ * Rules for version 1 of the game ruleset
+ * The live rules are stored in the database and edited by admins - this only seeds the
+ * first version and must match the 20261019150000_add_game_rulesets migration.
  */
-export const INSURANCE_MULTIPLIERS = [
-  { min: 0, max: 14, multiplier: 1.0 },
-  { min: 15, max: 24, multiplier: 1.67 },
-  { min: 25, max: 34, multiplier: 2.0 },
-  { min: 35, max: 44, multiplier: 2.67 },
-  { min: 45, max: Infinity, multiplier: 3.0 },
-] as const;
+export const DEFAULT_GAME_RULES: GameRules = {
+  parlayValues: { 1: 1, 2: 2, 3: 4, 4: 8, 5: 16 },
+  maxLegs: 5,
+  insurance: {
+    eligibleLegCounts: [4, 5],
+    tiers: [
+      { minStreak: 0, costs: { 4: 3, 5: 5 } },
+      { minStreak: 15, costs: { 4: 5, 5: 8 } },
+      { minStreak: 25, costs: { 4: 6, 5: 10 } },
+      { minStreak: 35, costs: { 4: 8, 5: 13 } },
+      { minStreak: 45, costs: { 4: 9, 5: 15 } },
+    ],
+  },
+  singleBets: {
+    winPoints: 1,
+    lossResetsStreak: true,
+    dailyOpenCap: 5,
+  },
+};
 
 /**
  * Game statuses
@@ -59,6 +56,7 @@ export const PARLAY_STATUS = {
   PENDING: 'pending',
   WON: 'won',
   LOST: 'lost',
+  PUSH: 'push',
   RESOLUTION_FAILED: 'resolution_failed',
 } as const;
 
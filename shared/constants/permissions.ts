@@ -0,0 +1,30 @@
+import type { Permission, UserRole } from '../types';
+
+/**
+ * Roles in order of how much they can do
+ */
+export const USER_ROLES: UserRole[] = ['player', 'bet_author', 'resolver', 'admin', 'owner'];
+
+/**
+ * What each role is allowed to do
+ * A user's permissions are the union of their roles'. Only owners manage users, so only
+ * an owner can grant or revoke roles.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  player: [],
+  bet_author: ['create_bets'],
+  resolver: ['resolve_bets'],
+  admin: ['create_bets', 'resolve_bets', 'manage_games', 'manage_flags', 'manage_rules', 'view_audit_log'],
+  owner: ['create_bets', 'resolve_bets', 'manage_games', 'manage_flags', 'manage_rules', 'manage_users', 'view_audit_log'],
+};
+
+/**
+ * Display labels for roles
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  player: 'Player',
+  bet_author: 'Bet Author',
+  resolver: 'Resolver',
+  admin: 'Admin',
+  owner: 'Owner',
+};
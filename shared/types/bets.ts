@@ -4,7 +4,9 @@
 
 export type BetType = 'COMPARISON' | 'THRESHOLD' | 'EVENT';
 export type SubjectType = 'TEAM' | 'PLAYER';
-export type TimePeriod = 'FULL_GAME' | 'Q1' | 'Q2' | 'Q3' | 'Q4' | 'H1' | 'H2' | 'OT';
+// Periods used by the built-in sports; a sport config can declare its own (e.g. baseball innings)
+export type StandardTimePeriod = 'FULL_GAME' | 'Q1' | 'Q2' | 'Q3' | 'Q4' | 'H1' | 'H2' | 'P1' | 'P2' | 'P3' | 'OT' | 'SO';
+export type TimePeriod = StandardTimePeriod | (string & {});
 export type ComparisonOperator = 'GREATER_THAN' | 'GREATER_EQUAL';
 export type ThresholdOperator = 'OVER' | 'UNDER';
 export type EventType = 'SCORES_TD' | 'SCORES_FIRST' | 'GAME_GOES_TO_OT' | 'SHUTOUT' | 'DOUBLE_DOUBLE' | 'TRIPLE_DOUBLE';
@@ -26,6 +28,9 @@ export interface ComparisonConfig {
     direction: '+' | '-';
     value: number; // must be X.5 (half-point)
   };
+  // Three-way mode (soccer): "draw" is a selectable side and a tie settles it instead of pushing
+  // Can't be combined with a spread
+  allow_draw?: boolean;
 }
 
 export interface ThresholdConfig {
@@ -33,6 +38,9 @@ export interface ThresholdConfig {
   participant: Participant;
   operator: ThresholdOperator;
   threshold: number;
+  // Totals mode (e.g. game total): the threshold applies to participant's stat plus each of these
+  // They share participant's metric and time period
+  total_with?: Participant[];
 }
 
 export interface EventConfig {
@@ -44,6 +52,66 @@ export interface EventConfig {
 
 export type BetConfig = ComparisonConfig | ThresholdConfig | EventConfig;
 
+// Bet templates: configs whose participants are placeholders, bound to a game's teams and players when applied
+// A leader is the player ESPN lists as the team's leader in leader_category (e.g. 'points', 'passingYards')
+export type TemplateSubject = 'HOME_TEAM' | 'AWAY_TEAM' | 'HOME_LEADER' | 'AWAY_LEADER';
+
+export interface TemplateParticipant {
+  subject: TemplateSubject;
+  leader_category?: string; // Required for HOME_LEADER / AWAY_LEADER
+  metric: string;
+  time_period: TimePeriod;
+}
+
+export interface ComparisonTemplateConfig extends Omit<ComparisonConfig, 'participant_1' | 'participant_2'> {
+  participant_1: TemplateParticipant;
+  participant_2: TemplateParticipant;
+}
+
+export interface ThresholdTemplateConfig extends Omit<ThresholdConfig, 'participant' | 'total_with'> {
+  participant: TemplateParticipant;
+  total_with?: TemplateParticipant[];
+}
+
+export interface EventTemplateConfig extends Omit<EventConfig, 'participant'> {
+  participant: TemplateParticipant;
+}
+
+export type TemplateConfig = ComparisonTemplateConfig | ThresholdTemplateConfig | EventTemplateConfig;
+
+export interface BetTemplate {
+  id: string;
+  name: string;
+  betType: BetType;
+  config: TemplateConfig;
+  createdBy: string | null; // Username, null if the admin was deleted
+  createdAt: string;
+}
+
+// A template bound to one game of a slate
+export interface BulkBetItem {
+  gameId: string;
+  templateId: string;
+  betType: BetType;
+  config: BetConfig;
+  displayText: string;
+}
+
+export interface BulkBetPreview {
+  items: BulkBetItem[]; // What applying would create
+  existing: Array<{ gameId: string; templateId: string; displayText: string }>; // Already on the game
+  skipped: Array<{ gameId: string; templateId: string; reason: string }>; // e.g. no leader for the category
+}
+
+export interface BulkBetResult {
+  created: Array<{ gameId: string; templateId: string; betId: string; displayText: string }>;
+  existing: BulkBetPreview['existing'];
+  skipped: BulkBetPreview['skipped'];
+}
+
+// Outcomes an admin can set by hand - 'void' cancels the bet for everyone
+export type ManualBetOutcome = 'win' | 'loss' | 'push' | 'void';
+
 export interface Bet {
   id: string;
   game_id: string;
@@ -51,7 +119,7 @@ export interface Bet {
   display_text: string;
   display_text_override?: string;
   config: BetConfig;
-  outcome: 'pending' | 'win' | 'loss' | 'push' | 'void';
+  outcome: 'pending' | ManualBetOutcome;
   priority: number;
   resolved_at?: Date;
   last_fetched_at?: Date;
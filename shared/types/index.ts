@@ -14,10 +14,13 @@ export * from './betResolution';
 // Re-export sport configuration types
 export * from './sports';
 
+// Re-export realtime event types
+export * from './realtime';
+
 // Domain/Database types
 export type GameStatus = 'scheduled' | 'in_progress' | 'completed' | 'postponed' | 'canceled';
 export type BetOutcome = 'pending' | 'win' | 'loss' | 'push' | 'void';
-export type ParlayStatus = 'building' | 'locked' | 'pending' | 'won' | 'lost' | 'resolution_failed';
+export type ParlayStatus = 'building' | 'locked' | 'pending' | 'won' | 'lost' | 'push' | 'resolution_failed';
 export type BetType = 'moneyline' | 'spread' | 'over_under' | 'player_prop' | 'team_prop' | 'game_prop';
 export type Sport = 'NBA' | 'NFL' | 'NHL' | 'MLB' | 'EPL' | 'Champions League';
 
@@ -49,6 +52,26 @@ export interface Game {
   updatedAt: Date;
 }
 
+// Betting lines from ESPN's scoreboard odds, kept on Game.metadata.odds when games are fetched
+export interface GameOdds {
+  provider: string | null; // e.g. 'ESPN BET'
+  details: string | null; // ESPN's own summary, e.g. 'BOS -6.5'
+  spread: number | null; // The home team's line: negative when the home team is favored
+  overUnder: number | null;
+  homeMoneyline: number | null;
+  awayMoneyline: number | null;
+  drawMoneyline: number | null; // Only offered for sports that can end in a draw
+}
+
+// The moneyline, spread and total generated for a game from its odds
+export type StandardBetKind = 'moneyline' | 'spread' | 'total';
+
+export interface StandardBetsResult {
+  created: Array<{ gameId: string; kind: StandardBetKind; betId: string; displayText: string }>;
+  existing: Array<{ gameId: string; kind: StandardBetKind; displayText: string }>; // Already on the game
+  skipped: Array<{ gameId: string; kind: StandardBetKind; reason: string }>; // e.g. no line in the odds
+}
+
 export interface Bet {
   id: string;
   gameId: string;
@@ -75,6 +98,7 @@ export interface Parlay {
   lockedAt?: Date;
   resolvedAt?: Date;
   lastGameEndTime?: Date;
+  rulesetVersion: number; // Game ruleset the parlay was created under
   createdAt: Date;
   updatedAt: Date;
   bets?: Bet[];
@@ -84,10 +108,13 @@ export interface StreakHistory {
   id: string;
   userId: string;
   parlayId?: string;
+  selectionId?: string; // Set for single bets
   oldStreak: number;
   newStreak: number;
   changeAmount: number;
-  changeType: 'parlay_win' | 'parlay_loss' | 'insurance_deducted';
+  changeType: 'parlay_win' | 'parlay_loss' | 'bet_win' | 'bet_loss' | 'insurance_deducted' | 'insurance_refunded' | 'correction' | 'reversal';
+  eventTime: Date; // When the event happened - streaks are replayed in this order
+  reversedAt?: Date; // An admin changed the result of a bet this settled
   createdAt: Date;
 }
 
@@ -102,6 +129,9 @@ export interface ApiResponse<T = any> {
 }
 
 // Leaderboard types
+export type LeaderboardBoard = 'current_streak' | 'longest_streak' | 'points';
+export type LeaderboardWindow = 'daily' | 'weekly' | 'monthly' | 'all_time';
+
 export interface LeaderboardEntry {
   userId: string;
   username: string;
@@ -109,3 +139,221 @@ export interface LeaderboardEntry {
   rank: number;
 }
 
+export interface LeaderboardResponse {
+  board: LeaderboardBoard;
+  window: LeaderboardWindow;
+  since: string | null; // Start of the window (UTC), null for all-time
+  entries: LeaderboardEntry[];
+  page: number;
+  pageSize: number;
+  total: number; // Users on the board
+  me: LeaderboardEntry | null; // The caller's entry, null if signed out or not on the board
+}
+
+
+// League types
+export interface LeagueSummary {
+  id: string;
+  name: string;
+  inviteCode: string;
+  ownerId: string;
+  memberCount: number;
+  isOwner: boolean; // Whether the caller owns the league
+  createdAt: string;
+}
+
+export interface LeagueMember {
+  userId: string;
+  username: string;
+  currentStreak: number;
+  longestStreak: number;
+  joinedAt: string;
+}
+
+export interface LeagueDetail extends LeagueSummary {
+  members: LeagueMember[];
+}
+
+export interface LeagueActivityItem {
+  id: string;
+  userId: string;
+  username: string;
+  changeType: StreakHistory['changeType'];
+  oldStreak: number;
+  newStreak: number;
+  changeAmount: number;
+  eventTime: string;
+}
+
+// Push notification types
+export type DevicePlatform = 'ios' | 'android';
+
+// Each preference turns one kind of push notification on or off (all default to on)
+export interface NotificationPreferences {
+  parlayLocked: boolean;
+  legResolved: boolean;
+  parlaySettled: boolean;
+  gamesStartingSoon: boolean;
+}
+
+export type NotificationType = keyof NotificationPreferences;
+
+// Email preference types
+// Each preference is a kind of optional email; account emails (login, verification, reset) can't be turned off
+export interface EmailPreferences {
+  parlayResults: boolean;
+  streakMilestones: boolean;
+  insuranceAlerts: boolean;
+  dailyDigest: boolean; // Off until the user opts in
+}
+
+export type EmailPreferenceType = keyof EmailPreferences;
+
+// Streak history types
+// A run is one streak: from the change that took it above 0 until it was reset to 0 (or until now)
+export type StreakEventType = Exclude<StreakHistory['changeType'], 'correction' | 'reversal'>;
+
+// Parlay and single bet payloads are typed by each client
+export interface StreakRunEvent<TParlay = unknown, TSelection = unknown> {
+  id: string;
+  type: StreakEventType;
+  pointsChange: number;
+  resultingStreak: number;
+  date: string;
+  parlay?: TParlay;
+  betSelection?: TSelection;
+}
+
+export interface StreakRun<TParlay = unknown, TSelection = unknown> {
+  id: string;
+  status: 'active' | 'ended';
+  peakStreak: number;
+  startDate: string;
+  endDate?: string; // undefined while active
+  finalStreak: number; // 0 once ended
+  events: StreakRunEvent<TParlay, TSelection>[]; // Newest first
+}
+
+export interface StreakHistoryPage<TParlay = unknown, TSelection = unknown> {
+  runs: StreakRun<TParlay, TSelection>[]; // Newest first
+  page: number;
+  pageSize: number;
+  totalRuns: number;
+  hasMore: boolean;
+}
+
+// Single bet scoring types
+// A single bet is a selection that isn't part of a parlay
+export interface SingleBetRules {
+  winPoints: number; // Added to the streak when a single bet wins
+  lossResetsStreak: boolean; // false means single bet losses don't touch the streak
+  dailyOpenCap: number | null; // Max open single bets per game day, null for no limit
+}
+
+export interface SingleBetSummary {
+  rules: SingleBetRules;
+  openCount: number; // Open (unresolved) single bets for games on the requested day
+  remaining: number | null; // How many more can be picked that day, null for no limit
+}
+
+// Game ruleset types
+// Scoring and insurance rules are versioned; each parlay is scored under the version it was created with
+export interface InsuranceTier {
+  minStreak: number; // Tier applies from this streak up to the next tier's minStreak
+  costs: Record<number, number>; // Insurance cost by leg count
+}
+
+export interface GameRules {
+  parlayValues: Record<number, number>; // Streak points for a winning parlay by leg count (1 covers parlays left with one winning leg after pushes)
+  maxLegs: number;
+  insurance: {
+    eligibleLegCounts: number[];
+    tiers: InsuranceTier[]; // Sorted by minStreak, the first starts at 0
+  };
+  singleBets: SingleBetRules;
+}
+
+export interface GameRuleset {
+  version: number;
+  rules: GameRules;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface GameRulesetSummary extends GameRuleset {
+  active: boolean; // The latest version, used for new parlays
+  createdBy: string | null; // Username of the admin who published it
+  parlayCount: number;
+}
+
+// Roles and permissions
+// Every user is a player; the other roles are granted by an owner
+export type UserRole = 'player' | 'bet_author' | 'resolver' | 'admin' | 'owner';
+export type Permission =
+  | 'create_bets'
+  | 'resolve_bets'
+  | 'manage_games'
+  | 'manage_flags'
+  | 'manage_rules'
+  | 'manage_users'
+  | 'view_audit_log';
+
+export interface UserRoleSummary {
+  id: string;
+  username: string;
+  email: string;
+  roles: UserRole[];
+  permissions: Permission[];
+}
+
+// Admin audit log types
+export type AuditTargetType = 'bet' | 'bet_template' | 'game' | 'user' | 'ruleset' | 'job';
+export type AuditAction =
+  | 'bet.create'
+  | 'bet.update'
+  | 'bet.delete'
+  | 'bet.resolve'
+  | 'bet.reopen'
+  | 'bet.correct'
+  | 'bet_template.create'
+  | 'bet_template.delete'
+  | 'game.fetch'
+  | 'game.reorder_bets'
+  | 'job.run'
+  | 'ruleset.publish'
+  | 'user.grant_role'
+  | 'user.revoke_role'
+  | 'user.recalculate_streak';
+
+// Only the fields that changed; before is null for created values and after is null for removed ones
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string | null;
+  actorUsername: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  betId: string | null;
+  gameId: string | null;
+  changes: AuditChanges;
+  requestId: string;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  betId?: string;
+  gameId?: string;
+  userId?: string; // Who made the change, or the user it was made to
+  from?: string; // YYYY-MM-DD, UTC
+  to?: string; // YYYY-MM-DD, UTC, inclusive
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[]; // Newest first
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
@@ -0,0 +1,61 @@
+/**
+ * Realtime (Socket.io) event types
+ * Shared by the backend emitters and the web/mobile socket clients
+ */
+
+// Sent to everyone watching a game (game:{id} room)
+export interface GameUpdateEvent {
+  gameId: string;
+  status: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  period?: number;
+  displayClock?: string;
+  periodDisplay?: string;
+}
+
+// Sent to everyone watching the bet's game
+export interface BetResolvedEvent {
+  betId: string;
+  gameId: string;
+  outcome: string;
+}
+
+// The rest are sent only to the user they belong to (user:{id} room)
+export interface SelectionResolvedEvent {
+  selectionId: string;
+  betId: string;
+  parlayId: string | null;
+  outcome: string | null; // 'win', 'loss', 'push', 'void' - null when an admin reopens the bet
+}
+
+export interface ParlayLockedEvent {
+  parlayId: string;
+}
+
+export interface ParlaySettledEvent {
+  parlayId: string;
+  status: string; // 'won', 'lost', 'push' - 'pending' when an admin reopens one of its bets
+}
+
+export interface StreakUpdatedEvent {
+  currentStreak: number;
+  longestStreak: number;
+  totalPointsEarned: number;
+  insuranceLocked: boolean;
+}
+
+export interface ServerToClientEvents {
+  'game:update': (event: GameUpdateEvent) => void;
+  'bet:resolved': (event: BetResolvedEvent) => void;
+  'selection:resolved': (event: SelectionResolvedEvent) => void;
+  'parlay:locked': (event: ParlayLockedEvent) => void;
+  'parlay:settled': (event: ParlaySettledEvent) => void;
+  'streak:updated': (event: StreakUpdatedEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  // Start/stop receiving game:update and bet:resolved for these games
+  'games:watch': (gameIds: string[]) => void;
+  'games:unwatch': (gameIds: string[]) => void;
+}
@@ -2,7 +2,12 @@
  * Sport configuration types
  */
 
-import { TimePeriod } from './bets';
+import { TimePeriod, EventType, EventConfig } from './bets';
+
+export interface MetricComponent {
+  metric: string; // value of another metric in the same sport config
+  weight?: number; // multiplier for this metric's stat (defaults to 1, negative to subtract)
+}
 
 export interface SportMetric {
   value: string;
@@ -13,6 +18,9 @@ export interface SportMetric {
   api_path_player?: string;
   resolvable: boolean;
   endGameStatFetchKey?: string | ((gameData: any, subjectId: string, subjectType: 'TEAM' | 'PLAYER', period?: TimePeriod) => number | null);
+  // Derived metric (e.g. points + rebounds + assists): the weighted sum of these metrics' stats,
+  // read through their own fetchers for the bet's time period. Takes the place of endGameStatFetchKey
+  components?: MetricComponent[];
 }
 
 export interface BetEndPointKey {
@@ -28,17 +36,44 @@ export interface BetEndPointKey {
     eventTypeId: string; // e.g., "412" for "End Period"
     periodNumber: number; // e.g., 1 for Q1, 2 for Q2, etc.
   };
+  // For status based checks: reached once the competition status is past this period
+  // (used where the summary has no flat play-by-play, e.g. football drives)
+  periodCheck?: {
+    periodNumber: number;
+  };
+}
+
+/**
+ * Result of checking whether an EVENT bet's event happened
+ * occurred is null when the game data can't answer it (e.g. player not in the boxscore)
+ */
+export interface EventEvaluationResult {
+  occurred: boolean | null;
+  reason?: string;
+  details?: Record<string, any>; // Stats the decision was based on (stored in the stat snapshot)
+}
+
+export type EventEvaluator = (gameData: any, config: EventConfig, sportConfig: SportConfig) => EventEvaluationResult;
+
+/**
+ * A time period a sport offers for bets
+ * period_numbers / periods_after declare which ESPN period numbers it covers, so sports
+ * can define their own periods (innings, first five innings, extra innings)
+ */
+export interface SportTimePeriod {
+  value: TimePeriod;
+  label: string;
+  short_label?: string; // Used in generated bet display text (e.g. "F5"), defaults to the value
+  api_key: string;
+  betEndPointKey?: BetEndPointKey;
+  period_numbers?: number[]; // e.g. [1, 2, 3, 4, 5] for the first five innings
+  periods_after?: number; // Every period after this one (e.g. 9 for extra innings)
 }
 
 export interface SportConfig {
   sport_key: string;
   display_name: string;
-  time_periods: Array<{
-    value: TimePeriod;
-    label: string;
-    api_key: string;
-    betEndPointKey?: BetEndPointKey;
-  }>;
+  time_periods: SportTimePeriod[];
   metrics: SportMetric[];
   /**
    * Get the resolution UTC time for a specific time period
@@ -48,5 +83,14 @@ export interface SportConfig {
    * @returns The UTC Date when that period ended, or undefined if not found
    */
   getResolutionUTCTime?: (gameData: any, timePeriod: TimePeriod) => Date | undefined;
+  /**
+   * Sport-specific evaluators for EVENT bets, keyed by event type
+   * Event types without one here fall back to the generic evaluators in shared/utils/eventResolution
+   */
+  eventEvaluators?: Partial<Record<EventType, EventEvaluator>>;
+  // Metric holding the team's score, used by SHUTOUT (defaults to 'points')
+  score_metric?: string;
+  // Event types admins can create for this sport (defaults to double/triple double)
+  event_types?: Array<{ value: EventType; label: string }>;
 }
 
@@ -3,9 +3,12 @@
  * Pure functions for resolving bets from game data
  */
 
-import { BetConfig, ComparisonConfig, ThresholdConfig, Participant, TimePeriod } from '../types/bets';
+import { BetConfig, ComparisonConfig, ThresholdConfig, EventConfig, Participant, TimePeriod } from '../types/bets';
 import { SportConfig, BetEndPointKey } from '../types/sports';
 import type { ResolutionResult } from '../types/betResolution';
+import { getEventEvaluator, getMetricValue } from './eventResolution';
+import { getTimePeriodConfig } from './timePeriods';
+import { getThresholdParticipants } from './betTotals';
 
 /**
  * Get a value from a nested object using a dot-notation path
@@ -103,6 +106,28 @@ function checkBetEndPoint(gameData: any, betEndPointKey: BetEndPointKey): boolea
     return result;
   }
   
+  // Status-based check: the game has moved past the period (or is over)
+  if (betEndPointKey.periodCheck) {
+    const { periodNumber } = betEndPointKey.periodCheck;
+    const headerId = gameData?.header?.id;
+    const competitions = gameData?.header?.competitions || [];
+    const competition = competitions.find((c: any) => String(c.id) === String(headerId)) || competitions[0];
+    const status = competition?.status;
+
+    if (status?.type?.completed) {
+      console.log(`[checkBetEndPoint] Period check: game completed`);
+      return true;
+    }
+
+    const currentPeriod = status?.period || 0;
+    // ESPN keeps the period number during the break, with an end-of-period status
+    const atEndOfPeriod = currentPeriod === periodNumber &&
+      ['STATUS_END_PERIOD', 'STATUS_HALFTIME', 'STATUS_END_OF_REGULATION'].includes(status?.type?.name);
+    const result = currentPeriod > periodNumber || atEndOfPeriod;
+    console.log(`[checkBetEndPoint] Period check: ${result} (current period: ${currentPeriod}, status: ${status?.type?.name}, waiting for end of ${periodNumber})`);
+    return result;
+  }
+  
   // Otherwise use path-based check
   if (!betEndPointKey.path) {
     console.log(`[checkBetEndPoint] ❌ No path or playByPlayCheck provided`);
@@ -170,6 +195,14 @@ function getParticipantStat(
     return null;
   }
   
+  // Derived metric (e.g. PRA) - sum of its component metrics for the same period
+  if (metric.components) {
+    console.log(`[getParticipantStat] Metric "${participant.metric}" is derived from: ${metric.components.map(c => c.metric).join(', ')}`);
+    const result = getMetricValue(gameData, sportConfig, participant.subject_id, participant.subject_type, participant.metric, participant.time_period);
+    console.log(`[getParticipantStat] Derived metric returned: ${result}`);
+    return result;
+  }
+  
   if (!metric.endGameStatFetchKey) {
     console.log(`[getParticipantStat] Metric "${participant.metric}" has no endGameStatFetchKey configured`);
     return null;
@@ -278,6 +311,9 @@ function resolveComparisonBet(
       outcome = 'win';
     } else if (adjustedStat1 < adjustedStat2) {
       outcome = 'loss';
+    } else if (bet.allow_draw) {
+      // Three-way bets settle a tie on the draw side, so participant_1 loses
+      outcome = 'loss';
     } else {
       outcome = 'push';
     }
@@ -357,7 +393,8 @@ function resolveComparisonBet(
         time_period: bet.participant_2.time_period
       },
       operator: bet.operator,
-      spread: bet.spread
+      spread: bet.spread,
+      ...(bet.allow_draw && { draw: adjustedStat1 === adjustedStat2 })
     }
   };
   
@@ -405,19 +442,38 @@ function resolveThresholdBet(
     };
   }
   
-  // Get stat value for the participant
-  console.log(`[resolveThresholdBet] Extracting stat for participant...`);
-  const stat = getParticipantStat(gameData, bet.participant, sportConfig);
+  // Get stat value for the participant - in totals mode, the sum over every participant
+  const participants = getThresholdParticipants(bet);
+  const components: Array<{ subject_id: string; subject_name: string; stat: number }> = [];
   
-  console.log(`[resolveThresholdBet] Extracted stat: ${stat}`);
+  for (const participant of participants) {
+    console.log(`[resolveThresholdBet] Extracting stat for participant ${participant.subject_name}...`);
+    const participantStat = getParticipantStat(gameData, participant, sportConfig);
+    
+    console.log(`[resolveThresholdBet] Extracted stat: ${participantStat}`);
+    
+    if (participantStat === null || participantStat === undefined) {
+      const reason = participants.length > 1
+        ? `Could not extract stat for participant: ${participant.subject_name}`
+        : `Could not extract stat for participant`;
+      console.log(`[resolveThresholdBet] ❌ ${reason}`);
+      return {
+        resolved: false,
+        reason
+      };
+    }
+    
+    components.push({
+      subject_id: participant.subject_id,
+      subject_name: participant.subject_name,
+      stat: Number(participantStat)
+    });
+  }
   
-  if (stat === null) {
-    const reason = `Could not extract stat for participant`;
-    console.log(`[resolveThresholdBet] ❌ ${reason}`);
-    return {
-      resolved: false,
-      reason
-    };
+  const stat = components.reduce((sum, component) => sum + component.stat, 0);
+  
+  if (participants.length > 1) {
+    console.log(`[resolveThresholdBet] Total over ${participants.length} participants: ${stat}`);
   }
   
   // Determine outcome based on operator
@@ -492,6 +548,8 @@ function resolveThresholdBet(
         metric: bet.participant.metric,
         time_period: bet.participant.time_period
       },
+      // Totals mode: each participant's share of the total in participant.stat
+      ...(participants.length > 1 && { components }),
       operator: bet.operator,
       threshold: bet.threshold
     }
@@ -501,6 +559,134 @@ function resolveThresholdBet(
   return result;
 }
 
+/**
+ * Resolve an event bet (double-double, goes to OT, scores first, etc.)
+ * Outcome is from the "yes" side: win if the event happened, loss if it didn't
+ */
+function resolveEventBet(
+  bet: EventConfig,
+  gameData: any,
+  sportConfig: SportConfig
+): ResolutionResult {
+  console.log('\n[resolveEventBet] ===== Starting event bet resolution =====');
+  console.log('[resolveEventBet] Bet config:', JSON.stringify(bet, null, 2));
+
+  const period = sportConfig.time_periods.find(tp => tp.value === bet.time_period);
+
+  if (!period?.betEndPointKey) {
+    const reason = `Missing bet end point configuration for time period: ${bet.time_period}`;
+    console.log(`[resolveEventBet] ❌ ${reason}`);
+    return {
+      resolved: false,
+      reason
+    };
+  }
+
+  // Events are only decided once the period is over (a player can still get a double-double late)
+  const periodComplete = checkBetEndPoint(gameData, period.betEndPointKey);
+  console.log(`[resolveEventBet] Period completion status: ${periodComplete}`);
+
+  if (!periodComplete) {
+    const reason = `Period not complete: ${bet.time_period}=${periodComplete}`;
+    console.log(`[resolveEventBet] ❌ ${reason}`);
+    return {
+      resolved: false,
+      reason
+    };
+  }
+
+  const evaluator = getEventEvaluator(sportConfig, bet.event_type);
+  if (!evaluator) {
+    const reason = `Event type ${bet.event_type} is not supported for ${sportConfig.display_name}`;
+    console.log(`[resolveEventBet] ❌ ${reason}`);
+    return {
+      resolved: false,
+      reason
+    };
+  }
+
+  const evaluation = evaluator(gameData, bet, sportConfig);
+  console.log(`[resolveEventBet] Evaluation:`, evaluation);
+
+  if (evaluation.occurred === null) {
+    const reason = evaluation.reason || `Could not determine if ${bet.event_type} happened`;
+    console.log(`[resolveEventBet] ❌ ${reason}`);
+    return {
+      resolved: false,
+      reason
+    };
+  }
+
+  const outcome: 'win' | 'loss' = evaluation.occurred ? 'win' : 'loss';
+  console.log(`[resolveEventBet] ✅ Outcome determined: ${outcome}`);
+
+  const competition = gameData?.header?.competitions?.find((c: any) => String(c.id) === String(gameData?.header?.id));
+  const resolutionEventTime = competition?.date ? new Date(competition.date) : new Date();
+
+  let resolutionUTCTime: Date | undefined;
+  if (sportConfig.getResolutionUTCTime) {
+    resolutionUTCTime = sportConfig.getResolutionUTCTime(gameData, bet.time_period) || resolutionEventTime;
+  } else {
+    console.log(`[resolveEventBet] ⚠️  Sport config does not have getResolutionUTCTime, using event date as fallback`);
+    resolutionUTCTime = resolutionEventTime;
+  }
+
+  const result = {
+    resolved: true,
+    outcome,
+    resolutionEventTime,
+    resolutionUTCTime,
+    resolutionQuarter: bet.time_period,
+    resolutionStatSnapshot: {
+      event_type: bet.event_type,
+      occurred: evaluation.occurred,
+      participant: {
+        subject_type: bet.participant?.subject_type,
+        subject_id: bet.participant?.subject_id,
+        subject_name: bet.participant?.subject_name
+      },
+      time_period: bet.time_period,
+      details: evaluation.details
+    }
+  };
+
+  console.log(`[resolveEventBet] ===== Resolution complete =====\n`);
+  return result;
+}
+
+/**
+ * Get the time periods a bet depends on
+ */
+export function getBetTimePeriods(betConfig: BetConfig): TimePeriod[] {
+  if (betConfig.type === 'COMPARISON') {
+    return [betConfig.participant_1.time_period, betConfig.participant_2.time_period];
+  }
+
+  if (betConfig.type === 'THRESHOLD') {
+    return getThresholdParticipants(betConfig).map(participant => participant.time_period);
+  }
+
+  return [betConfig.time_period];
+}
+
+/**
+ * Check if every period a bet depends on has ended (so a Q1 prop is ready at the end of Q1)
+ * Periods without a bet end point count as reached, so resolveBet reports the missing config
+ */
+export function isBetEndPointReached(
+  betConfig: BetConfig,
+  gameData: any,
+  sportConfig: SportConfig
+): boolean {
+  return getBetTimePeriods(betConfig).every(timePeriod => {
+    const period = sportConfig.time_periods.find(tp => tp.value === timePeriod);
+    if (!period?.betEndPointKey) {
+      return true;
+    }
+    return checkBetEndPoint(gameData, period.betEndPointKey);
+  });
+}
+
 /**
  * Main resolution function
  */
@@ -514,6 +700,17 @@ export function resolveBet(
   console.log('[resolveBet] Bet type:', betConfig.type);
   console.log('[resolveBet] Sport config:', sportConfig.sport_key);
   console.log('═══════════════════════════════════════════════════════════\n');
+
+  // Time periods are declared per sport (e.g. innings for baseball)
+  const unknownPeriods = getBetTimePeriods(betConfig).filter(tp => !getTimePeriodConfig(sportConfig, tp));
+  if (unknownPeriods.length > 0) {
+    const reason = `Time period not available for ${sportConfig.sport_key}: ${unknownPeriods.join(', ')}`;
+    console.log(`[resolveBet] ❌ ${reason}`);
+    return {
+      resolved: false,
+      reason
+    };
+  }
   
   if (betConfig.type === 'COMPARISON') {
     return resolveComparisonBet(betConfig, gameData, sportConfig);
@@ -523,8 +720,11 @@ export function resolveBet(
     return resolveThresholdBet(betConfig, gameData, sportConfig);
   }
   
-  // TODO: Implement EVENT bet type
-  const reason = `Bet type ${betConfig.type} not yet implemented`;
+  if (betConfig.type === 'EVENT') {
+    return resolveEventBet(betConfig, gameData, sportConfig);
+  }
+
+  const reason = `Bet type ${(betConfig as BetConfig).type} not yet implemented`;
   console.log(`[resolveBet] ❌ ${reason}`);
   return {
     resolved: false,
@@ -0,0 +1,33 @@
+/**
+ * Bet side utilities
+ * The sides a user can pick for each bet type
+ */
+
+import type { BetConfig } from '../types/bets';
+
+export const DRAW_SIDE = 'draw';
+
+/**
+ * Check if a bet is a three-way comparison (participant_1 / draw / participant_2)
+ */
+export function isThreeWayBet(betType: string, config?: Partial<BetConfig> | null): boolean {
+  return betType === 'COMPARISON' && !!(config as any)?.allow_draw;
+}
+
+/**
+ * Get the sides a user can select for a bet
+ */
+export function getValidSides(betType: string, config?: Partial<BetConfig> | null): string[] {
+  if (betType === 'COMPARISON') {
+    return isThreeWayBet(betType, config)
+      ? ['participant_1', DRAW_SIDE, 'participant_2']
+      : ['participant_1', 'participant_2'];
+  }
+  if (betType === 'THRESHOLD') {
+    return ['over', 'under'];
+  }
+  if (betType === 'EVENT') {
+    return ['yes', 'no'];
+  }
+  return [];
+}
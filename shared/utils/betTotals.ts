@@ -0,0 +1,32 @@
+/**
+ * Totals bet utilities
+ * A totals bet is a threshold bet on the combined stat of several participants (e.g. game total)
+ */
+
+import type { Participant, ThresholdConfig } from '../types/bets';
+
+// Upper bound on participants summed by one bet, so display text stays readable
+export const MAX_TOTAL_PARTICIPANTS = 6;
+
+/**
+ * Check if a bet is a totals bet (threshold over the sum of several participants)
+ */
+export function isTotalsBet(betType: string, config?: Partial<ThresholdConfig> | null): boolean {
+  return betType === 'THRESHOLD' && Array.isArray(config?.total_with) && config.total_with.length > 0;
+}
+
+/**
+ * Get every participant whose stat counts towards a threshold bet
+ */
+export function getThresholdParticipants(config: ThresholdConfig): Participant[] {
+  return [config.participant, ...(config.total_with ?? [])];
+}
+
+/**
+ * Check if a totals bet sums both teams' scores, i.e. it's a standard game total
+ */
+export function isGameTotal(config: ThresholdConfig, scoreMetric: string): boolean {
+  const participants = getThresholdParticipants(config);
+  return participants.length === 2 &&
+    participants.every(p => p.subject_type === 'TEAM' && p.metric === scoreMetric);
+}
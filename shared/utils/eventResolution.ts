@@ -0,0 +1,271 @@
+/**
+ * Event bet evaluation utilities
+ * Generic evaluators for EVENT bets that work off ESPN game data for any sport.
+ * Sports override these (or add sport-only events) through SportConfig.eventEvaluators
+ */
+
+import { EventConfig, EventType, SubjectType, TimePeriod } from '../types/bets';
+import type { SportConfig, EventEvaluator, EventEvaluationResult } from '../types/sports';
+import { getDeclaredPeriodNumbers } from './timePeriods';
+
+/**
+ * Get the competition for this game (matched by header.id, same as stat extraction)
+ */
+export function getCompetition(gameData: any): any {
+  const gameId = gameData?.header?.id;
+  const competitions = gameData?.header?.competitions || gameData?.competitions;
+  if (!competitions || !Array.isArray(competitions)) {
+    return undefined;
+  }
+  return competitions.find((c: any) => String(c.id) === String(gameId)) || competitions[0];
+}
+
+/**
+ * Map a time period to ESPN period numbers
+ * Periods the sport declares itself (innings) win, otherwise the quarters model is used
+ * Returns null for FULL_GAME (every period counts)
+ */
+export function getPeriodNumbers(timePeriod: TimePeriod | undefined, plays: any[] = [], sportConfig?: SportConfig): number[] | null {
+  if (timePeriod && sportConfig) {
+    const playedPeriods = plays.map(p => p.period?.number).filter((num): num is number => num !== undefined);
+    const declared = getDeclaredPeriodNumbers(sportConfig, timePeriod, playedPeriods);
+    if (declared) {
+      return declared;
+    }
+  }
+
+  switch (timePeriod) {
+    case 'Q1':
+      return [1];
+    case 'Q2':
+      return [2];
+    case 'Q3':
+      return [3];
+    case 'Q4':
+      return [4];
+    case 'H1':
+      return [1, 2];
+    case 'H2':
+      return [3, 4];
+    case 'OT':
+      // Overtime periods are everything after regulation
+      return plays
+        .map(p => p.period?.number)
+        .filter((num): num is number => num !== undefined && num >= 5)
+        .filter((num, index, arr) => arr.indexOf(num) === index);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get a metric value through the sport config's stat fetchers
+ * Derived metrics are the weighted sum of their components, and null if any component is
+ */
+export function getMetricValue(
+  gameData: any,
+  sportConfig: SportConfig,
+  subjectId: string,
+  subjectType: SubjectType,
+  metricValue: string,
+  timePeriod: TimePeriod
+): number | null {
+  const metric = sportConfig.metrics.find(m => m.value === metricValue);
+  if (!metric) {
+    return null;
+  }
+
+  if (metric.components) {
+    let total = 0;
+    for (const component of metric.components) {
+      // A derived metric never lists itself, but guard against a misconfigured cycle
+      if (component.metric === metricValue) {
+        return null;
+      }
+      const value = getMetricValue(gameData, sportConfig, subjectId, subjectType, component.metric, timePeriod);
+      if (value === null || value === undefined || isNaN(Number(value))) {
+        return null;
+      }
+      total += Number(value) * (component.weight ?? 1);
+    }
+    // Weights like 1.2 leave float noise (e.g. 12.000000000000002)
+    return Math.round(total * 100) / 100;
+  }
+
+  if (typeof metric.endGameStatFetchKey !== 'function') {
+    return null;
+  }
+  return metric.endGameStatFetchKey(gameData, subjectId, subjectType, timePeriod);
+}
+
+/**
+ * Scoring plays in a time period, in game order
+ * Uses the summary's scoringPlays list when present (football), otherwise play-by-play
+ */
+function getScoringPlays(gameData: any, timePeriod: TimePeriod, sportConfig?: SportConfig): any[] {
+  const plays = Array.isArray(gameData?.scoringPlays)
+    ? gameData.scoringPlays
+    : (Array.isArray(gameData?.plays) ? gameData.plays.filter((p: any) => p.scoringPlay) : []);
+
+  const periodNumbers = getPeriodNumbers(timePeriod, gameData?.plays || plays, sportConfig);
+  if (!periodNumbers) {
+    return plays;
+  }
+
+  return plays.filter((play: any) => periodNumbers.includes(play.period?.number));
+}
+
+/**
+ * Check if a play belongs to the bet's participant (team, or player as the first participant)
+ */
+function isParticipantPlay(play: any, config: EventConfig): boolean {
+  const { subject_type, subject_id, subject_name } = config.participant;
+
+  if (subject_type === 'TEAM') {
+    return String(play.team?.id) === String(subject_id);
+  }
+
+  const athleteIds = (play.participants || []).map((p: any) => String(p.athlete?.id));
+  if (athleteIds.length > 0) {
+    return athleteIds[0] === String(subject_id);
+  }
+
+  // Summary scoring plays don't always list participants - fall back to the play text,
+  // where ESPN lists the scorer first ("Travis Kelce 12 Yd pass from Patrick Mahomes")
+  return !!subject_name && typeof play.text === 'string' && play.text.startsWith(subject_name);
+}
+
+/**
+ * SCORES_FIRST - the participant makes the first score of the time period
+ */
+export const scoresFirstEvaluator: EventEvaluator = (gameData, config, sportConfig) => {
+  const scoringPlays = getScoringPlays(gameData, config.time_period, sportConfig);
+  const firstScore = scoringPlays[0];
+
+  if (!firstScore) {
+    // Nobody scored in the period
+    return { occurred: false, details: { firstScore: null } };
+  }
+
+  return {
+    occurred: isParticipantPlay(firstScore, config),
+    details: {
+      firstScore: {
+        text: firstScore.text,
+        teamId: firstScore.team?.id,
+        period: firstScore.period?.number
+      }
+    }
+  };
+};
+
+/**
+ * SCORES_TD - the participant scores a touchdown in the time period
+ */
+export const scoresTouchdownEvaluator: EventEvaluator = (gameData, config, sportConfig) => {
+  const touchdowns = getScoringPlays(gameData, config.time_period, sportConfig).filter((play: any) => {
+    const typeText = `${play.type?.text || ''} ${play.scoringType?.name || ''}`.toLowerCase();
+    return typeText.includes('touchdown');
+  });
+
+  const participantTouchdowns = touchdowns.filter((play: any) => isParticipantPlay(play, config));
+
+  return {
+    occurred: participantTouchdowns.length > 0,
+    details: {
+      touchdowns: participantTouchdowns.length,
+      totalTouchdowns: touchdowns.length
+    }
+  };
+};
+
+/**
+ * SHUTOUT - the participant team holds its opponent scoreless for the time period
+ */
+export const shutoutEvaluator: EventEvaluator = (gameData, config, sportConfig) => {
+  if (config.participant.subject_type !== 'TEAM') {
+    return { occurred: null, reason: 'SHUTOUT bets require a team participant' };
+  }
+
+  const competition = getCompetition(gameData);
+  const opponent = competition?.competitors?.find((c: any) => String(c.team?.id) !== String(config.participant.subject_id));
+  if (!opponent?.team?.id) {
+    return { occurred: null, reason: `Could not find opponent of team ${config.participant.subject_id}` };
+  }
+
+  const opponentPoints = getMetricValue(gameData, sportConfig, String(opponent.team.id), 'TEAM', sportConfig.score_metric || 'points', config.time_period);
+  if (opponentPoints === null) {
+    return { occurred: null, reason: `Could not extract opponent score for ${config.time_period}` };
+  }
+
+  return {
+    occurred: opponentPoints === 0,
+    details: { opponentTeamId: opponent.team.id, opponentPoints }
+  };
+};
+
+/**
+ * GAME_GOES_TO_OT - ESPN marks overtime finals in the status detail ("Final/OT", "Final/2OT")
+ */
+export const goesToOvertimeEvaluator: EventEvaluator = (gameData) => {
+  const status = getCompetition(gameData)?.status;
+  const detail = `${status?.type?.detail || ''} ${status?.type?.shortDetail || ''}`;
+
+  return {
+    occurred: /\d*OT\b|overtime/i.test(detail),
+    details: { statusDetail: status?.type?.detail || null }
+  };
+};
+
+/**
+ * Build an evaluator for double-double style events: at least `required` of the
+ * categories reach double digits for a player in the time period
+ */
+export function createDoubleDigitEvaluator(categories: string[], required: number): EventEvaluator {
+  return (gameData, config, sportConfig): EventEvaluationResult => {
+    if (config.participant.subject_type !== 'PLAYER') {
+      return { occurred: null, reason: `${config.event_type} bets require a player participant` };
+    }
+
+    const stats: Record<string, number | null> = {};
+    for (const category of categories) {
+      stats[category] = getMetricValue(
+        gameData,
+        sportConfig,
+        config.participant.subject_id,
+        'PLAYER',
+        category,
+        config.time_period
+      );
+    }
+
+    // A player missing from the data entirely (didn't play) can't be decided automatically
+    if (Object.values(stats).every(value => value === null)) {
+      return { occurred: null, reason: `No stats found for player ${config.participant.subject_name}` };
+    }
+
+    const doubleDigitCategories = categories.filter(category => (stats[category] ?? 0) >= 10);
+
+    return {
+      occurred: doubleDigitCategories.length >= required,
+      details: { stats, doubleDigitCategories }
+    };
+  };
+}
+
+/**
+ * Evaluators used when a sport doesn't provide its own
+ */
+export const DEFAULT_EVENT_EVALUATORS: Partial<Record<EventType, EventEvaluator>> = {
+  SCORES_FIRST: scoresFirstEvaluator,
+  SCORES_TD: scoresTouchdownEvaluator,
+  SHUTOUT: shutoutEvaluator,
+  GAME_GOES_TO_OT: goesToOvertimeEvaluator
+};
+
+/**
+ * Get the evaluator for an event type, preferring the sport's own
+ */
+export function getEventEvaluator(sportConfig: SportConfig, eventType: EventType): EventEvaluator | undefined {
+  return sportConfig.eventEvaluators?.[eventType] || DEFAULT_EVENT_EVALUATORS[eventType];
+}
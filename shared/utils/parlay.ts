@@ -1,33 +1,35 @@
-import { PARLAY_VALUES, BASE_INSURANCE_COSTS, INSURANCE_MULTIPLIERS } from '../constants/game';
+import type { GameRules, InsuranceTier } from '../types';
 
 /**
  * Calculate parlay value based on number of bets
  */
-export function calculateParlayValue(betCount: number): number {
-  return PARLAY_VALUES[betCount as keyof typeof PARLAY_VALUES] || 0;
+export function calculateParlayValue(betCount: number, rules: GameRules): number {
+  return rules.parlayValues[betCount] || 0;
 }
 
 /**
- * Calculate insurance cost based on bet count and current streak
+ * Check if insurance is available for a parlay
  */
-export function calculateInsuranceCost(betCount: number, currentStreak: number): number {
-  // Insurance only available for 4 or 5 bet parlays
-  if (betCount !== 4 && betCount !== 5) {
-    return 0;
-  }
+export function isInsuranceEligible(betCount: number, rules: GameRules): boolean {
+  return rules.insurance.eligibleLegCounts.includes(betCount);
+}
 
-  const baseCost = BASE_INSURANCE_COSTS[betCount as keyof typeof BASE_INSURANCE_COSTS];
-  
-  // Find applicable multiplier
-  const tier = INSURANCE_MULTIPLIERS.find(
-    (tier) => currentStreak >= tier.min && currentStreak <= tier.max
-  );
+/**
+ * Get insurance tier for current streak
+ */
+export function getInsuranceTier(currentStreak: number, rules: GameRules): InsuranceTier | undefined {
+  return [...rules.insurance.tiers].reverse().find((tier) => currentStreak >= tier.minStreak);
+}
 
-  if (!tier) {
+/**
+ * Calculate insurance cost based on bet count and current streak
+ */
+export function calculateInsuranceCost(betCount: number, currentStreak: number, rules: GameRules): number {
+  if (!isInsuranceEligible(betCount, rules)) {
     return 0;
   }
 
-  return Math.round(baseCost * tier.multiplier);
+  return getInsuranceTier(currentStreak, rules)?.costs[betCount] ?? 0;
 }
 
 /**
@@ -37,10 +39,11 @@ export function calculateInsuranceCost(betCount: number, currentStreak: number):
 export function calculateInsuredParlayNet(
   betCount: number,
   currentStreak: number,
-  won: boolean
+  won: boolean,
+  rules: GameRules
 ): number {
-  const parlayValue = calculateParlayValue(betCount);
-  const insuranceCost = calculateInsuranceCost(betCount, currentStreak);
+  const parlayValue = calculateParlayValue(betCount, rules);
+  const insuranceCost = calculateInsuranceCost(betCount, currentStreak, rules);
 
   if (won) {
     return parlayValue - insuranceCost;
@@ -48,20 +51,3 @@ export function calculateInsuredParlayNet(
     return -insuranceCost;
   }
 }
-
-/**
- * Check if insurance is available for a parlay
- */
-export function isInsuranceEligible(betCount: number): boolean {
-  return betCount === 4 || betCount === 5;
-}
-
-/**
- * Get insurance tier info for current streak
- */
-export function getInsuranceTier(currentStreak: number) {
-  return INSURANCE_MULTIPLIERS.find(
-    (tier) => currentStreak >= tier.min && currentStreak <= tier.max
-  );
-}
-
@@ -0,0 +1,34 @@
+/**
+ * Permission utilities
+ * Shared so clients hide the same controls the backend would reject
+ */
+
+import { ROLE_PERMISSIONS, USER_ROLES } from '../constants/permissions';
+import type { Permission, UserRole } from '../types';
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * All permissions granted by a set of roles (unknown roles grant nothing)
+ */
+export function getPermissionsForRoles(roles: readonly string[]): Permission[] {
+  const permissions = new Set<Permission>();
+  for (const role of roles) {
+    if (isUserRole(role)) {
+      ROLE_PERMISSIONS[role].forEach(permission => permissions.add(permission));
+    }
+  }
+  return [...permissions];
+}
+
+/**
+ * Whether the permissions include at least one of those required
+ */
+export function hasAnyPermission(
+  permissions: readonly Permission[] | undefined,
+  ...required: Permission[]
+): boolean {
+  return !!permissions && required.some(permission => permissions.includes(permission));
+}
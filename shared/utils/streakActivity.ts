@@ -0,0 +1,37 @@
+/**
+ * Streak activity utilities
+ * Human-readable descriptions of streak history entries (league activity feeds)
+ */
+
+import type { LeagueActivityItem } from '../types';
+
+/**
+ * Describe a streak change, without the username
+ * e.g. "won a parlay (+4, streak 12)" or "lost a bet (streak reset from 7)"
+ */
+export function describeStreakChange(item: Pick<LeagueActivityItem, 'changeType' | 'oldStreak' | 'newStreak' | 'changeAmount'>): string {
+  const amount = item.changeAmount > 0 ? `+${item.changeAmount}` : `${item.changeAmount}`;
+
+  switch (item.changeType) {
+    case 'parlay_win':
+      return `won a parlay (${amount}, streak ${item.newStreak})`;
+    case 'bet_win':
+      return `won a bet (${amount}, streak ${item.newStreak})`;
+    case 'parlay_loss':
+      return item.newStreak === 0 && item.oldStreak > 0
+        ? `lost a parlay (streak reset from ${item.oldStreak})`
+        : `lost a parlay (streak ${item.newStreak})`;
+    case 'bet_loss':
+      return item.newStreak === 0 && item.oldStreak > 0
+        ? `lost a bet (streak reset from ${item.oldStreak})`
+        : `lost a bet (streak ${item.newStreak})`;
+    case 'insurance_deducted':
+      return `insured a parlay (${amount}, streak ${item.newStreak})`;
+    case 'insurance_refunded':
+      return `got insurance refunded (${amount}, streak ${item.newStreak})`;
+    case 'reversal':
+      return `had a bet result changed (streak ${item.oldStreak} → ${item.newStreak})`;
+    default:
+      return `had a streak correction (${item.oldStreak} → ${item.newStreak})`;
+  }
+}
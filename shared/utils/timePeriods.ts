@@ -0,0 +1,56 @@
+/**
+ * Time period utilities
+ * Lookups for the time periods a sport declares in its config
+ */
+
+import { TimePeriod } from '../types/bets';
+import type { SportConfig, SportTimePeriod } from '../types/sports';
+
+// Short labels for the built-in periods, used when a sport doesn't declare one
+const DEFAULT_SHORT_LABELS: Record<string, string> = {
+  'FULL_GAME': 'Full Game',
+  'H1': '1H',
+  'H2': '2H'
+};
+
+/**
+ * Get a sport's config for a time period, or undefined if the sport doesn't offer it
+ */
+export function getTimePeriodConfig(sportConfig: SportConfig, timePeriod: TimePeriod): SportTimePeriod | undefined {
+  return sportConfig.time_periods.find(tp => tp.value === timePeriod);
+}
+
+/**
+ * Get the ESPN period numbers a sport declares for a time period
+ * periods_after is resolved against the periods actually played (e.g. innings 10+ for extras)
+ * Returns null when the sport doesn't declare period numbers for it
+ */
+export function getDeclaredPeriodNumbers(
+  sportConfig: SportConfig,
+  timePeriod: TimePeriod,
+  playedPeriods: number[] = []
+): number[] | null {
+  const period = getTimePeriodConfig(sportConfig, timePeriod);
+
+  if (period?.period_numbers) {
+    return period.period_numbers;
+  }
+
+  if (period?.periods_after !== undefined) {
+    const after = period.periods_after;
+    return playedPeriods
+      .filter(num => num > after)
+      .filter((num, index, arr) => arr.indexOf(num) === index);
+  }
+
+  return null;
+}
+
+/**
+ * Format a time period for bet display text (e.g. "1H", "F5")
+ * Uses the sport's short label when one is declared
+ */
+export function formatTimePeriodLabel(period: TimePeriod, sportConfig?: SportConfig): string {
+  const declared = sportConfig ? getTimePeriodConfig(sportConfig, period) : undefined;
+  return declared?.short_label || DEFAULT_SHORT_LABELS[period] || period;
+}
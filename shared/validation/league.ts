@@ -0,0 +1,29 @@
+/**
+ * Shared validation rules for leagues
+ * Used by both backend and frontend (for client-side validation)
+ */
+
+export const LEAGUE_VALIDATION = {
+  name: {
+    minLength: 3,
+    maxLength: 50,
+  },
+  inviteCode: {
+    length: 8,
+    // No 0/O or 1/I/L, so codes survive being read out loud
+    alphabet: 'ABCDEFGHJKMNPQRSTUVWXYZ23456789',
+  },
+} as const;
+
+export const validateLeagueName = (name: string): string | null => {
+  const trimmed = name.trim();
+  if (trimmed.length < LEAGUE_VALIDATION.name.minLength) {
+    return `League name must be at least ${LEAGUE_VALIDATION.name.minLength} characters`;
+  }
+  if (trimmed.length > LEAGUE_VALIDATION.name.maxLength) {
+    return `League name must be no more than ${LEAGUE_VALIDATION.name.maxLength} characters`;
+  }
+  return null;
+};
+
+export const normalizeInviteCode = (code: string): string => code.trim().toUpperCase();
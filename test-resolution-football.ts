@@ -0,0 +1,153 @@
+/**
+ * Test script for football bet resolution
+ * Run with: npx ts-node test-resolution-football.ts (exits non-zero if any check fails)
+ *
+ * Resolves bets against fixtures/espn/nfl-summary-final.json, a trimmed ESPN NFL summary
+ * (site.api.espn.com/.../football/nfl/summary?event=<id>) of a final: Bills 24 @ Chiefs 27,
+ * quarters 3-7-7-7 and 7-10-3-7. Only the parts football resolution reads are kept - the
+ * competition header, boxscore teams and players, drives and scoringPlays.
+ */
+
+import assert from 'assert';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { resolveBet } from './shared/utils/betResolution';
+import { FOOTBALL_CONFIG } from './shared/config/sports/football';
+import { ComparisonConfig, ThresholdConfig, EventConfig, BetConfig, Participant, TimePeriod } from './shared/types/bets';
+
+const gameData = JSON.parse(readFileSync(join(__dirname, 'fixtures/espn/nfl-summary-final.json'), 'utf-8'));
+
+// Team and player IDs from the fixture
+const CHIEFS_ID = '12';
+const BILLS_ID = '2';
+const PATRICK_MAHOMES_ID = '3139477';
+const TRAVIS_KELCE_ID = '15847';
+const JOSH_ALLEN_ID = '3918298';
+const CHRIS_JONES_ID = '16757';
+const TRENT_MCDUFFIE_ID = '4362921';
+
+const team = (id: string, metric: string, time_period: TimePeriod = 'FULL_GAME'): Participant => ({
+  subject_type: 'TEAM',
+  subject_id: id,
+  subject_name: id === CHIEFS_ID ? 'Kansas City Chiefs' : 'Buffalo Bills',
+  metric,
+  time_period
+});
+
+const player = (id: string, name: string, metric: string): Participant => ({
+  subject_type: 'PLAYER',
+  subject_id: id,
+  subject_name: name,
+  metric,
+  time_period: 'FULL_GAME'
+});
+
+const comparison = (participant_1: Participant, participant_2: Participant): ComparisonConfig => ({
+  type: 'COMPARISON',
+  participant_1,
+  participant_2,
+  operator: 'GREATER_THAN'
+});
+
+const overThreshold = (participant: Participant, threshold: number): ThresholdConfig => ({
+  type: 'THRESHOLD',
+  participant,
+  operator: 'OVER',
+  threshold
+});
+
+const event = (participant: Participant, event_type: EventConfig['event_type'], time_period: TimePeriod = 'FULL_GAME'): EventConfig => ({
+  type: 'EVENT',
+  participant: { ...participant, time_period },
+  event_type,
+  time_period
+});
+
+let failures = 0;
+
+function check(label: string, bet: BetConfig, expected: { outcome: string; stats?: number[]; occurred?: boolean }) {
+  const result = resolveBet(bet, gameData, FOOTBALL_CONFIG);
+  const snapshot = result.resolutionStatSnapshot as any;
+
+  try {
+    assert.strictEqual(result.resolved, true, result.reason);
+    assert.strictEqual(result.outcome, expected.outcome);
+
+    if (expected.stats) {
+      const stats = bet.type === 'COMPARISON'
+        ? [snapshot.participant_1.stat, snapshot.participant_2.stat]
+        : [snapshot.participant.stat];
+      assert.deepStrictEqual(stats, expected.stats);
+    }
+    if (expected.occurred !== undefined) {
+      assert.strictEqual(snapshot.occurred, expected.occurred);
+    }
+    console.log(`✅ ${label}`);
+  } catch (error: any) {
+    failures++;
+    console.log(`❌ ${label}: ${error.message}`);
+  }
+}
+
+// Team points by period, from the quarter linescores
+check('Chiefs vs Bills points (FULL_GAME)', comparison(team(CHIEFS_ID, 'points'), team(BILLS_ID, 'points')), { outcome: 'win', stats: [27, 24] });
+check('Chiefs vs Bills points (Q1)', comparison(team(CHIEFS_ID, 'points', 'Q1'), team(BILLS_ID, 'points', 'Q1')), { outcome: 'win', stats: [7, 3] });
+check('Chiefs vs Bills points (H1)', comparison(team(CHIEFS_ID, 'points', 'H1'), team(BILLS_ID, 'points', 'H1')), { outcome: 'win', stats: [17, 10] });
+check('Chiefs vs Bills points (H2)', comparison(team(CHIEFS_ID, 'points', 'H2'), team(BILLS_ID, 'points', 'H2')), { outcome: 'loss', stats: [10, 14] });
+
+// Boxscore metrics
+check('Mahomes vs Allen passing yards', comparison(
+  player(PATRICK_MAHOMES_ID, 'Patrick Mahomes', 'passing_yards'),
+  player(JOSH_ALLEN_ID, 'Josh Allen', 'passing_yards')
+), { outcome: 'win', stats: [276, 262] });
+check('Chiefs rushing yards OVER 100.5', overThreshold(team(CHIEFS_ID, 'rushing_yards'), 100.5), { outcome: 'win', stats: [113] });
+check('Bills sacks OVER 1.5 (from the Chiefs\' sacks-yards lost)', overThreshold(team(BILLS_ID, 'sacks'), 1.5), { outcome: 'win', stats: [2] });
+check('Chiefs interceptions OVER 0.5 (thrown by the Bills)', overThreshold(team(CHIEFS_ID, 'interceptions'), 0.5), { outcome: 'win', stats: [1] });
+check('Chris Jones sacks OVER 1.5', overThreshold(player(CHRIS_JONES_ID, 'Chris Jones', 'sacks'), 1.5), { outcome: 'win', stats: [2] });
+check('Trent McDuffie interceptions OVER 0.5', overThreshold(player(TRENT_MCDUFFIE_ID, 'Trent McDuffie', 'interceptions'), 0.5), { outcome: 'win', stats: [1] });
+check('Travis Kelce receptions OVER 5.5', overThreshold(player(TRAVIS_KELCE_ID, 'Travis Kelce', 'receptions'), 5.5), { outcome: 'win', stats: [7] });
+check('Travis Kelce receiving yards OVER 90.5', overThreshold(player(TRAVIS_KELCE_ID, 'Travis Kelce', 'receiving_yards'), 90.5), { outcome: 'loss', stats: [81] });
+check('Josh Allen interceptions thrown OVER 0.5', overThreshold(player(JOSH_ALLEN_ID, 'Josh Allen', 'interceptions_thrown'), 0.5), { outcome: 'win', stats: [1] });
+check('Mahomes passing TDs OVER 1.5', overThreshold(player(PATRICK_MAHOMES_ID, 'Patrick Mahomes', 'passing_touchdowns'), 1.5), { outcome: 'win', stats: [2] });
+
+// Touchdowns: players add rushing and receiving, teams count scoring plays
+check('Josh Allen touchdowns OVER 0.5 (rushing)', overThreshold(player(JOSH_ALLEN_ID, 'Josh Allen', 'touchdowns'), 0.5), { outcome: 'win', stats: [1] });
+check('Travis Kelce touchdowns OVER 1.5', overThreshold(player(TRAVIS_KELCE_ID, 'Travis Kelce', 'touchdowns'), 1.5), { outcome: 'loss', stats: [1] });
+check('Chiefs touchdowns OVER 2.5', overThreshold(team(CHIEFS_ID, 'touchdowns'), 2.5), { outcome: 'win', stats: [3] });
+check('Bills touchdowns (H2) OVER 1.5', overThreshold(team(BILLS_ID, 'touchdowns', 'H2'), 1.5), { outcome: 'win', stats: [2] });
+
+// Events
+check('Travis Kelce scores a TD', event(player(TRAVIS_KELCE_ID, 'Travis Kelce', 'touchdowns'), 'SCORES_TD'), { outcome: 'win', occurred: true });
+check('Josh Allen scores a TD (rushing)', event(player(JOSH_ALLEN_ID, 'Josh Allen', 'touchdowns'), 'SCORES_TD'), { outcome: 'win', occurred: true });
+check('Patrick Mahomes scores a TD (only threw them)', event(player(PATRICK_MAHOMES_ID, 'Patrick Mahomes', 'touchdowns'), 'SCORES_TD'), { outcome: 'loss', occurred: false });
+check('Bills score a TD in Q1 (field goal only)', event(team(BILLS_ID, 'touchdowns'), 'SCORES_TD', 'Q1'), { outcome: 'loss', occurred: false });
+check('Bills score first in Q1', event(team(BILLS_ID, 'points'), 'SCORES_FIRST', 'Q1'), { outcome: 'win', occurred: true });
+check('Chiefs shutout', event(team(CHIEFS_ID, 'points'), 'SHUTOUT'), { outcome: 'loss', occurred: false });
+check('Game goes to OT', event(team(CHIEFS_ID, 'points'), 'GAME_GOES_TO_OT'), { outcome: 'loss', occurred: false });
+
+// Periods resolve at the wallclock of their last play
+const expectedResolutionTimes: Partial<Record<TimePeriod, string>> = {
+  Q1: '2025-01-26T20:52:10.000Z',
+  Q2: '2025-01-26T21:40:00.000Z',
+  H1: '2025-01-26T21:40:00.000Z',
+  Q3: '2025-01-26T22:25:30.000Z',
+  Q4: '2025-01-26T23:18:45.000Z',
+  H2: '2025-01-26T23:18:45.000Z',
+  FULL_GAME: '2025-01-26T23:18:45.000Z'
+};
+
+for (const [period, expected] of Object.entries(expectedResolutionTimes)) {
+  const actual = FOOTBALL_CONFIG.getResolutionUTCTime?.(gameData, period as TimePeriod)?.toISOString();
+  if (actual === expected) {
+    console.log(`✅ ${period} resolves at ${actual}`);
+  } else {
+    failures++;
+    console.log(`❌ ${period} resolves at ${actual}, expected ${expected}`);
+  }
+}
+
+if (failures > 0) {
+  console.log(`\n${failures} football resolution check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll football resolution checks passed');